@@ -0,0 +1,241 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+import fs from "fs";
+import os from "os";
+
+/**
+ * GitLab request made while handling a tool call
+ */
+export interface AuditedRequest {
+  method: string;
+  path: string; // Relative to /api/v4
+  status?: number; // Missing if no response was received
+}
+
+/**
+ * One line of the audit log
+ */
+export interface AuditEntry {
+  timestamp: string;
+  tool: string;
+  client?: { name: string; version: string };
+  project?: string;
+  arguments: unknown;
+  dry_run: boolean;
+  outcome: "success" | "error";
+  error_code?: string;
+  http_status?: number; // Status of the last GitLab response
+  duration_ms: number;
+  objects: Record<string, unknown>[]; // IDs and URLs of the GitLab objects returned
+  requests: AuditedRequest[];
+}
+
+/**
+ * Options for the audit log
+ */
+export interface AuditLogOptions {
+  file?: string; // JSONL file to append to
+  stderr?: boolean; // Also write syslog-style lines to stderr
+  maxBytes?: number; // Rotate the file once it reaches this size, default 10 MiB
+  maxFiles?: number; // Rotated files to keep, default 5
+  secrets?: string[]; // Literal values to redact wherever they appear
+}
+
+/**
+ * Argument names whose values are always redacted
+ */
+const SECRET_KEY_PATTERN = /token|password|secret|authorization|private[_-]?key/i;
+
+/**
+ * GitLab token formats (personal, OAuth, runner, deploy, trigger, ... tokens)
+ */
+export const GITLAB_TOKEN_PATTERN = /\bgl[a-z]{2,5}-[A-Za-z0-9_.-]{20,}/g;
+
+/**
+ * Strings longer than this (e.g. file contents) are shortened in the log
+ */
+const MAX_STRING_LENGTH = 500;
+
+/**
+ * Requests made by the tool call currently being audited
+ */
+const requestLog = new AsyncLocalStorage<AuditedRequest[]>();
+
+/**
+ * Record a GitLab request for the audit entry of the current tool call
+ *
+ * @param {string} method - HTTP method
+ * @param {string} url - Absolute request URL
+ * @param {number} [status] - Response status, if a response was received
+ */
+export function recordRequest(method: string, url: string, status?: number): void {
+  requestLog.getStore()?.push({
+    method,
+    path: decodeURIComponent(new URL(url).pathname.replace(/^.*?\/api\/v4(?=\/)/, "")),
+    status,
+  });
+}
+
+/**
+ * Append-only JSONL log of tool calls with secret redaction and size-based
+ * rotation (`audit.jsonl` -> `audit.jsonl.1` -> ... -> `audit.jsonl.N`)
+ */
+export class AuditLog {
+  private readonly file?: string;
+  private readonly stderr: boolean;
+  private readonly maxBytes: number;
+  private readonly maxFiles: number;
+  private readonly secrets: string[];
+  private size = 0;
+
+  constructor(options: AuditLogOptions) {
+    this.file = options.file;
+    this.stderr = options.stderr ?? false;
+    this.maxBytes = options.maxBytes ?? 10 * 1024 * 1024;
+    this.maxFiles = options.maxFiles ?? 5;
+    // Very short values would blank out unrelated text
+    this.secrets = (options.secrets ?? []).filter((secret) => secret.length >= 8);
+    if (this.file && fs.existsSync(this.file)) {
+      this.size = fs.statSync(this.file).size;
+    }
+  }
+
+  /**
+   * Run a tool call and log it once it finishes
+   *
+   * @param {Object} call - Tool, client, target project and raw arguments of the call
+   * @param {() => Promise<T>} fn - Runs the tool call
+   * @param {Function} describe - Extracts the outcome and returned objects from the result
+   * @returns {Promise<T>} The result of `fn`
+   */
+  async record<T>(
+    call: Pick<AuditEntry, "tool" | "client" | "project" | "arguments" | "dry_run">,
+    fn: () => Promise<T>,
+    describe: (result: T) => Pick<AuditEntry, "outcome" | "error_code" | "objects">
+  ): Promise<T> {
+    const started = Date.now();
+    const requests: AuditedRequest[] = [];
+    const result = await requestLog.run(requests, fn);
+
+    const statuses = requests.filter((request) => request.status !== undefined);
+    this.write({
+      timestamp: new Date(started).toISOString(),
+      ...call,
+      arguments: this.sanitize(call.arguments),
+      ...describe(result),
+      http_status: statuses[statuses.length - 1]?.status,
+      duration_ms: Date.now() - started,
+      requests,
+    });
+    return result;
+  }
+
+  /**
+   * Append an entry to the log file and/or stderr
+   *
+   * Logging problems are reported on stderr but never fail the tool call.
+   *
+   * @param {AuditEntry} entry - The entry to write
+   */
+  write(entry: AuditEntry): void {
+    const line = this.redact(JSON.stringify(entry));
+
+    if (this.stderr) {
+      // RFC 5424: facility local0, severity informational or error
+      const priority = 16 * 8 + (entry.outcome === "error" ? 3 : 6);
+      console.error(
+        `<${priority}>1 ${entry.timestamp} ${os.hostname()} gitlab-mcp ${process.pid} tool_call - ${line}`
+      );
+    }
+
+    if (this.file) {
+      try {
+        const bytes = Buffer.byteLength(line) + 1;
+        if (this.size > 0 && this.size + bytes > this.maxBytes) {
+          this.rotate();
+        }
+        fs.appendFileSync(this.file, `${line}\n`, { mode: 0o600 });
+        this.size += bytes;
+      } catch (error) {
+        console.error("Failed to write audit log:", error);
+      }
+    }
+  }
+
+  /**
+   * Shift rotated files up by one and start a new file
+   */
+  private rotate(): void {
+    const file = this.file as string;
+    fs.rmSync(`${file}.${this.maxFiles}`, { force: true });
+    for (let index = this.maxFiles - 1; index >= 1; index--) {
+      if (fs.existsSync(`${file}.${index}`)) {
+        fs.renameSync(`${file}.${index}`, `${file}.${index + 1}`);
+      }
+    }
+    if (this.maxFiles > 0) {
+      fs.renameSync(file, `${file}.1`);
+    } else {
+      fs.rmSync(file, { force: true });
+    }
+    this.size = 0;
+  }
+
+  /**
+   * Redact secret-looking arguments and shorten long strings
+   */
+  private sanitize(value: unknown, key = ""): unknown {
+    if (typeof value === "string") {
+      if (SECRET_KEY_PATTERN.test(key)) {
+        return "[REDACTED]";
+      }
+      return value.length > MAX_STRING_LENGTH
+        ? `${value.slice(0, 200)}... (${value.length} chars)`
+        : value;
+    }
+    if (Array.isArray(value)) {
+      return value.map((item) => this.sanitize(item, key));
+    }
+    if (value && typeof value === "object") {
+      return Object.fromEntries(
+        Object.entries(value).map(([name, item]) => [name, this.sanitize(item, name)])
+      );
+    }
+    return value;
+  }
+
+  /**
+   * Remove tokens from a serialized entry, wherever they appear
+   */
+  private redact(text: string): string {
+    let redacted = text.replace(GITLAB_TOKEN_PATTERN, "[REDACTED]");
+    for (const secret of this.secrets) {
+      redacted = redacted.split(secret).join("[REDACTED]");
+    }
+    return redacted;
+  }
+}
+
+/**
+ * Create the audit log configured by GITLAB_AUDIT_LOG, GITLAB_AUDIT_LOG_STDERR,
+ * GITLAB_AUDIT_LOG_MAX_BYTES and GITLAB_AUDIT_LOG_MAX_FILES
+ *
+ * @param {NodeJS.ProcessEnv} [env] - Environment to read from
+ * @param {string[]} [secrets] - Literal values to redact
+ * @returns {AuditLog | null} The audit log, or null if auditing is off
+ */
+export function createAuditLog(
+  env: NodeJS.ProcessEnv = process.env,
+  secrets: string[] = []
+): AuditLog | null {
+  const stderr = /^(true|1|yes)$/i.test(env.GITLAB_AUDIT_LOG_STDERR ?? "");
+  if (!env.GITLAB_AUDIT_LOG && !stderr) {
+    return null;
+  }
+  return new AuditLog({
+    file: env.GITLAB_AUDIT_LOG,
+    stderr,
+    maxBytes: env.GITLAB_AUDIT_LOG_MAX_BYTES ? Number(env.GITLAB_AUDIT_LOG_MAX_BYTES) : undefined,
+    maxFiles: env.GITLAB_AUDIT_LOG_MAX_FILES ? Number(env.GITLAB_AUDIT_LOG_MAX_FILES) : undefined,
+    secrets,
+  });
+}
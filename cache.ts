@@ -0,0 +1,371 @@
+import { createHash } from "node:crypto";
+import fs from "fs";
+import path from "path";
+import { Response } from "node-fetch";
+
+/**
+ * Kinds of responses with their own time to live
+ */
+export type CachedResourceType = "project" | "branch" | "file" | "tree" | "other";
+
+/**
+ * Default time to live by resource type, in milliseconds. Entries past
+ * their TTL are revalidated with If-None-Match, so a TTL of 0 still saves
+ * downloading responses that did not change.
+ */
+const DEFAULT_TTLS: Record<CachedResourceType, number> = {
+  project: 5 * 60_000,
+  branch: 0,
+  file: 0,
+  tree: 0,
+  other: 0,
+};
+
+/**
+ * Responses larger than this are never cached
+ */
+const MAX_ENTRY_BYTES = 1024 * 1024;
+
+/**
+ * Options for the response cache
+ */
+export interface ResponseCacheOptions {
+  ttls?: Partial<Record<CachedResourceType, number>>; // Milliseconds
+  maxBytes?: number; // Total size of cached bodies kept in memory, default 64 MiB
+  dir?: string; // Also keep entries that never go stale here, across restarts
+}
+
+/**
+ * A cached GitLab response
+ */
+interface CacheEntry {
+  url: string;
+  status: number;
+  statusText: string;
+  headers: [string, string][];
+  body: Buffer;
+  etag?: string;
+  immutable: boolean; // Addressed by commit SHA, so it can never change
+  expiresAt: number; // Revalidate after this time
+  project?: string; // Decoded project ID or path from the URL
+}
+
+/**
+ * Commit SHAs (SHA-1 or SHA-256)
+ */
+const SHA_PATTERN = /^[0-9a-f]{40}([0-9a-f]{24})?$/i;
+
+/**
+ * Classify a request URL for its time to live
+ *
+ * @param {URL} url - Request URL
+ * @returns {CachedResourceType} The resource type
+ */
+function resourceType(url: URL): CachedResourceType {
+  const match = url.pathname.match(/\/projects\/[^/]+(\/.*)?$/);
+  if (!match) {
+    return "other";
+  }
+  const rest = match[1] ?? "";
+  if (rest === "") {
+    return "project";
+  }
+  if (rest.startsWith("/repository/branches/")) {
+    return "branch";
+  }
+  if (rest.startsWith("/repository/files/")) {
+    return "file";
+  }
+  if (rest === "/repository/tree") {
+    return "tree";
+  }
+  return "other";
+}
+
+/**
+ * Whether a request URL is addressed by commit SHA, so its response never changes
+ *
+ * @param {URL} url - Request URL
+ * @returns {boolean} True for files, trees, commits, blobs and comparisons at fixed SHAs
+ */
+function isImmutable(url: URL): boolean {
+  const pathname = url.pathname;
+  const param = (name: string) => url.searchParams.get(name) ?? "";
+  if (/\/repository\/(files\/[^/]+(\/raw)?|tree)$/.test(pathname)) {
+    return SHA_PATTERN.test(param("ref"));
+  }
+  if (/\/repository\/compare$/.test(pathname)) {
+    return SHA_PATTERN.test(param("from")) && SHA_PATTERN.test(param("to"));
+  }
+  const object = pathname.match(/\/repository\/(?:commits\/([^/]+)(?:\/diff)?|blobs\/([^/]+)(?:\/raw)?)$/);
+  return object !== null && SHA_PATTERN.test(object[1] ?? object[2]);
+}
+
+/**
+ * Project a request URL belongs to
+ *
+ * @param {URL} url - Request URL
+ * @returns {string | undefined} Decoded project ID or path, undefined outside /projects/:id
+ */
+function projectOf(url: URL): string | undefined {
+  const match = url.pathname.match(/\/projects\/([^/]+)/);
+  return match ? decodeURIComponent(match[1]).toLowerCase() : undefined;
+}
+
+/**
+ * In-memory cache of GitLab GET responses
+ *
+ * Entries are keyed by URL and the credentials they were fetched with, so
+ * one user never sees another's responses. Fresh entries are served
+ * without a request; stale ones are revalidated with If-None-Match and
+ * served again on a 304. Responses addressed by commit SHA never go stale.
+ * Any write to a project drops the entries of that project, whether it was
+ * named by ID or by path.
+ *
+ * With a directory configured, entries that are immutable or revalidated
+ * on every use also go to disk; both stay correct without invalidation.
+ */
+export class ResponseCache {
+  private readonly entries = new Map<string, CacheEntry>();
+  private readonly ttls: Record<CachedResourceType, number>;
+  private readonly maxBytes: number;
+  private readonly dir?: string;
+  private size = 0;
+  // Lowercased project paths -> numeric IDs, learned from project responses
+  private readonly projectIds = new Map<string, string>();
+
+  constructor(options: ResponseCacheOptions = {}) {
+    this.ttls = { ...DEFAULT_TTLS, ...options.ttls };
+    this.maxBytes = options.maxBytes ?? 64 * 1024 * 1024;
+    this.dir = options.dir;
+  }
+
+  /**
+   * Get a response from the cache, fetching it if needed
+   *
+   * @param {string} scope - Credentials the request is sent with; hashed, never stored
+   * @param {string} url - Absolute request URL
+   * @param {Function} send - Sends the request with the given extra headers
+   * @returns {Promise<Response>} The cached or fetched response
+   */
+  async fetch(
+    scope: string,
+    url: string,
+    send: (headers: Record<string, string>) => Promise<Response>
+  ): Promise<Response> {
+    const key = createHash("sha256").update(`${scope}\n${url}`).digest("hex");
+    const entry = this.get(key);
+    if (entry && (entry.immutable || entry.expiresAt > Date.now())) {
+      return toResponse(entry);
+    }
+
+    const response = await send(entry?.etag ? { "If-None-Match": entry.etag } : {});
+    if (response.status === 304 && entry) {
+      // Drain the body so the connection can be reused
+      await response.arrayBuffer().catch(() => undefined);
+      entry.expiresAt = Date.now() + this.ttls[resourceType(new URL(url))];
+      return toResponse(entry);
+    }
+    return this.store(key, url, response);
+  }
+
+  /**
+   * Drop the cached responses of the project a write went to
+   *
+   * @param {string} url - Absolute URL of the write request
+   */
+  invalidate(url: string): void {
+    const project = projectOf(new URL(url));
+    if (project === undefined) {
+      return;
+    }
+    const target = this.canonicalProject(project);
+    for (const [key, entry] of this.entries) {
+      if (entry.project !== undefined && this.canonicalProject(entry.project) === target) {
+        this.delete(key);
+      }
+    }
+  }
+
+  /**
+   * Remember a response if it is worth caching
+   *
+   * @returns {Promise<Response>} The response, rebuilt if its body was read
+   */
+  private async store(key: string, url: string, response: Response): Promise<Response> {
+    const parsedUrl = new URL(url);
+    const type = resourceType(parsedUrl);
+    const immutable = isImmutable(parsedUrl);
+    const etag = response.headers.get("etag") ?? undefined;
+    const length = Number(response.headers.get("content-length") ?? 0);
+    if (
+      response.status !== 200 ||
+      length > MAX_ENTRY_BYTES ||
+      /no-store/i.test(response.headers.get("cache-control") ?? "") ||
+      // Without a TTL or an ETag the entry could never be used
+      (!immutable && this.ttls[type] === 0 && !etag)
+    ) {
+      return response;
+    }
+
+    const entry: CacheEntry = {
+      url,
+      status: response.status,
+      statusText: response.statusText,
+      // The body is stored decoded, so its encoding and length no longer apply
+      headers: [...response.headers.entries()].filter(
+        ([name]) => !["content-encoding", "content-length", "transfer-encoding"].includes(name)
+      ),
+      body: Buffer.from(await response.arrayBuffer()),
+      etag,
+      immutable,
+      expiresAt: Date.now() + this.ttls[type],
+      project: projectOf(parsedUrl),
+    };
+    if (entry.body.length <= MAX_ENTRY_BYTES) {
+      if (type === "project") {
+        this.learnProjectId(entry);
+      }
+      this.set(key, entry);
+      if (immutable || this.ttls[type] === 0) {
+        this.writeToDisk(key, entry);
+      }
+    }
+    return toResponse(entry);
+  }
+
+  /**
+   * Look up an entry in memory, then on disk
+   */
+  private get(key: string): CacheEntry | undefined {
+    const entry = this.entries.get(key) ?? this.readFromDisk(key);
+    if (entry) {
+      // Map order doubles as the LRU order
+      this.delete(key);
+      this.set(key, entry);
+    }
+    return entry;
+  }
+
+  private set(key: string, entry: CacheEntry): void {
+    this.delete(key);
+    this.entries.set(key, entry);
+    this.size += entry.body.length;
+    for (const [oldest] of this.entries) {
+      if (this.size <= this.maxBytes) {
+        break;
+      }
+      this.delete(oldest);
+    }
+  }
+
+  private delete(key: string): void {
+    const entry = this.entries.get(key);
+    if (entry) {
+      this.entries.delete(key);
+      this.size -= entry.body.length;
+    }
+  }
+
+  /**
+   * Record the numeric ID of a project, so writes naming it by ID drop the
+   * entries fetched by path and vice versa
+   */
+  private learnProjectId(entry: CacheEntry): void {
+    try {
+      const project = JSON.parse(entry.body.toString("utf8"));
+      if (typeof project.id === "number" && typeof project.path_with_namespace === "string") {
+        this.projectIds.set(project.path_with_namespace.toLowerCase(), String(project.id));
+      }
+    } catch {
+      // Not a project after all; entries of its URL are still matched by path
+    }
+  }
+
+  private canonicalProject(project: string): string {
+    return this.projectIds.get(project) ?? project;
+  }
+
+  private readFromDisk(key: string): CacheEntry | undefined {
+    if (!this.dir) {
+      return undefined;
+    }
+    try {
+      const stored = JSON.parse(fs.readFileSync(path.join(this.dir, `${key}.json`), "utf8"));
+      // Only revalidated entries are stored, so mutable ones are stale on load
+      return { ...stored, body: Buffer.from(stored.body, "base64"), expiresAt: 0 };
+    } catch {
+      return undefined;
+    }
+  }
+
+  private writeToDisk(key: string, entry: CacheEntry): void {
+    if (!this.dir) {
+      return;
+    }
+    try {
+      fs.mkdirSync(this.dir, { recursive: true, mode: 0o700 });
+      fs.writeFileSync(
+        path.join(this.dir, `${key}.json`),
+        JSON.stringify({ ...entry, body: entry.body.toString("base64") }),
+        { mode: 0o600 }
+      );
+    } catch (error) {
+      console.error(`Failed to write to the response cache in ${this.dir}:`, error);
+    }
+  }
+}
+
+/**
+ * Rebuild a response from a cache entry
+ */
+function toResponse(entry: CacheEntry): Response {
+  // node-fetch keeps `url`, which error messages are built from, though its types omit it
+  const init = {
+    url: entry.url,
+    status: entry.status,
+    statusText: entry.statusText,
+    headers: entry.headers,
+  };
+  return new Response(entry.body, init);
+}
+
+/**
+ * Parse GITLAB_CACHE_TTLS, e.g. `project=300,file=60` (seconds)
+ *
+ * @param {string} value - Variable value
+ * @returns {Partial<Record<CachedResourceType, number>>} TTLs in milliseconds
+ * @throws {Error} If a resource type or number is invalid
+ */
+function parseTtls(value: string): Partial<Record<CachedResourceType, number>> {
+  const ttls: Partial<Record<CachedResourceType, number>> = {};
+  for (const entry of value.split(",").map((part) => part.trim()).filter(Boolean)) {
+    const [type, seconds] = entry.split("=").map((part) => part.trim());
+    if (!(type in DEFAULT_TTLS) || !/^\d+$/.test(seconds ?? "")) {
+      throw new Error(
+        `Invalid GITLAB_CACHE_TTLS entry "${entry}", expected <${Object.keys(DEFAULT_TTLS).join("|")}>=<seconds>`
+      );
+    }
+    ttls[type as CachedResourceType] = Number(seconds) * 1000;
+  }
+  return ttls;
+}
+
+/**
+ * Create the response cache configured by GITLAB_CACHE, GITLAB_CACHE_DIR,
+ * GITLAB_CACHE_TTLS and GITLAB_CACHE_MAX_BYTES
+ *
+ * @param {NodeJS.ProcessEnv} [env] - Environment to read from
+ * @returns {ResponseCache | null} The cache, or null if caching is off
+ * @throws {Error} If GITLAB_CACHE_TTLS is invalid
+ */
+export function createResponseCache(env: NodeJS.ProcessEnv = process.env): ResponseCache | null {
+  if (/^(false|0|no)$/i.test(env.GITLAB_CACHE ?? "")) {
+    return null;
+  }
+  return new ResponseCache({
+    ttls: env.GITLAB_CACHE_TTLS ? parseTtls(env.GITLAB_CACHE_TTLS) : undefined,
+    maxBytes: env.GITLAB_CACHE_MAX_BYTES ? Number(env.GITLAB_CACHE_MAX_BYTES) : undefined,
+    dir: env.GITLAB_CACHE_DIR || undefined,
+  });
+}
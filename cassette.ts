@@ -0,0 +1,230 @@
+import fs from "fs";
+import path from "path";
+import { Response } from "node-fetch";
+import { GITLAB_TOKEN_PATTERN } from "./audit-log.js";
+import { CassetteMismatchError } from "./errors.js";
+
+/**
+ * Whether GitLab traffic is written to the cassette or served from it
+ */
+export type CassetteMode = "record" | "replay";
+
+/**
+ * One request and the response GitLab sent to it, a line of the cassette file
+ */
+export interface CassetteInteraction {
+  request: {
+    method: string;
+    url: string;
+    body?: string;
+  };
+  response: {
+    status: number;
+    statusText: string;
+    headers: [string, string][];
+    body: string;
+    encoding?: "base64"; // Binary bodies; text bodies are stored as-is
+  };
+}
+
+/**
+ * Options for a cassette
+ */
+export interface CassetteOptions {
+  file: string; // JSONL file, one interaction per line
+  mode: CassetteMode;
+  secrets?: string[]; // Literal values to scrub wherever they appear
+}
+
+/**
+ * JSON fields whose string values are scrubbed
+ */
+const SECRET_FIELD_PATTERN = /"([A-Za-z_]*(?:token|password|secret))"(\s*):(\s*)"(?:[^"\\]|\\.)*"/gi;
+
+/**
+ * Email addresses, e.g. in user and commit objects
+ */
+const EMAIL_PATTERN = /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g;
+
+/**
+ * Response headers that are never recorded; bodies are stored decoded
+ */
+const SKIPPED_HEADERS = new Set([
+  "set-cookie",
+  "connection",
+  "keep-alive",
+  "transfer-encoding",
+  "content-encoding",
+  "content-length",
+]);
+
+/**
+ * Content types whose bodies are stored (and scrubbed) as text
+ */
+const TEXT_CONTENT_TYPE = /^(text\/|application\/(json|xml|javascript)|[^;]*\+json)/i;
+
+/**
+ * Recording of the GitLab API traffic of a session
+ *
+ * In record mode every response is written to a JSONL file as it arrives,
+ * with tokens and email addresses scrubbed from URLs and bodies. In replay
+ * mode no request reaches GitLab: responses are served from the file, in
+ * recorded order for repeated requests, and a request the cassette has no
+ * response to fails. Requests are matched by method, URL and body after
+ * scrubbing, so the credentials used for a replay do not matter.
+ */
+export class Cassette {
+  readonly file: string;
+  readonly mode: CassetteMode;
+  private readonly secrets: string[];
+  private readonly interactions: CassetteInteraction[] = [];
+  private readonly used = new Set<CassetteInteraction>();
+
+  constructor(options: CassetteOptions) {
+    this.file = options.file;
+    this.mode = options.mode;
+    // Very short values would blank out unrelated text
+    this.secrets = (options.secrets ?? []).filter((secret) => secret.length >= 8);
+
+    if (this.mode === "record") {
+      fs.mkdirSync(path.dirname(this.file), { recursive: true });
+      fs.writeFileSync(this.file, "", { mode: 0o600 });
+    } else {
+      this.interactions = fs
+        .readFileSync(this.file, "utf8")
+        .split("\n")
+        .filter((line) => line.trim() !== "")
+        .map((line) => JSON.parse(line));
+    }
+  }
+
+  /**
+   * Write a response to the cassette
+   *
+   * @param {string} method - HTTP method
+   * @param {string} url - Absolute request URL
+   * @param {string | undefined} body - Request body
+   * @param {Response} response - Response received from GitLab; its body is consumed
+   * @returns {Promise<Response>} An equivalent response for the caller
+   */
+  async record(method: string, url: string, body: string | undefined, response: Response): Promise<Response> {
+    const content = Buffer.from(await response.arrayBuffer());
+    const headers = [...response.headers].filter(([name]) => !SKIPPED_HEADERS.has(name.toLowerCase()));
+    const isText = TEXT_CONTENT_TYPE.test(response.headers.get("content-type") ?? "");
+
+    const interaction: CassetteInteraction = {
+      request: {
+        method,
+        url: this.scrub(url),
+        body: body === undefined ? undefined : this.scrub(body),
+      },
+      response: {
+        status: response.status,
+        statusText: response.statusText,
+        headers: headers.map(([name, value]) => [name, this.scrub(value)]),
+        body: isText ? this.scrub(content.toString("utf8")) : content.toString("base64"),
+        encoding: isText ? undefined : "base64",
+      },
+    };
+    try {
+      fs.appendFileSync(this.file, `${JSON.stringify(interaction)}\n`, { mode: 0o600 });
+    } catch (error) {
+      console.error(`Failed to write to the cassette ${this.file}:`, error);
+    }
+
+    return toResponse(url, { ...interaction.response, headers }, content);
+  }
+
+  /**
+   * Serve the recorded response to a request
+   *
+   * A request made more often than it was recorded gets the last recorded
+   * response again if it only reads, so retries and polling still replay.
+   *
+   * @param {string} method - HTTP method
+   * @param {string} url - Absolute request URL
+   * @param {string | undefined} body - Request body
+   * @returns {Response} The recorded response
+   * @throws {CassetteMismatchError} If the cassette has no response to the request
+   */
+  replay(method: string, url: string, body: string | undefined): Response {
+    const request = {
+      method,
+      url: this.scrub(url),
+      body: body === undefined ? undefined : this.scrub(body),
+    };
+    const matches = this.interactions.filter(
+      (interaction) =>
+        interaction.request.method === request.method &&
+        interaction.request.url === request.url &&
+        interaction.request.body === request.body
+    );
+
+    const interaction =
+      matches.find((match) => !this.used.has(match)) ??
+      (method === "GET" || method === "HEAD" ? matches[matches.length - 1] : undefined);
+    if (!interaction) {
+      throw new CassetteMismatchError(
+        matches.length > 0
+          ? `Cassette ${this.file} has no more recorded responses to ${method} ${request.url}`
+          : `Cassette ${this.file} has no recorded response to ${method} ${request.url}`,
+        method,
+        url
+      );
+    }
+    this.used.add(interaction);
+
+    const content = Buffer.from(interaction.response.body, interaction.response.encoding ?? "utf8");
+    return toResponse(url, interaction.response, content);
+  }
+
+  /**
+   * Remove tokens and email addresses from recorded text
+   */
+  private scrub(text: string): string {
+    let scrubbed = text
+      .replace(GITLAB_TOKEN_PATTERN, "[REDACTED]")
+      .replace(SECRET_FIELD_PATTERN, '"$1"$2:$3"[REDACTED]"')
+      .replace(EMAIL_PATTERN, "redacted@example.com");
+    for (const secret of this.secrets) {
+      scrubbed = scrubbed.split(secret).join("[REDACTED]");
+    }
+    return scrubbed;
+  }
+}
+
+/**
+ * Rebuild a response from a recorded one
+ */
+function toResponse(url: string, recorded: CassetteInteraction["response"], content: Buffer): Response {
+  // node-fetch keeps `url`, which error messages are built from, though its types omit it
+  const init = {
+    url,
+    status: recorded.status,
+    statusText: recorded.statusText,
+    headers: recorded.headers,
+  };
+  return new Response(content, init);
+}
+
+/**
+ * Create the cassette configured by GITLAB_CASSETTE and GITLAB_CASSETTE_MODE
+ *
+ * @param {NodeJS.ProcessEnv} [env] - Environment to read from
+ * @param {string[]} [secrets] - Literal values to scrub
+ * @returns {Cassette | null} The cassette, or null if GITLAB_CASSETTE is not set
+ * @throws {Error} If the mode is invalid or the cassette to replay cannot be read
+ */
+export function createCassette(
+  env: NodeJS.ProcessEnv = process.env,
+  secrets: string[] = []
+): Cassette | null {
+  if (!env.GITLAB_CASSETTE) {
+    return null;
+  }
+  const mode = (env.GITLAB_CASSETTE_MODE ?? "replay").toLowerCase();
+  if (mode !== "record" && mode !== "replay") {
+    throw new Error(`Invalid GITLAB_CASSETTE_MODE "${env.GITLAB_CASSETTE_MODE}", expected record or replay`);
+  }
+  return new Cassette({ file: env.GITLAB_CASSETTE, mode, secrets });
+}
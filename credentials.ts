@@ -0,0 +1,157 @@
+import { spawn } from "node:child_process";
+import { CredentialsError } from "./errors.js";
+
+/**
+ * How long a credential command may run
+ */
+const CREDENTIAL_COMMAND_TIMEOUT_MS = 30_000;
+
+/**
+ * Source of the authentication headers sent with every GitLab request
+ */
+export interface Credentials {
+  /**
+   * Headers authenticating the next request
+   *
+   * @throws {CredentialsError} If no credentials are available
+   */
+  headers(): Promise<Record<string, string>>;
+
+  /**
+   * Replace credentials GitLab rejected with a 401
+   *
+   * @returns {Promise<boolean>} True if new credentials are available and the request is worth retrying
+   */
+  refresh?(): Promise<boolean>;
+}
+
+/**
+ * A personal, project, group or OAuth access token
+ */
+export class TokenCredentials implements Credentials {
+  constructor(private readonly token: string) {}
+
+  async headers(): Promise<Record<string, string>> {
+    return { Authorization: `Bearer ${this.token}` };
+  }
+}
+
+/**
+ * The CI_JOB_TOKEN of a running pipeline job
+ *
+ * Job tokens only reach the API endpoints GitLab allows for them, with the
+ * permissions of the user who started the job.
+ */
+export class JobTokenCredentials implements Credentials {
+  constructor(private readonly token: string) {}
+
+  async headers(): Promise<Record<string, string>> {
+    return { "JOB-TOKEN": this.token };
+  }
+}
+
+/**
+ * Token printed by an external command, like a git credential helper
+ *
+ * The command runs through the shell and receives a git credential request
+ * (`protocol=`, `host=` and `path=` lines) on stdin. It may answer in the
+ * same format, with the token as `password=` and an optional
+ * `password_expiry_utc=`, so `git credential fill` works as-is, or simply
+ * print the token. The token is reused until it expires or GitLab rejects it.
+ */
+export class CommandCredentials implements Credentials {
+  private token?: Promise<{ value: string; expiresAt?: number }>;
+
+  /**
+   * @param {string} command - Shell command printing the token
+   * @param {string} apiUrl - API URL of the instance the token is for
+   */
+  constructor(
+    private readonly command: string,
+    private readonly apiUrl: string
+  ) {}
+
+  async headers(): Promise<Record<string, string>> {
+    let token = await this.current();
+    if (token.expiresAt !== undefined && token.expiresAt <= Date.now()) {
+      this.token = undefined;
+      token = await this.current();
+    }
+    return { Authorization: `Bearer ${token.value}` };
+  }
+
+  async refresh(): Promise<boolean> {
+    this.token = undefined;
+    return true;
+  }
+
+  /**
+   * The cached token, running the command if there is none
+   */
+  private current(): Promise<{ value: string; expiresAt?: number }> {
+    if (!this.token) {
+      this.token = this.run().catch((error) => {
+        this.token = undefined;
+        throw error;
+      });
+    }
+    return this.token;
+  }
+
+  /**
+   * Run the command and parse its output
+   */
+  private async run(): Promise<{ value: string; expiresAt?: number }> {
+    const url = new URL(this.apiUrl);
+    // GitLab installed under a relative URL root, e.g. https://example.com/gitlab
+    const path = url.pathname.replace(/^\/|\/?api\/v4$/g, "");
+    const input = [
+      `protocol=${url.protocol.replace(/:$/, "")}`,
+      `host=${url.host}`,
+      ...(path ? [`path=${path}`] : []),
+      "",
+      "",
+    ].join("\n");
+
+    const output = await new Promise<string>((resolve, reject) => {
+      const child = spawn(this.command, { shell: true, stdio: ["pipe", "pipe", "inherit"] });
+      const timer = setTimeout(() => child.kill(), CREDENTIAL_COMMAND_TIMEOUT_MS);
+      let stdout = "";
+      child.stdout.setEncoding("utf8").on("data", (chunk: string) => (stdout += chunk));
+      child.on("error", (error) => {
+        clearTimeout(timer);
+        reject(new CredentialsError(`Credential command failed: ${error.message}`, { cause: error }));
+      });
+      child.on("close", (code, signal) => {
+        clearTimeout(timer);
+        if (code === 0) {
+          resolve(stdout);
+        } else {
+          reject(
+            new CredentialsError(
+              `Credential command ${signal ? `was stopped by ${signal}` : `exited with status ${code}`}`
+            )
+          );
+        }
+      });
+      // A command that just prints a token may exit before reading its input
+      child.stdin.on("error", () => undefined);
+      child.stdin.end(input);
+    });
+
+    const fields = new Map(
+      output
+        .split("\n")
+        .map((line) => line.match(/^(\w+)=(.*)$/))
+        .filter((match): match is RegExpMatchArray => match !== null)
+        .map((match) => [match[1], match[2].trim()])
+    );
+    const value = fields.size > 0 ? fields.get("password") : output.trim();
+    if (!value) {
+      throw new CredentialsError("Credential command did not print a token");
+    }
+
+    const expiry = Number(fields.get("password_expiry_utc"));
+    return { value, expiresAt: expiry > 0 ? expiry * 1000 : undefined };
+  }
+}
@@ -0,0 +1,161 @@
+/**
+ * Largest old × new line count compared line by line; bigger files are
+ * shown as a full replacement
+ */
+const MAX_DIFF_CELLS = 4_000_000;
+
+/**
+ * A line of a diff: kept, removed from the old text or added in the new text
+ */
+type DiffLine = { op: " " | "-" | "+"; text: string };
+
+/**
+ * Split text into lines, ignoring the newline at the end of the last line
+ *
+ * @param {string} text - Text to split
+ * @returns {string[]} The lines
+ */
+function splitLines(text: string): string[] {
+  if (text === "") {
+    return [];
+  }
+  return text.replace(/\n$/, "").split("\n");
+}
+
+/**
+ * Compare two lists of lines using their longest common subsequence
+ *
+ * @param {string[]} a - Old lines
+ * @param {string[]} b - New lines
+ * @returns {DiffLine[]} Every line of both inputs, marked as kept, removed or added
+ */
+function diffLines(a: string[], b: string[]): DiffLine[] {
+  // Common prefix and suffix are kept as-is, which keeps the table small
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) {
+    start++;
+  }
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const head = a.slice(0, start).map((text): DiffLine => ({ op: " ", text }));
+  const tail = a.slice(endA).map((text): DiffLine => ({ op: " ", text }));
+  const oldMiddle = a.slice(start, endA);
+  const newMiddle = b.slice(start, endB);
+
+  if (oldMiddle.length * newMiddle.length > MAX_DIFF_CELLS) {
+    return [
+      ...head,
+      ...oldMiddle.map((text): DiffLine => ({ op: "-", text })),
+      ...newMiddle.map((text): DiffLine => ({ op: "+", text })),
+      ...tail,
+    ];
+  }
+
+  // lengths[i * width + j] = LCS length of oldMiddle[i..] and newMiddle[j..]
+  const width = newMiddle.length + 1;
+  const lengths = new Uint32Array((oldMiddle.length + 1) * width);
+  for (let i = oldMiddle.length - 1; i >= 0; i--) {
+    for (let j = newMiddle.length - 1; j >= 0; j--) {
+      lengths[i * width + j] =
+        oldMiddle[i] === newMiddle[j]
+          ? lengths[(i + 1) * width + j + 1] + 1
+          : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
+    }
+  }
+
+  const middle: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < oldMiddle.length && j < newMiddle.length) {
+    if (oldMiddle[i] === newMiddle[j]) {
+      middle.push({ op: " ", text: oldMiddle[i++] });
+      j++;
+    } else if (lengths[(i + 1) * width + j] >= lengths[i * width + j + 1]) {
+      middle.push({ op: "-", text: oldMiddle[i++] });
+    } else {
+      middle.push({ op: "+", text: newMiddle[j++] });
+    }
+  }
+  while (i < oldMiddle.length) {
+    middle.push({ op: "-", text: oldMiddle[i++] });
+  }
+  while (j < newMiddle.length) {
+    middle.push({ op: "+", text: newMiddle[j++] });
+  }
+
+  return [...head, ...middle, ...tail];
+}
+
+/**
+ * Build a unified diff between two versions of a text
+ *
+ * @param {string} oldText - Current content ("" for a new file)
+ * @param {string} newText - New content ("" for a deleted file)
+ * @param {string} oldPath - Label of the old version, e.g. "a/README.md" or "/dev/null"
+ * @param {string} newPath - Label of the new version
+ * @param {number} [context] - Unchanged lines shown around each change
+ * @returns {string} The diff, or "" if the texts are equal
+ */
+export function unifiedDiff(
+  oldText: string,
+  newText: string,
+  oldPath: string,
+  newPath: string,
+  context = 3
+): string {
+  if (oldText === newText) {
+    return "";
+  }
+
+  const lines = diffLines(splitLines(oldText), splitLines(newText));
+  const output = [`--- ${oldPath}`, `+++ ${newPath}`];
+
+  // Line numbers in the old and new text at each position of `lines`
+  const oldLineAt: number[] = [];
+  const newLineAt: number[] = [];
+  let oldLine = 1;
+  let newLine = 1;
+  for (const line of lines) {
+    oldLineAt.push(oldLine);
+    newLineAt.push(newLine);
+    if (line.op !== "+") oldLine++;
+    if (line.op !== "-") newLine++;
+  }
+
+  let index = 0;
+  while (index < lines.length) {
+    if (lines[index].op === " ") {
+      index++;
+      continue;
+    }
+
+    // Extend the hunk while changes are close enough to share context
+    const start = Math.max(0, index - context);
+    let end = index;
+    let lastChange = index;
+    while (end < lines.length && end - lastChange <= context * 2) {
+      if (lines[end].op !== " ") {
+        lastChange = end;
+      }
+      end++;
+    }
+    end = Math.min(lines.length, lastChange + context + 1);
+
+    const hunk = lines.slice(start, end);
+    const oldCount = hunk.filter((line) => line.op !== "+").length;
+    const newCount = hunk.filter((line) => line.op !== "-").length;
+    const oldStart = oldCount === 0 ? oldLineAt[start] - 1 : oldLineAt[start];
+    const newStart = newCount === 0 ? newLineAt[start] - 1 : newLineAt[start];
+    output.push(`@@ -${oldStart},${oldCount} +${newStart},${newCount} @@`);
+    output.push(...hunk.map((line) => `${line.op}${line.text}`));
+
+    index = end;
+  }
+
+  return output.join("\n");
+}
@@ -0,0 +1,45 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+
+/**
+ * Write request that a dry run stopped before it was sent
+ */
+export interface InterceptedRequest {
+  method: string;
+  url: string;
+  body?: unknown;
+}
+
+/**
+ * Thrown in place of sending the first write request of a dry run, to stop
+ * the tool before it changes anything
+ */
+export class DryRunInterrupt extends Error {
+  constructor(readonly request: InterceptedRequest) {
+    super(`Dry run stopped ${request.method} ${request.url}`);
+    this.name = "DryRunInterrupt";
+  }
+}
+
+/**
+ * Whether the code running in this async context is a dry run
+ */
+const dryRunContext = new AsyncLocalStorage<boolean>();
+
+/**
+ * Run a function as a dry run
+ *
+ * @param {() => T} fn - Function to run
+ * @returns {T} The function's result
+ */
+export function runDryRun<T>(fn: () => T): T {
+  return dryRunContext.run(true, fn);
+}
+
+/**
+ * Whether the current call is a dry run
+ *
+ * @returns {boolean} True inside runDryRun
+ */
+export function isDryRun(): boolean {
+  return dryRunContext.getStore() === true;
+}
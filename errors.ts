@@ -0,0 +1,340 @@
+import type { Response } from "node-fetch";
+
+/**
+ * Details of a failed GitLab API response
+ */
+export interface GitLabErrorDetails {
+  status: number;
+  path: string; // Request path relative to /api/v4
+  gitlabMessage?: string; // GitLab's `message` field, flattened to a string
+  gitlabError?: string; // GitLab's `error` (and `error_description`) field
+}
+
+/**
+ * Base class of all errors caused by a GitLab API error response
+ */
+export class GitLabApiError extends Error {
+  readonly code: string = "gitlab_error";
+  readonly status: number;
+  readonly path: string;
+  readonly gitlabMessage?: string;
+  readonly gitlabError?: string;
+
+  constructor(message: string, details: GitLabErrorDetails) {
+    super(message);
+    this.name = new.target.name;
+    this.status = details.status;
+    this.path = details.path;
+    this.gitlabMessage = details.gitlabMessage;
+    this.gitlabError = details.gitlabError;
+  }
+
+  /**
+   * Machine-readable representation returned to MCP clients
+   */
+  toJSON(): Record<string, unknown> {
+    return {
+      code: this.code,
+      message: this.message,
+      status: this.status,
+      path: this.path,
+      gitlab_message: this.gitlabMessage,
+      gitlab_error: this.gitlabError,
+    };
+  }
+}
+
+/**
+ * 401: the token is missing, invalid, expired or revoked
+ */
+export class GitLabAuthError extends GitLabApiError {
+  readonly code = "unauthorized";
+}
+
+/**
+ * 403: the token lacks the scope or role for this action
+ */
+export class GitLabForbiddenError extends GitLabApiError {
+  readonly code = "forbidden";
+}
+
+/**
+ * 404: the resource does not exist or is not visible to the token
+ */
+export class GitLabNotFoundError extends GitLabApiError {
+  readonly code = "not_found";
+}
+
+/**
+ * 405, 406, 409 and 412: the resource is not in a state that allows the
+ * action (already exists, stale SHA, not mergeable, ...). Usually resolved
+ * by fetching the current state and retrying.
+ */
+export class GitLabConflictError extends GitLabApiError {
+  readonly code = "conflict";
+}
+
+/**
+ * 400 and 422: GitLab rejected the parameters
+ */
+export class GitLabValidationError extends GitLabApiError {
+  readonly code = "validation_failed";
+  readonly fieldErrors: Record<string, string[]>;
+
+  constructor(
+    message: string,
+    details: GitLabErrorDetails,
+    fieldErrors: Record<string, string[]> = {}
+  ) {
+    super(message, details);
+    this.fieldErrors = fieldErrors;
+  }
+
+  toJSON(): Record<string, unknown> {
+    return { ...super.toJSON(), field_errors: this.fieldErrors };
+  }
+}
+
+/**
+ * 429: still rate limited after the client's retries
+ */
+export class GitLabRateLimitedError extends GitLabApiError {
+  readonly code = "rate_limited";
+  readonly retryAfterSeconds?: number;
+
+  constructor(
+    message: string,
+    details: GitLabErrorDetails,
+    retryAfterSeconds?: number
+  ) {
+    super(message, details);
+    this.retryAfterSeconds = retryAfterSeconds;
+  }
+
+  toJSON(): Record<string, unknown> {
+    return { ...super.toJSON(), retry_after: this.retryAfterSeconds };
+  }
+}
+
+/**
+ * Thrown when a request never produced an HTTP response (timeout or network
+ * failure), after all retries were used up
+ */
+export class GitLabRequestError extends Error {
+  readonly code = "request_failed";
+
+  constructor(
+    message: string,
+    readonly method: string,
+    readonly url: string,
+    readonly attempts: number,
+    options?: { cause?: unknown }
+  ) {
+    super(message, options);
+    this.name = "GitLabRequestError";
+  }
+
+  toJSON(): Record<string, unknown> {
+    return {
+      code: this.code,
+      message: this.message,
+      method: this.method,
+      path: requestPath(this.url),
+      attempts: this.attempts,
+    };
+  }
+}
+
+/**
+ * Thrown when the configured tool policy does not allow a call
+ */
+export class PolicyViolationError extends Error {
+  readonly code = "policy_violation";
+
+  constructor(
+    message: string,
+    readonly tool: string,
+    readonly project?: string
+  ) {
+    super(message);
+    this.name = "PolicyViolationError";
+  }
+
+  toJSON(): Record<string, unknown> {
+    return {
+      code: this.code,
+      message: this.message,
+      tool: this.tool,
+      project: this.project,
+    };
+  }
+}
+
+/**
+ * Thrown when GitLab accepted a rebase of a merge request but the rebase
+ * failed (`rebase_failed`, usually because of conflicts) or did not finish
+ * in time (`rebase_timeout`)
+ */
+export class MergeRequestRebaseError extends Error {
+  constructor(
+    message: string,
+    readonly code: "rebase_failed" | "rebase_timeout",
+    readonly mergeRequestIid: number,
+    readonly mergeError?: string
+  ) {
+    super(message);
+    this.name = "MergeRequestRebaseError";
+  }
+
+  toJSON(): Record<string, unknown> {
+    return {
+      code: this.code,
+      message: this.message,
+      merge_request_iid: this.mergeRequestIid,
+      merge_error: this.mergeError,
+    };
+  }
+}
+
+/**
+ * Thrown when no credentials could be obtained for a request (not logged in,
+ * failing credential command, rejected refresh token)
+ */
+export class CredentialsError extends Error {
+  readonly code = "credentials_unavailable";
+
+  constructor(message: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = "CredentialsError";
+  }
+
+  toJSON(): Record<string, unknown> {
+    return {
+      code: this.code,
+      message: this.message,
+    };
+  }
+}
+
+/**
+ * Thrown in cassette replay mode for a request the cassette has no response to
+ */
+export class CassetteMismatchError extends Error {
+  readonly code = "cassette_mismatch";
+
+  constructor(
+    message: string,
+    readonly method: string,
+    readonly url: string
+  ) {
+    super(message);
+    this.name = "CassetteMismatchError";
+  }
+
+  toJSON(): Record<string, unknown> {
+    return {
+      code: this.code,
+      message: this.message,
+      method: this.method,
+      path: requestPath(this.url),
+    };
+  }
+}
+
+/**
+ * Strip the origin and API prefix from a request URL
+ *
+ * @param {string} url - Absolute request URL
+ * @returns {string} The path relative to /api/v4
+ */
+function requestPath(url: string): string {
+  try {
+    return new URL(url).pathname.replace(/^.*?\/api\/v4(?=\/)/, "");
+  } catch {
+    return url;
+  }
+}
+
+/**
+ * Build the typed error for a failed GitLab API response
+ *
+ * GitLab reports errors as `{ message: string }`, as `{ message: { field:
+ * [errors] } }` for validation failures, or as `{ error, error_description }`.
+ *
+ * @param {Response} response - The failed response; its body is consumed
+ * @param {string} [summary] - Message to prefix GitLab's reason with instead of the generic one
+ * @returns {Promise<GitLabApiError>} The error matching the response status
+ */
+export async function createGitLabApiError(
+  response: Response,
+  summary?: string
+): Promise<GitLabApiError> {
+  const body = await response.text();
+  let parsed: { message?: unknown; error?: unknown; error_description?: unknown } = {};
+  try {
+    parsed = JSON.parse(body);
+  } catch {
+    // Not JSON (e.g. an HTML error page from a proxy); keep the raw text below
+  }
+
+  let gitlabMessage: string | undefined;
+  let fieldErrors: Record<string, string[]> = {};
+  if (typeof parsed.message === "string") {
+    gitlabMessage = parsed.message;
+  } else if (Array.isArray(parsed.message)) {
+    gitlabMessage = parsed.message.join(", ");
+  } else if (parsed.message && typeof parsed.message === "object") {
+    fieldErrors = Object.fromEntries(
+      Object.entries(parsed.message).map(([field, errors]) => [
+        field,
+        Array.isArray(errors) ? errors.map(String) : [String(errors)],
+      ])
+    );
+    gitlabMessage = Object.entries(fieldErrors)
+      .map(([field, errors]) => `${field} ${errors.join(", ")}`)
+      .join("; ");
+  }
+
+  const gitlabError =
+    typeof parsed.error === "string"
+      ? [parsed.error, parsed.error_description].filter(Boolean).join(": ")
+      : undefined;
+
+  const details: GitLabErrorDetails = {
+    status: response.status,
+    path: requestPath(response.url),
+    gitlabMessage,
+    gitlabError,
+  };
+  const reason = gitlabMessage ?? gitlabError ?? body.slice(0, 500);
+  const message = summary
+    ? `${summary}: ${reason}`
+    : `GitLab API error: ${response.status} ${response.statusText}: ${reason}`;
+
+  switch (response.status) {
+    case 400:
+    case 422:
+      return new GitLabValidationError(message, details, fieldErrors);
+    case 401:
+      return new GitLabAuthError(message, details);
+    case 403:
+      return new GitLabForbiddenError(message, details);
+    case 404:
+      return new GitLabNotFoundError(message, details);
+    case 405:
+    case 406:
+    case 409:
+    case 412:
+      return new GitLabConflictError(message, details);
+    case 429: {
+      const retryAfter = response.headers.get("retry-after");
+      return new GitLabRateLimitedError(
+        message,
+        details,
+        retryAfter && !Number.isNaN(Number(retryAfter)) ? Number(retryAfter) : undefined
+      );
+    }
+    default:
+      return new GitLabApiError(message, details);
+  }
+}
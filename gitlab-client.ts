@@ -0,0 +1,353 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+import type { Agent } from "node:https";
+import fetch, { type RequestInit, type Response } from "node-fetch";
+import type { ResponseCache } from "./cache.js";
+import type { Cassette } from "./cassette.js";
+import type { Credentials } from "./credentials.js";
+import { CassetteMismatchError, GitLabRequestError } from "./errors.js";
+
+/**
+ * Methods that are safe to send again after a timeout, network failure or
+ * 5xx response. POST and DELETE may already have taken effect, so they are
+ * only retried on 429, which GitLab returns before processing the request.
+ */
+const IDEMPOTENT_METHODS = new Set(["GET", "HEAD", "PUT"]);
+
+/**
+ * Server errors worth retrying
+ */
+const RETRYABLE_STATUSES = new Set([500, 502, 503, 504]);
+
+/**
+ * Upper bound for any single backoff delay
+ */
+const MAX_RETRY_DELAY_MS = 60_000;
+
+/**
+ * Options for the GitLab HTTP client
+ */
+export interface GitLabClientOptions {
+  apiUrl: string; // Base URL ending in /api/v4
+  credentials: Credentials;
+  agent?: Agent; // Custom TLS settings for https URLs
+  cache?: ResponseCache; // Shared between clients; entries are keyed by credentials
+  cassette?: Cassette; // Records or replays the traffic of every attempt
+  timeoutMs?: number; // Per attempt, default 30000
+  maxRetries?: number; // Default 3
+  retryBaseDelayMs?: number; // First backoff delay, doubled per attempt, default 500
+}
+
+/**
+ * Read the request settings configured by GITLAB_REQUEST_TIMEOUT_MS and
+ * GITLAB_MAX_RETRIES
+ *
+ * @param {NodeJS.ProcessEnv} [env] - Environment to read from
+ * @returns {Pick<GitLabClientOptions, "timeoutMs" | "maxRetries">} The settings that are set
+ * @throws {Error} If the timeout is not a positive number or the retries not a whole number
+ */
+export function clientOptionsFromEnv(
+  env: NodeJS.ProcessEnv = process.env
+): Pick<GitLabClientOptions, "timeoutMs" | "maxRetries"> {
+  const read = (name: string, valid: (value: number) => boolean, expected: string) => {
+    const value = env[name];
+    if (!value) {
+      return undefined;
+    }
+    const number = Number(value);
+    if (!Number.isFinite(number) || !valid(number)) {
+      throw new Error(`${name} must be ${expected}, got "${value}"`);
+    }
+    return number;
+  };
+
+  return {
+    timeoutMs: read("GITLAB_REQUEST_TIMEOUT_MS", (value) => value > 0, "a positive number of milliseconds"),
+    maxRetries: read(
+      "GITLAB_MAX_RETRIES",
+      (value) => Number.isInteger(value) && value >= 0,
+      "a non-negative whole number"
+    ),
+  };
+}
+
+/**
+ * Request options accepted by GitLabClient.fetch
+ */
+export interface GitLabRequestInit {
+  method?: string;
+  headers?: Record<string, string>;
+  body?: string;
+}
+
+/**
+ * Sleep for the given number of milliseconds
+ *
+ * @param {number} ms - Delay in milliseconds
+ */
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Single entry point for GitLab API requests
+ *
+ * Adds authentication headers, applies a timeout to every attempt, retries
+ * rate-limited, failed and timed-out requests with exponential backoff, and
+ * waits for the rate limit window to reset once GitLab reports it exhausted.
+ * A 401 is retried once if the credentials could be refreshed.
+ * HTTP error responses are returned as-is once retries are exhausted, so
+ * callers keep handling them with handleGitLabError. GET requests go
+ * through the response cache, if one is configured, and writes invalidate it.
+ * With a cassette, attempts are recorded or served from it instead of GitLab.
+ */
+export class GitLabClient {
+  readonly apiUrl: string;
+  private readonly agent?: Agent;
+  private readonly cache?: ResponseCache;
+  private readonly cassette?: Cassette;
+  private readonly credentials: Credentials;
+  private readonly headers: Record<string, string>;
+  private readonly timeoutMs: number;
+  private readonly maxRetries: number;
+  private readonly retryBaseDelayMs: number;
+  private rateLimitResetAt = 0;
+
+  constructor(options: GitLabClientOptions) {
+    this.apiUrl = options.apiUrl;
+    this.agent = options.agent;
+    this.cache = options.cache;
+    this.cassette = options.cassette;
+    this.credentials = options.credentials;
+    this.headers = {
+      Accept: "application/json",
+      "Content-Type": "application/json",
+    };
+    this.timeoutMs = options.timeoutMs ?? 30_000;
+    this.maxRetries = options.maxRetries ?? 3;
+    this.retryBaseDelayMs = options.retryBaseDelayMs ?? 500;
+  }
+
+  /**
+   * Send a request to the GitLab API
+   *
+   * @param {string | URL} input - Absolute URL of the endpoint
+   * @param {GitLabRequestInit} [init] - Method, extra headers and body
+   * @returns {Promise<Response>} The final response
+   * @throws {GitLabRequestError} If no response was received
+   * @throws {CredentialsError} If no credentials are available
+   */
+  async fetch(input: string | URL, init: GitLabRequestInit = {}): Promise<Response> {
+    const url = input.toString();
+    const method = (init.method ?? "GET").toUpperCase();
+    if (!this.cache || method === "HEAD") {
+      return this.request(url, method, init);
+    }
+
+    if (method === "GET") {
+      const scope = JSON.stringify(await this.credentials.headers());
+      return this.cache.fetch(scope, url, (headers) =>
+        this.request(url, method, { ...init, headers: { ...init.headers, ...headers } })
+      );
+    }
+
+    try {
+      return await this.request(url, method, init);
+    } finally {
+      // Even a failed write may have changed something
+      this.cache.invalidate(url);
+    }
+  }
+
+  /**
+   * Send a request, retrying it as needed
+   */
+  private async request(url: string, method: string, init: GitLabRequestInit): Promise<Response> {
+    let refreshed = false;
+
+    for (let attempt = 1; ; attempt++) {
+      await this.waitForRateLimit();
+
+      const requestInit: RequestInit = {
+        method,
+        headers: { ...this.headers, ...(await this.credentials.headers()), ...init.headers },
+        body: init.body,
+      };
+
+      let response: Response;
+      try {
+        response = await this.send(url, requestInit);
+      } catch (error) {
+        if (error instanceof CassetteMismatchError) {
+          throw error;
+        }
+        const message = error instanceof Error && error.name === "AbortError"
+          ? `timed out after ${this.timeoutMs}ms`
+          : error instanceof Error ? error.message : String(error);
+
+        if (attempt <= this.maxRetries && IDEMPOTENT_METHODS.has(method)) {
+          const delay = this.backoffDelay(attempt);
+          console.error(`GitLab API ${method} ${url} ${message}, retrying in ${delay}ms (${attempt}/${this.maxRetries})`);
+          await sleep(delay);
+          continue;
+        }
+
+        throw new GitLabRequestError(
+          `GitLab API request ${method} ${url} failed after ${attempt} attempt(s): ${message}`,
+          method,
+          url,
+          attempt,
+          { cause: error }
+        );
+      }
+
+      this.trackRateLimit(response);
+
+      if (response.status === 401 && !refreshed && (await this.credentials.refresh?.())) {
+        refreshed = true;
+        await response.arrayBuffer().catch(() => undefined);
+        continue;
+      }
+
+      const retryable =
+        response.status === 429 ||
+        (RETRYABLE_STATUSES.has(response.status) && IDEMPOTENT_METHODS.has(method));
+      if (!retryable || attempt > this.maxRetries) {
+        return response;
+      }
+
+      const delay = this.retryDelay(response, attempt);
+      console.error(`GitLab API ${method} ${url} returned ${response.status}, retrying in ${delay}ms (${attempt}/${this.maxRetries})`);
+      // Drain the body so the connection can be reused
+      await response.arrayBuffer().catch(() => undefined);
+      await sleep(delay);
+    }
+  }
+
+  /**
+   * Send a single attempt, aborting it after the configured timeout
+   *
+   * The timeout stays armed until the body has been read, so a response
+   * that stalls after its headers cannot hang the caller.
+   */
+  private async send(url: string, init: RequestInit): Promise<Response> {
+    const method = init.method ?? "GET";
+    const body = init.body as string | undefined;
+    if (this.cassette?.mode === "replay") {
+      return this.cassette.replay(method, url, body);
+    }
+
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), this.timeoutMs);
+    // A response whose body is never read must not keep the process alive
+    timer.unref();
+    let response: Response;
+    try {
+      response = await fetch(url, {
+        ...init,
+        agent: (parsedUrl) => (parsedUrl.protocol === "https:" ? this.agent : undefined),
+        signal: controller.signal,
+      });
+      if (this.cassette) {
+        // Recording reads the whole body
+        response = await this.cassette.record(method, url, body, response);
+        clearTimeout(timer);
+        return response;
+      }
+    } catch (error) {
+      clearTimeout(timer);
+      throw error;
+    }
+
+    // A HEAD response has no body to wait for
+    if (response.body && method !== "HEAD") {
+      response.body.once("close", () => clearTimeout(timer));
+    } else {
+      clearTimeout(timer);
+    }
+    return response;
+  }
+
+  /**
+   * Exponential backoff with jitter
+   */
+  private backoffDelay(attempt: number): number {
+    const delay = this.retryBaseDelayMs * 2 ** (attempt - 1);
+    const jitter = Math.random() * this.retryBaseDelayMs;
+    return Math.min(MAX_RETRY_DELAY_MS, Math.round(delay + jitter));
+  }
+
+  /**
+   * Delay before retrying a response, preferring what GitLab asks for
+   * (Retry-After, then RateLimit-Reset) over exponential backoff
+   */
+  private retryDelay(response: Response, attempt: number): number {
+    const retryAfter = response.headers.get("retry-after");
+    if (retryAfter) {
+      const seconds = Number(retryAfter);
+      const delay = Number.isNaN(seconds)
+        ? Date.parse(retryAfter) - Date.now()
+        : seconds * 1000;
+      if (!Number.isNaN(delay)) {
+        return Math.min(MAX_RETRY_DELAY_MS, Math.max(0, delay));
+      }
+    }
+
+    const reset = Number(response.headers.get("ratelimit-reset"));
+    if (response.status === 429 && reset > 0) {
+      return Math.min(MAX_RETRY_DELAY_MS, Math.max(0, reset * 1000 - Date.now()));
+    }
+
+    return this.backoffDelay(attempt);
+  }
+
+  /**
+   * Remember when the rate limit window resets once it is exhausted
+   */
+  private trackRateLimit(response: Response): void {
+    const remaining = response.headers.get("ratelimit-remaining");
+    const reset = Number(response.headers.get("ratelimit-reset"));
+    if (remaining === "0" && reset > 0) {
+      this.rateLimitResetAt = reset * 1000;
+    }
+  }
+
+  /**
+   * Hold requests until an exhausted rate limit window has reset
+   */
+  private async waitForRateLimit(): Promise<void> {
+    const wait = this.rateLimitResetAt - Date.now();
+    if (wait > 0) {
+      await sleep(Math.min(MAX_RETRY_DELAY_MS, wait));
+    }
+  }
+}
+
+/**
+ * Client bound to the MCP session whose request is being handled
+ */
+const activeClient = new AsyncLocalStorage<GitLabClient>();
+
+/**
+ * Run a function with the given client bound as the active client
+ *
+ * @param {GitLabClient} client - Client of the current session
+ * @param {() => T} fn - Function to run
+ * @returns {T} The function's result
+ */
+export function runWithGitLabClient<T>(client: GitLabClient, fn: () => T): T {
+  return activeClient.run(client, fn);
+}
+
+/**
+ * Get the client bound by runWithGitLabClient
+ *
+ * @returns {GitLabClient} The active client
+ * @throws {Error} If called outside runWithGitLabClient
+ */
+export function activeGitLabClient(): GitLabClient {
+  const client = activeClient.getStore();
+  if (!client) {
+    throw new Error("No GitLab client is bound to this request");
+  }
+  return client;
+}
@@ -0,0 +1,35 @@
+/**
+ * Convert a glob pattern to a regular expression
+ * 글로브 패턴을 정규식으로 변환
+ *
+ * Supports `*` (within a path segment), `**` (across segments) and `?`.
+ *
+ * @param {string} pattern - The glob pattern
+ * @param {boolean} [ignoreCase] - Match regardless of case, like GitLab paths
+ * @returns {RegExp} A regular expression matching the whole path
+ */
+export function globToRegExp(pattern: string, ignoreCase = false): RegExp {
+  let source = "";
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === "*") {
+      if (pattern[i + 1] === "*") {
+        // "**/" also matches zero directories
+        if (pattern[i + 2] === "/") {
+          source += "(?:.*/)?";
+          i += 2;
+        } else {
+          source += ".*";
+          i++;
+        }
+      } else {
+        source += "[^/]*";
+      }
+    } else if (char === "?") {
+      source += "[^/]";
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    }
+  }
+  return new RegExp(`^${source}$`, ignoreCase ? "i" : "");
+}
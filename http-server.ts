@@ -0,0 +1,462 @@
+import { createHash, timingSafeEqual } from "node:crypto";
+import http, { type IncomingMessage, type ServerResponse } from "node:http";
+import type { Agent } from "node:https";
+import fetch from "node-fetch";
+import type { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
+import { StreamableHTTPServerTransport, writeJson } from "./streamable-http.js";
+
+/**
+ * Largest JSON-RPC request body accepted on the streamable HTTP endpoint
+ */
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+
+/**
+ * Options for the HTTP transport
+ */
+export interface HttpServerOptions {
+  host: string;
+  port: number;
+  // Builds the MCP server for a new session, from the tokens the client sent
+  createServer: (token: string, instanceTokens: Record<string, string>) => Server;
+  defaultToken?: string; // Used when a client does not send its own token; loopback hosts only
+  allowedOrigins?: string[]; // Browser origins allowed besides loopback ones, e.g. https://app.example.com
+  readinessUrl: string; // GitLab endpoint probed by /readyz
+  readinessAgent?: Agent; // TLS settings for the probe
+  sessionIdleTimeoutMs?: number; // Default 30 minutes
+  shutdownTimeoutMs?: number; // Default 10 seconds
+}
+
+/**
+ * A connected MCP client
+ */
+interface Session {
+  server: Server;
+  transport: StreamableHTTPServerTransport | SSEServerTransport;
+  tokenHash: Buffer;
+  lastSeen: number;
+}
+
+/**
+ * The GitLab tokens a client authenticates with
+ */
+interface ClientTokens {
+  token: string; // For the default instance
+  instanceTokens: Record<string, string>; // For other instances, by name
+}
+
+/**
+ * Read the GitLab token a client sent, from either the Private-Token header
+ * GitLab itself uses or an Authorization: Bearer header
+ *
+ * @param {IncomingMessage} req - The HTTP request
+ * @returns {string | undefined} The token, if any
+ */
+function requestToken(req: IncomingMessage): string | undefined {
+  const privateToken = req.headers["private-token"];
+  if (typeof privateToken === "string" && privateToken) {
+    return privateToken;
+  }
+  return req.headers.authorization?.match(/^Bearer\s+(.+)$/i)?.[1];
+}
+
+/**
+ * Read the tokens a client sent for instances other than the default one,
+ * as `GitLab-Instance-Token: <instance>=<token>` headers (repeated or
+ * comma-separated)
+ *
+ * @param {IncomingMessage} req - The HTTP request
+ * @returns {Record<string, string>} Tokens by instance name
+ */
+function requestInstanceTokens(req: IncomingMessage): Record<string, string> {
+  const tokens: Record<string, string> = {};
+  for (const entry of (req.headers["gitlab-instance-token"] ?? "").toString().split(",")) {
+    const separator = entry.indexOf("=");
+    if (separator > 0) {
+      tokens[entry.slice(0, separator).trim()] = entry.slice(separator + 1).trim();
+    }
+  }
+  return tokens;
+}
+
+/**
+ * Check whether a listen address or host name only accepts local connections
+ *
+ * @param {string} host - Host name or IP address
+ * @returns {boolean} True for localhost and loopback addresses
+ */
+function isLoopback(host: string): boolean {
+  const name = host.replace(/^\[(.*)\]$/, "$1").toLowerCase();
+  return name === "localhost" || name === "::1" || /^127(\.\d{1,3}){3}$/.test(name);
+}
+
+/**
+ * Check the Origin header browsers send, so a web page cannot reach the
+ * server through DNS rebinding; clients that are not browsers send none
+ *
+ * @param {IncomingMessage} req - The HTTP request
+ * @param {string[]} allowedOrigins - Origins allowed besides loopback ones
+ * @returns {boolean} True if the request may proceed
+ */
+function isAllowedOrigin(req: IncomingMessage, allowedOrigins: string[]): boolean {
+  const origin = req.headers.origin;
+  if (origin === undefined) {
+    return true;
+  }
+  if (allowedOrigins.includes(origin)) {
+    return true;
+  }
+  try {
+    return isLoopback(new URL(origin).hostname);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Hash the tokens of a client so sessions never keep them in comparable plain text
+ *
+ * @param {ClientTokens} tokens - GitLab tokens
+ * @returns {Buffer} SHA-256 digest
+ */
+function hashTokens(tokens: ClientTokens): Buffer {
+  const instanceTokens = Object.entries(tokens.instanceTokens).sort(([a], [b]) => a.localeCompare(b));
+  return createHash("sha256").update(JSON.stringify([tokens.token, instanceTokens])).digest();
+}
+
+/**
+ * Read and parse a JSON request body
+ *
+ * @param {IncomingMessage} req - The HTTP request
+ * @returns {Promise<unknown>} The parsed body
+ * @throws {Error} If the body is too large or not valid JSON
+ */
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      throw new Error(`Request body exceeds ${MAX_BODY_BYTES} bytes`);
+    }
+    chunks.push(chunk);
+  }
+  return JSON.parse(Buffer.concat(chunks).toString("utf8"));
+}
+
+/**
+ * Check whether a body contains an initialize request
+ *
+ * @param {unknown} body - Parsed JSON-RPC message or batch
+ * @returns {boolean} True if a new session should be started
+ */
+function isInitializeRequest(body: unknown): boolean {
+  const messages = Array.isArray(body) ? body : [body];
+  return messages.some(
+    (message) => (message as { method?: unknown } | null)?.method === "initialize"
+  );
+}
+
+/**
+ * Probe GitLab without credentials; any non-5xx answer means it is reachable
+ *
+ * @param {string} url - Endpoint to probe
+ * @param {Agent} [agent] - TLS settings for https URLs
+ * @returns {Promise<string | null>} Why GitLab is not ready, or null if it is
+ */
+async function checkGitLab(url: string, agent?: Agent): Promise<string | null> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), 5000);
+  try {
+    const response = await fetch(url, {
+      agent: (parsedUrl) => (parsedUrl.protocol === "https:" ? agent : undefined),
+      signal: controller.signal,
+    });
+    await response.arrayBuffer();
+    return response.status >= 500 ? `GitLab returned ${response.status}` : null;
+  } catch (error) {
+    return `GitLab is unreachable: ${error instanceof Error ? error.message : String(error)}`;
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Serve MCP over HTTP for shared deployments
+ *
+ * Exposes the streamable HTTP endpoint at /mcp, the older SSE transport at
+ * /sse and /messages, and /healthz and /readyz probes. Every session gets its
+ * own MCP server bound to the GitLab tokens the client connected with, and
+ * later requests must present the same tokens. Requests from browser pages
+ * are refused unless their origin is a loopback or allowed one. SIGTERM and
+ * SIGINT stop new connections, let in-flight requests finish, then close
+ * all sessions.
+ *
+ * @param {HttpServerOptions} options - Listen address and session settings
+ * @returns {Promise<http.Server>} The listening HTTP server
+ * @throws {Error} If a default token is given for a host other clients can reach
+ */
+export async function startHttpServer(options: HttpServerOptions): Promise<http.Server> {
+  if (options.defaultToken && !isLoopback(options.host)) {
+    throw new Error(
+      `Refusing to lend the server's GitLab token to clients without one on ${options.host}; listen on a loopback address or require clients to send a token`
+    );
+  }
+  const sessionIdleTimeoutMs = options.sessionIdleTimeoutMs ?? 30 * 60 * 1000;
+  const shutdownTimeoutMs = options.shutdownTimeoutMs ?? 10_000;
+  const sessions = new Map<string, Session>();
+  let inFlight = 0;
+  let shuttingDown = false;
+
+  /**
+   * Resolve the tokens for a request, answering 401 if there is none for the default instance
+   */
+  function authenticate(req: IncomingMessage, res: ServerResponse): ClientTokens | null {
+    const token = requestToken(req) ?? options.defaultToken;
+    if (!token) {
+      writeJson(
+        res,
+        401,
+        { error: "A GitLab token is required in the Private-Token or Authorization header" },
+        { "WWW-Authenticate": "Bearer" }
+      );
+      return null;
+    }
+    return { token, instanceTokens: requestInstanceTokens(req) };
+  }
+
+  /**
+   * Look up an existing session, answering 404 or 403 if the client may not use it
+   */
+  function resumeSession(
+    sessionId: string,
+    req: IncomingMessage,
+    res: ServerResponse
+  ): Session | null {
+    const session = sessions.get(sessionId);
+    if (!session) {
+      writeJson(res, 404, { error: `Unknown session: ${sessionId}` });
+      return null;
+    }
+    const tokens = authenticate(req, res);
+    if (tokens === null) {
+      return null;
+    }
+    if (!timingSafeEqual(hashTokens(tokens), session.tokenHash)) {
+      writeJson(res, 403, { error: "Tokens do not match the session" });
+      return null;
+    }
+    session.lastSeen = Date.now();
+    return session;
+  }
+
+  /**
+   * Create the MCP server for a new session and connect it to its transport
+   */
+  async function openSession(
+    transport: StreamableHTTPServerTransport | SSEServerTransport,
+    tokens: ClientTokens
+  ): Promise<Session> {
+    const server = options.createServer(tokens.token, tokens.instanceTokens);
+    const session: Session = {
+      server,
+      transport,
+      tokenHash: hashTokens(tokens),
+      lastSeen: Date.now(),
+    };
+    sessions.set(transport.sessionId, session);
+    const onclose = server.onclose;
+    server.onclose = () => {
+      onclose?.();
+      sessions.delete(transport.sessionId);
+    };
+    await server.connect(transport);
+    return session;
+  }
+
+  async function handleStreamable(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const sessionId = req.headers["mcp-session-id"];
+    if (Array.isArray(sessionId)) {
+      writeJson(res, 400, { error: "Only one Mcp-Session-Id header is allowed" });
+      return;
+    }
+
+    if (req.method === "POST") {
+      let body: unknown;
+      try {
+        body = await readJsonBody(req);
+      } catch (error) {
+        writeJson(res, 400, {
+          jsonrpc: "2.0",
+          id: null,
+          error: { code: -32700, message: error instanceof Error ? error.message : String(error) },
+        });
+        return;
+      }
+
+      let session: Session | null;
+      if (sessionId) {
+        session = resumeSession(sessionId, req, res);
+      } else if (isInitializeRequest(body)) {
+        const tokens = authenticate(req, res);
+        session = tokens === null
+          ? null
+          : await openSession(new StreamableHTTPServerTransport(), tokens);
+      } else {
+        writeJson(res, 400, { error: "Missing Mcp-Session-Id header" });
+        return;
+      }
+      if (!session) {
+        return;
+      }
+      if (!(session.transport instanceof StreamableHTTPServerTransport)) {
+        writeJson(res, 400, { error: "Session belongs to the SSE transport" });
+        return;
+      }
+      await session.transport.handlePost(body, res);
+      return;
+    }
+
+    if (!sessionId) {
+      writeJson(res, 400, { error: "Missing Mcp-Session-Id header" });
+      return;
+    }
+    const session = resumeSession(sessionId, req, res);
+    if (!session) {
+      return;
+    }
+    if (!(session.transport instanceof StreamableHTTPServerTransport)) {
+      writeJson(res, 400, { error: "Session belongs to the SSE transport" });
+      return;
+    }
+
+    if (req.method === "GET") {
+      session.transport.handleEventStream(res);
+    } else if (req.method === "DELETE") {
+      await session.server.close();
+      res.writeHead(204).end();
+    } else {
+      writeJson(res, 405, { error: `Method ${req.method} not allowed` }, { Allow: "GET, POST, DELETE" });
+    }
+  }
+
+  async function handleRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const url = new URL(req.url ?? "/", "http://localhost");
+
+    if (url.pathname === "/healthz") {
+      writeJson(res, 200, { status: "ok", sessions: sessions.size });
+      return;
+    }
+
+    if (url.pathname === "/readyz") {
+      const reason = shuttingDown
+        ? "Server is shutting down"
+        : await checkGitLab(options.readinessUrl, options.readinessAgent);
+      writeJson(res, reason ? 503 : 200, reason
+        ? { status: "unavailable", reason }
+        : { status: "ready" });
+      return;
+    }
+
+    if (shuttingDown) {
+      writeJson(res, 503, { error: "Server is shutting down" }, { Connection: "close" });
+      return;
+    }
+
+    if (!isAllowedOrigin(req, options.allowedOrigins ?? [])) {
+      writeJson(res, 403, { error: `Origin not allowed: ${req.headers.origin}` });
+      return;
+    }
+
+    if (url.pathname === "/mcp") {
+      await handleStreamable(req, res);
+      return;
+    }
+
+    if (url.pathname === "/sse" && req.method === "GET") {
+      const tokens = authenticate(req, res);
+      if (tokens !== null) {
+        await openSession(new SSEServerTransport("/messages", res), tokens);
+      }
+      return;
+    }
+
+    if (url.pathname === "/messages" && req.method === "POST") {
+      const session = resumeSession(url.searchParams.get("sessionId") ?? "", req, res);
+      if (!session) {
+        return;
+      }
+      if (!(session.transport instanceof SSEServerTransport)) {
+        writeJson(res, 400, { error: "Session belongs to the streamable HTTP transport" });
+        return;
+      }
+      await session.transport.handlePostMessage(req, res);
+      return;
+    }
+
+    writeJson(res, 404, { error: "Not found" });
+  }
+
+  const httpServer = http.createServer((req, res) => {
+    // Event streams stay open for the whole session, so they are not in flight
+    const streaming = req.method === "GET" && /^\/(mcp|sse)(\?|$)/.test(req.url ?? "");
+    if (!streaming) {
+      inFlight++;
+      res.on("close", () => inFlight--);
+    }
+    handleRequest(req, res).catch((error) => {
+      console.error("Error handling HTTP request:", error);
+      if (!res.headersSent) {
+        writeJson(res, 500, { error: "Internal server error" });
+      } else {
+        res.end();
+      }
+    });
+  });
+
+  // Drop streamable HTTP sessions whose client went away without a DELETE
+  const sweep = setInterval(() => {
+    const cutoff = Date.now() - sessionIdleTimeoutMs;
+    for (const session of sessions.values()) {
+      if (session.transport instanceof StreamableHTTPServerTransport && session.lastSeen < cutoff) {
+        session.server.close().catch(() => undefined);
+      }
+    }
+  }, 60_000);
+  sweep.unref();
+
+  async function shutdown(signal: string): Promise<void> {
+    if (shuttingDown) {
+      return;
+    }
+    shuttingDown = true;
+    console.error(`Received ${signal}, shutting down`);
+    clearInterval(sweep);
+    setTimeout(() => {
+      console.error(`Shutdown did not finish within ${shutdownTimeoutMs}ms, exiting`);
+      process.exit(1);
+    }, shutdownTimeoutMs).unref();
+
+    const closed = new Promise((resolve) => httpServer.close(resolve));
+    while (inFlight > 0) {
+      await new Promise((resolve) => setTimeout(resolve, 100));
+    }
+    await Promise.allSettled([...sessions.values()].map((session) => session.server.close()));
+    // Not available before Node 18.2; idle sockets then linger until the timeout
+    httpServer.closeIdleConnections?.();
+    await closed;
+    process.exit(0);
+  }
+
+  process.once("SIGTERM", () => void shutdown("SIGTERM"));
+  process.once("SIGINT", () => void shutdown("SIGINT"));
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once("error", reject);
+    httpServer.listen(options.port, options.host, () => {
+      httpServer.off("error", reject);
+      resolve();
+    });
+  });
+  return httpServer;
+}
@@ -4,9 +4,23 @@ import { Server } from "@modelcontextprotocol/sdk/server/index.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
 import {
   CallToolRequestSchema,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
   ListToolsRequestSchema,
+  ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+  type CallToolRequest,
+  type CallToolResult,
+  type GetPromptResult,
+  type Implementation,
+  type ListResourcesResult,
+  type Prompt,
+  type ReadResourceResult,
+  type Resource,
 } from "@modelcontextprotocol/sdk/types.js";
-import fetch from "node-fetch";
 import { z } from "zod";
 import { zodToJsonSchema } from "zod-to-json-schema";
 import { fileURLToPath } from "url";
@@ -20,10 +34,13 @@ import {
   GitLabIssueSchema,
   GitLabMergeRequestSchema,
   GitLabContentSchema,
+  GitLabFileMetadataSchema,
   GitLabCreateUpdateFileResponseSchema,
   GitLabSearchResponseSchema,
   GitLabTreeSchema,
+  GitLabTreeEntrySchema,
   GitLabCommitSchema,
+  GitLabCompareResultSchema,
   GitLabNamespaceSchema,
   GitLabNamespaceExistsResponseSchema,
   GitLabProjectSchema,
@@ -36,6 +53,7 @@ import {
   SearchRepositoriesSchema,
   CreateRepositorySchema,
   GetFileContentsSchema,
+  GetRepositoryTreeSchema,
   PushFilesSchema,
   CreateIssueSchema,
   CreateMergeRequestSchema,
@@ -45,7 +63,17 @@ import {
   GetMergeRequestSchema,
   GetMergeRequestDiffsSchema,
   UpdateMergeRequestSchema,
+  MergeMergeRequestSchema,
+  RebaseMergeRequestSchema,
+  GitLabMergeRequestApprovalsSchema,
+  GitLabMergeRequestApprovalStateSchema,
+  GetMergeRequestApprovalsSchema,
+  ApproveMergeRequestSchema,
+  UnapproveMergeRequestSchema,
   ListIssuesSchema,
+  ListGroupIssuesSchema,
+  ListGroupMergeRequestsSchema,
+  ListMergeRequestsSchema,
   GetIssueSchema,
   UpdateIssueSchema,
   DeleteIssueSchema,
@@ -60,31 +88,137 @@ import {
   VerifyNamespaceSchema,
   GetProjectSchema,
   ListProjectsSchema,
+  WhoamiSchema,
+  GitLabCurrentUserSchema,
+  GitLabPersonalAccessTokenSchema,
+  GitLabOAuthTokenInfoSchema,
   ListLabelsSchema,
   GetLabelSchema,
   CreateLabelSchema,
   UpdateLabelSchema,
   DeleteLabelSchema,
+  ListGroupLabelsSchema,
+  GetGroupLabelSchema,
+  CreateGroupLabelSchema,
+  UpdateGroupLabelSchema,
+  DeleteGroupLabelSchema,
   CreateNoteSchema,
+  GitLabNoteSchema,
+  GitLabDiscussionSchema,
+  ListMergeRequestDiscussionsSchema,
+  CreateMergeRequestThreadSchema,
+  ReplyToDiscussionSchema,
+  ResolveDiscussionSchema,
+  GitLabPipelineSchema,
+  GitLabPipelineJobSchema,
+  GitLabJobLogSchema,
+  ListPipelinesSchema,
+  GetPipelineSchema,
+  ListPipelineJobsSchema,
+  GetJobLogSchema,
+  RetryPipelineSchema,
+  CancelPipelineSchema,
+  CreatePipelineSchema,
   type GitLabFork,
   type GitLabReference,
   type GitLabRepository,
   type GitLabIssue,
   type GitLabMergeRequest,
   type GitLabContent,
+  type GitLabFileMetadata,
   type GitLabCreateUpdateFileResponse,
   type GitLabSearchResponse,
   type GitLabTree,
+  type GitLabTreeEntry,
   type GitLabCommit,
+  type GitLabCompareResult,
   type FileOperation,
   type GitLabMergeRequestDiff,
+  type GitLabMergeRequestApprovals,
+  type GitLabMergeRequestApprovalState,
   type GitLabIssueLink,
   type GitLabIssueWithLinkDetails,
   type GitLabNamespace,
   type GitLabNamespaceExistsResponse,
   type GitLabProject,
   type GitLabLabel,
+  type GitLabNote,
+  type GitLabDiscussion,
+  type GitLabDiffPosition,
+  type MergeRequestThreadPosition,
+  type PaginationOptions,
+  type PaginatedResponse,
+  type GitLabPipeline,
+  type GitLabPipelineJob,
+  type GitLabJobLog,
+  type GitLabCurrentUser,
+  type GitLabPersonalAccessToken,
 } from "./schemas.js";
+import {
+  GitLabClient,
+  activeGitLabClient,
+  clientOptionsFromEnv,
+  runWithGitLabClient,
+  type GitLabRequestInit,
+} from "./gitlab-client.js";
+import { TokenCredentials, type Credentials } from "./credentials.js";
+import { createResponseCache, type ResponseCache } from "./cache.js";
+import { createCassette, type Cassette } from "./cassette.js";
+import { OAuthCredentials } from "./oauth.js";
+import {
+  CassetteMismatchError,
+  CredentialsError,
+  GitLabApiError,
+  GitLabForbiddenError,
+  GitLabNotFoundError,
+  GitLabRequestError,
+  MergeRequestRebaseError,
+  PolicyViolationError,
+  createGitLabApiError,
+} from "./errors.js";
+import { globToRegExp } from "./glob.js";
+import { unifiedDiff } from "./diff.js";
+import { createAuditLog, recordRequest } from "./audit-log.js";
+import {
+  RESOURCE_TEMPLATES,
+  ResourceSubscriptions,
+  parseResourceUri,
+  resourceUri,
+  type ResourceRef,
+} from "./resources.js";
+import {
+  PROMPTS,
+  numericArgument,
+  pipelineFailurePrompt,
+  releaseNotesPrompt,
+  requiredArgument,
+  reviewMergeRequestPrompt,
+  triageIssuesPrompt,
+} from "./prompts.js";
+import {
+  DryRunInterrupt,
+  isDryRun,
+  runDryRun,
+  type InterceptedRequest,
+} from "./dry-run.js";
+import { startHttpServer } from "./http-server.js";
+import { ToolPolicy, loadPolicyConfig, type TargetBranch } from "./policy.js";
+import {
+  TOOL_ACCESS_LEVELS,
+  daysUntilExpiry,
+  forbiddenHint,
+  hasScopeFor,
+  projectAccessLevel,
+  roleName,
+  tokenWarnings,
+  type TokenInfo,
+} from "./permissions.js";
+import {
+  DEFAULT_INSTANCE_NAME,
+  loadInstances,
+  type GitLabInstance,
+  type GitLabInstances,
+} from "./instances.js";
 
 /**
  * Read version from package.json
@@ -102,84 +236,332 @@ try {
   console.error("Warning: Could not read version from package.json:", error);
 }
 
-const server = new Server(
-  {
-    name: "better-gitlab-mcp-server",
-    version: SERVER_VERSION,
-  },
-  {
-    capabilities: {
-      tools: {},
-    },
-  }
-);
+let gitlabInstances: GitLabInstances;
+try {
+  gitlabInstances = loadInstances();
+} catch (error) {
+  console.error("Invalid GitLab instance configuration:", error);
+  process.exit(1);
+}
+
+/**
+ * Instance used by calls that do not name one
+ */
+const DEFAULT_INSTANCE = gitlabInstances.instances.get(gitlabInstances.defaultInstance)!;
 
-const GITLAB_PERSONAL_ACCESS_TOKEN = process.env.GITLAB_PERSONAL_ACCESS_TOKEN;
+// Add debug logging for API URL construction
+console.log("=== MCP Server Configuration ===");
+for (const instance of gitlabInstances.instances.values()) {
+  console.log(`GitLab instance ${instance.name}${instance === DEFAULT_INSTANCE ? " (default)" : ""} = "${instance.apiUrl}"`);
+}
+console.log(`Example project API URL = "${DEFAULT_INSTANCE.apiUrl}/projects/123"`);
+console.log("===============================");
 
 /**
- * Smart URL handling for GitLab API
+ * Read a command line option given as `--name value` or `--name=value`
  *
- * @param {string | undefined} url - Input GitLab API URL
- * @returns {string} Normalized GitLab API URL with /api/v4 path
+ * @param {string} name - Option name without the leading dashes
+ * @returns {string | undefined} The option value, if given
  */
-function normalizeGitLabApiUrl(url?: string): string {
-  if (!url) {
-    return "https://gitlab.com/api/v4";
+function getCliOption(name: string): string | undefined {
+  const args = process.argv.slice(2);
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === `--${name}`) {
+      return args[i + 1];
+    }
+    if (args[i].startsWith(`--${name}=`)) {
+      return args[i].slice(name.length + 3);
+    }
   }
+  return undefined;
+}
 
-  // Remove trailing slash if present
-  let normalizedUrl = url.endsWith('/') ? url.slice(0, -1) : url;
+/**
+ * Transport to serve MCP over: stdio for a local client, http for a shared
+ * deployment serving both streamable HTTP and SSE
+ */
+const MCP_TRANSPORT = (getCliOption("transport") ?? process.env.MCP_TRANSPORT ?? "stdio").toLowerCase();
 
-  // Check if URL already has /api/v4
-  if (!normalizedUrl.endsWith('/api/v4') && !normalizedUrl.endsWith('/api/v4/')) {
-    // Append /api/v4 if not already present
-    normalizedUrl = `${normalizedUrl}/api/v4`;
-  }
+if (!["stdio", "http", "sse"].includes(MCP_TRANSPORT)) {
+  console.error(`Unknown transport "${MCP_TRANSPORT}", expected stdio or http`);
+  process.exit(1);
+}
 
-  return normalizedUrl;
+// In HTTP mode clients may bring their own token instead
+if (!DEFAULT_INSTANCE.credentials && MCP_TRANSPORT === "stdio" && process.argv[2] !== "login") {
+  console.error(
+    DEFAULT_INSTANCE.name === DEFAULT_INSTANCE_NAME
+      ? "GITLAB_PERSONAL_ACCESS_TOKEN environment variable is not set"
+      : `No credentials are configured for the default GitLab instance ${DEFAULT_INSTANCE.name}`
+  );
+  process.exit(1);
 }
 
-// Use the normalizeGitLabApiUrl function to handle various URL formats
-const GITLAB_API_URL = normalizeGitLabApiUrl(process.env.GITLAB_API_URL || "");
+let cassette: Cassette | null;
+try {
+  cassette = createCassette(
+    process.env,
+    [...gitlabInstances.instances.values()].map((instance) => instance.token ?? "")
+  );
+} catch (error) {
+  console.error("Invalid cassette configuration:", error);
+  process.exit(1);
+}
 
-// Add debug logging for API URL construction
-console.log("=== MCP Server Configuration ===");
-console.log(`GITLAB_API_URL = "${GITLAB_API_URL}"`);
-console.log(`Example project API URL = "${GITLAB_API_URL}/projects/123"`);
-console.log(`Example Notes API URL = "${GITLAB_API_URL}/projects/123/issues/1/notes"`);
-console.log("===============================");
+let clientOptions: ReturnType<typeof clientOptionsFromEnv>;
+try {
+  clientOptions = clientOptionsFromEnv();
+} catch (error) {
+  console.error("Invalid request configuration:", error instanceof Error ? error.message : error);
+  process.exit(1);
+}
 
-if (!GITLAB_PERSONAL_ACCESS_TOKEN) {
-  console.error("GITLAB_PERSONAL_ACCESS_TOKEN environment variable is not set");
+let responseCache: ResponseCache | null;
+try {
+  // Cached responses would be missing from a recording, and revalidations from a replay
+  responseCache = cassette ? null : createResponseCache();
+} catch (error) {
+  console.error("Invalid response cache configuration:", error);
   process.exit(1);
 }
 
 /**
- * Common headers for GitLab API requests
- * GitLab API 공통 헤더 (Common headers for GitLab API)
+ * Create the HTTP client for a GitLab instance
+ * GitLab API 클라이언트 생성 (Create a GitLab API client)
+ *
+ * @param {GitLabInstance} instance - Instance to send requests to
+ * @param {Credentials} credentials - Credentials to authenticate with
+ * @returns {GitLabClient} Client sending requests with the credentials
+ */
+function createGitLabClient(instance: GitLabInstance, credentials: Credentials): GitLabClient {
+  return new GitLabClient({
+    apiUrl: instance.apiUrl,
+    credentials,
+    agent: instance.agent,
+    cache: responseCache ?? undefined,
+    cassette: cassette ?? undefined,
+    ...clientOptions,
+  });
+}
+
+/**
+ * Create a client for every instance that has credentials
+ *
+ * An HTTP session only gets clients for the instances its client sent
+ * tokens for: falling back to the configured credentials would let anyone
+ * who can connect act as the server's operator on the other instances.
+ *
+ * @param {Record<string, string>} [sessionTokens] - Tokens of an HTTP session by instance name, replacing the configured credentials
+ * @returns {Map<string, GitLabClient>} Clients by instance name
+ */
+function createGitLabClients(sessionTokens?: Record<string, string>): Map<string, GitLabClient> {
+  const clients = new Map<string, GitLabClient>();
+  for (const instance of gitlabInstances.instances.values()) {
+    const credentials = sessionTokens
+      ? sessionTokens[instance.name] && new TokenCredentials(sessionTokens[instance.name])
+      : instance.credentials;
+    if (credentials) {
+      clients.set(instance.name, createGitLabClient(instance, credentials));
+    }
+  }
+  return clients;
+}
+
+/**
+ * Pick the client for the instance a call names
+ *
+ * @param {Map<string, GitLabClient>} clients - Clients of the session
+ * @param {unknown} [instance] - The call's `instance` argument
+ * @returns {GitLabClient} The client
+ * @throws {Error} If the instance is unknown or has no credentials
+ */
+function selectGitLabClient(
+  clients: Map<string, GitLabClient>,
+  instance: unknown = gitlabInstances.defaultInstance
+): GitLabClient {
+  if (typeof instance !== "string" || !gitlabInstances.instances.has(instance)) {
+    throw new Error(
+      `Unknown GitLab instance: ${String(instance)} (configured: ${[
+        ...gitlabInstances.instances.keys(),
+      ].join(", ")})`
+    );
+  }
+  const client = clients.get(instance);
+  if (!client) {
+    throw new CredentialsError(
+      MCP_TRANSPORT === "stdio"
+        ? `No credentials are configured for GitLab instance ${instance}`
+        : `No token for GitLab instance ${instance} in this session; send one in a GitLab-Instance-Token: ${instance}=<token> header`
+    );
+  }
+  return client;
+}
+
+/**
+ * Sends every GitLab API request through the client of the session being served
+ * GitLab API 공통 클라이언트 (Shared client for GitLab API requests)
  */
-const DEFAULT_HEADERS = {
-  Accept: "application/json",
-  "Content-Type": "application/json",
-  Authorization: `Bearer ${GITLAB_PERSONAL_ACCESS_TOKEN}`,
+const gitlab = {
+  fetch: async (input: string | URL, init?: GitLabRequestInit) => {
+    const method = (init?.method ?? "GET").toUpperCase();
+    // 드라이런에서는 쓰기 요청을 보내지 않음 (Dry runs stop at the first write)
+    if (isDryRun() && method !== "GET" && method !== "HEAD") {
+      throw new DryRunInterrupt({
+        method,
+        url: input.toString(),
+        body: init?.body ? JSON.parse(init.body) : undefined,
+      });
+    }
+    try {
+      const response = await activeGitLabClient().fetch(input, init);
+      recordRequest(method, input.toString(), response.status);
+      return response;
+    } catch (error) {
+      recordRequest(method, input.toString());
+      throw error;
+    }
+  },
 };
 
+/**
+ * API URL of the GitLab instance the current call targets
+ *
+ * @returns {string} Base URL ending in /api/v4
+ */
+function gitlabApiUrl(): string {
+  return activeGitLabClient().apiUrl;
+}
+
 /**
  * Utility function for handling GitLab API errors
  * API 에러 처리를 위한 유틸리티 함수 (Utility function for handling API errors)
  *
  * @param {import("node-fetch").Response} response - The response from GitLab API
- * @throws {Error} Throws an error with response details if the request failed
+ * @throws {GitLabApiError} Throws the error matching the response status if the request failed
  */
 async function handleGitLabError(
   response: import("node-fetch").Response
 ): Promise<void> {
   if (!response.ok) {
-    const errorBody = await response.text();
-    throw new Error(
-      `GitLab API error: ${response.status} ${response.statusText}\n${errorBody}`
-    );
+    throw await createGitLabApiError(response);
+  }
+}
+
+/**
+ * Get the URL of the next page from a Link header
+ * Link 헤더에서 다음 페이지 URL 추출
+ *
+ * @param {import("node-fetch").Response} response - The response from GitLab API
+ * @returns {string | null} The URL of the next page, or null on the last page
+ */
+function getNextPageUrl(response: import("node-fetch").Response): string | null {
+  const link = response.headers.get("link");
+  if (!link) {
+    return null;
+  }
+  const next = link
+    .split(",")
+    .map((part) => part.match(/<([^>]+)>;\s*rel="next"/))
+    .find((match) => match !== null);
+  return next ? next[1] : null;
+}
+
+/**
+ * Default maximum number of items collected when following pagination
+ */
+const DEFAULT_MAX_ITEMS = 1000;
+
+/**
+ * Fetch a list endpoint, optionally following pagination
+ * 목록 API 페이지네이션 처리
+ *
+ * A single page is fetched unless `all_pages` or `max_items` is set, in which
+ * case `Link` headers are followed (offset and keyset pagination alike)
+ * until the last page or until `max_items` items are collected. Pages are
+ * then no larger than `max_items`, and items past it are dropped and reported
+ * as `truncated`.
+ *
+ * @param {URL} url - The list endpoint including its filters
+ * @param {z.ZodTypeAny} itemSchema - Schema of a single item
+ * @param {PaginationOptions} [options] - Pagination options
+ * @returns {Promise<PaginatedResponse>} The items with pagination details
+ */
+async function paginate<T extends z.ZodTypeAny>(
+  url: URL,
+  itemSchema: T,
+  options: PaginationOptions = {}
+): Promise<PaginatedResponse<z.infer<T>>> {
+  const followPages = options.all_pages || options.max_items !== undefined;
+  const maxItems = options.max_items ?? DEFAULT_MAX_ITEMS;
+
+  if (options.page) {
+    url.searchParams.set("page", options.page.toString());
+  }
+  const perPage = followPages ? Math.min(options.per_page ?? 100, maxItems) : options.per_page;
+  if (perPage) {
+    url.searchParams.set("per_page", perPage.toString());
+  }
+
+  const items: z.infer<T>[] = [];
+  let nextUrl: string | null = url.toString();
+  let nextPage: number | null = null;
+  let total: number | null = null;
+
+  while (nextUrl) {
+    const response = await gitlab.fetch(nextUrl);
+
+    await handleGitLabError(response);
+    items.push(...z.array(itemSchema).parse(await response.json()));
+
+    // GitLab API doesn't return x-total for results > 10,000
+    const totalHeader = response.headers.get("x-total");
+    total = totalHeader ? parseInt(totalHeader) : null;
+    const nextPageHeader = response.headers.get("x-next-page");
+    nextPage = nextPageHeader ? parseInt(nextPageHeader) : null;
+
+    nextUrl = getNextPageUrl(response);
+    if (!nextUrl && nextPage) {
+      const pageUrl = new URL(url.toString());
+      pageUrl.searchParams.set("page", nextPage.toString());
+      nextUrl = pageUrl.toString();
+    }
+
+    if (!followPages || items.length >= maxItems) {
+      break;
+    }
   }
+
+  return {
+    items: items.slice(0, maxItems),
+    total,
+    next_page: nextPage,
+    truncated: nextUrl !== null || items.length > maxItems,
+  };
+}
+
+/**
+ * Append filters to the query string of a list endpoint
+ * 목록 API 필터를 쿼리 파라미터로 추가
+ *
+ * Arrays are sent as comma-separated values, which is what GitLab expects
+ * for filters such as `labels`.
+ *
+ * @param {URL} url - The list endpoint
+ * @param {Record<string, unknown>} filters - The filters to append
+ */
+function appendQueryParams(url: URL, filters: Record<string, unknown>): void {
+  Object.entries(filters).forEach(([key, value]) => {
+    if (value === undefined || value === null) {
+      return;
+    }
+    if (Array.isArray(value)) {
+      url.searchParams.append(key, value.join(","));
+    } else if (typeof value === "boolean") {
+      url.searchParams.append(key, value ? "true" : "false");
+    } else {
+      url.searchParams.append(key, String(value));
+    }
+  });
 }
 
 /**
@@ -196,21 +578,23 @@ async function forkProject(
 ): Promise<GitLabFork> {
   // API 엔드포인트 URL 생성
   const url = new URL(
-    `${GITLAB_API_URL}/projects/${encodeURIComponent(projectId)}/fork`
+    `${gitlabApiUrl()}/projects/${encodeURIComponent(projectId)}/fork`
   );
 
   if (namespace) {
     url.searchParams.append("namespace", namespace);
   }
 
-  const response = await fetch(url.toString(), {
+  const response = await gitlab.fetch(url.toString(), {
     method: "POST",
-    headers: DEFAULT_HEADERS,
   });
 
   // 이미 존재하는 프로젝트인 경우 처리
   if (response.status === 409) {
-    throw new Error("Project already exists in the target namespace");
+    throw await createGitLabApiError(
+      response,
+      "Project already exists in the target namespace"
+    );
   }
 
   await handleGitLabError(response);
@@ -231,14 +615,13 @@ async function createBranch(
   options: z.infer<typeof CreateBranchOptionsSchema>
 ): Promise<GitLabReference> {
   const url = new URL(
-    `${GITLAB_API_URL}/projects/${encodeURIComponent(
+    `${gitlabApiUrl()}/projects/${encodeURIComponent(
       projectId
     )}/repository/branches`
   );
 
-  const response = await fetch(url.toString(), {
+  const response = await gitlab.fetch(url.toString(), {
     method: "POST",
-    headers: DEFAULT_HEADERS,
     body: JSON.stringify({
       branch: options.name,
       ref: options.ref,
@@ -258,12 +641,10 @@ async function createBranch(
  */
 async function getDefaultBranchRef(projectId: string): Promise<string> {
   const url = new URL(
-    `${GITLAB_API_URL}/projects/${encodeURIComponent(projectId)}`
+    `${gitlabApiUrl()}/projects/${encodeURIComponent(projectId)}`
   );
 
-  const response = await fetch(url.toString(), {
-    headers: DEFAULT_HEADERS,
-  });
+  const response = await gitlab.fetch(url.toString());
 
   await handleGitLabError(response);
   const project = GitLabRepositorySchema.parse(await response.json());
@@ -271,190 +652,603 @@ async function getDefaultBranchRef(projectId: string): Promise<string> {
 }
 
 /**
- * Get the contents of a file from a GitLab project
- * 파일 내용 조회 (Get file contents)
+ * Get a branch, including whether it is protected or the default branch
+ * 브랜치 조회 (Get a branch)
  *
  * @param {string} projectId - The ID or URL-encoded path of the project
- * @param {string} filePath - The path of the file to get
- * @param {string} [ref] - The name of the branch, tag or commit
- * @returns {Promise<GitLabContent>} The file content
+ * @param {string} branch - The branch name
+ * @returns {Promise<GitLabReference | null>} The branch, or null if it does not exist
  */
-async function getFileContents(
+async function getBranch(
   projectId: string,
-  filePath: string,
-  ref?: string
-): Promise<GitLabContent> {
-  const encodedPath = encodeURIComponent(filePath);
-
-  // ref가 없는 경우 default branch를 가져옴
-  if (!ref) {
-    ref = await getDefaultBranchRef(projectId);
-  }
-
+  branch: string
+): Promise<GitLabReference | null> {
   const url = new URL(
-    `${GITLAB_API_URL}/projects/${encodeURIComponent(
+    `${gitlabApiUrl()}/projects/${encodeURIComponent(
       projectId
-    )}/repository/files/${encodedPath}`
+    )}/repository/branches/${encodeURIComponent(branch)}`
   );
 
-  url.searchParams.append("ref", ref);
-
-  const response = await fetch(url.toString(), {
-    headers: DEFAULT_HEADERS,
-  });
+  const response = await gitlab.fetch(url.toString());
 
-  // 파일을 찾을 수 없는 경우 처리
   if (response.status === 404) {
-    throw new Error(`File not found: ${filePath}`);
+    return null;
   }
-
   await handleGitLabError(response);
-  const data = await response.json();
-  const parsedData = GitLabContentSchema.parse(data);
+  return GitLabReferenceSchema.parse(await response.json());
+}
 
-  // Base64로 인코딩된 파일 내용을 UTF-8로 디코딩
-  if (!Array.isArray(parsedData) && parsedData.content) {
-    parsedData.content = Buffer.from(parsedData.content, "base64").toString(
-      "utf8"
-    );
-    parsedData.encoding = "utf8";
-  }
+/**
+ * Default size above which file contents are replaced by metadata
+ */
+const DEFAULT_MAX_FILE_BYTES = 1024 * 1024;
 
-  return parsedData;
-}
+/**
+ * Magic numbers of common binary formats, used to sniff file contents
+ */
+const BINARY_SIGNATURES: { mimeType: string; bytes: number[]; offset?: number }[] = [
+  { mimeType: "image/png", bytes: [0x89, 0x50, 0x4e, 0x47] },
+  { mimeType: "image/jpeg", bytes: [0xff, 0xd8, 0xff] },
+  { mimeType: "image/gif", bytes: [0x47, 0x49, 0x46, 0x38] },
+  { mimeType: "image/webp", bytes: [0x57, 0x45, 0x42, 0x50], offset: 8 },
+  { mimeType: "image/x-icon", bytes: [0x00, 0x00, 0x01, 0x00] },
+  { mimeType: "application/pdf", bytes: [0x25, 0x50, 0x44, 0x46] },
+  { mimeType: "application/zip", bytes: [0x50, 0x4b, 0x03, 0x04] },
+  { mimeType: "application/gzip", bytes: [0x1f, 0x8b] },
+  { mimeType: "application/wasm", bytes: [0x00, 0x61, 0x73, 0x6d] },
+  { mimeType: "application/x-executable", bytes: [0x7f, 0x45, 0x4c, 0x46] },
+];
 
 /**
- * Create a new issue in a GitLab project
- * 이슈 생성 (Create an issue)
+ * Sniff whether file contents are binary
+ * 파일 내용이 바이너리인지 판별
  *
- * @param {string} projectId - The ID or URL-encoded path of the project
- * @param {z.infer<typeof CreateIssueOptionsSchema>} options - Issue creation options
- * @returns {Promise<GitLabIssue>} The created issue
+ * Contents are binary if they match a known magic number, contain a null
+ * byte, or are not valid UTF-8.
+ *
+ * @param {Buffer} content - The raw file contents
+ * @returns {{ binary: boolean; mimeType?: string }} The detection result
  */
-async function createIssue(
-  projectId: string,
-  options: z.infer<typeof CreateIssueOptionsSchema>
-): Promise<GitLabIssue> {
-  const url = new URL(
-    `${GITLAB_API_URL}/projects/${encodeURIComponent(projectId)}/issues`
+function detectBinaryContent(content: Buffer): {
+  binary: boolean;
+  mimeType?: string;
+} {
+  const signature = BINARY_SIGNATURES.find(({ bytes, offset = 0 }) =>
+    bytes.every((byte, index) => content[offset + index] === byte)
   );
+  if (signature) {
+    return { binary: true, mimeType: signature.mimeType };
+  }
 
-  const response = await fetch(url.toString(), {
-    method: "POST",
-    headers: DEFAULT_HEADERS,
-    body: JSON.stringify({
-      title: options.title,
-      description: options.description,
-      assignee_ids: options.assignee_ids,
-      milestone_id: options.milestone_id,
-      labels: options.labels?.join(","),
-    }),
-  });
+  if (content.subarray(0, 8000).includes(0)) {
+    return { binary: true };
+  }
 
-  // 잘못된 요청 처리
-  if (response.status === 400) {
-    const errorBody = await response.text();
-    throw new Error(`Invalid request: ${errorBody}`);
+  try {
+    new TextDecoder("utf-8", { fatal: true }).decode(content);
+  } catch {
+    return { binary: true };
   }
 
-  await handleGitLabError(response);
-  const data = await response.json();
-  return GitLabIssueSchema.parse(data);
+  return { binary: false };
 }
 
 /**
- * List issues in a GitLab project
- * 프로젝트의 이슈 목록 조회
+ * Root .gitattributes files, keyed like `projectPathCache` by project and
+ * ref; empty when a repository has none
+ */
+const gitAttributesCache = new Map<string, CachedValue>();
+
+/**
+ * Check the repository's root .gitattributes for a binary hint on a path
+ * .gitattributes 에서 바이너리 지정 여부 확인
+ *
+ * The file is fetched once per project and ref for `LOOKUP_CACHE_TTL_MS`.
  *
  * @param {string} projectId - The ID or URL-encoded path of the project
- * @param {Object} options - Options for listing issues
- * @returns {Promise<GitLabIssue[]>} List of issues
+ * @param {string} filePath - The path of the file
+ * @param {string} ref - The name of the branch, tag or commit
+ * @returns {Promise<boolean>} Whether the path is marked `binary` or `-text`
  */
-async function listIssues(
+async function isBinaryByGitAttributes(
   projectId: string,
-  options: Omit<z.infer<typeof ListIssuesSchema>, "project_id"> = {}
-): Promise<GitLabIssue[]> {
-  const url = new URL(
-    `${GITLAB_API_URL}/projects/${encodeURIComponent(projectId)}/issues`
-  );
+  filePath: string,
+  ref: string
+): Promise<boolean> {
+  const gitAttributes = await cachedLookup(gitAttributesCache, `${projectId} ${ref}`, async () => {
+    const url = new URL(
+      `${gitlabApiUrl()}/projects/${encodeURIComponent(
+        projectId
+      )}/repository/files/.gitattributes/raw`
+    );
+    url.searchParams.append("ref", ref);
 
-  // Add all query parameters
-  Object.entries(options).forEach(([key, value]) => {
-    if (value !== undefined) {
-      if (key === 'label_name' && Array.isArray(value)) {
-        // Handle array of labels
-        url.searchParams.append(key, value.join(','));
-      } else {
-        url.searchParams.append(key, value.toString());
-      }
+    const response = await gitlab.fetch(url.toString());
+
+    if (response.status === 404) {
+      return "";
     }
-  });
 
-  const response = await fetch(url.toString(), {
-    headers: DEFAULT_HEADERS,
+    await handleGitLabError(response);
+    return response.text();
   });
+  const fileName = filePath.split("/").pop() ?? filePath;
+  let binary = false;
+
+  // Later lines override earlier ones, as in git
+  for (const line of gitAttributes.split("\n")) {
+    const [pattern, ...attributes] = line.trim().split(/\s+/);
+    if (!pattern || pattern.startsWith("#")) {
+      continue;
+    }
+    const matches = pattern.includes("/")
+      ? globToRegExp(pattern.replace(/^\//, "")).test(filePath)
+      : globToRegExp(pattern).test(fileName);
+    if (!matches) {
+      continue;
+    }
+    if (attributes.includes("binary") || attributes.includes("-text")) {
+      binary = true;
+    } else if (attributes.includes("text")) {
+      binary = false;
+    }
+  }
 
-  await handleGitLabError(response);
-  const data = await response.json();
-  return z.array(GitLabIssueSchema).parse(data);
+  return binary;
 }
 
 /**
- * Get a single issue from a GitLab project
- * 단일 이슈 조회
+ * Get the metadata of a file without downloading its contents
+ * 파일 메타데이터 조회 (Get file metadata)
  *
  * @param {string} projectId - The ID or URL-encoded path of the project
- * @param {number} issueIid - The internal ID of the project issue
- * @returns {Promise<GitLabIssue>} The issue
+ * @param {string} filePath - The path of the file
+ * @param {string} ref - The name of the branch, tag or commit
+ * @returns {Promise<GitLabFileMetadata | null>} The file metadata, or null if the file does not exist
  */
-async function getIssue(
+async function getFileMetadata(
   projectId: string,
-  issueIid: number
-): Promise<GitLabIssue> {
+  filePath: string,
+  ref: string
+): Promise<GitLabFileMetadata | null> {
   const url = new URL(
-    `${GITLAB_API_URL}/projects/${encodeURIComponent(projectId)}/issues/${issueIid}`
+    `${gitlabApiUrl()}/projects/${encodeURIComponent(
+      projectId
+    )}/repository/files/${encodeURIComponent(filePath)}`
   );
+  url.searchParams.append("ref", ref);
 
-  const response = await fetch(url.toString(), {
-    headers: DEFAULT_HEADERS,
+  const response = await gitlab.fetch(url.toString(), {
+    method: "HEAD",
   });
 
+  if (response.status === 404) {
+    return null;
+  }
+
   await handleGitLabError(response);
-  const data = await response.json();
-  return GitLabIssueSchema.parse(data);
+  const header = (name: string) => response.headers.get(`x-gitlab-${name}`);
+  const executeFilemode = header("execute-filemode");
+
+  return GitLabFileMetadataSchema.parse({
+    file_name: header("file-name"),
+    file_path: header("file-path"),
+    size: Number(header("size")),
+    encoding: header("encoding"),
+    content_sha256: header("content-sha256"),
+    ref: header("ref"),
+    blob_id: header("blob-id"),
+    commit_id: header("commit-id"),
+    last_commit_id: header("last-commit-id"),
+    execute_filemode:
+      executeFilemode === null ? undefined : executeFilemode === "true",
+  });
 }
 
 /**
- * Update an issue in a GitLab project
- * 이슈 업데이트
+ * Get the contents of a file from a GitLab project
+ * 파일 내용 조회 (Get file contents)
+ *
+ * In "auto" format, text files are decoded to UTF-8 and binary files are
+ * returned as base64. Files larger than `maxBytes` are returned without
+ * content so callers still get the blob id, size and sha256; their size is
+ * checked with a HEAD request, so they are never downloaded.
  *
  * @param {string} projectId - The ID or URL-encoded path of the project
- * @param {number} issueIid - The internal ID of the project issue
- * @param {Object} options - Update options for the issue
- * @returns {Promise<GitLabIssue>} The updated issue
+ * @param {string} filePath - The path of the file to get
+ * @param {string} [ref] - The name of the branch, tag or commit
+ * @param {Object} [options] - Output format and size limit
+ * @returns {Promise<GitLabContent>} The file content
  */
-async function updateIssue(
+async function getFileContents(
   projectId: string,
-  issueIid: number,
-  options: Omit<z.infer<typeof UpdateIssueSchema>, "project_id" | "issue_iid">
-): Promise<GitLabIssue> {
-  const url = new URL(
-    `${GITLAB_API_URL}/projects/${encodeURIComponent(projectId)}/issues/${issueIid}`
-  );
+  filePath: string,
+  ref?: string,
+  options: { format?: "auto" | "text" | "base64"; max_bytes?: number } = {}
+): Promise<GitLabContent> {
+  const encodedPath = encodeURIComponent(filePath);
+  const format = options.format ?? "auto";
+  const maxBytes = options.max_bytes ?? DEFAULT_MAX_FILE_BYTES;
 
-  // Convert labels array to comma-separated string if present
-  const body: Record<string, any> = { ...options };
-  if (body.labels && Array.isArray(body.labels)) {
-    body.labels = body.labels.join(',');
+  // ref가 없는 경우 default branch를 가져옴
+  if (!ref) {
+    ref = await getDefaultBranchRef(projectId);
   }
 
-  const response = await fetch(url.toString(), {
-    method: "PUT",
-    headers: DEFAULT_HEADERS,
-    body: JSON.stringify(body),
-  });
+  // Look at the size before downloading the content; a missing file is
+  // reported by the request below
+  const metadata = await getFileMetadata(projectId, filePath, ref);
+  if (metadata && metadata.size > maxBytes) {
+    return { ...metadata, content: "", content_omitted: true };
+  }
 
-  await handleGitLabError(response);
+  const url = new URL(
+    `${gitlabApiUrl()}/projects/${encodeURIComponent(
+      projectId
+    )}/repository/files/${encodedPath}`
+  );
+
+  url.searchParams.append("ref", ref);
+
+  const response = await gitlab.fetch(url.toString());
+
+  // 파일을 찾을 수 없는 경우 처리
+  if (response.status === 404) {
+    throw await createGitLabApiError(
+      response,
+      `File not found: ${filePath} (use get_repository_tree to list directories)`
+    );
+  }
+
+  await handleGitLabError(response);
+  const data = await response.json();
+  const parsedData = GitLabContentSchema.parse(data);
+
+  if (Array.isArray(parsedData)) {
+    return parsedData;
+  }
+
+  // 크기 제한을 초과하면 메타데이터만 반환 (the file may have grown since it was checked)
+  if (parsedData.size > maxBytes) {
+    return { ...parsedData, content: "", content_omitted: true };
+  }
+
+  const raw = Buffer.from(parsedData.content, "base64");
+  const { binary, mimeType } = detectBinaryContent(raw);
+  parsedData.binary =
+    binary || (format === "auto" && (await isBinaryByGitAttributes(projectId, filePath, ref)));
+  if (mimeType) {
+    parsedData.mime_type = mimeType;
+  }
+
+  // Base64로 인코딩된 파일 내용을 UTF-8로 디코딩 (바이너리 파일은 base64 유지)
+  if (format === "text" || (format === "auto" && !parsedData.binary)) {
+    parsedData.content = raw.toString("utf8");
+    parsedData.encoding = "utf8";
+  } else {
+    parsedData.encoding = "base64";
+  }
+
+  return parsedData;
+}
+
+/**
+ * Default maximum number of entries fetched by getRepositoryTree
+ */
+const DEFAULT_MAX_TREE_ENTRIES = 5000;
+
+/**
+ * List the files and directories of a repository
+ * 저장소 트리 조회 (List repository tree)
+ *
+ * Follows keyset pagination until all entries are fetched or `max_entries`
+ * is reached, then applies the include/exclude globs.
+ *
+ * @param {string} projectId - The ID or URL-encoded path of the project
+ * @param {Object} options - Options for listing the tree
+ * @returns {Promise<{ entries: GitLabTreeEntry[]; truncated: boolean }>} The tree entries
+ */
+async function getRepositoryTree(
+  projectId: string,
+  options: Omit<z.infer<typeof GetRepositoryTreeSchema>, "project_id" | "format"> = {}
+): Promise<{ entries: GitLabTreeEntry[]; truncated: boolean }> {
+  const url = new URL(
+    `${gitlabApiUrl()}/projects/${encodeURIComponent(
+      projectId
+    )}/repository/tree`
+  );
+  url.searchParams.append("pagination", "keyset");
+  url.searchParams.append("per_page", "100");
+  if (options.path) {
+    url.searchParams.append("path", options.path);
+  }
+  if (options.ref) {
+    url.searchParams.append("ref", options.ref);
+  }
+  if (options.recursive) {
+    url.searchParams.append("recursive", "true");
+  }
+
+  const maxEntries = options.max_entries ?? DEFAULT_MAX_TREE_ENTRIES;
+  const entries: GitLabTreeEntry[] = [];
+  let nextUrl: string | null = url.toString();
+
+  while (nextUrl && entries.length < maxEntries) {
+    const response = await gitlab.fetch(nextUrl);
+
+    // 경로 또는 ref 가 존재하지 않는 경우
+    if (response.status === 404) {
+      throw await createGitLabApiError(
+        response,
+        `Tree not found: ${options.path || "/"}${options.ref ? ` at ${options.ref}` : ""}`
+      );
+    }
+
+    await handleGitLabError(response);
+    entries.push(...z.array(GitLabTreeEntrySchema).parse(await response.json()));
+    nextUrl = getNextPageUrl(response);
+  }
+
+  const truncated = nextUrl !== null || entries.length > maxEntries;
+  const include = (options.include ?? []).map((pattern) => globToRegExp(pattern));
+  const exclude = (options.exclude ?? []).map((pattern) => globToRegExp(pattern));
+
+  // A path is excluded if it or any of its parent directories matches
+  const isExcluded = (entryPath: string) => {
+    const segments = entryPath.split("/");
+    return segments.some((_, index) => {
+      const prefix = segments.slice(0, index + 1).join("/");
+      return exclude.some((pattern) => pattern.test(prefix));
+    });
+  };
+
+  const files = entries.filter(
+    (entry) =>
+      entry.type !== "tree" &&
+      !isExcluded(entry.path) &&
+      (include.length === 0 || include.some((pattern) => pattern.test(entry.path)))
+  );
+
+  // Keep directories only if they are not excluded and, with include globs,
+  // contain at least one matching file
+  const directories = entries.filter(
+    (entry) =>
+      entry.type === "tree" &&
+      !isExcluded(entry.path) &&
+      (include.length === 0 ||
+        files.some((file) => file.path.startsWith(`${entry.path}/`)))
+  );
+
+  return {
+    entries: [...directories, ...files]
+      .sort((a, b) => a.path.localeCompare(b.path))
+      .slice(0, maxEntries),
+    truncated,
+  };
+}
+
+/**
+ * Render tree entries as a compact indented listing
+ * 트리 항목을 들여쓰기된 텍스트로 변환
+ *
+ * @param {GitLabTreeEntry[]} entries - Entries sorted by path
+ * @param {string} [basePath] - The path the listing is relative to
+ * @returns {string} One entry per line, directories suffixed with "/"
+ */
+function renderTree(entries: GitLabTreeEntry[], basePath: string = ""): string {
+  const prefix = basePath ? `${basePath.replace(/\/+$/, "")}/` : "";
+  return entries
+    .map((entry) => {
+      const relativePath = entry.path.startsWith(prefix)
+        ? entry.path.slice(prefix.length)
+        : entry.path;
+      const depth = relativePath.split("/").length - 1;
+      const suffix = entry.type === "tree" ? "/" : entry.type === "commit" ? " @" : "";
+      return `${"  ".repeat(depth)}${entry.name}${suffix}`;
+    })
+    .join("\n");
+}
+
+/**
+ * Compare two refs of a repository
+ * 두 ref 비교 (Compare two refs)
+ *
+ * @param {string} projectId - The ID or URL-encoded path of the project
+ * @param {string} from - The base branch, tag or commit
+ * @param {string} to - The branch, tag or commit to compare with the base
+ * @returns {Promise<GitLabCompareResult>} The commits in `to` that are not in `from`
+ */
+async function compareRefs(
+  projectId: string,
+  from: string,
+  to: string
+): Promise<GitLabCompareResult> {
+  const url = new URL(
+    `${gitlabApiUrl()}/projects/${encodeURIComponent(projectId)}/repository/compare`
+  );
+  url.searchParams.append("from", from);
+  url.searchParams.append("to", to);
+
+  const response = await gitlab.fetch(url.toString());
+
+  await handleGitLabError(response);
+  return GitLabCompareResultSchema.parse(await response.json());
+}
+
+/**
+ * Create a new issue in a GitLab project
+ * 이슈 생성 (Create an issue)
+ *
+ * @param {string} projectId - The ID or URL-encoded path of the project
+ * @param {z.infer<typeof CreateIssueOptionsSchema>} options - Issue creation options
+ * @returns {Promise<GitLabIssue>} The created issue
+ */
+async function createIssue(
+  projectId: string,
+  options: z.infer<typeof CreateIssueOptionsSchema>
+): Promise<GitLabIssue> {
+  const url = new URL(
+    `${gitlabApiUrl()}/projects/${encodeURIComponent(projectId)}/issues`
+  );
+
+  const response = await gitlab.fetch(url.toString(), {
+    method: "POST",
+    body: JSON.stringify({
+      title: options.title,
+      description: options.description,
+      assignee_ids: options.assignee_ids,
+      milestone_id: options.milestone_id,
+      labels: options.labels?.join(","),
+    }),
+  });
+
+  await handleGitLabError(response);
+  const data = await response.json();
+  return GitLabIssueSchema.parse(data);
+}
+
+/**
+ * List issues in a GitLab project
+ * 프로젝트의 이슈 목록 조회
+ *
+ * @param {string} projectId - The ID or URL-encoded path of the project
+ * @param {Object} options - Options for listing issues
+ * @returns {Promise<PaginatedResponse<GitLabIssue>>} List of issues
+ */
+async function listIssues(
+  projectId: string,
+  options: Omit<z.infer<typeof ListIssuesSchema>, "project_id"> = {}
+): Promise<PaginatedResponse<GitLabIssue>> {
+  const url = new URL(
+    `${gitlabApiUrl()}/projects/${encodeURIComponent(projectId)}/issues`
+  );
+
+  // Add all query parameters (label_name arrays become comma-separated)
+  const { page, per_page, all_pages, max_items, ...filters } = options;
+  appendQueryParams(url, filters);
+
+  return paginate(url, GitLabIssueSchema, { page, per_page, all_pages, max_items });
+}
+
+/**
+ * List the issues of a group and its subgroups, or of every project the
+ * user can see
+ *
+ * @param {string | undefined} groupId - The ID or URL-encoded path of the group; undefined for all projects
+ * @param {Object} options - Filters and pagination
+ * @returns {Promise<PaginatedResponse<GitLabIssue>>} The issues
+ */
+async function listGroupIssues(
+  groupId: string | undefined,
+  options: Omit<z.infer<typeof ListGroupIssuesSchema>, "group_id"> = {}
+): Promise<PaginatedResponse<GitLabIssue>> {
+  const url = new URL(
+    groupId
+      ? `${gitlabApiUrl()}/groups/${encodeURIComponent(groupId)}/issues`
+      : `${gitlabApiUrl()}/issues`
+  );
+
+  const { page, per_page, all_pages, max_items, ...filters } = options;
+  appendQueryParams(url, filters);
+
+  return paginate(url, GitLabIssueSchema, { page, per_page, all_pages, max_items });
+}
+
+/**
+ * List the merge requests of a project, of a group and its subgroups, or of
+ * every project the user can see
+ *
+ * @param {Object} scope - Where to list: `projectId`, `groupId` or neither for all projects
+ * @param {Object} options - Filters and pagination
+ * @returns {Promise<PaginatedResponse<GitLabMergeRequest>>} The merge requests
+ */
+async function listMergeRequests(
+  scope: { projectId?: string; groupId?: string },
+  options: Omit<z.infer<typeof ListMergeRequestsSchema>, "project_id" | "group_id"> = {}
+): Promise<PaginatedResponse<GitLabMergeRequest>> {
+  const url = new URL(
+    scope.projectId
+      ? `${gitlabApiUrl()}/projects/${encodeURIComponent(scope.projectId)}/merge_requests`
+      : scope.groupId
+        ? `${gitlabApiUrl()}/groups/${encodeURIComponent(scope.groupId)}/merge_requests`
+        : `${gitlabApiUrl()}/merge_requests`
+  );
+
+  const {
+    page,
+    per_page,
+    all_pages,
+    max_items,
+    draft,
+    approved_by_ids,
+    approved_by_usernames,
+    ...filters
+  } = options;
+  appendQueryParams(url, filters);
+  // GitLab still calls the draft filter `wip`
+  if (draft !== undefined) {
+    url.searchParams.append("wip", draft ? "yes" : "no");
+  }
+  // GitLab expects approved_by_usernames[]=alice&approved_by_usernames[]=bob
+  approved_by_ids?.forEach((id) => url.searchParams.append("approved_by_ids[]", String(id)));
+  approved_by_usernames?.forEach((username) => url.searchParams.append("approved_by_usernames[]", username));
+
+  return paginate(url, GitLabMergeRequestSchema, { page, per_page, all_pages, max_items });
+}
+
+/**
+ * Get a single issue from a GitLab project
+ * 단일 이슈 조회
+ *
+ * @param {string} projectId - The ID or URL-encoded path of the project
+ * @param {number} issueIid - The internal ID of the project issue
+ * @returns {Promise<GitLabIssue>} The issue
+ */
+async function getIssue(
+  projectId: string,
+  issueIid: number
+): Promise<GitLabIssue> {
+  const url = new URL(
+    `${gitlabApiUrl()}/projects/${encodeURIComponent(projectId)}/issues/${issueIid}`
+  );
+
+  const response = await gitlab.fetch(url.toString());
+
+  await handleGitLabError(response);
+  const data = await response.json();
+  return GitLabIssueSchema.parse(data);
+}
+
+/**
+ * Update an issue in a GitLab project
+ * 이슈 업데이트
+ *
+ * @param {string} projectId - The ID or URL-encoded path of the project
+ * @param {number} issueIid - The internal ID of the project issue
+ * @param {Object} options - Update options for the issue
+ * @returns {Promise<GitLabIssue>} The updated issue
+ */
+async function updateIssue(
+  projectId: string,
+  issueIid: number,
+  options: Omit<z.infer<typeof UpdateIssueSchema>, "project_id" | "issue_iid">
+): Promise<GitLabIssue> {
+  const url = new URL(
+    `${gitlabApiUrl()}/projects/${encodeURIComponent(projectId)}/issues/${issueIid}`
+  );
+
+  // Convert labels array to comma-separated string if present
+  const body: Record<string, any> = { ...options };
+  if (body.labels && Array.isArray(body.labels)) {
+    body.labels = body.labels.join(',');
+  }
+
+  const response = await gitlab.fetch(url.toString(), {
+    method: "PUT",
+    body: JSON.stringify(body),
+  });
+
+  await handleGitLabError(response);
   const data = await response.json();
   return GitLabIssueSchema.parse(data);
 }
@@ -472,12 +1266,11 @@ async function deleteIssue(
   issueIid: number
 ): Promise<void> {
   const url = new URL(
-    `${GITLAB_API_URL}/projects/${encodeURIComponent(projectId)}/issues/${issueIid}`
+    `${gitlabApiUrl()}/projects/${encodeURIComponent(projectId)}/issues/${issueIid}`
   );
 
-  const response = await fetch(url.toString(), {
+  const response = await gitlab.fetch(url.toString(), {
     method: "DELETE",
-    headers: DEFAULT_HEADERS,
   });
 
   await handleGitLabError(response);
@@ -496,12 +1289,10 @@ async function listIssueLinks(
   issueIid: number
 ): Promise<GitLabIssueWithLinkDetails[]> {
   const url = new URL(
-    `${GITLAB_API_URL}/projects/${encodeURIComponent(projectId)}/issues/${issueIid}/links`
+    `${gitlabApiUrl()}/projects/${encodeURIComponent(projectId)}/issues/${issueIid}/links`
   );
 
-  const response = await fetch(url.toString(), {
-    headers: DEFAULT_HEADERS,
-  });
+  const response = await gitlab.fetch(url.toString());
 
   await handleGitLabError(response);
   const data = await response.json();
@@ -523,12 +1314,10 @@ async function getIssueLink(
   issueLinkId: number
 ): Promise<GitLabIssueLink> {
   const url = new URL(
-    `${GITLAB_API_URL}/projects/${encodeURIComponent(projectId)}/issues/${issueIid}/links/${issueLinkId}`
+    `${gitlabApiUrl()}/projects/${encodeURIComponent(projectId)}/issues/${issueIid}/links/${issueLinkId}`
   );
 
-  const response = await fetch(url.toString(), {
-    headers: DEFAULT_HEADERS,
-  });
+  const response = await gitlab.fetch(url.toString());
 
   await handleGitLabError(response);
   const data = await response.json();
@@ -554,12 +1343,11 @@ async function createIssueLink(
   linkType: 'relates_to' | 'blocks' | 'is_blocked_by' = 'relates_to'
 ): Promise<GitLabIssueLink> {
   const url = new URL(
-    `${GITLAB_API_URL}/projects/${encodeURIComponent(projectId)}/issues/${issueIid}/links`
+    `${gitlabApiUrl()}/projects/${encodeURIComponent(projectId)}/issues/${issueIid}/links`
   );
 
-  const response = await fetch(url.toString(), {
+  const response = await gitlab.fetch(url.toString(), {
     method: "POST",
-    headers: DEFAULT_HEADERS,
     body: JSON.stringify({
       target_project_id: targetProjectId,
       target_issue_iid: targetIssueIid,
@@ -587,12 +1375,11 @@ async function deleteIssueLink(
   issueLinkId: number
 ): Promise<void> {
   const url = new URL(
-    `${GITLAB_API_URL}/projects/${encodeURIComponent(projectId)}/issues/${issueIid}/links/${issueLinkId}`
+    `${gitlabApiUrl()}/projects/${encodeURIComponent(projectId)}/issues/${issueIid}/links/${issueLinkId}`
   );
 
-  const response = await fetch(url.toString(), {
+  const response = await gitlab.fetch(url.toString(), {
     method: "DELETE",
-    headers: DEFAULT_HEADERS,
   });
 
   await handleGitLabError(response);
@@ -611,18 +1398,13 @@ async function createMergeRequest(
   options: z.infer<typeof CreateMergeRequestOptionsSchema>
 ): Promise<GitLabMergeRequest> {
   const url = new URL(
-    `${GITLAB_API_URL}/projects/${encodeURIComponent(
+    `${gitlabApiUrl()}/projects/${encodeURIComponent(
       projectId
     )}/merge_requests`
   );
 
-  const response = await fetch(url.toString(), {
+  const response = await gitlab.fetch(url.toString(), {
     method: "POST",
-    headers: {
-      Accept: "application/json",
-      "Content-Type": "application/json",
-      Authorization: `Bearer ${GITLAB_PERSONAL_ACCESS_TOKEN}`,
-    },
     body: JSON.stringify({
       title: options.title,
       description: options.description,
@@ -633,17 +1415,7 @@ async function createMergeRequest(
     }),
   });
 
-  if (response.status === 400) {
-    const errorBody = await response.text();
-    throw new Error(`Invalid request: ${errorBody}`);
-  }
-
-  if (!response.ok) {
-    const errorBody = await response.text();
-    throw new Error(
-      `GitLab API error: ${response.status} ${response.statusText}\n${errorBody}`
-    );
-  }
+  await handleGitLabError(response);
 
   const data = await response.json();
   return GitLabMergeRequestSchema.parse(data);
@@ -659,6 +1431,9 @@ async function createMergeRequest(
  * @param {string} commitMessage - The commit message
  * @param {string} branch - The branch name
  * @param {string} [previousPath] - The previous path of the file in case of rename
+ * @param {string} [last_commit_id] - The last known file commit ID
+ * @param {string} [commit_id] - The current file commit ID
+ * @param {"text" | "base64"} [encoding] - The encoding of the content
  * @returns {Promise<GitLabCreateUpdateFileResponse>} The file update response
  */
 async function createOrUpdateFile(
@@ -669,11 +1444,12 @@ async function createOrUpdateFile(
   branch: string,
   previousPath?: string,
   last_commit_id?: string,
-  commit_id?: string
+  commit_id?: string,
+  encoding: "text" | "base64" = "text"
 ): Promise<GitLabCreateUpdateFileResponse> {
   const encodedPath = encodeURIComponent(filePath);
   const url = new URL(
-    `${GITLAB_API_URL}/projects/${encodeURIComponent(
+    `${gitlabApiUrl()}/projects/${encodeURIComponent(
       projectId
     )}/repository/files/${encodedPath}`
   );
@@ -682,62 +1458,34 @@ async function createOrUpdateFile(
     branch,
     content,
     commit_message: commitMessage,
-    encoding: "text",
+    encoding,
     ...(previousPath ? { previous_path: previousPath } : {}),
   };
 
-  // Check if file exists
+  // Check if file exists (HEAD only, so large binary files are not downloaded)
   let method = "POST";
-  try {
-    // Get file contents to check existence and retrieve commit IDs
-    const fileData = await getFileContents(projectId, filePath, branch);
+  const fileData = await getFileMetadata(projectId, filePath, branch);
+  if (fileData) {
     method = "PUT";
+  }
 
-    // If fileData is not an array, it's a file content object with commit IDs
-    if (!Array.isArray(fileData)) {
-      // Use commit IDs from the file data if not provided in parameters
-      if (!commit_id && fileData.commit_id) {
-        body.commit_id = fileData.commit_id;
-      } else if (commit_id) {
-        body.commit_id = commit_id;
-      }
-
-      if (!last_commit_id && fileData.last_commit_id) {
-        body.last_commit_id = fileData.last_commit_id;
-      } else if (last_commit_id) {
-        body.last_commit_id = last_commit_id;
-      }
-    }
-  } catch (error) {
-    if (!(error instanceof Error && error.message.includes("File not found"))) {
-      throw error;
-    }
-    // File doesn't exist, use POST - no need for commit IDs for new files
-    // But still use any provided as parameters if they exist
-    if (commit_id) {
-      body.commit_id = commit_id;
-    }
-    if (last_commit_id) {
-      body.last_commit_id = last_commit_id;
-    }
+  // Use commit IDs from the file metadata if not provided in parameters.
+  // New files don't need them, but still use any provided as parameters.
+  const currentCommitId = commit_id ?? fileData?.commit_id;
+  if (currentCommitId) {
+    body.commit_id = currentCommitId;
+  }
+  const lastCommitId = last_commit_id ?? fileData?.last_commit_id;
+  if (lastCommitId) {
+    body.last_commit_id = lastCommitId;
   }
 
-  const response = await fetch(url.toString(), {
+  const response = await gitlab.fetch(url.toString(), {
     method,
-    headers: {
-      Accept: "application/json",
-      "Content-Type": "application/json",
-      Authorization: `Bearer ${GITLAB_PERSONAL_ACCESS_TOKEN}`,
-    },
     body: JSON.stringify(body),
   });
 
-  if (!response.ok) {
-    const errorBody = await response.text();
-    throw new Error(
-      `GitLab API error: ${response.status} ${response.statusText}\n${errorBody}`
-    );
-  }
+  await handleGitLabError(response);
 
   const data = await response.json();
   return GitLabCreateUpdateFileResponseSchema.parse(data);
@@ -758,7 +1506,7 @@ async function createTree(
   ref?: string
 ): Promise<GitLabTree> {
   const url = new URL(
-    `${GITLAB_API_URL}/projects/${encodeURIComponent(
+    `${gitlabApiUrl()}/projects/${encodeURIComponent(
       projectId
     )}/repository/tree`
   );
@@ -767,13 +1515,8 @@ async function createTree(
     url.searchParams.append("ref", ref);
   }
 
-  const response = await fetch(url.toString(), {
+  const response = await gitlab.fetch(url.toString(), {
     method: "POST",
-    headers: {
-      Accept: "application/json",
-      "Content-Type": "application/json",
-      Authorization: `Bearer ${GITLAB_PERSONAL_ACCESS_TOKEN}`,
-    },
     body: JSON.stringify({
       files: files.map((file) => ({
         file_path: file.path,
@@ -783,74 +1526,105 @@ async function createTree(
     }),
   });
 
-  if (response.status === 400) {
-    const errorBody = await response.text();
-    throw new Error(`Invalid request: ${errorBody}`);
-  }
-
-  if (!response.ok) {
-    const errorBody = await response.text();
-    throw new Error(
-      `GitLab API error: ${response.status} ${response.statusText}\n${errorBody}`
-    );
-  }
+  await handleGitLabError(response);
 
   const data = await response.json();
   return GitLabTreeSchema.parse(data);
 }
 
+/**
+ * Validate file operations and resolve "auto" actions into create or update
+ * 커밋 액션 검증 및 auto 액션 해석
+ *
+ * @param {string} projectId - The ID or URL-encoded path of the project
+ * @param {string} ref - The ref the commit is based on, used to detect existing files
+ * @param {FileOperation[]} files - Array of file operations
+ * @returns {Promise<Record<string, any>[]>} Actions for the commits API
+ */
+async function resolveCommitActions(
+  projectId: string,
+  ref: string,
+  files: FileOperation[]
+): Promise<Record<string, any>[]> {
+  return Promise.all(
+    files.map(async (file) => {
+      let action = file.action ?? "auto";
+
+      if (action === "auto") {
+        action = (await getFileMetadata(projectId, file.path, ref))
+          ? "update"
+          : "create";
+      }
+
+      if ((action === "create" || action === "update") && file.content === undefined) {
+        throw new Error(`Content is required to ${action} ${file.path}`);
+      }
+      if (action === "move" && !file.previous_path) {
+        throw new Error(`previous_path is required to move ${file.path}`);
+      }
+      if (action === "chmod" && file.execute_filemode === undefined) {
+        throw new Error(`execute_filemode is required to chmod ${file.path}`);
+      }
+
+      return {
+        action,
+        file_path: file.path,
+        ...(file.content !== undefined && action !== "delete" && action !== "chmod"
+          ? { content: file.content, encoding: file.encoding ?? "text" }
+          : {}),
+        ...(file.previous_path ? { previous_path: file.previous_path } : {}),
+        ...(file.execute_filemode !== undefined
+          ? { execute_filemode: file.execute_filemode }
+          : {}),
+        ...(file.last_commit_id ? { last_commit_id: file.last_commit_id } : {}),
+      };
+    })
+  );
+}
+
 /**
  * Create a commit in a GitLab project repository
  * 저장소에 커밋 생성
  *
+ * When `start_branch` or `start_sha` is given and the branch does not exist
+ * yet, GitLab creates it from that start point as part of the same commit.
+ *
  * @param {string} projectId - The ID or URL-encoded path of the project
  * @param {string} message - The commit message
  * @param {string} branch - The branch name
  * @param {FileOperation[]} actions - Array of file operations for the commit
+ * @param {Object} [options] - Branch start point options
  * @returns {Promise<GitLabCommit>} The created commit
  */
 async function createCommit(
   projectId: string,
   message: string,
   branch: string,
-  actions: FileOperation[]
+  actions: FileOperation[],
+  options: { start_branch?: string; start_sha?: string } = {}
 ): Promise<GitLabCommit> {
   const url = new URL(
-    `${GITLAB_API_URL}/projects/${encodeURIComponent(
+    `${gitlabApiUrl()}/projects/${encodeURIComponent(
       projectId
     )}/repository/commits`
   );
 
-  const response = await fetch(url.toString(), {
+  // auto 액션은 커밋의 기준이 되는 ref 에서 파일 존재 여부를 확인
+  const baseRef = options.start_sha ?? options.start_branch ?? branch;
+  const commitActions = await resolveCommitActions(projectId, baseRef, actions);
+
+  const response = await gitlab.fetch(url.toString(), {
     method: "POST",
-    headers: {
-      Accept: "application/json",
-      "Content-Type": "application/json",
-      Authorization: `Bearer ${GITLAB_PERSONAL_ACCESS_TOKEN}`,
-    },
     body: JSON.stringify({
       branch,
       commit_message: message,
-      actions: actions.map((action) => ({
-        action: "create",
-        file_path: action.path,
-        content: action.content,
-        encoding: "text",
-      })),
+      ...(options.start_branch ? { start_branch: options.start_branch } : {}),
+      ...(options.start_sha ? { start_sha: options.start_sha } : {}),
+      actions: commitActions,
     }),
   });
 
-  if (response.status === 400) {
-    const errorBody = await response.text();
-    throw new Error(`Invalid request: ${errorBody}`);
-  }
-
-  if (!response.ok) {
-    const errorBody = await response.text();
-    throw new Error(
-      `GitLab API error: ${response.status} ${response.statusText}\n${errorBody}`
-    );
-  }
+  await handleGitLabError(response);
 
   const data = await response.json();
   return GitLabCommitSchema.parse(data);
@@ -861,49 +1635,36 @@ async function createCommit(
  * 프로젝트 검색
  *
  * @param {string} query - The search query
- * @param {number} [page=1] - The page number
- * @param {number} [perPage=20] - Number of items per page
+ * @param {PaginationOptions} [options] - Pagination options
  * @returns {Promise<GitLabSearchResponse>} The search results
  */
 async function searchProjects(
   query: string,
-  page: number = 1,
-  perPage: number = 20
+  options: PaginationOptions = {}
 ): Promise<GitLabSearchResponse> {
-  const url = new URL(`${GITLAB_API_URL}/projects`);
+  const url = new URL(`${gitlabApiUrl()}/projects`);
   url.searchParams.append("search", query);
-  url.searchParams.append("page", page.toString());
-  url.searchParams.append("per_page", perPage.toString());
   url.searchParams.append("order_by", "id");
   url.searchParams.append("sort", "desc");
 
-  const response = await fetch(url.toString(), {
-    headers: {
-      Accept: "application/json",
-      "Content-Type": "application/json",
-      Authorization: `Bearer ${GITLAB_PERSONAL_ACCESS_TOKEN}`,
-    },
+  const page = options.page ?? 1;
+  const perPage = options.per_page ?? 20;
+  const result = await paginate(url, GitLabRepositorySchema, {
+    ...options,
+    page,
+    per_page: perPage,
   });
 
-  if (!response.ok) {
-    const errorBody = await response.text();
-    throw new Error(
-      `GitLab API error: ${response.status} ${response.statusText}\n${errorBody}`
-    );
-  }
-
-  const projects = (await response.json()) as GitLabRepository[];
-  const totalCount = response.headers.get("x-total");
-  const totalPages = response.headers.get("x-total-pages");
-
   // GitLab API doesn't return these headers for results > 10,000
-  const count = totalCount ? parseInt(totalCount) : projects.length;
+  const count = result.total ?? result.items.length;
 
   return GitLabSearchResponseSchema.parse({
     count,
-    total_pages: totalPages ? parseInt(totalPages) : Math.ceil(count / perPage),
+    total_pages: Math.ceil(count / perPage),
     current_page: page,
-    items: projects,
+    next_page: result.next_page,
+    truncated: result.truncated,
+    items: result.items,
   });
 }
 
@@ -917,13 +1678,8 @@ async function searchProjects(
 async function createRepository(
   options: z.infer<typeof CreateRepositoryOptionsSchema>
 ): Promise<GitLabRepository> {
-  const response = await fetch(`${GITLAB_API_URL}/projects`, {
+  const response = await gitlab.fetch(`${gitlabApiUrl()}/projects`, {
     method: "POST",
-    headers: {
-      Accept: "application/json",
-      "Content-Type": "application/json",
-      Authorization: `Bearer ${GITLAB_PERSONAL_ACCESS_TOKEN}`,
-    },
     body: JSON.stringify({
       name: options.name,
       description: options.description,
@@ -934,12 +1690,7 @@ async function createRepository(
     }),
   });
 
-  if (!response.ok) {
-    const errorBody = await response.text();
-    throw new Error(
-      `GitLab API error: ${response.status} ${response.statusText}\n${errorBody}`
-    );
-  }
+  await handleGitLabError(response);
 
   const data = await response.json();
   return GitLabRepositorySchema.parse(data);
@@ -958,14 +1709,12 @@ async function getMergeRequest(
   mergeRequestIid: number
 ): Promise<GitLabMergeRequest> {
   const url = new URL(
-    `${GITLAB_API_URL}/projects/${encodeURIComponent(
+    `${gitlabApiUrl()}/projects/${encodeURIComponent(
       projectId
     )}/merge_requests/${mergeRequestIid}`
   );
 
-  const response = await fetch(url.toString(), {
-    headers: DEFAULT_HEADERS,
-  });
+  const response = await gitlab.fetch(url.toString());
 
   await handleGitLabError(response);
   return GitLabMergeRequestSchema.parse(await response.json());
@@ -986,7 +1735,7 @@ async function getMergeRequestDiffs(
   view?: "inline" | "parallel"
 ): Promise<GitLabMergeRequestDiff[]> {
   const url = new URL(
-    `${GITLAB_API_URL}/projects/${encodeURIComponent(
+    `${gitlabApiUrl()}/projects/${encodeURIComponent(
       projectId
     )}/merge_requests/${mergeRequestIid}/changes`
   );
@@ -995,9 +1744,7 @@ async function getMergeRequestDiffs(
     url.searchParams.append("view", view);
   }
 
-  const response = await fetch(url.toString(), {
-    headers: DEFAULT_HEADERS,
-  });
+  const response = await gitlab.fetch(url.toString());
 
   await handleGitLabError(response);
   const data = (await response.json()) as { changes: unknown };
@@ -1022,14 +1769,13 @@ async function updateMergeRequest(
   >
 ): Promise<GitLabMergeRequest> {
   const url = new URL(
-    `${GITLAB_API_URL}/projects/${encodeURIComponent(
+    `${gitlabApiUrl()}/projects/${encodeURIComponent(
       projectId
     )}/merge_requests/${mergeRequestIid}`
   );
 
-  const response = await fetch(url.toString(), {
+  const response = await gitlab.fetch(url.toString(), {
     method: "PUT",
-    headers: DEFAULT_HEADERS,
     body: JSON.stringify(options),
   });
 
@@ -1038,284 +1784,702 @@ async function updateMergeRequest(
 }
 
 /**
- * Create a new note (comment) on an issue or merge request
- * 📦 새로운 함수: createNote - 이슈 또는 병합 요청에 노트(댓글)를 추가하는 함수
- * (New function: createNote - Function to add a note (comment) to an issue or merge request)
+ * Accept (merge) a merge request
+ * MR 병합 함수 (Function to merge a merge request)
  *
  * @param {string} projectId - The ID or URL-encoded path of the project
- * @param {"issue" | "merge_request"} noteableType - The type of the item to add a note to (issue or merge_request)
- * @param {number} noteableIid - The internal ID of the issue or merge request
- * @param {string} body - The content of the note
- * @returns {Promise<any>} The created note
+ * @param {number} mergeRequestIid - The internal ID of the merge request
+ * @param {Object} options - The merge options
+ * @returns {Promise<GitLabMergeRequest>} The merged merge request
  */
-async function createNote(
+async function mergeMergeRequest(
   projectId: string,
-  noteableType: "issue" | "merge_request", // 'issue' 또는 'merge_request' 타입 명시
-  noteableIid: number,
-  body: string
-): Promise<any> {
-  // ⚙️ 응답 타입은 GitLab API 문서에 따라 조정 가능
+  mergeRequestIid: number,
+  options: Omit<
+    z.infer<typeof MergeMergeRequestSchema>,
+    "project_id" | "merge_request_iid"
+  > = {}
+): Promise<GitLabMergeRequest> {
   const url = new URL(
-    `${GITLAB_API_URL}/projects/${encodeURIComponent(
+    `${gitlabApiUrl()}/projects/${encodeURIComponent(
       projectId
-    )}/${noteableType}s/${noteableIid}/notes` // Using plural form (issues/merge_requests) as per GitLab API documentation
+    )}/merge_requests/${mergeRequestIid}/merge`
   );
 
-  const response = await fetch(url.toString(), {
-    method: "POST",
-    headers: DEFAULT_HEADERS,
-    body: JSON.stringify({ body }),
+  const response = await gitlab.fetch(url.toString(), {
+    method: "PUT",
+    body: JSON.stringify(options),
   });
 
-  if (!response.ok) {
-    const errorText = await response.text();
-    throw new Error(
-      `GitLab API error: ${response.status} ${response.statusText}\n${errorText}`
+  // 병합할 수 없는 상태 처리 (draft, closed, blocked by pipeline or discussions)
+  if (response.status === 405) {
+    throw await createGitLabApiError(
+      response,
+      `Merge request !${mergeRequestIid} cannot be merged in its current state (draft, closed, pipeline not succeeded, or unresolved discussions)`
+    );
+  }
+
+  // 충돌로 인해 병합 불가
+  if (response.status === 406) {
+    throw await createGitLabApiError(
+      response,
+      `Merge request !${mergeRequestIid} has conflicts and cannot be merged; rebase or resolve conflicts first`
     );
   }
 
-  return await response.json();
+  // sha 가 소스 브랜치 HEAD 와 일치하지 않음
+  if (response.status === 409) {
+    throw await createGitLabApiError(
+      response,
+      `Source branch of merge request !${mergeRequestIid} has moved since ${options.sha ?? "the given SHA"}; fetch the merge request again before merging`
+    );
+  }
+
+  await handleGitLabError(response);
+  return GitLabMergeRequestSchema.parse(await response.json());
 }
 
 /**
- * List all namespaces
- * 사용 가능한 모든 네임스페이스 목록 조회
+ * Rebase a merge request onto its target branch and wait for the result
+ * MR 리베이스 함수 (Function to rebase a merge request)
  *
- * @param {Object} options - Options for listing namespaces
- * @param {string} [options.search] - Search query to filter namespaces
- * @param {boolean} [options.owned_only] - Only return namespaces owned by the authenticated user
- * @param {boolean} [options.top_level_only] - Only return top-level namespaces
- * @returns {Promise<GitLabNamespace[]>} List of namespaces
+ * GitLab rebases asynchronously, so this polls the merge request until
+ * `rebase_in_progress` is cleared or the timeout expires. GitLab keeps the
+ * `merge_error` of an earlier failed rebase or merge, so the rebase only
+ * counts as failed when the error differs from the one seen before it.
+ *
+ * @param {string} projectId - The ID or URL-encoded path of the project
+ * @param {number} mergeRequestIid - The internal ID of the merge request
+ * @param {Object} options - The rebase options
+ * @returns {Promise<GitLabMergeRequest>} The rebased merge request
+ * @throws {MergeRequestRebaseError} If the rebase fails or is still running at the timeout
  */
-async function listNamespaces(options: {
-  search?: string;
-  owned_only?: boolean;
-  top_level_only?: boolean;
-}): Promise<GitLabNamespace[]> {
-  const url = new URL(`${GITLAB_API_URL}/namespaces`);
+async function rebaseMergeRequest(
+  projectId: string,
+  mergeRequestIid: number,
+  options: { skip_ci?: boolean; timeout_seconds?: number } = {}
+): Promise<GitLabMergeRequest> {
+  const mergeRequestUrl = `${gitlabApiUrl()}/projects/${encodeURIComponent(
+    projectId
+  )}/merge_requests/${mergeRequestIid}`;
+  const url = new URL(`${mergeRequestUrl}/rebase`);
 
-  if (options.search) {
-    url.searchParams.append("search", options.search);
+  if (options.skip_ci) {
+    url.searchParams.append("skip_ci", "true");
   }
 
-  if (options.owned_only) {
-    url.searchParams.append("owned_only", "true");
-  }
+  const beforeResponse = await gitlab.fetch(mergeRequestUrl);
+  await handleGitLabError(beforeResponse);
+  const previousError = GitLabMergeRequestSchema.parse(await beforeResponse.json()).merge_error ?? null;
+
+  const response = await gitlab.fetch(url.toString(), {
+    method: "PUT",
+  });
 
-  if (options.top_level_only) {
-    url.searchParams.append("top_level_only", "true");
+  if (response.status === 403) {
+    throw await createGitLabApiError(
+      response,
+      `Not allowed to push to the source branch of merge request !${mergeRequestIid}`
+    );
   }
 
-  const response = await fetch(url.toString(), {
-    headers: DEFAULT_HEADERS,
-  });
+  if (response.status === 409) {
+    throw await createGitLabApiError(
+      response,
+      `A rebase of merge request !${mergeRequestIid} is already in progress`
+    );
+  }
 
   await handleGitLabError(response);
-  const data = await response.json();
-  return z.array(GitLabNamespaceSchema).parse(data);
-}
 
-/**
- * Get details on a namespace
- * 네임스페이스 상세 정보 조회
- *
- * @param {string} id - The ID or URL-encoded path of the namespace
- * @returns {Promise<GitLabNamespace>} The namespace details
- */
-async function getNamespace(id: string): Promise<GitLabNamespace> {
-  const url = new URL(`${GITLAB_API_URL}/namespaces/${encodeURIComponent(id)}`);
+  const deadline = Date.now() + (options.timeout_seconds ?? 60) * 1000;
+  const pollUrl = new URL(mergeRequestUrl);
+  pollUrl.searchParams.append("include_rebase_in_progress", "true");
 
-  const response = await fetch(url.toString(), {
-    headers: DEFAULT_HEADERS,
-  });
+  while (true) {
+    const pollResponse = await gitlab.fetch(pollUrl.toString());
+    await handleGitLabError(pollResponse);
+    const mergeRequest = GitLabMergeRequestSchema.parse(
+      await pollResponse.json()
+    );
 
-  await handleGitLabError(response);
-  const data = await response.json();
-  return GitLabNamespaceSchema.parse(data);
+    if (!mergeRequest.rebase_in_progress) {
+      if (mergeRequest.merge_error && mergeRequest.merge_error !== previousError) {
+        throw new MergeRequestRebaseError(
+          `Rebase of merge request !${mergeRequestIid} failed: ${mergeRequest.merge_error}`,
+          "rebase_failed",
+          mergeRequestIid,
+          mergeRequest.merge_error
+        );
+      }
+      return mergeRequest;
+    }
+
+    if (Date.now() >= deadline) {
+      throw new MergeRequestRebaseError(
+        `Rebase of merge request !${mergeRequestIid} is still in progress after ${options.timeout_seconds ?? 60} seconds`,
+        "rebase_timeout",
+        mergeRequestIid
+      );
+    }
+    await new Promise((resolve) => setTimeout(resolve, 1000));
+  }
 }
 
 /**
- * Verify if a namespace exists
- * 네임스페이스 존재 여부 확인
+ * Get how many approvals a merge request has and still needs
+ * MR 승인 현황 조회 함수 (Function to retrieve merge request approvals)
  *
- * @param {string} namespacePath - The path of the namespace to check
- * @param {number} [parentId] - The ID of the parent namespace
- * @returns {Promise<GitLabNamespaceExistsResponse>} The verification result
+ * @param {string} projectId - The ID or URL-encoded path of the project
+ * @param {number} mergeRequestIid - The internal ID of the merge request
+ * @returns {Promise<GitLabMergeRequestApprovals>} The approvals
  */
-async function verifyNamespaceExistence(
-  namespacePath: string,
-  parentId?: number
-): Promise<GitLabNamespaceExistsResponse> {
-  const url = new URL(`${GITLAB_API_URL}/namespaces/${encodeURIComponent(namespacePath)}/exists`);
-
-  if (parentId) {
-    url.searchParams.append("parent_id", parentId.toString());
-  }
+async function getMergeRequestApprovals(
+  projectId: string,
+  mergeRequestIid: number
+): Promise<GitLabMergeRequestApprovals> {
+  const url = new URL(
+    `${gitlabApiUrl()}/projects/${encodeURIComponent(
+      projectId
+    )}/merge_requests/${mergeRequestIid}/approvals`
+  );
 
-  const response = await fetch(url.toString(), {
-    headers: DEFAULT_HEADERS,
-  });
+  const response = await gitlab.fetch(url.toString());
 
   await handleGitLabError(response);
-  const data = await response.json();
-  return GitLabNamespaceExistsResponseSchema.parse(data);
+  return GitLabMergeRequestApprovalsSchema.parse(await response.json());
 }
 
 /**
- * Get a single project
- * 단일 프로젝트 조회
+ * Get the approval rules of a merge request and which of them are satisfied
  *
  * @param {string} projectId - The ID or URL-encoded path of the project
- * @param {Object} options - Options for getting project details
- * @param {boolean} [options.license] - Include project license data
- * @param {boolean} [options.statistics] - Include project statistics
- * @param {boolean} [options.with_custom_attributes] - Include custom attributes in response
- * @returns {Promise<GitLabProject>} Project details
+ * @param {number} mergeRequestIid - The internal ID of the merge request
+ * @returns {Promise<GitLabMergeRequestApprovalState | null>} The rules, or null if the GitLab edition has none
  */
-async function getProject(
+async function getMergeRequestApprovalState(
   projectId: string,
-  options: {
-    license?: boolean;
-    statistics?: boolean;
-    with_custom_attributes?: boolean;
-  } = {}
-): Promise<GitLabProject> {
-  const url = new URL(`${GITLAB_API_URL}/projects/${encodeURIComponent(projectId)}`);
-
-  if (options.license) {
-    url.searchParams.append("license", "true");
-  }
+  mergeRequestIid: number
+): Promise<GitLabMergeRequestApprovalState | null> {
+  const url = new URL(
+    `${gitlabApiUrl()}/projects/${encodeURIComponent(
+      projectId
+    )}/merge_requests/${mergeRequestIid}/approval_state`
+  );
 
-  if (options.statistics) {
-    url.searchParams.append("statistics", "true");
-  }
+  const response = await gitlab.fetch(url.toString());
 
-  if (options.with_custom_attributes) {
-    url.searchParams.append("with_custom_attributes", "true");
+  // Approval rules are a GitLab Premium feature
+  if (response.status === 403 || response.status === 404) {
+    return null;
   }
-
-  const response = await fetch(url.toString(), {
-    headers: DEFAULT_HEADERS,
-  });
-
   await handleGitLabError(response);
-  const data = await response.json();
-  return GitLabRepositorySchema.parse(data);
+  return GitLabMergeRequestApprovalStateSchema.parse(await response.json());
 }
 
 /**
- * List projects
- * 프로젝트 목록 조회
+ * Get a merge request with what decides whether it can be merged
  *
- * @param {Object} options - Options for listing projects
- * @returns {Promise<GitLabProject[]>} List of projects
+ * Adds `approvals_required` and `approvals_left` to the merge request,
+ * which already reports `detailed_merge_status` and
+ * `blocking_discussions_resolved`. They are left out if the token cannot
+ * read the approvals.
+ *
+ * @param {string} projectId - The ID or URL-encoded path of the project
+ * @param {number} mergeRequestIid - The internal ID of the merge request
+ * @returns {Promise<GitLabMergeRequest & Object>} The merge request and its approval counts
  */
-async function listProjects(options: z.infer<typeof ListProjectsSchema> = {}): Promise<GitLabProject[]> {
-  // Construct the query parameters
-  const params = new URLSearchParams();
-  for (const [key, value] of Object.entries(options)) {
-    if (value !== undefined && value !== null) {
-      if (typeof value === "boolean") {
-        params.append(key, value ? "true" : "false");
-      } else {
-        params.append(key, String(value));
-      }
+async function getMergeRequestSummary(
+  projectId: string,
+  mergeRequestIid: number
+): Promise<GitLabMergeRequest & { approvals_required?: number; approvals_left?: number }> {
+  const mergeRequest = await getMergeRequest(projectId, mergeRequestIid);
+  try {
+    const approvals = await getMergeRequestApprovals(projectId, mergeRequestIid);
+    return {
+      ...mergeRequest,
+      approvals_required: approvals.approvals_required,
+      approvals_left: approvals.approvals_left,
+    };
+  } catch (error) {
+    if (error instanceof GitLabForbiddenError || error instanceof GitLabNotFoundError) {
+      return mergeRequest;
     }
+    throw error;
   }
+}
 
-  // Make the API request
-  const response = await fetch(
-    `${GITLAB_API_URL}/projects?${params.toString()}`,
-    {
-      method: "GET",
-      headers: DEFAULT_HEADERS,
-    }
+/**
+ * Approve a merge request as the current user, or as another one with `sudo`
+ * MR 승인 함수 (Function to approve a merge request)
+ *
+ * @param {string} projectId - The ID or URL-encoded path of the project
+ * @param {number} mergeRequestIid - The internal ID of the merge request
+ * @param {Object} options - The approval options
+ * @returns {Promise<GitLabMergeRequestApprovals>} The approvals after approving
+ */
+async function approveMergeRequest(
+  projectId: string,
+  mergeRequestIid: number,
+  options: Omit<
+    z.infer<typeof ApproveMergeRequestSchema>,
+    "project_id" | "merge_request_iid"
+  > = {}
+): Promise<GitLabMergeRequestApprovals> {
+  const url = new URL(
+    `${gitlabApiUrl()}/projects/${encodeURIComponent(
+      projectId
+    )}/merge_requests/${mergeRequestIid}/approve`
   );
 
-  // Handle errors
-  await handleGitLabError(response);
+  const { sudo, ...body } = options;
+  const response = await gitlab.fetch(url.toString(), {
+    method: "POST",
+    headers: sudo ? { Sudo: sudo } : undefined,
+    body: JSON.stringify(body),
+  });
 
-  // Parse and return the data
-  const data = await response.json();
-  return z.array(GitLabProjectSchema).parse(data);
+  // 승인 비밀번호가 틀렸거나 이미 승인함
+  if (response.status === 401) {
+    throw await createGitLabApiError(
+      response,
+      options.approval_password
+        ? `Could not approve merge request !${mergeRequestIid}: the approval password is not valid`
+        : `Could not approve merge request !${mergeRequestIid}; it may already be approved by this user or need an approval password`
+    );
+  }
+
+  // sha 가 소스 브랜치 HEAD 와 일치하지 않음
+  if (response.status === 409) {
+    throw await createGitLabApiError(
+      response,
+      `Source branch of merge request !${mergeRequestIid} has moved since ${options.sha ?? "the given SHA"}; review the new changes before approving`
+    );
+  }
+
+  await handleGitLabError(response);
+  return GitLabMergeRequestApprovalsSchema.parse(await response.json());
 }
 
 /**
- * List labels for a project
+ * Withdraw the approval of the current user, or of another one with `sudo`
+ * MR 승인 취소 함수 (Function to unapprove a merge request)
  *
- * @param projectId The ID or URL-encoded path of the project
- * @param options Optional parameters for listing labels
- * @returns Array of GitLab labels
+ * @param {string} projectId - The ID or URL-encoded path of the project
+ * @param {number} mergeRequestIid - The internal ID of the merge request
+ * @param {string} [sudo] - User to act as
+ * @returns {Promise<GitLabMergeRequestApprovals>} The approvals after withdrawing
  */
-async function listLabels(
+async function unapproveMergeRequest(
   projectId: string,
-  options: Omit<z.infer<typeof ListLabelsSchema>, "project_id"> = {}
-): Promise<GitLabLabel[]> {
-  // Construct the URL with project path
-  const url = new URL(`${GITLAB_API_URL}/projects/${encodeURIComponent(projectId)}/labels`);
-
-  // Add query parameters
-  Object.entries(options).forEach(([key, value]) => {
-    if (value !== undefined) {
-      if (typeof value === "boolean") {
-        url.searchParams.append(key, value ? "true" : "false");
-      } else {
-        url.searchParams.append(key, String(value));
-      }
-    }
-  });
+  mergeRequestIid: number,
+  sudo?: string
+): Promise<GitLabMergeRequestApprovals> {
+  const url = new URL(
+    `${gitlabApiUrl()}/projects/${encodeURIComponent(
+      projectId
+    )}/merge_requests/${mergeRequestIid}/unapprove`
+  );
 
-  // Make the API request
-  const response = await fetch(url.toString(), {
-    headers: DEFAULT_HEADERS,
+  const response = await gitlab.fetch(url.toString(), {
+    method: "POST",
+    headers: sudo ? { Sudo: sudo } : undefined,
   });
 
-  // Handle errors
   await handleGitLabError(response);
-
-  // Parse and return the data
-  const data = await response.json();
-  return data as GitLabLabel[];
+  return GitLabMergeRequestApprovalsSchema.parse(await response.json());
 }
 
 /**
- * Get a single label from a project
+ * Create a new note (comment) on an issue or merge request
+ * 📦 새로운 함수: createNote - 이슈 또는 병합 요청에 노트(댓글)를 추가하는 함수
+ * (New function: createNote - Function to add a note (comment) to an issue or merge request)
  *
- * @param projectId The ID or URL-encoded path of the project
- * @param labelId The ID or name of the label
- * @param includeAncestorGroups Whether to include ancestor groups
- * @returns GitLab label
+ * @param {string} projectId - The ID or URL-encoded path of the project
+ * @param {"issue" | "merge_request"} noteableType - The type of the item to add a note to (issue or merge_request)
+ * @param {number} noteableIid - The internal ID of the issue or merge request
+ * @param {string} body - The content of the note
+ * @returns {Promise<GitLabNote>} The created note
  */
-async function getLabel(
+async function createNote(
   projectId: string,
-  labelId: number | string,
-  includeAncestorGroups?: boolean
-): Promise<GitLabLabel> {
-  const url = new URL(`${GITLAB_API_URL}/projects/${encodeURIComponent(projectId)}/labels/${encodeURIComponent(String(labelId))}`);
-
-  // Add query parameters
-  if (includeAncestorGroups !== undefined) {
-    url.searchParams.append("include_ancestor_groups", includeAncestorGroups ? "true" : "false");
-  }
+  noteableType: "issue" | "merge_request", // 'issue' 또는 'merge_request' 타입 명시
+  noteableIid: number,
+  body: string
+): Promise<GitLabNote> {
+  const url = new URL(
+    `${gitlabApiUrl()}/projects/${encodeURIComponent(
+      projectId
+    )}/${noteableType}s/${noteableIid}/notes` // Using plural form (issues/merge_requests) as per GitLab API documentation
+  );
 
-  // Make the API request
-  const response = await fetch(url.toString(), {
-    headers: DEFAULT_HEADERS,
+  const response = await gitlab.fetch(url.toString(), {
+    method: "POST",
+    body: JSON.stringify({ body }),
   });
 
-  // Handle errors
   await handleGitLabError(response);
 
-  // Parse and return the data
-  const data = await response.json();
-  return data as GitLabLabel;
+  return GitLabNoteSchema.parse(await response.json());
 }
 
 /**
- * Create a new label in a project
+ * List the discussions (threads) of a merge request
+ * MR 토론 목록 조회
  *
- * @param projectId The ID or URL-encoded path of the project
- * @param options Options for creating the label
+ * @param {string} projectId - The ID or URL-encoded path of the project
+ * @param {number} mergeRequestIid - The internal ID of the merge request
+ * @param {PaginationOptions} options - Pagination options
+ * @returns {Promise<PaginatedResponse<GitLabDiscussion>>} The discussions of the merge request
+ */
+async function listMergeRequestDiscussions(
+  projectId: string,
+  mergeRequestIid: number,
+  options: PaginationOptions = {}
+): Promise<PaginatedResponse<GitLabDiscussion>> {
+  const url = new URL(
+    `${gitlabApiUrl()}/projects/${encodeURIComponent(
+      projectId
+    )}/merge_requests/${mergeRequestIid}/discussions`
+  );
+
+  return paginate(url, GitLabDiscussionSchema, options);
+}
+
+/**
+ * Resolve a thread position against the merge request's diff
+ * 토론 위치를 MR diff 기준으로 변환
+ *
+ * The diff refs come from the merge request itself and the old path is
+ * taken from the matching diff entry, so renamed files are anchored correctly.
+ *
+ * @param {string} projectId - The ID or URL-encoded path of the project
+ * @param {number} mergeRequestIid - The internal ID of the merge request
+ * @param {MergeRequestThreadPosition} position - The requested file/line
+ * @returns {Promise<GitLabDiffPosition>} A position GitLab accepts for diff notes
+ */
+async function resolveDiffPosition(
+  projectId: string,
+  mergeRequestIid: number,
+  position: MergeRequestThreadPosition
+): Promise<GitLabDiffPosition> {
+  if (position.new_line === undefined && position.old_line === undefined) {
+    throw new Error("Either new_line or old_line is required to anchor a thread");
+  }
+
+  const mergeRequest = await getMergeRequest(projectId, mergeRequestIid);
+  if (!mergeRequest.diff_refs) {
+    throw new Error(
+      `Merge request !${mergeRequestIid} has no diff refs yet; try again once its diff has been generated`
+    );
+  }
+
+  const diffs = await getMergeRequestDiffs(projectId, mergeRequestIid);
+  const diff = diffs.find(
+    (d) =>
+      d.new_path === position.new_path ||
+      (position.old_path !== undefined && d.old_path === position.old_path)
+  );
+  if (!diff) {
+    throw new Error(
+      `File ${position.new_path} is not changed in merge request !${mergeRequestIid}`
+    );
+  }
+
+  return {
+    ...mergeRequest.diff_refs,
+    position_type: "text",
+    new_path: diff.new_path,
+    old_path: position.old_path ?? diff.old_path,
+    new_line: position.new_line,
+    old_line: position.old_line,
+  };
+}
+
+/**
+ * Create a new thread on a merge request, optionally anchored to a diff line
+ * MR 토론 생성
+ *
+ * @param {string} projectId - The ID or URL-encoded path of the project
+ * @param {number} mergeRequestIid - The internal ID of the merge request
+ * @param {string} body - The content of the thread
+ * @param {MergeRequestThreadPosition} [position] - The file/line to comment on
+ * @returns {Promise<GitLabDiscussion>} The created discussion
+ */
+async function createMergeRequestThread(
+  projectId: string,
+  mergeRequestIid: number,
+  body: string,
+  position?: MergeRequestThreadPosition
+): Promise<GitLabDiscussion> {
+  const url = new URL(
+    `${gitlabApiUrl()}/projects/${encodeURIComponent(
+      projectId
+    )}/merge_requests/${mergeRequestIid}/discussions`
+  );
+
+  const payload: Record<string, any> = { body };
+  if (position) {
+    payload.position = await resolveDiffPosition(
+      projectId,
+      mergeRequestIid,
+      position
+    );
+  }
+
+  const response = await gitlab.fetch(url.toString(), {
+    method: "POST",
+    body: JSON.stringify(payload),
+  });
+
+  await handleGitLabError(response);
+  return GitLabDiscussionSchema.parse(await response.json());
+}
+
+/**
+ * Reply to an existing merge request thread
+ * MR 토론에 답글 추가
+ *
+ * @param {string} projectId - The ID or URL-encoded path of the project
+ * @param {number} mergeRequestIid - The internal ID of the merge request
+ * @param {string} discussionId - The ID of the discussion
+ * @param {string} body - The content of the reply
+ * @returns {Promise<GitLabNote>} The created note
+ */
+async function replyToDiscussion(
+  projectId: string,
+  mergeRequestIid: number,
+  discussionId: string,
+  body: string
+): Promise<GitLabNote> {
+  const url = new URL(
+    `${gitlabApiUrl()}/projects/${encodeURIComponent(
+      projectId
+    )}/merge_requests/${mergeRequestIid}/discussions/${encodeURIComponent(
+      discussionId
+    )}/notes`
+  );
+
+  const response = await gitlab.fetch(url.toString(), {
+    method: "POST",
+    body: JSON.stringify({ body }),
+  });
+
+  await handleGitLabError(response);
+  return GitLabNoteSchema.parse(await response.json());
+}
+
+/**
+ * Resolve or unresolve a merge request thread
+ * MR 토론 해결/미해결 처리
+ *
+ * @param {string} projectId - The ID or URL-encoded path of the project
+ * @param {number} mergeRequestIid - The internal ID of the merge request
+ * @param {string} discussionId - The ID of the discussion
+ * @param {boolean} resolved - Whether the discussion should be resolved
+ * @returns {Promise<GitLabDiscussion>} The updated discussion
+ */
+async function resolveDiscussion(
+  projectId: string,
+  mergeRequestIid: number,
+  discussionId: string,
+  resolved: boolean
+): Promise<GitLabDiscussion> {
+  const url = new URL(
+    `${gitlabApiUrl()}/projects/${encodeURIComponent(
+      projectId
+    )}/merge_requests/${mergeRequestIid}/discussions/${encodeURIComponent(
+      discussionId
+    )}`
+  );
+  url.searchParams.append("resolved", resolved ? "true" : "false");
+
+  const response = await gitlab.fetch(url.toString(), {
+    method: "PUT",
+  });
+
+  await handleGitLabError(response);
+  return GitLabDiscussionSchema.parse(await response.json());
+}
+
+/**
+ * List all namespaces
+ * 사용 가능한 모든 네임스페이스 목록 조회
+ *
+ * @param {Object} options - Options for listing namespaces
+ * @param {string} [options.search] - Search query to filter namespaces
+ * @param {boolean} [options.owned] - Only return namespaces owned by the authenticated user
+ * @returns {Promise<PaginatedResponse<GitLabNamespace>>} List of namespaces
+ */
+async function listNamespaces(
+  options: z.infer<typeof ListNamespacesSchema> = {}
+): Promise<PaginatedResponse<GitLabNamespace>> {
+  const url = new URL(`${gitlabApiUrl()}/namespaces`);
+
+  const { page, per_page, all_pages, max_items, ...filters } = options;
+  appendQueryParams(url, filters);
+
+  return paginate(url, GitLabNamespaceSchema, { page, per_page, all_pages, max_items });
+}
+
+/**
+ * Get details on a namespace
+ * 네임스페이스 상세 정보 조회
+ *
+ * @param {string} id - The ID or URL-encoded path of the namespace
+ * @returns {Promise<GitLabNamespace>} The namespace details
+ */
+async function getNamespace(id: string): Promise<GitLabNamespace> {
+  const url = new URL(`${gitlabApiUrl()}/namespaces/${encodeURIComponent(id)}`);
+
+  const response = await gitlab.fetch(url.toString());
+
+  await handleGitLabError(response);
+  const data = await response.json();
+  return GitLabNamespaceSchema.parse(data);
+}
+
+/**
+ * Verify if a namespace exists
+ * 네임스페이스 존재 여부 확인
+ *
+ * @param {string} namespacePath - The path of the namespace to check
+ * @param {number} [parentId] - The ID of the parent namespace
+ * @returns {Promise<GitLabNamespaceExistsResponse>} The verification result
+ */
+async function verifyNamespaceExistence(
+  namespacePath: string,
+  parentId?: number
+): Promise<GitLabNamespaceExistsResponse> {
+  const url = new URL(`${gitlabApiUrl()}/namespaces/${encodeURIComponent(namespacePath)}/exists`);
+
+  if (parentId) {
+    url.searchParams.append("parent_id", parentId.toString());
+  }
+
+  const response = await gitlab.fetch(url.toString());
+
+  await handleGitLabError(response);
+  const data = await response.json();
+  return GitLabNamespaceExistsResponseSchema.parse(data);
+}
+
+/**
+ * Get a single project
+ * 단일 프로젝트 조회
+ *
+ * @param {string} projectId - The ID or URL-encoded path of the project
+ * @param {Object} options - Options for getting project details
+ * @param {boolean} [options.license] - Include project license data
+ * @param {boolean} [options.statistics] - Include project statistics
+ * @param {boolean} [options.with_custom_attributes] - Include custom attributes in response
+ * @returns {Promise<GitLabProject>} Project details
+ */
+async function getProject(
+  projectId: string,
+  options: {
+    license?: boolean;
+    statistics?: boolean;
+    with_custom_attributes?: boolean;
+  } = {}
+): Promise<GitLabProject> {
+  const url = new URL(`${gitlabApiUrl()}/projects/${encodeURIComponent(projectId)}`);
+
+  if (options.license) {
+    url.searchParams.append("license", "true");
+  }
+
+  if (options.statistics) {
+    url.searchParams.append("statistics", "true");
+  }
+
+  if (options.with_custom_attributes) {
+    url.searchParams.append("with_custom_attributes", "true");
+  }
+
+  const response = await gitlab.fetch(url.toString());
+
+  await handleGitLabError(response);
+  const data = await response.json();
+  return GitLabRepositorySchema.parse(data);
+}
+
+/**
+ * List projects
+ * 프로젝트 목록 조회
+ *
+ * @param {Object} options - Options for listing projects
+ * @returns {Promise<PaginatedResponse<GitLabProject>>} List of projects
+ */
+async function listProjects(
+  options: z.infer<typeof ListProjectsSchema> = {}
+): Promise<PaginatedResponse<GitLabProject>> {
+  const url = new URL(`${gitlabApiUrl()}/projects`);
+
+  // Construct the query parameters
+  const { page, per_page, all_pages, max_items, ...filters } = options;
+  appendQueryParams(url, filters);
+
+  return paginate(url, GitLabProjectSchema, { page, per_page, all_pages, max_items });
+}
+
+/**
+ * List labels for a project
+ *
+ * @param projectId The ID or URL-encoded path of the project
+ * @param options Optional parameters for listing labels
+ * @returns Paginated GitLab labels
+ */
+async function listLabels(
+  projectId: string,
+  options: Omit<z.infer<typeof ListLabelsSchema>, "project_id"> = {}
+): Promise<PaginatedResponse<GitLabLabel>> {
+  // Construct the URL with project path
+  const url = new URL(`${gitlabApiUrl()}/projects/${encodeURIComponent(projectId)}/labels`);
+
+  // Add query parameters
+  const { page, per_page, all_pages, max_items, ...filters } = options;
+  appendQueryParams(url, filters);
+
+  return paginate(url, GitLabLabelSchema, { page, per_page, all_pages, max_items });
+}
+
+/**
+ * Get a single label from a project
+ *
+ * @param projectId The ID or URL-encoded path of the project
+ * @param labelId The ID or name of the label
+ * @param includeAncestorGroups Whether to include ancestor groups
+ * @returns GitLab label
+ */
+async function getLabel(
+  projectId: string,
+  labelId: number | string,
+  includeAncestorGroups?: boolean
+): Promise<GitLabLabel> {
+  const url = new URL(`${gitlabApiUrl()}/projects/${encodeURIComponent(projectId)}/labels/${encodeURIComponent(String(labelId))}`);
+
+  // Add query parameters
+  if (includeAncestorGroups !== undefined) {
+    url.searchParams.append("include_ancestor_groups", includeAncestorGroups ? "true" : "false");
+  }
+
+  // Make the API request
+  const response = await gitlab.fetch(url.toString());
+
+  // Handle errors
+  await handleGitLabError(response);
+
+  // Parse and return the data
+  const data = await response.json();
+  return data as GitLabLabel;
+}
+
+/**
+ * Create a new label in a project
+ *
+ * @param projectId The ID or URL-encoded path of the project
+ * @param options Options for creating the label
  * @returns Created GitLab label
  */
 async function createLabel(
@@ -1323,11 +2487,10 @@ async function createLabel(
   options: Omit<z.infer<typeof CreateLabelSchema>, "project_id">
 ): Promise<GitLabLabel> {
   // Make the API request
-  const response = await fetch(
-    `${GITLAB_API_URL}/projects/${encodeURIComponent(projectId)}/labels`,
+  const response = await gitlab.fetch(
+    `${gitlabApiUrl()}/projects/${encodeURIComponent(projectId)}/labels`,
     {
       method: "POST",
-      headers: DEFAULT_HEADERS,
       body: JSON.stringify(options),
     }
   );
@@ -1354,11 +2517,10 @@ async function updateLabel(
   options: Omit<z.infer<typeof UpdateLabelSchema>, "project_id" | "label_id">
 ): Promise<GitLabLabel> {
   // Make the API request
-  const response = await fetch(
-    `${GITLAB_API_URL}/projects/${encodeURIComponent(projectId)}/labels/${encodeURIComponent(String(labelId))}`,
+  const response = await gitlab.fetch(
+    `${gitlabApiUrl()}/projects/${encodeURIComponent(projectId)}/labels/${encodeURIComponent(String(labelId))}`,
     {
       method: "PUT",
-      headers: DEFAULT_HEADERS,
       body: JSON.stringify(options),
     }
   );
@@ -1382,11 +2544,10 @@ async function deleteLabel(
   labelId: number | string
 ): Promise<void> {
   // Make the API request
-  const response = await fetch(
-    `${GITLAB_API_URL}/projects/${encodeURIComponent(projectId)}/labels/${encodeURIComponent(String(labelId))}`,
+  const response = await gitlab.fetch(
+    `${gitlabApiUrl()}/projects/${encodeURIComponent(projectId)}/labels/${encodeURIComponent(String(labelId))}`,
     {
       method: "DELETE",
-      headers: DEFAULT_HEADERS,
     }
   );
 
@@ -1394,564 +2555,2677 @@ async function deleteLabel(
   await handleGitLabError(response);
 }
 
-server.setRequestHandler(ListToolsRequestSchema, async () => {
-  return {
-    tools: [
-      {
-        name: "create_or_update_file",
-        description: "Create or update a single file in a GitLab project",
-        inputSchema: zodToJsonSchema(CreateOrUpdateFileSchema),
-      },
-      {
-        name: "search_repositories",
-        description: "Search for GitLab projects",
-        inputSchema: zodToJsonSchema(SearchRepositoriesSchema),
-      },
-      {
-        name: "create_repository",
-        description: "Create a new GitLab project",
-        inputSchema: zodToJsonSchema(CreateRepositorySchema),
-      },
-      {
-        name: "get_file_contents",
-        description:
-          "Get the contents of a file or directory from a GitLab project",
-        inputSchema: zodToJsonSchema(GetFileContentsSchema),
-      },
-      {
-        name: "push_files",
-        description:
-          "Push multiple files to a GitLab project in a single commit",
-        inputSchema: zodToJsonSchema(PushFilesSchema),
-      },
-      {
-        name: "create_issue",
-        description: "Create a new issue in a GitLab project",
-        inputSchema: zodToJsonSchema(CreateIssueSchema),
-      },
-      {
-        name: "create_merge_request",
-        description: "Create a new merge request in a GitLab project",
-        inputSchema: zodToJsonSchema(CreateMergeRequestSchema),
-      },
-      {
-        name: "fork_repository",
-        description:
-          "Fork a GitLab project to your account or specified namespace",
-        inputSchema: zodToJsonSchema(ForkRepositorySchema),
-      },
-      {
-        name: "create_branch",
-        description: "Create a new branch in a GitLab project",
-        inputSchema: zodToJsonSchema(CreateBranchSchema),
-      },
-      {
-        name: "get_merge_request",
-        description: "Get details of a merge request",
-        inputSchema: zodToJsonSchema(GetMergeRequestSchema),
-      },
-      {
-        name: "get_merge_request_diffs",
-        description: "Get the changes/diffs of a merge request",
-        inputSchema: zodToJsonSchema(GetMergeRequestDiffsSchema),
-      },
-      {
-        name: "update_merge_request",
-        description: "Update a merge request",
-        inputSchema: zodToJsonSchema(UpdateMergeRequestSchema),
-      },
-      {
-        name: "create_note",
-        description: "Create a new note (comment) to an issue or merge request",
-        inputSchema: zodToJsonSchema(CreateNoteSchema),
-      },
-      {
-        name: "list_issues",
-        description: "List issues in a GitLab project with filtering options",
-        inputSchema: zodToJsonSchema(ListIssuesSchema),
-      },
-      {
-        name: "get_issue",
-        description: "Get details of a specific issue in a GitLab project",
-        inputSchema: zodToJsonSchema(GetIssueSchema),
-      },
-      {
-        name: "update_issue",
-        description: "Update an issue in a GitLab project",
-        inputSchema: zodToJsonSchema(UpdateIssueSchema),
-      },
-      {
-        name: "delete_issue",
-        description: "Delete an issue from a GitLab project",
-        inputSchema: zodToJsonSchema(DeleteIssueSchema),
-      },
-      {
-        name: "list_issue_links",
-        description: "List all issue links for a specific issue",
-        inputSchema: zodToJsonSchema(ListIssueLinksSchema),
-      },
-      {
-        name: "get_issue_link",
-        description: "Get a specific issue link",
-        inputSchema: zodToJsonSchema(GetIssueLinkSchema),
-      },
-      {
-        name: "create_issue_link",
-        description: "Create an issue link between two issues",
-        inputSchema: zodToJsonSchema(CreateIssueLinkSchema),
-      },
-      {
-        name: "delete_issue_link",
-        description: "Delete an issue link",
-        inputSchema: zodToJsonSchema(DeleteIssueLinkSchema),
-      },
-      {
-        name: "list_namespaces",
-        description: "List all namespaces available to the current user",
-        inputSchema: zodToJsonSchema(ListNamespacesSchema),
-      },
-      {
-        name: "get_namespace",
-        description: "Get details of a namespace by ID or path",
-        inputSchema: zodToJsonSchema(GetNamespaceSchema),
-      },
-      {
-        name: "verify_namespace",
-        description: "Verify if a namespace path exists",
-        inputSchema: zodToJsonSchema(VerifyNamespaceSchema),
-      },
-      {
-        name: "get_project",
-        description: "Get details of a specific project",
-        inputSchema: zodToJsonSchema(GetProjectSchema),
-      },
-      {
-        name: "list_projects",
-        description: "List projects accessible by the current user",
-        inputSchema: zodToJsonSchema(ListProjectsSchema),
-      },
-      {
-        name: "list_labels",
-        description: "List labels for a project",
-        inputSchema: zodToJsonSchema(ListLabelsSchema),
-      },
-      {
-        name: "get_label",
-        description: "Get a single label from a project",
-        inputSchema: zodToJsonSchema(GetLabelSchema),
-      },
-      {
-        name: "create_label",
-        description: "Create a new label in a project",
-        inputSchema: zodToJsonSchema(CreateLabelSchema),
-      },
-      {
-        name: "update_label",
-        description: "Update an existing label in a project",
-        inputSchema: zodToJsonSchema(UpdateLabelSchema),
+/**
+ * List labels for a group
+ *
+ * @param groupId The ID or URL-encoded path of the group
+ * @param options Optional parameters for listing labels
+ * @returns Paginated GitLab labels
+ */
+async function listGroupLabels(
+  groupId: string,
+  options: Omit<z.infer<typeof ListGroupLabelsSchema>, "group_id"> = {}
+): Promise<PaginatedResponse<GitLabLabel>> {
+  const url = new URL(`${gitlabApiUrl()}/groups/${encodeURIComponent(groupId)}/labels`);
+
+  const { page, per_page, all_pages, max_items, ...filters } = options;
+  appendQueryParams(url, filters);
+
+  return paginate(url, GitLabLabelSchema, { page, per_page, all_pages, max_items });
+}
+
+/**
+ * Get a single label from a group
+ *
+ * @param groupId The ID or URL-encoded path of the group
+ * @param labelId The ID or name of the label
+ * @param options Whether to include ancestor and descendant groups
+ * @returns GitLab label
+ */
+async function getGroupLabel(
+  groupId: string,
+  labelId: number | string,
+  options: Omit<z.infer<typeof GetGroupLabelSchema>, "group_id" | "label_id"> = {}
+): Promise<GitLabLabel> {
+  const url = new URL(`${gitlabApiUrl()}/groups/${encodeURIComponent(groupId)}/labels/${encodeURIComponent(String(labelId))}`);
+  appendQueryParams(url, options);
+
+  const response = await gitlab.fetch(url.toString());
+
+  await handleGitLabError(response);
+  const data = await response.json();
+  return GitLabLabelSchema.parse(data);
+}
+
+/**
+ * Create a new label in a group
+ *
+ * @param groupId The ID or URL-encoded path of the group
+ * @param options Options for creating the label
+ * @returns Created GitLab label
+ */
+async function createGroupLabel(
+  groupId: string,
+  options: Omit<z.infer<typeof CreateGroupLabelSchema>, "group_id">
+): Promise<GitLabLabel> {
+  const response = await gitlab.fetch(
+    `${gitlabApiUrl()}/groups/${encodeURIComponent(groupId)}/labels`,
+    {
+      method: "POST",
+      body: JSON.stringify(options),
+    }
+  );
+
+  await handleGitLabError(response);
+  const data = await response.json();
+  return GitLabLabelSchema.parse(data);
+}
+
+/**
+ * Update an existing label in a group
+ *
+ * @param groupId The ID or URL-encoded path of the group
+ * @param labelId The ID or name of the label to update
+ * @param options Options for updating the label
+ * @returns Updated GitLab label
+ */
+async function updateGroupLabel(
+  groupId: string,
+  labelId: number | string,
+  options: Omit<z.infer<typeof UpdateGroupLabelSchema>, "group_id" | "label_id">
+): Promise<GitLabLabel> {
+  const response = await gitlab.fetch(
+    `${gitlabApiUrl()}/groups/${encodeURIComponent(groupId)}/labels/${encodeURIComponent(String(labelId))}`,
+    {
+      method: "PUT",
+      body: JSON.stringify(options),
+    }
+  );
+
+  await handleGitLabError(response);
+  const data = await response.json();
+  return GitLabLabelSchema.parse(data);
+}
+
+/**
+ * Delete a label from a group
+ *
+ * @param groupId The ID or URL-encoded path of the group
+ * @param labelId The ID or name of the label to delete
+ */
+async function deleteGroupLabel(
+  groupId: string,
+  labelId: number | string
+): Promise<void> {
+  const response = await gitlab.fetch(
+    `${gitlabApiUrl()}/groups/${encodeURIComponent(groupId)}/labels/${encodeURIComponent(String(labelId))}`,
+    {
+      method: "DELETE",
+    }
+  );
+
+  await handleGitLabError(response);
+}
+
+/**
+ * List pipelines in a project or of a single merge request
+ *
+ * @param projectId The ID or URL-encoded path of the project
+ * @param options Optional filters for listing pipelines
+ * @returns Paginated GitLab pipelines
+ */
+async function listPipelines(
+  projectId: string,
+  options: Omit<z.infer<typeof ListPipelinesSchema>, "project_id"> = {}
+): Promise<PaginatedResponse<GitLabPipeline>> {
+  const { merge_request_iid, page, per_page, all_pages, max_items, ...filters } = options;
+  const url = new URL(
+    merge_request_iid
+      ? `${gitlabApiUrl()}/projects/${encodeURIComponent(projectId)}/merge_requests/${merge_request_iid}/pipelines`
+      : `${gitlabApiUrl()}/projects/${encodeURIComponent(projectId)}/pipelines`
+  );
+
+  // Add query parameters
+  appendQueryParams(url, filters);
+
+  return paginate(url, GitLabPipelineSchema, { page, per_page, all_pages, max_items });
+}
+
+/**
+ * Get a single pipeline
+ *
+ * @param projectId The ID or URL-encoded path of the project
+ * @param pipelineId The ID of the pipeline
+ * @returns GitLab pipeline
+ */
+async function getPipeline(
+  projectId: string,
+  pipelineId: number
+): Promise<GitLabPipeline> {
+  const url = new URL(
+    `${gitlabApiUrl()}/projects/${encodeURIComponent(projectId)}/pipelines/${pipelineId}`
+  );
+
+  const response = await gitlab.fetch(url.toString());
+
+  await handleGitLabError(response);
+  const data = await response.json();
+  return GitLabPipelineSchema.parse(data);
+}
+
+/**
+ * List the jobs of a pipeline
+ *
+ * @param projectId The ID or URL-encoded path of the project
+ * @param pipelineId The ID of the pipeline
+ * @param options Optional filters for listing jobs
+ * @returns Paginated GitLab pipeline jobs
+ */
+async function listPipelineJobs(
+  projectId: string,
+  pipelineId: number,
+  options: Omit<z.infer<typeof ListPipelineJobsSchema>, "project_id" | "pipeline_id"> = {}
+): Promise<PaginatedResponse<GitLabPipelineJob>> {
+  const url = new URL(
+    `${gitlabApiUrl()}/projects/${encodeURIComponent(projectId)}/pipelines/${pipelineId}/jobs`
+  );
+
+  const { scope, page, per_page, all_pages, max_items, ...filters } = options;
+  // GitLab expects scope[]=failed&scope[]=canceled
+  scope?.forEach((value) => url.searchParams.append("scope[]", value));
+  appendQueryParams(url, filters);
+
+  return paginate(url, GitLabPipelineJobSchema, { page, per_page, all_pages, max_items });
+}
+
+/**
+ * Default number of bytes of a job log returned to the client
+ */
+const DEFAULT_JOB_LOG_LIMIT = 64 * 1024;
+
+/**
+ * GitLab's collapsible section markers, e.g. `section_start:1700000000:step_script[collapsed=true]\r\e[0K`
+ */
+const JOB_LOG_SECTION_PATTERN = /section_(?:start|end):\d+:[\w.-]+(?:\[[^\]\r\n]*\])?\r?(?:\u001b\[0?K)?/g;
+
+/**
+ * Number of bytes of the UTF-8 sequence a byte starts, or 0 for a continuation byte
+ */
+function utf8SequenceLength(byte: number): number {
+  if ((byte & 0xc0) === 0x80) {
+    return 0;
+  }
+  return byte >= 0xf0 ? 4 : byte >= 0xe0 ? 3 : byte >= 0xc0 ? 2 : 1;
+}
+
+/**
+ * Read `count` bytes of a stream after skipping `skip`, then stop reading
+ *
+ * One byte more is read to tell whether the stream goes on; leaving the loop
+ * early destroys the stream, which drops the rest of the download.
+ *
+ * @returns The bytes, how many were skipped, and whether the stream ended
+ */
+async function readStreamSlice(
+  stream: NodeJS.ReadableStream | null,
+  skip: number,
+  count: number
+): Promise<{ bytes: Buffer; skipped: number; ended: boolean }> {
+  const chunks: Buffer[] = [];
+  let skipped = 0;
+  let length = 0;
+  for await (const data of stream ?? []) {
+    let chunk = Buffer.isBuffer(data) ? data : Buffer.from(data);
+    if (skipped < skip) {
+      const dropped = Math.min(skip - skipped, chunk.length);
+      skipped += dropped;
+      chunk = chunk.subarray(dropped);
+    }
+    chunks.push(chunk);
+    length += chunk.length;
+    if (length > count) {
+      return { bytes: Buffer.concat(chunks).subarray(0, count), skipped, ended: false };
+    }
+  }
+  return { bytes: Buffer.concat(chunks), skipped, ended: true };
+}
+
+/**
+ * Read a stream to its end, keeping only its last `count` bytes
+ *
+ * @returns The last bytes, and the number of bytes read in total
+ */
+async function readStreamTail(
+  stream: NodeJS.ReadableStream | null,
+  count: number
+): Promise<{ bytes: Buffer; total: number }> {
+  let kept: Buffer[] = [];
+  let keptLength = 0;
+  let total = 0;
+  for await (const data of stream ?? []) {
+    const chunk = Buffer.isBuffer(data) ? data : Buffer.from(data);
+    kept.push(chunk);
+    keptLength += chunk.length;
+    total += chunk.length;
+    if (keptLength > 2 * count) {
+      kept = [Buffer.concat(kept).subarray(keptLength - count)];
+      keptLength = count;
+    }
+  }
+  const bytes = Buffer.concat(kept);
+  return { bytes: bytes.subarray(Math.max(0, bytes.length - count)), total };
+}
+
+/**
+ * Get the log (trace) of a job
+ *
+ * Without an offset the end of the log is returned, since that is where
+ * failures usually show up. A Range header is sent, but GitLab answers
+ * with the whole log, so the response is read as a stream: an offset read
+ * stops once the slice is in, and a tail read keeps only the last `limit`
+ * bytes. When reading stops early and GitLab sent no length, `size` is
+ * null. Cuts are moved to character boundaries, so `offset` may be a few
+ * bytes past the one asked for. ANSI escape sequences and section markers
+ * are stripped.
+ *
+ * @param projectId The ID or URL-encoded path of the project
+ * @param jobId The ID of the job
+ * @param options Truncation options
+ * @returns The (possibly truncated) job log
+ */
+async function getJobLog(
+  projectId: string,
+  jobId: number,
+  options: Omit<z.infer<typeof GetJobLogSchema>, "project_id" | "job_id"> = {}
+): Promise<GitLabJobLog> {
+  const url = new URL(
+    `${gitlabApiUrl()}/projects/${encodeURIComponent(projectId)}/jobs/${jobId}/trace`
+  );
+  const limit = options.limit ?? DEFAULT_JOB_LOG_LIMIT;
+
+  const response = await gitlab.fetch(url.toString(), {
+    headers: {
+      Accept: "text/plain",
+      Range: options.offset !== undefined ? `bytes=${options.offset}-${options.offset + limit - 1}` : `bytes=-${limit}`,
+    },
+  });
+
+  const contentRange = response.headers.get("content-range")?.match(/^bytes (?:(\d+)-\d+|\*)\/(\d+)$/);
+  if (response.status === 416) {
+    // The offset lies past the end of the log, or the log is empty
+    await response.arrayBuffer();
+    const size = contentRange ? Number(contentRange[2]) : 0;
+    return GitLabJobLogSchema.parse({ job_id: jobId, size, offset: size, truncated: false, content: "" });
+  }
+
+  await handleGitLabError(response);
+  // Only a 206 is limited to the requested range; a 200 carries the whole log
+  const partial = response.status === 206 && contentRange?.[1] !== undefined;
+  const rangeStart = partial ? Number(contentRange![1]) : 0;
+  const contentLength = response.headers.get("content-length");
+  const announcedSize = partial ? Number(contentRange![2]) : contentLength ? Number(contentLength) : null;
+
+  let chunk: Buffer;
+  let chunkStart: number;
+  let size: number | null;
+  if (options.offset !== undefined) {
+    const slice = await readStreamSlice(response.body, Math.max(0, options.offset - rangeStart), limit);
+    chunk = slice.bytes;
+    chunkStart = rangeStart + slice.skipped;
+    size = partial || !slice.ended ? announcedSize : chunkStart + chunk.length;
+  } else {
+    const tail = await readStreamTail(response.body, limit);
+    chunk = tail.bytes;
+    chunkStart = partial ? rangeStart : tail.total - chunk.length;
+    size = partial ? announcedSize : tail.total;
+  }
+  let from = 0;
+  let to = chunk.length;
+
+  if (options.offset === undefined && options.tail_lines !== undefined) {
+    // Walk back from the end until N line breaks have been seen
+    let index = to;
+    if (index > from && chunk[index - 1] === 0x0a) {
+      index--;
+    }
+    let lines = 0;
+    while (index > from && lines < options.tail_lines) {
+      const newline = chunk.lastIndexOf(0x0a, index - 1);
+      if (newline < from) {
+        break;
+      }
+      index = newline;
+      lines++;
+    }
+    if (lines === options.tail_lines) {
+      from = index + 1;
+    }
+  }
+
+  // Neither end may split a multi-byte character
+  const more = size === null || chunkStart + to < size;
+  if (chunkStart + from > 0) {
+    while (from < to && utf8SequenceLength(chunk[from]) === 0) {
+      from++;
+    }
+  }
+  if (more) {
+    let lead = to - 1;
+    while (lead > from && utf8SequenceLength(chunk[lead]) === 0) {
+      lead--;
+    }
+    if (lead >= from && lead + utf8SequenceLength(chunk[lead]) > to) {
+      to = lead;
+    }
+  }
+
+  const content = chunk
+    .subarray(from, to)
+    .toString("utf8")
+    .replace(JOB_LOG_SECTION_PATTERN, "")
+    .replace(/\u001b\[[0-9;]*[A-Za-z]/g, "");
+
+  return GitLabJobLogSchema.parse({
+    job_id: jobId,
+    size,
+    offset: chunkStart + from,
+    truncated: chunkStart + from > 0 || more,
+    content,
+  });
+}
+
+/**
+ * Retry the failed or canceled jobs of a pipeline
+ *
+ * @param projectId The ID or URL-encoded path of the project
+ * @param pipelineId The ID of the pipeline
+ * @returns The retried pipeline
+ */
+async function retryPipeline(
+  projectId: string,
+  pipelineId: number
+): Promise<GitLabPipeline> {
+  const url = new URL(
+    `${gitlabApiUrl()}/projects/${encodeURIComponent(projectId)}/pipelines/${pipelineId}/retry`
+  );
+
+  const response = await gitlab.fetch(url.toString(), {
+    method: "POST",
+  });
+
+  await handleGitLabError(response);
+  const data = await response.json();
+  return GitLabPipelineSchema.parse(data);
+}
+
+/**
+ * Cancel the running jobs of a pipeline
+ *
+ * @param projectId The ID or URL-encoded path of the project
+ * @param pipelineId The ID of the pipeline
+ * @returns The canceled pipeline
+ */
+async function cancelPipeline(
+  projectId: string,
+  pipelineId: number
+): Promise<GitLabPipeline> {
+  const url = new URL(
+    `${gitlabApiUrl()}/projects/${encodeURIComponent(projectId)}/pipelines/${pipelineId}/cancel`
+  );
+
+  const response = await gitlab.fetch(url.toString(), {
+    method: "POST",
+  });
+
+  await handleGitLabError(response);
+  const data = await response.json();
+  return GitLabPipelineSchema.parse(data);
+}
+
+/**
+ * Create a new pipeline for a branch or tag
+ *
+ * @param projectId The ID or URL-encoded path of the project
+ * @param options Options for creating the pipeline
+ * @returns The created pipeline
+ */
+async function createPipeline(
+  projectId: string,
+  options: Omit<z.infer<typeof CreatePipelineSchema>, "project_id">
+): Promise<GitLabPipeline> {
+  const url = new URL(
+    `${gitlabApiUrl()}/projects/${encodeURIComponent(projectId)}/pipeline`
+  );
+
+  const response = await gitlab.fetch(url.toString(), {
+    method: "POST",
+    body: JSON.stringify({
+      ref: options.ref,
+      variables: options.variables,
+    }),
+  });
+
+  await handleGitLabError(response);
+  const data = await response.json();
+  return GitLabPipelineSchema.parse(data);
+}
+
+/**
+ * Get the user the token belongs to
+ * 현재 사용자 조회 (Get the current user)
+ *
+ * @returns {Promise<GitLabCurrentUser>} The user
+ */
+async function getCurrentUser(): Promise<GitLabCurrentUser> {
+  const response = await gitlab.fetch(`${gitlabApiUrl()}/user`);
+
+  await handleGitLabError(response);
+  const data = await response.json();
+  return GitLabCurrentUserSchema.parse(data);
+}
+
+/**
+ * Get the personal, project or group access token of the current client
+ * 현재 액세스 토큰 조회 (Get the current access token)
+ *
+ * @returns {Promise<GitLabPersonalAccessToken>} The token's name, scopes and expiry
+ */
+async function getAccessTokenSelf(): Promise<GitLabPersonalAccessToken> {
+  const response = await gitlab.fetch(`${gitlabApiUrl()}/personal_access_tokens/self`);
+
+  await handleGitLabError(response);
+  const data = await response.json();
+  return GitLabPersonalAccessTokenSchema.parse(data);
+}
+
+/**
+ * Get the scopes and lifetime of the current OAuth token
+ * OAuth 토큰 정보 조회 (Get OAuth token info)
+ *
+ * @returns {Promise<z.infer<typeof GitLabOAuthTokenInfoSchema>>} The token's scopes and seconds left
+ */
+async function getOAuthTokenInfo(): Promise<z.infer<typeof GitLabOAuthTokenInfoSchema>> {
+  const response = await gitlab.fetch(
+    `${gitlabApiUrl().replace(/\/api\/v4$/, "")}/oauth/token/info`
+  );
+
+  await handleGitLabError(response);
+  const data = await response.json();
+  return GitLabOAuthTokenInfoSchema.parse(data);
+}
+
+/**
+ * Find out who the current client's token belongs to and what it may do
+ *
+ * Never throws: whatever GitLab refuses to tell is left out, with the
+ * reason in `error`.
+ *
+ * @returns {Promise<TokenInfo>} What GitLab reports about the token
+ */
+async function introspectToken(): Promise<TokenInfo> {
+  const [user, accessToken] = await Promise.allSettled([getCurrentUser(), getAccessTokenSelf()]);
+  const info: TokenInfo = user.status === "fulfilled" ? { user: user.value } : {};
+
+  if (accessToken.status === "fulfilled") {
+    return {
+      ...info,
+      kind: "personal_access_token",
+      name: accessToken.value.name,
+      scopes: accessToken.value.scopes,
+      expiresAt: accessToken.value.expires_at,
+    };
+  }
+
+  // Not an access token; OAuth tokens describe themselves elsewhere
+  try {
+    const oauthToken = await getOAuthTokenInfo();
+    return {
+      ...info,
+      kind: "oauth",
+      scopes: oauthToken.scope,
+      expiresAt:
+        oauthToken.expires_in === null
+          ? null
+          : new Date(Date.now() + oauthToken.expires_in * 1000).toISOString(),
+    };
+  } catch {
+    const reason = user.status === "rejected" ? user.reason : accessToken.reason;
+    return { ...info, error: reason instanceof Error ? reason.message : String(reason) };
+  }
+}
+
+/**
+ * Token details by client, looked up once per client
+ */
+const tokenInfoCache = new WeakMap<GitLabClient, Promise<TokenInfo>>();
+
+/**
+ * Get what is known about a client's token, inspecting it on first use
+ *
+ * @param {GitLabClient} client - The client
+ * @returns {Promise<TokenInfo>} What GitLab reports about the token
+ */
+function tokenInfo(client: GitLabClient): Promise<TokenInfo> {
+  let info = tokenInfoCache.get(client);
+  if (!info) {
+    info = runWithGitLabClient(client, introspectToken);
+    tokenInfoCache.set(client, info);
+  }
+  return info;
+}
+
+/**
+ * Warn when a token expires within this many days
+ */
+const TOKEN_EXPIRY_WARNING_DAYS = Number(process.env.GITLAB_TOKEN_EXPIRY_WARNING_DAYS ?? 7);
+
+/**
+ * How long listing tools waits for token details before listing every tool
+ */
+const TOKEN_INFO_WAIT_MS = 5000;
+
+/**
+ * Inspect the tokens of all clients and log who they belong to and any
+ * problems with them
+ * 토큰 확인 (Check the configured tokens)
+ *
+ * @param {Map<string, GitLabClient>} clients - Clients by instance name
+ */
+async function checkTokens(clients: Map<string, GitLabClient>): Promise<void> {
+  for (const [instance, client] of clients) {
+    const info = await tokenInfo(client);
+    if (info.user) {
+      console.error(
+        `GitLab instance ${instance}: authenticated as @${info.user.username}` +
+          (info.scopes ? ` with scopes ${info.scopes.join(", ")}` : "")
+      );
+    } else if (info.error) {
+      console.error(`GitLab instance ${instance}: could not inspect the token: ${info.error}`);
+    }
+    for (const warning of tokenWarnings(info, TOKEN_EXPIRY_WARNING_DAYS)) {
+      console.error(`Warning: GitLab instance ${instance}: ${warning}`);
+    }
+  }
+}
+
+/**
+ * Tools that never change anything in GitLab; the only ones offered in read-only mode
+ */
+const READ_ONLY_TOOLS = new Set([
+  "whoami",
+  "search_repositories",
+  "get_file_contents",
+  "get_repository_tree",
+  "list_merge_requests",
+  "get_merge_request",
+  "get_merge_request_diffs",
+  "get_merge_request_approvals",
+  "list_merge_request_discussions",
+  "list_namespaces",
+  "get_namespace",
+  "verify_namespace",
+  "get_project",
+  "list_projects",
+  "list_issues",
+  "list_group_issues",
+  "list_group_merge_requests",
+  "get_issue",
+  "list_issue_links",
+  "get_issue_link",
+  "list_labels",
+  "get_label",
+  "list_group_labels",
+  "get_group_label",
+  "list_pipelines",
+  "get_pipeline",
+  "list_pipeline_jobs",
+  "get_job_log",
+]);
+
+/**
+ * Tools that commit to the branch given in their `branch` argument
+ */
+const COMMIT_TOOLS = new Set(["create_or_update_file", "push_files"]);
+
+let toolPolicy: ToolPolicy;
+try {
+  toolPolicy = new ToolPolicy(loadPolicyConfig(), READ_ONLY_TOOLS);
+} catch (error) {
+  console.error("Invalid tool policy configuration:", error);
+  process.exit(1);
+}
+
+/**
+ * Tools that target a group or namespace, or every project the user can
+ * see, when they are given no project
+ */
+const GROUP_TOOLS = new Set([
+  "get_namespace",
+  "list_merge_requests",
+  "list_group_issues",
+  "list_group_merge_requests",
+  "list_group_labels",
+  "get_group_label",
+  "create_group_label",
+  "update_group_label",
+  "delete_group_label",
+]);
+
+/**
+ * How long a looked-up path or file is trusted, in milliseconds; projects
+ * and groups can be renamed or transferred, and branches move
+ */
+const LOOKUP_CACHE_TTL_MS = 60_000;
+
+/**
+ * Entries a lookup cache may hold before expired ones are pruned
+ */
+const LOOKUP_CACHE_PRUNE_SIZE = 1000;
+
+/**
+ * Number of project paths resolved at a time when filtering a list
+ */
+const PATH_LOOKUP_CONCURRENCY = 8;
+
+/**
+ * A looked-up value with the time it expires
+ */
+interface CachedValue {
+  value: string;
+  expiresAt: number;
+}
+
+/**
+ * Canonical full paths of projects, keyed by API URL and the ID or path a call gave
+ */
+const projectPathCache = new Map<string, CachedValue>();
+
+/**
+ * Canonical full paths of groups, keyed like `projectPathCache`
+ */
+const groupPathCache = new Map<string, CachedValue>();
+
+/**
+ * Look up a value in a lookup cache, asking GitLab and remembering the
+ * answer when it is missing or expired
+ *
+ * @param {Map<string, CachedValue>} cache - Cache to use
+ * @param {string} id - What to look up, e.g. the ID or path a call gave
+ * @param {Function} resolve - Asks GitLab for the value
+ * @returns {Promise<string>} The value
+ */
+async function cachedLookup(
+  cache: Map<string, CachedValue>,
+  id: string,
+  resolve: () => Promise<string>
+): Promise<string> {
+  // IDs are only unique within an instance
+  const cacheKey = `${gitlabApiUrl()} ${id}`;
+  const now = Date.now();
+  const entry = cache.get(cacheKey);
+  if (entry && entry.expiresAt > now) {
+    return entry.value;
+  }
+
+  const value = await resolve();
+  if (cache.size >= LOOKUP_CACHE_PRUNE_SIZE) {
+    for (const [key, { expiresAt }] of cache) {
+      if (expiresAt <= now) {
+        cache.delete(key);
+      }
+    }
+  }
+  cache.set(cacheKey, { value, expiresAt: now + LOOKUP_CACHE_TTL_MS });
+  return value;
+}
+
+/**
+ * Resolve the canonical full path of a project
+ *
+ * Rules match the path GitLab reports, so that an ID, different case or
+ * URL-encoding cannot slip past them.
+ *
+ * @param {string} projectId - The ID or URL-encoded path of the project
+ * @returns {Promise<string>} The project's `path_with_namespace`
+ */
+function canonicalProjectPath(projectId: string): Promise<string> {
+  return cachedLookup(projectPathCache, projectId, async () => (await getProject(projectId)).path_with_namespace);
+}
+
+/**
+ * Resolve the canonical full path of a group, like `canonicalProjectPath`
+ *
+ * @param {string} groupId - The ID or URL-encoded path of the group
+ * @returns {Promise<string>} The group's `full_path`
+ */
+function canonicalGroupPath(groupId: string): Promise<string> {
+  return cachedLookup(groupPathCache, groupId, async () => (await getNamespace(groupId)).full_path);
+}
+
+/**
+ * Items of a list that belong to, or are, a project
+ */
+type ProjectItem = { project_id: number } | { path_with_namespace: string };
+
+/**
+ * Keep the items of a list whose project the policy lets the tool read
+ *
+ * Projects carry their own path; for other items each project is resolved
+ * once, a few at a time.
+ *
+ * @param {string} tool - Tool name
+ * @param {T[]} items - Projects, or items that name their project
+ * @returns {Promise<T[]>} The items of allowed projects
+ */
+async function permittedItems<T extends ProjectItem>(tool: string, items: T[]): Promise<T[]> {
+  if (!toolPolicy.hasProjectRules) {
+    return items;
+  }
+  const projectIds = [
+    ...new Set(items.flatMap((item) => ("path_with_namespace" in item ? [] : [item.project_id]))),
+  ];
+  const paths = new Map<number, string>();
+  for (let index = 0; index < projectIds.length; index += PATH_LOOKUP_CONCURRENCY) {
+    await Promise.all(
+      projectIds.slice(index, index + PATH_LOOKUP_CONCURRENCY).map(async (projectId) => {
+        paths.set(projectId, await canonicalProjectPath(String(projectId)));
+      })
+    );
+  }
+
+  return items.filter((item) =>
+    toolPolicy.permitsProject(
+      tool,
+      "path_with_namespace" in item ? item.path_with_namespace : (paths.get(item.project_id) as string)
+    )
+  );
+}
+
+/**
+ * Drop the items of a list that does not target a single project whose
+ * project the policy does not let the tool read
+ *
+ * `total` no longer counts the items of a page once some are dropped, so it
+ * is cleared then.
+ *
+ * @param {string} tool - Tool name
+ * @param {PaginatedResponse<T>} result - Page of projects, or of items that name their project
+ * @returns {Promise<PaginatedResponse<T>>} The page without items of refused projects
+ */
+async function withoutRefusedProjects<T extends ProjectItem>(
+  tool: string,
+  result: PaginatedResponse<T>
+): Promise<PaginatedResponse<T>> {
+  const items = await permittedItems(tool, result.items);
+  return items.length === result.items.length ? result : { ...result, items, total: null };
+}
+
+/**
+ * Check a tool call against the tool policy
+ * 도구 정책 확인 (Check the tool policy)
+ *
+ * @param {string} tool - Tool name
+ * @param {Record<string, unknown>} args - Raw tool arguments
+ * @throws {PolicyViolationError} If the policy does not allow the call
+ */
+async function enforceToolPolicy(
+  tool: string,
+  args: Record<string, unknown>
+): Promise<void> {
+  const projectId = typeof args.project_id === "string" ? args.project_id : undefined;
+  if (!projectId && GROUP_TOOLS.has(tool)) {
+    const groupId = [args.group_id, args.namespace_id].find((id): id is string => typeof id === "string");
+    toolPolicy.checkGroup(
+      tool,
+      groupId && toolPolicy.needsProjectPath ? await canonicalGroupPath(groupId) : undefined
+    );
+    return;
+  }
+
+  const projectPath =
+    projectId && toolPolicy.needsProjectPath ? await canonicalProjectPath(projectId) : undefined;
+
+  let branch: TargetBranch | undefined;
+  if (
+    projectId &&
+    toolPolicy.blocksDirectCommits &&
+    COMMIT_TOOLS.has(tool) &&
+    typeof args.branch === "string"
+  ) {
+    // A branch that does not exist yet is a new feature branch
+    const ref = await getBranch(projectId, args.branch);
+    branch = ref
+      ? { name: ref.name, protected: ref.protected ?? false, default: ref.default ?? false }
+      : undefined;
+  }
+
+  toolPolicy.check(tool, projectPath, branch);
+
+  if (!toolPolicy.needsProjectPath) {
+    return;
+  }
+  // Calls that also change another project must be allowed on it as well
+  if (typeof args.target_project_id === "string") {
+    toolPolicy.check(tool, await canonicalProjectPath(args.target_project_id));
+  }
+  if (tool === "fork_repository" && projectPath) {
+    // Without a namespace GitLab forks into the user's own
+    const namespace =
+      typeof args.namespace === "string"
+        ? await canonicalGroupPath(args.namespace)
+        : (await getCurrentUser()).username;
+    toolPolicy.check(tool, `${namespace}/${projectPath.split("/").pop()}`);
+  }
+}
+
+/**
+ * List the available tools
+ * 사용 가능한 도구 목록 (List available tools)
+ *
+ * Tools none of the session's tokens has the scopes for are left out, and
+ * tools that need a particular role in the project say so in their
+ * description.
+ *
+ * @param {Map<string, GitLabClient>} clients - Clients of the session, by instance name
+ */
+async function listTools(clients: Map<string, GitLabClient>) {
+  // Tokens GitLab is slow to describe are treated as allowing everything
+  const infos = await Promise.all(
+    [...clients.values()].map((client) =>
+      Promise.race([
+        tokenInfo(client),
+        new Promise<TokenInfo>((resolve) => setTimeout(() => resolve({}), TOKEN_INFO_WAIT_MS).unref()),
+      ])
+    )
+  );
+  const isToolUsable = (name: string) =>
+    infos.length === 0 || infos.some((info) => hasScopeFor(info, READ_ONLY_TOOLS.has(name)));
+
+  const tools = [
+    {
+      name: "create_or_update_file",
+      description: "Create or update a single file in a GitLab project",
+      inputSchema: zodToJsonSchema(CreateOrUpdateFileSchema),
+    },
+    {
+      name: "search_repositories",
+      description: "Search for GitLab projects",
+      inputSchema: zodToJsonSchema(SearchRepositoriesSchema),
+    },
+    {
+      name: "create_repository",
+      description: "Create a new GitLab project",
+      inputSchema: zodToJsonSchema(CreateRepositorySchema),
+    },
+    {
+      name: "get_file_contents",
+      description:
+        "Get the contents of a file or directory from a GitLab project",
+      inputSchema: zodToJsonSchema(GetFileContentsSchema),
+    },
+    {
+      name: "get_repository_tree",
+      description:
+        "List the files and directories of a GitLab project, optionally recursively and filtered by globs",
+      inputSchema: zodToJsonSchema(GetRepositoryTreeSchema),
+    },
+    {
+      name: "push_files",
+      description:
+        "Push multiple files to a GitLab project in a single commit",
+      inputSchema: zodToJsonSchema(PushFilesSchema),
+    },
+    {
+      name: "create_issue",
+      description: "Create a new issue in a GitLab project",
+      inputSchema: zodToJsonSchema(CreateIssueSchema),
+    },
+    {
+      name: "create_merge_request",
+      description: "Create a new merge request in a GitLab project",
+      inputSchema: zodToJsonSchema(CreateMergeRequestSchema),
+    },
+    {
+      name: "fork_repository",
+      description:
+        "Fork a GitLab project to your account or specified namespace",
+      inputSchema: zodToJsonSchema(ForkRepositorySchema),
+    },
+    {
+      name: "create_branch",
+      description: "Create a new branch in a GitLab project",
+      inputSchema: zodToJsonSchema(CreateBranchSchema),
+    },
+    {
+      name: "list_merge_requests",
+      description:
+        "List merge requests of a project, of a group and its subgroups, or across all projects you can see, with filters for state, author, assignee, reviewer, approver, labels, branches, draft and dates",
+      inputSchema: zodToJsonSchema(ListMergeRequestsSchema),
+    },
+    {
+      name: "get_merge_request",
+      description: "Get details of a merge request",
+      inputSchema: zodToJsonSchema(GetMergeRequestSchema),
+    },
+    {
+      name: "get_merge_request_diffs",
+      description: "Get the changes/diffs of a merge request",
+      inputSchema: zodToJsonSchema(GetMergeRequestDiffsSchema),
+    },
+    {
+      name: "update_merge_request",
+      description: "Update a merge request",
+      inputSchema: zodToJsonSchema(UpdateMergeRequestSchema),
+    },
+    {
+      name: "merge_merge_request",
+      description: "Merge a merge request, optionally squashing or waiting for the pipeline to succeed",
+      inputSchema: zodToJsonSchema(MergeMergeRequestSchema),
+    },
+    {
+      name: "rebase_merge_request",
+      description: "Rebase a merge request onto its target branch and wait until the rebase finishes",
+      inputSchema: zodToJsonSchema(RebaseMergeRequestSchema),
+    },
+    {
+      name: "get_merge_request_approvals",
+      description:
+        "Get the approvals of a merge request: who approved, how many approvals are still needed and, on GitLab Premium, the approval rules",
+      inputSchema: zodToJsonSchema(GetMergeRequestApprovalsSchema),
+    },
+    {
+      name: "approve_merge_request",
+      description: "Approve a merge request, optionally only if its source branch is still at a given SHA",
+      inputSchema: zodToJsonSchema(ApproveMergeRequestSchema),
+    },
+    {
+      name: "unapprove_merge_request",
+      description: "Withdraw your approval of a merge request",
+      inputSchema: zodToJsonSchema(UnapproveMergeRequestSchema),
+    },
+    {
+      name: "create_note",
+      description: "Create a new note (comment) to an issue or merge request",
+      inputSchema: zodToJsonSchema(CreateNoteSchema),
+    },
+    {
+      name: "list_merge_request_discussions",
+      description: "List the discussion threads of a merge request, including inline diff comments",
+      inputSchema: zodToJsonSchema(ListMergeRequestDiscussionsSchema),
+    },
+    {
+      name: "create_merge_request_thread",
+      description: "Start a new thread on a merge request, optionally anchored to a file and line of its diff",
+      inputSchema: zodToJsonSchema(CreateMergeRequestThreadSchema),
+    },
+    {
+      name: "reply_to_discussion",
+      description: "Reply to an existing merge request thread",
+      inputSchema: zodToJsonSchema(ReplyToDiscussionSchema),
+    },
+    {
+      name: "resolve_discussion",
+      description: "Resolve or unresolve a merge request thread",
+      inputSchema: zodToJsonSchema(ResolveDiscussionSchema),
+    },
+    {
+      name: "list_issues",
+      description: "List issues in a GitLab project with filtering options",
+      inputSchema: zodToJsonSchema(ListIssuesSchema),
+    },
+    {
+      name: "list_group_issues",
+      description:
+        "List issues across a group and its subgroups, or across all projects you can see when no group is given (e.g. scope assigned_to_me)",
+      inputSchema: zodToJsonSchema(ListGroupIssuesSchema),
+    },
+    {
+      name: "list_group_merge_requests",
+      description:
+        "Alias of list_merge_requests without project_id: list merge requests across a group and its subgroups, or across all projects you can see when no group is given (e.g. scope assigned_to_me or reviewer_username)",
+      inputSchema: zodToJsonSchema(ListGroupMergeRequestsSchema),
+    },
+    {
+      name: "get_issue",
+      description: "Get details of a specific issue in a GitLab project",
+      inputSchema: zodToJsonSchema(GetIssueSchema),
+    },
+    {
+      name: "update_issue",
+      description: "Update an issue in a GitLab project",
+      inputSchema: zodToJsonSchema(UpdateIssueSchema),
+    },
+    {
+      name: "delete_issue",
+      description: "Delete an issue from a GitLab project",
+      inputSchema: zodToJsonSchema(DeleteIssueSchema),
+    },
+    {
+      name: "list_issue_links",
+      description: "List all issue links for a specific issue",
+      inputSchema: zodToJsonSchema(ListIssueLinksSchema),
+    },
+    {
+      name: "get_issue_link",
+      description: "Get a specific issue link",
+      inputSchema: zodToJsonSchema(GetIssueLinkSchema),
+    },
+    {
+      name: "create_issue_link",
+      description: "Create an issue link between two issues",
+      inputSchema: zodToJsonSchema(CreateIssueLinkSchema),
+    },
+    {
+      name: "delete_issue_link",
+      description: "Delete an issue link",
+      inputSchema: zodToJsonSchema(DeleteIssueLinkSchema),
+    },
+    {
+      name: "list_namespaces",
+      description: "List all namespaces available to the current user",
+      inputSchema: zodToJsonSchema(ListNamespacesSchema),
+    },
+    {
+      name: "get_namespace",
+      description: "Get details of a namespace by ID or path",
+      inputSchema: zodToJsonSchema(GetNamespaceSchema),
+    },
+    {
+      name: "verify_namespace",
+      description: "Verify if a namespace path exists",
+      inputSchema: zodToJsonSchema(VerifyNamespaceSchema),
+    },
+    {
+      name: "get_project",
+      description: "Get details of a specific project",
+      inputSchema: zodToJsonSchema(GetProjectSchema),
+    },
+    {
+      name: "list_projects",
+      description: "List projects accessible by the current user",
+      inputSchema: zodToJsonSchema(ListProjectsSchema),
+    },
+    {
+      name: "whoami",
+      description:
+        "Show the user and token the server calls GitLab with: scopes, expiry and, for a project, your role and the tools it rules out",
+      inputSchema: zodToJsonSchema(WhoamiSchema),
+    },
+    {
+      name: "list_labels",
+      description: "List labels for a project",
+      inputSchema: zodToJsonSchema(ListLabelsSchema),
+    },
+    {
+      name: "get_label",
+      description: "Get a single label from a project",
+      inputSchema: zodToJsonSchema(GetLabelSchema),
+    },
+    {
+      name: "create_label",
+      description: "Create a new label in a project",
+      inputSchema: zodToJsonSchema(CreateLabelSchema),
+    },
+    {
+      name: "update_label",
+      description: "Update an existing label in a project",
+      inputSchema: zodToJsonSchema(UpdateLabelSchema),
+    },
+    {
+      name: "delete_label",
+      description: "Delete a label from a project",
+      inputSchema: zodToJsonSchema(DeleteLabelSchema),
+    },
+    {
+      name: "list_group_labels",
+      description: "List the labels of a group",
+      inputSchema: zodToJsonSchema(ListGroupLabelsSchema),
+    },
+    {
+      name: "get_group_label",
+      description: "Get a single label from a group",
+      inputSchema: zodToJsonSchema(GetGroupLabelSchema),
+    },
+    {
+      name: "create_group_label",
+      description: "Create a new label in a group, available to all its projects",
+      inputSchema: zodToJsonSchema(CreateGroupLabelSchema),
+    },
+    {
+      name: "update_group_label",
+      description: "Update an existing label in a group",
+      inputSchema: zodToJsonSchema(UpdateGroupLabelSchema),
+    },
+    {
+      name: "delete_group_label",
+      description: "Delete a label from a group",
+      inputSchema: zodToJsonSchema(DeleteGroupLabelSchema),
+    },
+    {
+      name: "list_pipelines",
+      description: "List pipelines in a project or of a merge request",
+      inputSchema: zodToJsonSchema(ListPipelinesSchema),
+    },
+    {
+      name: "get_pipeline",
+      description: "Get details of a single pipeline",
+      inputSchema: zodToJsonSchema(GetPipelineSchema),
+    },
+    {
+      name: "list_pipeline_jobs",
+      description: "List the jobs of a pipeline",
+      inputSchema: zodToJsonSchema(ListPipelineJobsSchema),
+    },
+    {
+      name: "get_job_log",
+      description: "Get the log of a job (defaults to the last 64KB)",
+      inputSchema: zodToJsonSchema(GetJobLogSchema),
+    },
+    {
+      name: "retry_pipeline",
+      description: "Retry the failed or canceled jobs of a pipeline",
+      inputSchema: zodToJsonSchema(RetryPipelineSchema),
+    },
+    {
+      name: "cancel_pipeline",
+      description: "Cancel the running jobs of a pipeline",
+      inputSchema: zodToJsonSchema(CancelPipelineSchema),
+    },
+    {
+      name: "create_pipeline",
+      description: "Run a new pipeline for a branch or tag",
+      inputSchema: zodToJsonSchema(CreatePipelineSchema),
+    },
+  ];
+
+  return {
+    tools: tools
+      .filter((tool) => toolPolicy.isToolListed(tool.name) && isToolUsable(tool.name))
+      .map((tool) =>
+        TOOL_ACCESS_LEVELS[tool.name] === undefined
+          ? tool
+          : {
+              ...tool,
+              description: `${tool.description}. Requires the ${roleName(TOOL_ACCESS_LEVELS[tool.name])} role or higher in the project.`,
+            }
+      )
+      .map((tool) => (READ_ONLY_TOOLS.has(tool.name) ? tool : withDryRunOption(tool)))
+      .map((tool) => (gitlabInstances.instances.size > 1 ? withInstanceOption(tool) : tool)),
+  };
+}
+
+/**
+ * Add the `dry_run` argument to a mutating tool's input schema
+ *
+ * The flag is read from the raw arguments in callTool, so it is kept out of
+ * the tool schemas and never sent to GitLab.
+ *
+ * @param {T} tool - Tool definition
+ * @returns {T} The tool with `dry_run` in its input schema
+ */
+function withDryRunOption<T extends { inputSchema: object }>(tool: T): T {
+  const schema = tool.inputSchema as { properties?: Record<string, unknown> };
+  return {
+    ...tool,
+    inputSchema: {
+      ...schema,
+      properties: {
+        ...schema.properties,
+        dry_run: {
+          type: "boolean",
+          description:
+            "Preview the change without making it: returns the request that would be sent and a diff against the current state",
+        },
       },
-      {
-        name: "delete_label",
-        description: "Delete a label from a project",
-        inputSchema: zodToJsonSchema(DeleteLabelSchema),
+    },
+  };
+}
+
+/**
+ * Add the `instance` argument to a tool's input schema
+ *
+ * Like `dry_run`, the argument is read from the raw arguments in callTool
+ * and never sent to GitLab.
+ *
+ * @param {T} tool - Tool definition
+ * @returns {T} The tool with `instance` in its input schema
+ */
+function withInstanceOption<T extends { inputSchema: object }>(tool: T): T {
+  const schema = tool.inputSchema as { properties?: Record<string, unknown> };
+  return {
+    ...tool,
+    inputSchema: {
+      ...schema,
+      properties: {
+        ...schema.properties,
+        instance: {
+          type: "string",
+          enum: [...gitlabInstances.instances.keys()],
+          description: `GitLab instance to call (default: ${gitlabInstances.defaultInstance})`,
+        },
       },
+    },
+  };
+}
+
+/**
+ * Preview every mutating tool call instead of running it
+ */
+const GITLAB_DRY_RUN = /^(true|1|yes)$/i.test(process.env.GITLAB_DRY_RUN ?? "");
+
+/**
+ * Read a file's raw contents at a ref
+ * 특정 ref 의 파일 원본 조회 (Read raw file contents)
+ *
+ * @param {string} projectId - The ID or URL-encoded path of the project
+ * @param {string} filePath - The path of the file
+ * @param {string} ref - The name of the branch, tag or commit
+ * @returns {Promise<Buffer | null>} The contents, or null if the file does not exist
+ */
+async function getRawFile(
+  projectId: string,
+  filePath: string,
+  ref: string
+): Promise<Buffer | null> {
+  const url = new URL(
+    `${gitlabApiUrl()}/projects/${encodeURIComponent(
+      projectId
+    )}/repository/files/${encodeURIComponent(filePath)}/raw`
+  );
+  url.searchParams.append("ref", ref);
+
+  const response = await gitlab.fetch(url.toString());
+
+  if (response.status === 404) {
+    return null;
+  }
+  await handleGitLabError(response);
+  return Buffer.from(await response.arrayBuffer());
+}
+
+/**
+ * Describe the change to one file as a unified diff
+ * 파일 변경 내용을 diff 로 표시
+ *
+ * @param {string} filePath - Path of the file after the change
+ * @param {string} oldPath - Path of the file before the change
+ * @param {Buffer | null} oldContent - Current contents, or null if the file is new
+ * @param {Buffer | null} newContent - New contents, or null if the file is deleted
+ * @returns {string} The diff, or a summary for binary files
+ */
+function describeFileChange(
+  filePath: string,
+  oldPath: string,
+  oldContent: Buffer | null,
+  newContent: Buffer | null
+): string {
+  const binary = [oldContent, newContent].some(
+    (content) => content !== null && detectBinaryContent(content).binary
+  );
+  if (binary) {
+    return `Binary file ${filePath}: ${oldContent?.length ?? 0} bytes -> ${newContent?.length ?? 0} bytes`;
+  }
+  const diff = unifiedDiff(
+    oldContent?.toString("utf8") ?? "",
+    newContent?.toString("utf8") ?? "",
+    oldContent ? `a/${oldPath}` : "/dev/null",
+    newContent ? `b/${filePath}` : "/dev/null"
+  );
+  return diff || `${filePath}: no changes`;
+}
+
+/**
+ * Decode the content of a file write request
+ *
+ * @param {Record<string, any>} file - Request body or commit action with `content` and `encoding`
+ * @returns {Buffer | null} The new contents, or null if the request carries none
+ */
+function requestContent(file: Record<string, any>): Buffer | null {
+  if (typeof file.content !== "string") {
+    return null;
+  }
+  return Buffer.from(file.content, file.encoding === "base64" ? "base64" : "utf8");
+}
+
+/**
+ * Format a value for a field-by-field change summary
+ */
+function formatValue(value: unknown): string {
+  if (value === undefined || value === null) {
+    return "(none)";
+  }
+  const text = JSON.stringify(value);
+  return text.length > 200 ? `${text.slice(0, 200)}...` : text;
+}
+
+/**
+ * Request fields stored under a different name on the resource
+ */
+const FIELD_ALIASES: Record<string, string> = {
+  new_name: "name",
+  state_event: "state",
+};
+
+/**
+ * Resource states that state_event values lead to
+ */
+const STATE_EVENTS: Record<string, string> = {
+  close: "closed",
+  reopen: "opened",
+  activate: "active",
+};
+
+/**
+ * Describe what a write request would change in human-readable form
+ * 쓰기 요청의 변경 내용 설명 (Describe a write request)
+ *
+ * Fetches the current state of the target: file contents for commits and
+ * file writes, the resource itself for updates and deletions.
+ *
+ * @param {InterceptedRequest} request - The write request a dry run stopped
+ * @returns {Promise<string>} Diff or field-by-field summary of the change
+ */
+async function describeWrite(request: InterceptedRequest): Promise<string> {
+  const url = new URL(request.url);
+  const path = url.pathname.replace(/^.*?\/api\/v4(?=\/)/, "");
+  const body = (request.body ?? {}) as Record<string, any>;
+  const projectId = decodeURIComponent(path.match(/^\/projects\/([^/]+)/)?.[1] ?? "");
+
+  // push_files: one commit with several file actions
+  if (request.method === "POST" && /^\/projects\/[^/]+\/repository\/commits$/.test(path)) {
+    const startRef = body.start_sha ?? body.start_branch;
+    const branchExists = (await getBranch(projectId, body.branch)) !== null;
+    const ref = branchExists || !startRef ? body.branch : startRef;
+    const sections = [
+      `Commit to ${body.branch}${branchExists || !startRef ? "" : ` (new branch from ${startRef})`}: ${body.commit_message}`,
+    ];
+    for (const action of body.actions as Record<string, any>[]) {
+      const oldPath = action.previous_path ?? action.file_path;
+      const current = action.action === "create"
+        ? null
+        : await getRawFile(projectId, oldPath, ref);
+      switch (action.action) {
+        case "delete":
+          sections.push(describeFileChange(action.file_path, oldPath, current, null));
+          break;
+        case "chmod":
+          sections.push(`${action.file_path}: set executable to ${action.execute_filemode}`);
+          break;
+        case "move":
+          sections.push(
+            `Rename ${oldPath} -> ${action.file_path}`,
+            describeFileChange(action.file_path, oldPath, current, requestContent(action) ?? current)
+          );
+          break;
+        default:
+          sections.push(describeFileChange(action.file_path, oldPath, current, requestContent(action)));
+      }
+    }
+    return sections.join("\n\n");
+  }
+
+  // create_or_update_file
+  const fileMatch = path.match(/^\/projects\/[^/]+\/repository\/files\/([^/]+)$/);
+  if (fileMatch && (request.method === "POST" || request.method === "PUT")) {
+    const filePath = decodeURIComponent(fileMatch[1]);
+    const current = await getRawFile(projectId, filePath, body.branch);
+    return [
+      `Commit to ${body.branch}: ${body.commit_message}`,
+      describeFileChange(filePath, filePath, current, requestContent(body)),
+    ].join("\n\n");
+  }
+
+  const changes: Record<string, unknown> = { ...Object.fromEntries(url.searchParams), ...body };
+  const lines = [`${request.method} ${decodeURIComponent(path)}${url.search}`];
+
+  if (request.method === "PUT" || request.method === "DELETE") {
+    const resourceUrl = new URL(url.toString());
+    resourceUrl.search = "";
+    const response = await gitlab.fetch(resourceUrl.toString());
+    if (response.ok) {
+      const current = (await response.json()) as Record<string, any>;
+      if (request.method === "DELETE") {
+        const label = current.title ?? current.name ?? current.path_with_namespace ?? current.id;
+        lines.push(`Would delete ${formatValue(label)}`);
+        return lines.join("\n");
+      }
+
+      for (const [field, value] of Object.entries(changes)) {
+        const currentField = FIELD_ALIASES[field] ?? field;
+        let newValue = field === "state_event" ? STATE_EVENTS[String(value)] ?? value : value;
+        if (Array.isArray(current[currentField]) && typeof newValue === "string") {
+          newValue = newValue === "" ? [] : newValue.split(",");
+        }
+        const oldText = formatValue(current[currentField]);
+        const newText = formatValue(newValue);
+        lines.push(
+          oldText === newText
+            ? `  ${currentField}: ${newText} (unchanged)`
+            : `~ ${currentField}: ${oldText} -> ${newText}`
+        );
+      }
+      return lines.join("\n");
+    }
+    // The target is an action endpoint (e.g. /merge) rather than a resource
+  }
+
+  for (const [field, value] of Object.entries(changes)) {
+    lines.push(`+ ${field}: ${formatValue(value)}`);
+  }
+  return lines.join("\n");
+}
+
+/**
+ * Run a mutating tool as a dry run
+ * 드라이런 실행 (Preview a tool call)
+ *
+ * The tool runs normally, including validation and the lookups it makes,
+ * until its first write request, which is stopped before it is sent.
+ *
+ * @param {CallToolRequest} request - The tool call request
+ * @returns {Promise<CallToolResult>} The would-be request and a description of the change
+ */
+async function previewTool(request: CallToolRequest): Promise<CallToolResult> {
+  let intercepted: InterceptedRequest | undefined;
+  try {
+    await runDryRun(() => runTool(request));
+  } catch (error) {
+    if (!(error instanceof DryRunInterrupt)) {
+      throw error;
+    }
+    intercepted = error.request;
+  }
+
+  if (!intercepted) {
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify(
+            { dry_run: true, request: null, message: "The call would not send any write request" },
+            null,
+            2
+          ),
+        },
+      ],
+    };
+  }
+
+  return {
+    content: [
+      { type: "text", text: JSON.stringify({ dry_run: true, request: intercepted }, null, 2) },
+      { type: "text", text: await describeWrite(intercepted) },
     ],
   };
-});
+}
+
+/**
+ * Convert an error thrown by a tool into the payload returned to the client
+ * 도구 실행 에러를 클라이언트 응답 형식으로 변환
+ *
+ * @param {unknown} error - The thrown error
+ * @returns {Record<string, unknown>} A machine-readable error with a `code`
+ */
+function toToolError(error: unknown): Record<string, unknown> {
+  if (
+    error instanceof GitLabApiError ||
+    error instanceof GitLabRequestError ||
+    error instanceof PolicyViolationError ||
+    error instanceof CredentialsError ||
+    error instanceof CassetteMismatchError ||
+    error instanceof MergeRequestRebaseError
+  ) {
+    return error.toJSON();
+  }
+  if (error instanceof z.ZodError) {
+    return {
+      code: "invalid_arguments",
+      message: `Invalid arguments: ${error.errors
+        .map((e) => `${e.path.join(".")}: ${e.message}`)
+        .join(", ")}`,
+      issues: error.errors.map((e) => ({ path: e.path.join("."), message: e.message })),
+    };
+  }
+  return {
+    code: "error",
+    message: error instanceof Error ? error.message : String(error),
+  };
+}
+
+/**
+ * Run a tool call
+ * 도구 호출 실행 (Run a tool call)
+ *
+ * @param {CallToolRequest} request - The tool call request
+ * @param {Map<string, GitLabClient>} clients - Clients of the session, by instance name
+ */
+async function callTool(
+  request: CallToolRequest,
+  clients: Map<string, GitLabClient>
+): Promise<CallToolResult> {
+  let client: GitLabClient | undefined;
+  try {
+    const args = request.params.arguments;
+    if (!args) {
+      throw new Error("Arguments are required");
+    }
+
+    client = selectGitLabClient(clients, args.instance ?? undefined);
+    return await runWithGitLabClient(client, async () => {
+      await enforceToolPolicy(request.params.name, args);
+
+      const dryRun = GITLAB_DRY_RUN || args.dry_run === true;
+      if (dryRun && !READ_ONLY_TOOLS.has(request.params.name)) {
+        return await previewTool(request);
+      }
+      return await runTool(request);
+    });
+  } catch (error) {
+    const payload = toToolError(error);
+    if (error instanceof GitLabForbiddenError && client) {
+      payload.hint = forbiddenHint(
+        request.params.name,
+        READ_ONLY_TOOLS.has(request.params.name),
+        await tokenInfo(client)
+      );
+    }
+    return {
+      content: [{ type: "text", text: JSON.stringify({ error: payload }, null, 2) }],
+      isError: true,
+    };
+  }
+}
+
+/**
+ * Audit log of tool calls, if enabled
+ */
+const auditLog = createAuditLog(
+  process.env,
+  [...gitlabInstances.instances.values()].map((instance) => instance.token ?? "")
+);
+
+/**
+ * Run a tool call and record it in the audit log
+ * 도구 호출 감사 로그 기록 (Audit a tool call)
+ *
+ * @param {CallToolRequest} request - The tool call request
+ * @param {Map<string, GitLabClient>} clients - Clients of the session, by instance name
+ * @param {Implementation} [clientInfo] - Name and version the MCP client reported
+ * @returns {Promise<CallToolResult>} The result of the call
+ */
+async function auditedCallTool(
+  request: CallToolRequest,
+  clients: Map<string, GitLabClient>,
+  clientInfo?: Implementation
+): Promise<CallToolResult> {
+  if (!auditLog) {
+    return callTool(request, clients);
+  }
+
+  const args = request.params.arguments ?? {};
+  return auditLog.record(
+    {
+      tool: request.params.name,
+      client: clientInfo && { name: clientInfo.name, version: clientInfo.version },
+      project: typeof args.project_id === "string" ? args.project_id : undefined,
+      arguments: args,
+      dry_run:
+        !READ_ONLY_TOOLS.has(request.params.name) &&
+        (GITLAB_DRY_RUN || args.dry_run === true),
+    },
+    () => callTool(request, clients),
+    (result) => {
+      let payload: unknown;
+      try {
+        payload = JSON.parse(String(result.content[0]?.text ?? ""));
+      } catch {
+        payload = undefined;
+      }
+      const fields =
+        payload !== null && typeof payload === "object" && !Array.isArray(payload)
+          ? (payload as Record<string, unknown>)
+          : undefined;
+      if (result.isError) {
+        const code = (fields?.error as { code?: unknown } | null | undefined)?.code;
+        return { outcome: "error", error_code: typeof code === "string" ? code : undefined, objects: [] };
+      }
+      // Identify what the call created or changed; lists are not itemized
+      const objects =
+        fields && !("items" in fields)
+          ? [
+              Object.fromEntries(
+                ["id", "iid", "web_url"]
+                  .filter((key) => fields[key] !== undefined)
+                  .map((key) => [key, fields[key]])
+              ),
+            ].filter((object) => Object.keys(object).length > 0)
+          : [];
+      return { outcome: "success", objects };
+    }
+  );
+}
+
+/**
+ * Run the tool named in a request
+ * 요청된 도구 실행 (Run the requested tool)
+ *
+ * @param {CallToolRequest} request - The tool call request
+ */
+async function runTool(request: CallToolRequest): Promise<CallToolResult> {
+  switch (request.params.name) {
+    case "fork_repository": {
+      const forkArgs = ForkRepositorySchema.parse(request.params.arguments);
+      const forkedProject = await forkProject(forkArgs.project_id, forkArgs.namespace);
+      return {
+        content: [{ type: "text", text: JSON.stringify(forkedProject, null, 2) }],
+      };
+    }
+
+    case "create_branch": {
+      const args = CreateBranchSchema.parse(request.params.arguments);
+      let ref = args.ref;
+      if (!ref) {
+        ref = await getDefaultBranchRef(args.project_id);
+      }
+
+      const branch = await createBranch(args.project_id, {
+        name: args.branch,
+        ref,
+      });
+
+      return {
+        content: [{ type: "text", text: JSON.stringify(branch, null, 2) }],
+      };
+    }
+
+    case "search_repositories": {
+      const args = SearchRepositoriesSchema.parse(request.params.arguments);
+      const { search, ...options } = args;
+      const page = await searchProjects(search, options);
+      const items = await permittedItems(request.params.name, page.items);
+      // Counts would include the projects left out
+      const results =
+        items.length === page.items.length ? page : { ...page, count: undefined, total_pages: undefined, items };
+      return {
+        content: [{ type: "text", text: JSON.stringify(results, null, 2) }],
+      };
+    }
+
+    case "create_repository": {
+      const args = CreateRepositorySchema.parse(request.params.arguments);
+      const repository = await createRepository(args);
+      return {
+        content: [
+          { type: "text", text: JSON.stringify(repository, null, 2) },
+        ],
+      };
+    }
+
+    case "get_file_contents": {
+      const args = GetFileContentsSchema.parse(request.params.arguments);
+      const contents = await getFileContents(
+        args.project_id,
+        args.file_path,
+        args.ref,
+        { format: args.format, max_bytes: args.max_bytes }
+      );
+      return {
+        content: [{ type: "text", text: JSON.stringify(contents, null, 2) }],
+      };
+    }
+
+    case "get_repository_tree": {
+      const args = GetRepositoryTreeSchema.parse(request.params.arguments);
+      const { project_id, format, ...options } = args;
+      const tree = await getRepositoryTree(project_id, options);
+      if (format === "tree") {
+        const text = renderTree(tree.entries, options.path);
+        return {
+          content: [
+            {
+              type: "text",
+              text: tree.truncated ? `${text}\n... (truncated)` : text,
+            },
+          ],
+        };
+      }
+      return {
+        content: [{ type: "text", text: JSON.stringify(tree, null, 2) }],
+      };
+    }
+
+    case "create_or_update_file": {
+      const args = CreateOrUpdateFileSchema.parse(request.params.arguments);
+      const result = await createOrUpdateFile(
+        args.project_id,
+        args.file_path,
+        args.content,
+        args.commit_message,
+        args.branch,
+        args.previous_path,
+        args.last_commit_id,
+        args.commit_id,
+        args.encoding
+      );
+      return {
+        content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+      };
+    }
+
+    case "push_files": {
+      const args = PushFilesSchema.parse(request.params.arguments);
+      const result = await createCommit(
+        args.project_id,
+        args.commit_message,
+        args.branch,
+        args.files.map(({ file_path, ...file }) => ({ path: file_path, ...file })),
+        { start_branch: args.start_branch, start_sha: args.start_sha }
+      );
+      return {
+        content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+      };
+    }
+
+    case "create_issue": {
+      const args = CreateIssueSchema.parse(request.params.arguments);
+      const { project_id, ...options } = args;
+      const issue = await createIssue(project_id, options);
+      return {
+        content: [{ type: "text", text: JSON.stringify(issue, null, 2) }],
+      };
+    }
+
+    case "create_merge_request": {
+      const args = CreateMergeRequestSchema.parse(request.params.arguments);
+      const { project_id, ...options } = args;
+      const mergeRequest = await createMergeRequest(project_id, options);
+      return {
+        content: [
+          { type: "text", text: JSON.stringify(mergeRequest, null, 2) },
+        ],
+      };
+    }
+
+    // list_group_merge_requests is list_merge_requests without project_id
+    case "list_group_merge_requests":
+    case "list_merge_requests": {
+      const args = ListMergeRequestsSchema.parse(request.params.arguments);
+      const { project_id, group_id, ...options } = args;
+      if (project_id && group_id) {
+        throw new Error("Give either project_id or group_id, not both");
+      }
+      const page = await listMergeRequests({ projectId: project_id, groupId: group_id }, options);
+      const mergeRequests = project_id ? page : await withoutRefusedProjects(request.params.name, page);
+      return {
+        content: [{ type: "text", text: JSON.stringify(mergeRequests, null, 2) }],
+      };
+    }
+
+    case "get_merge_request": {
+      const args = GetMergeRequestSchema.parse(request.params.arguments);
+      const mergeRequest = await getMergeRequestSummary(
+        args.project_id,
+        args.merge_request_iid
+      );
+      return {
+        content: [
+          { type: "text", text: JSON.stringify(mergeRequest, null, 2) },
+        ],
+      };
+    }
+
+    case "get_merge_request_diffs": {
+      const args = GetMergeRequestDiffsSchema.parse(request.params.arguments);
+      const diffs = await getMergeRequestDiffs(
+        args.project_id,
+        args.merge_request_iid,
+        args.view
+      );
+      return {
+        content: [{ type: "text", text: JSON.stringify(diffs, null, 2) }],
+      };
+    }
+
+    case "update_merge_request": {
+      const args = UpdateMergeRequestSchema.parse(request.params.arguments);
+      const { project_id, merge_request_iid, ...options } = args;
+      const mergeRequest = await updateMergeRequest(
+        project_id,
+        merge_request_iid,
+        options
+      );
+      return {
+        content: [
+          { type: "text", text: JSON.stringify(mergeRequest, null, 2) },
+        ],
+      };
+    }
+
+    case "merge_merge_request": {
+      const args = MergeMergeRequestSchema.parse(request.params.arguments);
+      const { project_id, merge_request_iid, ...options } = args;
+      const mergeRequest = await mergeMergeRequest(
+        project_id,
+        merge_request_iid,
+        options
+      );
+      return {
+        content: [
+          { type: "text", text: JSON.stringify(mergeRequest, null, 2) },
+        ],
+      };
+    }
+
+    case "rebase_merge_request": {
+      const args = RebaseMergeRequestSchema.parse(request.params.arguments);
+      const { project_id, merge_request_iid, ...options } = args;
+      const mergeRequest = await rebaseMergeRequest(
+        project_id,
+        merge_request_iid,
+        options
+      );
+      return {
+        content: [
+          { type: "text", text: JSON.stringify(mergeRequest, null, 2) },
+        ],
+      };
+    }
+
+    case "get_merge_request_approvals": {
+      const args = GetMergeRequestApprovalsSchema.parse(request.params.arguments);
+      const [approvals, approvalState] = await Promise.all([
+        getMergeRequestApprovals(args.project_id, args.merge_request_iid),
+        getMergeRequestApprovalState(args.project_id, args.merge_request_iid),
+      ]);
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify({ ...approvals, rules: approvalState?.rules }, null, 2),
+          },
+        ],
+      };
+    }
+
+    case "approve_merge_request": {
+      const args = ApproveMergeRequestSchema.parse(request.params.arguments);
+      const { project_id, merge_request_iid, ...options } = args;
+      const approvals = await approveMergeRequest(project_id, merge_request_iid, options);
+      return {
+        content: [{ type: "text", text: JSON.stringify(approvals, null, 2) }],
+      };
+    }
+
+    case "unapprove_merge_request": {
+      const args = UnapproveMergeRequestSchema.parse(request.params.arguments);
+      const approvals = await unapproveMergeRequest(
+        args.project_id,
+        args.merge_request_iid,
+        args.sudo
+      );
+      return {
+        content: [{ type: "text", text: JSON.stringify(approvals, null, 2) }],
+      };
+    }
+
+    case "list_namespaces": {
+      const args = ListNamespacesSchema.parse(request.params.arguments);
+      const namespaces = await listNamespaces(args);
+
+      return {
+        content: [{ type: "text", text: JSON.stringify(namespaces, null, 2) }],
+      };
+    }
+
+    case "get_namespace": {
+      const args = GetNamespaceSchema.parse(request.params.arguments);
+      const url = new URL(`${gitlabApiUrl()}/namespaces/${encodeURIComponent(args.namespace_id)}`);
+
+      const response = await gitlab.fetch(url.toString());
+
+      await handleGitLabError(response);
+      const data = await response.json();
+      const namespace = GitLabNamespaceSchema.parse(data);
+
+      return {
+        content: [{ type: "text", text: JSON.stringify(namespace, null, 2) }],
+      };
+    }
+
+    case "verify_namespace": {
+      const args = VerifyNamespaceSchema.parse(request.params.arguments);
+      const url = new URL(`${gitlabApiUrl()}/namespaces/${encodeURIComponent(args.path)}/exists`);
+
+      const response = await gitlab.fetch(url.toString());
+
+      await handleGitLabError(response);
+      const data = await response.json();
+      const namespaceExists = GitLabNamespaceExistsResponseSchema.parse(data);
+
+      return {
+        content: [{ type: "text", text: JSON.stringify(namespaceExists, null, 2) }],
+      };
+    }
+
+    case "whoami": {
+      const args = WhoamiSchema.parse(request.params.arguments);
+      // Inspect again rather than trust the cache: the token may have been rotated
+      const info = await introspectToken();
+      tokenInfoCache.set(activeGitLabClient(), Promise.resolve(info));
+
+      let project: Record<string, unknown> | undefined;
+      if (args.project_id) {
+        const details = await getProject(args.project_id);
+        const accessLevel = projectAccessLevel(details);
+        project = {
+          path_with_namespace: details.path_with_namespace,
+          access_level: accessLevel,
+          role: roleName(accessLevel),
+          // Tool name -> role it needs
+          tools_needing_higher_role: Object.fromEntries(
+            Object.entries(TOOL_ACCESS_LEVELS)
+              .filter(([tool, level]) => level > accessLevel && toolPolicy.isToolListed(tool))
+              .map(([tool, level]) => [tool, roleName(level)])
+          ),
+        };
+      }
+
+      const whoami = {
+        api_url: gitlabApiUrl(),
+        user: info.user,
+        token: {
+          kind: info.kind ?? "unknown",
+          name: info.name,
+          scopes: info.scopes,
+          expires_at: info.expiresAt,
+          expires_in_days: info.kind === "personal_access_token" ? daysUntilExpiry(info) : undefined,
+        },
+        project,
+        warnings: tokenWarnings(info, TOKEN_EXPIRY_WARNING_DAYS),
+        error: info.error,
+      };
+      return {
+        content: [{ type: "text", text: JSON.stringify(whoami, null, 2) }],
+      };
+    }
+
+    case "get_project": {
+      const args = GetProjectSchema.parse(request.params.arguments);
+      const url = new URL(`${gitlabApiUrl()}/projects/${encodeURIComponent(args.project_id)}`);
+
+      const response = await gitlab.fetch(url.toString());
+
+      await handleGitLabError(response);
+      const data = await response.json();
+      const project = GitLabProjectSchema.parse(data);
+
+      return {
+        content: [{ type: "text", text: JSON.stringify(project, null, 2) }],
+      };
+    }
+
+    case "list_projects": {
+      const args = ListProjectsSchema.parse(request.params.arguments);
+      const projects = await withoutRefusedProjects(request.params.name, await listProjects(args));
+
+      return {
+        content: [{ type: "text", text: JSON.stringify(projects, null, 2) }],
+      };
+    }
+
+    case "create_note": {
+      const args = CreateNoteSchema.parse(request.params.arguments);
+      const { project_id, noteable_type, noteable_iid, body } = args;
+
+      const note = await createNote(
+        project_id,
+        noteable_type,
+        noteable_iid,
+        body
+      );
+      return {
+        content: [{ type: "text", text: JSON.stringify(note, null, 2) }],
+      };
+    }
+
+    case "list_merge_request_discussions": {
+      const args = ListMergeRequestDiscussionsSchema.parse(request.params.arguments);
+      const { project_id, merge_request_iid, ...options } = args;
+      const discussions = await listMergeRequestDiscussions(
+        project_id,
+        merge_request_iid,
+        options
+      );
+      return {
+        content: [{ type: "text", text: JSON.stringify(discussions, null, 2) }],
+      };
+    }
 
-server.setRequestHandler(CallToolRequestSchema, async (request) => {
-  try {
-    if (!request.params.arguments) {
-      throw new Error("Arguments are required");
+    case "create_merge_request_thread": {
+      const args = CreateMergeRequestThreadSchema.parse(request.params.arguments);
+      const discussion = await createMergeRequestThread(
+        args.project_id,
+        args.merge_request_iid,
+        args.body,
+        args.position
+      );
+      return {
+        content: [{ type: "text", text: JSON.stringify(discussion, null, 2) }],
+      };
     }
 
-    switch (request.params.name) {
-      case "fork_repository": {
-        const forkArgs = ForkRepositorySchema.parse(request.params.arguments);
-        try {
-          const forkedProject = await forkProject(forkArgs.project_id, forkArgs.namespace);
-          return {
-            content: [{ type: "text", text: JSON.stringify(forkedProject, null, 2) }],
-          };
-        } catch (forkError) {
-          console.error("Error forking repository:", forkError);
-          let forkErrorMessage = "Failed to fork repository";
-          if (forkError instanceof Error) {
-            forkErrorMessage = `${forkErrorMessage}: ${forkError.message}`;
-          }
-          return {
-            content: [{ type: "text", text: JSON.stringify({ error: forkErrorMessage }, null, 2) }],
-          };
-        }
-      }
+    case "reply_to_discussion": {
+      const args = ReplyToDiscussionSchema.parse(request.params.arguments);
+      const note = await replyToDiscussion(
+        args.project_id,
+        args.merge_request_iid,
+        args.discussion_id,
+        args.body
+      );
+      return {
+        content: [{ type: "text", text: JSON.stringify(note, null, 2) }],
+      };
+    }
 
-      case "create_branch": {
-        const args = CreateBranchSchema.parse(request.params.arguments);
-        let ref = args.ref;
-        if (!ref) {
-          ref = await getDefaultBranchRef(args.project_id);
-        }
+    case "resolve_discussion": {
+      const args = ResolveDiscussionSchema.parse(request.params.arguments);
+      const discussion = await resolveDiscussion(
+        args.project_id,
+        args.merge_request_iid,
+        args.discussion_id,
+        args.resolved
+      );
+      return {
+        content: [{ type: "text", text: JSON.stringify(discussion, null, 2) }],
+      };
+    }
 
-        const branch = await createBranch(args.project_id, {
-          name: args.branch,
-          ref,
-        });
+    case "list_issues": {
+      const args = ListIssuesSchema.parse(request.params.arguments);
+      const { project_id, ...options } = args;
+      const issues = await listIssues(project_id, options);
+      return {
+        content: [{ type: "text", text: JSON.stringify(issues, null, 2) }],
+      };
+    }
 
-        return {
-          content: [{ type: "text", text: JSON.stringify(branch, null, 2) }],
-        };
-      }
+    case "list_group_issues": {
+      const args = ListGroupIssuesSchema.parse(request.params.arguments);
+      const { group_id, ...options } = args;
+      const issues = await withoutRefusedProjects(
+        request.params.name,
+        await listGroupIssues(group_id, options)
+      );
+      return {
+        content: [{ type: "text", text: JSON.stringify(issues, null, 2) }],
+      };
+    }
 
-      case "search_repositories": {
-        const args = SearchRepositoriesSchema.parse(request.params.arguments);
-        const results = await searchProjects(
-          args.search,
-          args.page,
-          args.per_page
-        );
-        return {
-          content: [{ type: "text", text: JSON.stringify(results, null, 2) }],
-        };
-      }
+    case "get_issue": {
+      const args = GetIssueSchema.parse(request.params.arguments);
+      const issue = await getIssue(args.project_id, args.issue_iid);
+      return {
+        content: [{ type: "text", text: JSON.stringify(issue, null, 2) }],
+      };
+    }
 
-      case "create_repository": {
-        const args = CreateRepositorySchema.parse(request.params.arguments);
-        const repository = await createRepository(args);
-        return {
-          content: [
-            { type: "text", text: JSON.stringify(repository, null, 2) },
-          ],
-        };
-      }
+    case "update_issue": {
+      const args = UpdateIssueSchema.parse(request.params.arguments);
+      const { project_id, issue_iid, ...options } = args;
+      const issue = await updateIssue(project_id, issue_iid, options);
+      return {
+        content: [{ type: "text", text: JSON.stringify(issue, null, 2) }],
+      };
+    }
 
-      case "get_file_contents": {
-        const args = GetFileContentsSchema.parse(request.params.arguments);
-        const contents = await getFileContents(
-          args.project_id,
-          args.file_path,
-          args.ref
-        );
-        return {
-          content: [{ type: "text", text: JSON.stringify(contents, null, 2) }],
-        };
-      }
+    case "delete_issue": {
+      const args = DeleteIssueSchema.parse(request.params.arguments);
+      await deleteIssue(args.project_id, args.issue_iid);
+      return {
+        content: [{ type: "text", text: JSON.stringify({ status: "success", message: "Issue deleted successfully" }, null, 2) }],
+      };
+    }
 
-      case "create_or_update_file": {
-        const args = CreateOrUpdateFileSchema.parse(request.params.arguments);
-        const result = await createOrUpdateFile(
-          args.project_id,
-          args.file_path,
-          args.content,
-          args.commit_message,
-          args.branch,
-          args.previous_path,
-          args.last_commit_id,
-          args.commit_id
-        );
-        return {
-          content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
-        };
-      }
+    case "list_issue_links": {
+      const args = ListIssueLinksSchema.parse(request.params.arguments);
+      const links = await permittedItems(request.params.name, await listIssueLinks(args.project_id, args.issue_iid));
+      return {
+        content: [{ type: "text", text: JSON.stringify(links, null, 2) }],
+      };
+    }
 
-      case "push_files": {
-        const args = PushFilesSchema.parse(request.params.arguments);
-        const result = await createCommit(
-          args.project_id,
-          args.commit_message,
-          args.branch,
-          args.files.map((f) => ({ path: f.file_path, content: f.content }))
+    case "get_issue_link": {
+      const args = GetIssueLinkSchema.parse(request.params.arguments);
+      const link = await getIssueLink(args.project_id, args.issue_iid, args.issue_link_id);
+      // Either side of the link may belong to another project
+      const issues = [link.source_issue, link.target_issue];
+      if ((await permittedItems(request.params.name, issues)).length < issues.length) {
+        throw new PolicyViolationError(
+          `${request.params.name} is not allowed: the linked issue belongs to a project refused by policy`,
+          request.params.name
         );
-        return {
-          content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
-        };
-      }
-
-      case "create_issue": {
-        const args = CreateIssueSchema.parse(request.params.arguments);
-        const { project_id, ...options } = args;
-        const issue = await createIssue(project_id, options);
-        return {
-          content: [{ type: "text", text: JSON.stringify(issue, null, 2) }],
-        };
       }
+      return {
+        content: [{ type: "text", text: JSON.stringify(link, null, 2) }],
+      };
+    }
 
-      case "create_merge_request": {
-        const args = CreateMergeRequestSchema.parse(request.params.arguments);
-        const { project_id, ...options } = args;
-        const mergeRequest = await createMergeRequest(project_id, options);
-        return {
-          content: [
-            { type: "text", text: JSON.stringify(mergeRequest, null, 2) },
-          ],
-        };
-      }
+    case "create_issue_link": {
+      const args = CreateIssueLinkSchema.parse(request.params.arguments);
+      const link = await createIssueLink(args.project_id, args.issue_iid, args.target_project_id, args.target_issue_iid, args.link_type);
+      return {
+        content: [{ type: "text", text: JSON.stringify(link, null, 2) }],
+      };
+    }
 
-      case "get_merge_request": {
-        const args = GetMergeRequestSchema.parse(request.params.arguments);
-        const mergeRequest = await getMergeRequest(
-          args.project_id,
-          args.merge_request_iid
-        );
-        return {
-          content: [
-            { type: "text", text: JSON.stringify(mergeRequest, null, 2) },
-          ],
-        };
-      }
+    case "delete_issue_link": {
+      const args = DeleteIssueLinkSchema.parse(request.params.arguments);
+      await deleteIssueLink(args.project_id, args.issue_iid, args.issue_link_id);
+      return {
+        content: [{ type: "text", text: JSON.stringify({ status: "success", message: "Issue link deleted successfully" }, null, 2) }],
+      };
+    }
 
-      case "get_merge_request_diffs": {
-        const args = GetMergeRequestDiffsSchema.parse(request.params.arguments);
-        const diffs = await getMergeRequestDiffs(
-          args.project_id,
-          args.merge_request_iid,
-          args.view
-        );
-        return {
-          content: [{ type: "text", text: JSON.stringify(diffs, null, 2) }],
-        };
-      }
+    case "list_labels": {
+      const args = ListLabelsSchema.parse(request.params.arguments);
+      const { project_id, ...options } = args;
+      const labels = await listLabels(project_id, options);
+      return {
+        content: [{ type: "text", text: JSON.stringify(labels, null, 2) }],
+      };
+    }
 
-      case "update_merge_request": {
-        const args = UpdateMergeRequestSchema.parse(request.params.arguments);
-        const { project_id, merge_request_iid, ...options } = args;
-        const mergeRequest = await updateMergeRequest(
-          project_id,
-          merge_request_iid,
-          options
-        );
-        return {
-          content: [
-            { type: "text", text: JSON.stringify(mergeRequest, null, 2) },
-          ],
-        };
-      }
+    case "get_label": {
+      const args = GetLabelSchema.parse(request.params.arguments);
+      const label = await getLabel(args.project_id, args.label_id, args.include_ancestor_groups);
+      return {
+        content: [{ type: "text", text: JSON.stringify(label, null, 2) }],
+      };
+    }
 
-      case "list_namespaces": {
-        const args = ListNamespacesSchema.parse(request.params.arguments);
-        const url = new URL(`${GITLAB_API_URL}/namespaces`);
+    case "create_label": {
+      const args = CreateLabelSchema.parse(request.params.arguments);
+      const label = await createLabel(args.project_id, args);
+      return {
+        content: [{ type: "text", text: JSON.stringify(label, null, 2) }],
+      };
+    }
 
-        if (args.search) {
-          url.searchParams.append("search", args.search);
-        }
-        if (args.page) {
-          url.searchParams.append("page", args.page.toString());
-        }
-        if (args.per_page) {
-          url.searchParams.append("per_page", args.per_page.toString());
-        }
-        if (args.owned) {
-          url.searchParams.append("owned", args.owned.toString());
-        }
+    case "update_label": {
+      const args = UpdateLabelSchema.parse(request.params.arguments);
+      const { project_id, label_id, ...options } = args;
+      const label = await updateLabel(project_id, label_id, options);
+      return {
+        content: [{ type: "text", text: JSON.stringify(label, null, 2) }],
+      };
+    }
 
-        const response = await fetch(url.toString(), {
-          headers: DEFAULT_HEADERS,
-        });
+    case "delete_label": {
+      const args = DeleteLabelSchema.parse(request.params.arguments);
+      await deleteLabel(args.project_id, args.label_id);
+      return {
+        content: [{ type: "text", text: JSON.stringify({ status: "success", message: "Label deleted successfully" }, null, 2) }],
+      };
+    }
 
-        await handleGitLabError(response);
-        const data = await response.json();
-        const namespaces = z.array(GitLabNamespaceSchema).parse(data);
+    case "list_group_labels": {
+      const args = ListGroupLabelsSchema.parse(request.params.arguments);
+      const { group_id, ...options } = args;
+      const labels = await listGroupLabels(group_id, options);
+      return {
+        content: [{ type: "text", text: JSON.stringify(labels, null, 2) }],
+      };
+    }
 
-        return {
-          content: [{ type: "text", text: JSON.stringify(namespaces, null, 2) }],
-        };
-      }
+    case "get_group_label": {
+      const args = GetGroupLabelSchema.parse(request.params.arguments);
+      const { group_id, label_id, ...options } = args;
+      const label = await getGroupLabel(group_id, label_id, options);
+      return {
+        content: [{ type: "text", text: JSON.stringify(label, null, 2) }],
+      };
+    }
 
-      case "get_namespace": {
-        const args = GetNamespaceSchema.parse(request.params.arguments);
-        const url = new URL(`${GITLAB_API_URL}/namespaces/${encodeURIComponent(args.namespace_id)}`);
+    case "create_group_label": {
+      const args = CreateGroupLabelSchema.parse(request.params.arguments);
+      const { group_id, ...options } = args;
+      const label = await createGroupLabel(group_id, options);
+      return {
+        content: [{ type: "text", text: JSON.stringify(label, null, 2) }],
+      };
+    }
 
-        const response = await fetch(url.toString(), {
-          headers: DEFAULT_HEADERS,
-        });
+    case "update_group_label": {
+      const args = UpdateGroupLabelSchema.parse(request.params.arguments);
+      const { group_id, label_id, ...options } = args;
+      const label = await updateGroupLabel(group_id, label_id, options);
+      return {
+        content: [{ type: "text", text: JSON.stringify(label, null, 2) }],
+      };
+    }
 
-        await handleGitLabError(response);
-        const data = await response.json();
-        const namespace = GitLabNamespaceSchema.parse(data);
+    case "delete_group_label": {
+      const args = DeleteGroupLabelSchema.parse(request.params.arguments);
+      await deleteGroupLabel(args.group_id, args.label_id);
+      return {
+        content: [{ type: "text", text: JSON.stringify({ status: "success", message: "Label deleted successfully" }, null, 2) }],
+      };
+    }
 
-        return {
-          content: [{ type: "text", text: JSON.stringify(namespace, null, 2) }],
-        };
-      }
+    case "list_pipelines": {
+      const args = ListPipelinesSchema.parse(request.params.arguments);
+      const { project_id, ...options } = args;
+      const pipelines = await listPipelines(project_id, options);
+      return {
+        content: [{ type: "text", text: JSON.stringify(pipelines, null, 2) }],
+      };
+    }
 
-      case "verify_namespace": {
-        const args = VerifyNamespaceSchema.parse(request.params.arguments);
-        const url = new URL(`${GITLAB_API_URL}/namespaces/${encodeURIComponent(args.path)}/exists`);
+    case "get_pipeline": {
+      const args = GetPipelineSchema.parse(request.params.arguments);
+      const pipeline = await getPipeline(args.project_id, args.pipeline_id);
+      return {
+        content: [{ type: "text", text: JSON.stringify(pipeline, null, 2) }],
+      };
+    }
 
-        const response = await fetch(url.toString(), {
-          headers: DEFAULT_HEADERS,
-        });
+    case "list_pipeline_jobs": {
+      const args = ListPipelineJobsSchema.parse(request.params.arguments);
+      const { project_id, pipeline_id, ...options } = args;
+      const jobs = await listPipelineJobs(project_id, pipeline_id, options);
+      return {
+        content: [{ type: "text", text: JSON.stringify(jobs, null, 2) }],
+      };
+    }
 
-        await handleGitLabError(response);
-        const data = await response.json();
-        const namespaceExists = GitLabNamespaceExistsResponseSchema.parse(data);
+    case "get_job_log": {
+      const args = GetJobLogSchema.parse(request.params.arguments);
+      const { project_id, job_id, ...options } = args;
+      const log = await getJobLog(project_id, job_id, options);
+      return {
+        content: [{ type: "text", text: JSON.stringify(log, null, 2) }],
+      };
+    }
 
-        return {
-          content: [{ type: "text", text: JSON.stringify(namespaceExists, null, 2) }],
-        };
-      }
+    case "retry_pipeline": {
+      const args = RetryPipelineSchema.parse(request.params.arguments);
+      const pipeline = await retryPipeline(args.project_id, args.pipeline_id);
+      return {
+        content: [{ type: "text", text: JSON.stringify(pipeline, null, 2) }],
+      };
+    }
 
-      case "get_project": {
-        const args = GetProjectSchema.parse(request.params.arguments);
-        const url = new URL(`${GITLAB_API_URL}/projects/${encodeURIComponent(args.project_id)}`);
+    case "cancel_pipeline": {
+      const args = CancelPipelineSchema.parse(request.params.arguments);
+      const pipeline = await cancelPipeline(args.project_id, args.pipeline_id);
+      return {
+        content: [{ type: "text", text: JSON.stringify(pipeline, null, 2) }],
+      };
+    }
 
-        const response = await fetch(url.toString(), {
-          headers: DEFAULT_HEADERS,
-        });
+    case "create_pipeline": {
+      const args = CreatePipelineSchema.parse(request.params.arguments);
+      const { project_id, ...options } = args;
+      const pipeline = await createPipeline(project_id, options);
+      return {
+        content: [{ type: "text", text: JSON.stringify(pipeline, null, 2) }],
+      };
+    }
 
-        await handleGitLabError(response);
-        const data = await response.json();
-        const project = GitLabProjectSchema.parse(data);
+    default:
+      throw new Error(`Unknown tool: ${request.params.name}`);
+  }
+}
 
-        return {
-          content: [{ type: "text", text: JSON.stringify(project, null, 2) }],
-        };
-      }
+/**
+ * Projects whose files, open issues and open merge requests are listed as
+ * resources (comma-separated IDs or paths)
+ */
+const GITLAB_RESOURCE_PROJECTS = (process.env.GITLAB_RESOURCE_PROJECTS ?? "")
+  .split(",")
+  .map((project) => project.trim())
+  .filter(Boolean);
 
-      case "list_projects": {
-        const args = ListProjectsSchema.parse(request.params.arguments);
-        const projects = await listProjects(args);
+/**
+ * How often subscribed resources are checked for changes
+ */
+const RESOURCE_POLL_INTERVAL_MS = Number(
+  process.env.GITLAB_RESOURCE_POLL_INTERVAL_MS ?? 60000
+);
 
-        return {
-          content: [{ type: "text", text: JSON.stringify(projects, null, 2) }],
-        };
-      }
+/**
+ * Most files listed per project; the rest stay reachable through the file template
+ */
+const MAX_LISTED_FILES = 1000;
 
-      case "create_note": {
-        const args = CreateNoteSchema.parse(request.params.arguments);
-        const { project_id, noteable_type, noteable_iid, body } = args;
+/**
+ * Tool whose policy applies to reading each kind of resource
+ */
+const RESOURCE_TOOLS: Record<ResourceRef["type"], string> = {
+  file: "get_file_contents",
+  issue: "get_issue",
+  merge_request: "get_merge_request",
+};
 
-        const note = await createNote(
-          project_id,
-          noteable_type,
-          noteable_iid,
-          body
-        );
-        return {
-          content: [{ type: "text", text: JSON.stringify(note, null, 2) }],
-        };
+/**
+ * List the resources of one configured project per page
+ * 리소스 목록 조회 (List resources)
+ *
+ * @param {string} [cursor] - Index of the project to list, from the previous page
+ * @returns {Promise<ListResourcesResult>} The project's files, open issues and open merge requests
+ */
+async function listResources(cursor?: string): Promise<ListResourcesResult> {
+  const index = cursor ? Number(cursor) : 0;
+  const project = GITLAB_RESOURCE_PROJECTS[index];
+  if (project === undefined) {
+    return { resources: [] };
+  }
+  const nextCursor =
+    index + 1 < GITLAB_RESOURCE_PROJECTS.length ? String(index + 1) : undefined;
+
+  const resources: Resource[] = [];
+  const readable = async (type: ResourceRef["type"]) =>
+    enforceToolPolicy(RESOURCE_TOOLS[type], { project_id: project }).then(
+      () => true,
+      (error) => {
+        if (error instanceof PolicyViolationError) {
+          return false;
+        }
+        throw error;
       }
+    );
 
-      case "list_issues": {
-        const args = ListIssuesSchema.parse(request.params.arguments);
-        const { project_id, ...options } = args;
-        const issues = await listIssues(project_id, options);
-        return {
-          content: [{ type: "text", text: JSON.stringify(issues, null, 2) }],
-        };
-      }
+  if (await readable("file")) {
+    const ref = await getDefaultBranchRef(project);
+    const { entries } = await getRepositoryTree(project, {
+      ref,
+      recursive: true,
+      max_entries: MAX_LISTED_FILES,
+    });
+    for (const entry of entries.filter((entry) => entry.type === "blob")) {
+      resources.push({
+        uri: resourceUri({ type: "file", project, ref, path: entry.path }),
+        name: entry.path,
+      });
+    }
+  }
 
-      case "get_issue": {
-        const args = GetIssueSchema.parse(request.params.arguments);
-        const issue = await getIssue(args.project_id, args.issue_iid);
-        return {
-          content: [{ type: "text", text: JSON.stringify(issue, null, 2) }],
-        };
-      }
+  if (await readable("issue")) {
+    const issues = await listIssues(project, { state: "opened", per_page: 100 });
+    for (const issue of issues.items) {
+      resources.push({
+        uri: resourceUri({ type: "issue", project, iid: issue.iid }),
+        name: `#${issue.iid} ${issue.title}`,
+        mimeType: "application/json",
+      });
+    }
+  }
 
-      case "update_issue": {
-        const args = UpdateIssueSchema.parse(request.params.arguments);
-        const { project_id, issue_iid, ...options } = args;
-        const issue = await updateIssue(project_id, issue_iid, options);
-        return {
-          content: [{ type: "text", text: JSON.stringify(issue, null, 2) }],
-        };
-      }
+  if (await readable("merge_request")) {
+    const url = new URL(
+      `${gitlabApiUrl()}/projects/${encodeURIComponent(project)}/merge_requests`
+    );
+    url.searchParams.append("state", "opened");
+    const mergeRequests = await paginate(url, GitLabMergeRequestSchema, { per_page: 100 });
+    for (const mergeRequest of mergeRequests.items) {
+      resources.push({
+        uri: resourceUri({ type: "merge_request", project, iid: mergeRequest.iid }),
+        name: `!${mergeRequest.iid} ${mergeRequest.title}`,
+        mimeType: "application/json",
+      });
+    }
+  }
 
-      case "delete_issue": {
-        const args = DeleteIssueSchema.parse(request.params.arguments);
-        await deleteIssue(args.project_id, args.issue_iid);
-        return {
-          content: [{ type: "text", text: JSON.stringify({ status: "success", message: "Issue deleted successfully" }, null, 2) }],
-        };
-      }
+  return { resources, nextCursor };
+}
 
-      case "list_issue_links": {
-        const args = ListIssueLinksSchema.parse(request.params.arguments);
-        const links = await listIssueLinks(args.project_id, args.issue_iid);
-        return {
-          content: [{ type: "text", text: JSON.stringify(links, null, 2) }],
-        };
+/**
+ * Read a resource
+ * 리소스 읽기 (Read a resource)
+ *
+ * Text files are returned as text, binary files as base64 blobs, and issues
+ * and merge requests as JSON.
+ *
+ * @param {string} uri - Resource URI
+ * @returns {Promise<ReadResourceResult>} The resource contents
+ * @throws {PolicyViolationError} If the policy does not allow the equivalent tool call
+ */
+async function readResource(uri: string): Promise<ReadResourceResult> {
+  const resource = parseResourceUri(uri);
+  await enforceToolPolicy(RESOURCE_TOOLS[resource.type], { project_id: resource.project });
+
+  switch (resource.type) {
+    case "file": {
+      const file = await getFileContents(resource.project, resource.path, resource.ref);
+      if (Array.isArray(file)) {
+        throw new Error(`${resource.path} is a directory, not a file`);
       }
-
-      case "get_issue_link": {
-        const args = GetIssueLinkSchema.parse(request.params.arguments);
-        const link = await getIssueLink(args.project_id, args.issue_iid, args.issue_link_id);
-        return {
-          content: [{ type: "text", text: JSON.stringify(link, null, 2) }],
-        };
+      if (file.content_omitted) {
+        throw new Error(
+          `${resource.path} is ${file.size} bytes, too large to read as a resource (use get_file_contents with max_bytes)`
+        );
       }
+      return {
+        contents: [
+          file.binary
+            ? { uri, mimeType: file.mime_type ?? "application/octet-stream", blob: file.content }
+            : { uri, mimeType: "text/plain", text: file.content },
+        ],
+      };
+    }
+    case "issue": {
+      const issue = await getIssue(resource.project, resource.iid);
+      return {
+        contents: [{ uri, mimeType: "application/json", text: JSON.stringify(issue, null, 2) }],
+      };
+    }
+    case "merge_request": {
+      const mergeRequest = await getMergeRequest(resource.project, resource.iid);
+      return {
+        contents: [
+          { uri, mimeType: "application/json", text: JSON.stringify(mergeRequest, null, 2) },
+        ],
+      };
+    }
+  }
+}
 
-      case "create_issue_link": {
-        const args = CreateIssueLinkSchema.parse(request.params.arguments);
-        const link = await createIssueLink(args.project_id, args.issue_iid, args.target_project_id, args.target_issue_iid, args.link_type);
-        return {
-          content: [{ type: "text", text: JSON.stringify(link, null, 2) }],
-        };
-      }
+/**
+ * Get a value that changes whenever a resource changes
+ *
+ * @param {string} uri - Resource URI
+ * @returns {Promise<string>} Blob ID of a file ("missing" if it was deleted), or `updated_at` of an issue or merge request
+ */
+async function resourceVersion(uri: string): Promise<string> {
+  const resource = parseResourceUri(uri);
+  switch (resource.type) {
+    case "file": {
+      const metadata = await getFileMetadata(resource.project, resource.path, resource.ref);
+      return metadata?.blob_id ?? "missing";
+    }
+    case "issue":
+      return (await getIssue(resource.project, resource.iid)).updated_at;
+    case "merge_request":
+      return (await getMergeRequest(resource.project, resource.iid)).updated_at;
+  }
+}
 
-      case "delete_issue_link": {
-        const args = DeleteIssueLinkSchema.parse(request.params.arguments);
-        await deleteIssueLink(args.project_id, args.issue_iid, args.issue_link_id);
-        return {
-          content: [{ type: "text", text: JSON.stringify({ status: "success", message: "Issue link deleted successfully" }, null, 2) }],
-        };
-      }
+/**
+ * Tools whose policy applies to each prompt, since a prompt reads the same
+ * data the tools would
+ */
+const PROMPT_TOOLS: Record<string, string[]> = {
+  review_merge_request: ["get_merge_request", "get_merge_request_diffs"],
+  triage_issues: ["list_issues"],
+  // No tool compares refs; reading commits is governed like reading the repository
+  release_notes: ["get_repository_tree"],
+  summarize_pipeline_failure: ["get_pipeline", "list_pipeline_jobs", "get_job_log"],
+};
 
-      case "list_labels": {
-        const args = ListLabelsSchema.parse(request.params.arguments);
-        const labels = await listLabels(args.project_id, args);
-        return {
-          content: [{ type: "text", text: JSON.stringify(labels, null, 2) }],
-        };
-      }
+/**
+ * Most failed jobs whose logs are embedded in a pipeline failure prompt
+ */
+const MAX_PROMPT_JOB_LOGS = 5;
 
-      case "get_label": {
-        const args = GetLabelSchema.parse(request.params.arguments);
-        const label = await getLabel(args.project_id, args.label_id, args.include_ancestor_groups);
-        return {
-          content: [{ type: "text", text: JSON.stringify(label, null, 2) }],
-        };
-      }
+/**
+ * List the prompts the tool policy allows
+ * 프롬프트 목록 (List prompts)
+ *
+ * @returns {Prompt[]} Prompts whose tools are all listed
+ */
+function listPrompts(): Prompt[] {
+  return PROMPTS.filter((prompt) =>
+    PROMPT_TOOLS[prompt.name].every((tool) => toolPolicy.isToolListed(tool))
+  );
+}
 
-      case "create_label": {
-        const args = CreateLabelSchema.parse(request.params.arguments);
-        const label = await createLabel(args.project_id, args);
-        return {
-          content: [{ type: "text", text: JSON.stringify(label, null, 2) }],
-        };
-      }
+/**
+ * Fetch the data of a prompt and fill in its template
+ * 프롬프트 생성 (Get a prompt)
+ *
+ * @param {string} name - Prompt name
+ * @param {Record<string, string>} [args] - Prompt arguments
+ * @returns {Promise<GetPromptResult>} The prompt with the GitLab data embedded
+ * @throws {PolicyViolationError} If the policy does not allow the tools the prompt relies on
+ */
+async function getPrompt(
+  name: string,
+  args: Record<string, string> = {}
+): Promise<GetPromptResult> {
+  const tools = PROMPT_TOOLS[name];
+  if (!tools) {
+    throw new Error(`Unknown prompt: ${name}`);
+  }
+  const projectId = requiredArgument(args, "project_id");
+  for (const tool of tools) {
+    await enforceToolPolicy(tool, { project_id: projectId });
+  }
 
-      case "update_label": {
-        const args = UpdateLabelSchema.parse(request.params.arguments);
-        const { project_id, label_id, ...options } = args;
-        const label = await updateLabel(project_id, label_id, options);
-        return {
-          content: [{ type: "text", text: JSON.stringify(label, null, 2) }],
-        };
-      }
+  switch (name) {
+    case "review_merge_request": {
+      const iid = numericArgument(args, "merge_request_iid");
+      const [mergeRequest, diffs] = await Promise.all([
+        getMergeRequest(projectId, iid),
+        getMergeRequestDiffs(projectId, iid),
+      ]);
+      return reviewMergeRequestPrompt(mergeRequest, diffs, args.focus?.trim() || undefined);
+    }
 
-      case "delete_label": {
-        const args = DeleteLabelSchema.parse(request.params.arguments);
-        await deleteLabel(args.project_id, args.label_id);
-        return {
-          content: [{ type: "text", text: JSON.stringify({ status: "success", message: "Label deleted successfully" }, null, 2) }],
-        };
+    case "triage_issues": {
+      const labels = (args.labels ?? "")
+        .split(",")
+        .map((label) => label.trim())
+        .filter(Boolean);
+      const url = new URL(
+        `${gitlabApiUrl()}/projects/${encodeURIComponent(projectId)}/issues`
+      );
+      url.searchParams.append("state", "opened");
+      if (labels.length > 0) {
+        url.searchParams.append("labels", labels.join(","));
       }
+      const issues = await paginate(url, GitLabIssueSchema, { per_page: 100 });
+      return triageIssuesPrompt(projectId, issues.items, issues.truncated);
+    }
 
-      default:
-        throw new Error(`Unknown tool: ${request.params.name}`);
+    case "release_notes": {
+      const from = requiredArgument(args, "from");
+      const to = requiredArgument(args, "to");
+      const { commits } = await compareRefs(projectId, from, to);
+      return releaseNotesPrompt(projectId, from, to, commits);
     }
-  } catch (error) {
-    if (error instanceof z.ZodError) {
-      throw new Error(
-        `Invalid arguments: ${error.errors
-          .map((e) => `${e.path.join(".")}: ${e.message}`)
-          .join(", ")}`
+
+    case "summarize_pipeline_failure": {
+      const pipelineId = numericArgument(args, "pipeline_id");
+      const [pipeline, jobs] = await Promise.all([
+        getPipeline(projectId, pipelineId),
+        listPipelineJobs(projectId, pipelineId, { scope: ["failed"], per_page: 100 }),
+      ]);
+      const failedJobs = await Promise.all(
+        jobs.items.slice(0, MAX_PROMPT_JOB_LOGS).map(async (job) => ({
+          job,
+          log: await getJobLog(projectId, job.id, { tail_lines: 100 }),
+        }))
       );
+      return pipelineFailurePrompt(pipeline, failedJobs);
     }
-    throw error;
+
+    default:
+      throw new Error(`Unknown prompt: ${name}`);
   }
-});
+}
+
+/**
+ * Create an MCP server whose tools call GitLab with the given clients
+ * MCP 서버 생성 (Create an MCP server)
+ *
+ * Tool calls use the client of the instance they name; resources and
+ * prompts use the default instance.
+ *
+ * @param {Map<string, GitLabClient>} clients - Clients used for the calls of the session, by instance name
+ * @returns {Server} The server, ready to be connected to a transport
+ */
+function createServer(clients: Map<string, GitLabClient>): Server {
+  const server = new Server(
+    {
+      name: "better-gitlab-mcp-server",
+      version: SERVER_VERSION,
+    },
+    {
+      capabilities: {
+        tools: {},
+        resources: { subscribe: true },
+        prompts: {},
+      },
+    }
+  );
+
+  server.setRequestHandler(ListToolsRequestSchema, () => listTools(clients));
+  server.setRequestHandler(CallToolRequestSchema, (request) =>
+    auditedCallTool(request, clients, server.getClientVersion())
+  );
+
+  const withDefaultClient = <T>(fn: () => Promise<T>) =>
+    runWithGitLabClient(selectGitLabClient(clients), fn);
+
+  const subscriptions = new ResourceSubscriptions(
+    (uri) => withDefaultClient(() => resourceVersion(uri)),
+    (uri) => server.sendResourceUpdated({ uri }),
+    RESOURCE_POLL_INTERVAL_MS
+  );
+  server.onclose = () => subscriptions.close();
+
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => ({
+    resourceTemplates: RESOURCE_TEMPLATES,
+  }));
+  server.setRequestHandler(ListResourcesRequestSchema, (request) =>
+    withDefaultClient(() => listResources(request.params?.cursor))
+  );
+  server.setRequestHandler(ReadResourceRequestSchema, (request) =>
+    withDefaultClient(() => readResource(request.params.uri))
+  );
+  server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    const resource = parseResourceUri(request.params.uri);
+    await withDefaultClient(() =>
+      enforceToolPolicy(RESOURCE_TOOLS[resource.type], { project_id: resource.project })
+    );
+    await subscriptions.subscribe(request.params.uri);
+    return {};
+  });
+  server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    subscriptions.unsubscribe(request.params.uri);
+    return {};
+  });
+
+  server.setRequestHandler(ListPromptsRequestSchema, async () => ({
+    prompts: listPrompts(),
+  }));
+  server.setRequestHandler(GetPromptRequestSchema, (request) =>
+    withDefaultClient(() =>
+      getPrompt(request.params.name, request.params.arguments)
+    )
+  );
+  return server;
+}
 
 /**
  * Initialize and run the server
@@ -1961,19 +5235,86 @@ async function runServer() {
   try {
     console.error("========================");
     console.error(`GitLab MCP Server v${SERVER_VERSION}`);
-    console.error(`API URL: ${GITLAB_API_URL}`);
+    console.error(`API URL: ${DEFAULT_INSTANCE.apiUrl}`);
     console.error("========================");
 
-    const transport = new StdioServerTransport();
-    await server.connect(transport);
-    console.error("GitLab MCP Server running on stdio");
+    if (MCP_TRANSPORT === "stdio") {
+      const transport = new StdioServerTransport();
+      const clients = createGitLabClients();
+      await createServer(clients).connect(transport);
+      console.error("GitLab MCP Server running on stdio");
+      void checkTokens(clients);
+      return;
+    }
+
+    const host = getCliOption("host") ?? process.env.MCP_HTTP_HOST ?? "127.0.0.1";
+    const port = Number(getCliOption("port") ?? process.env.MCP_HTTP_PORT ?? 3000);
+    await startHttpServer({
+      host,
+      port,
+      createServer: (token, instanceTokens) =>
+        createServer(createGitLabClients({ ...instanceTokens, [DEFAULT_INSTANCE.name]: token })),
+      // Lending the server's token to anonymous clients must be asked for
+      defaultToken: /^(true|1|yes)$/i.test(process.env.MCP_HTTP_ALLOW_DEFAULT_TOKEN ?? "")
+        ? DEFAULT_INSTANCE.token
+        : undefined,
+      allowedOrigins: (process.env.MCP_HTTP_ALLOWED_ORIGINS ?? "")
+        .split(",")
+        .map((origin) => origin.trim())
+        .filter(Boolean),
+      readinessUrl: `${DEFAULT_INSTANCE.apiUrl}/version`,
+      readinessAgent: DEFAULT_INSTANCE.agent,
+      sessionIdleTimeoutMs: process.env.MCP_SESSION_IDLE_TIMEOUT_MS
+        ? Number(process.env.MCP_SESSION_IDLE_TIMEOUT_MS)
+        : undefined,
+    });
+    console.error(`GitLab MCP Server listening on http://${host}:${port} (streamable HTTP at /mcp, SSE at /sse)`);
+    // Tokens HTTP clients bring along are only inspected once they list tools
+    void checkTokens(createGitLabClients());
   } catch (error) {
     console.error("Error initializing server:", error);
     process.exit(1);
   }
 }
 
-runServer().catch((error) => {
-  console.error("Fatal error in main():", error);
-  process.exit(1);
-});
+/**
+ * Log in to an instance that authenticates with OAuth and store the token
+ * OAuth 로그인 (Log in with OAuth)
+ *
+ * Run as `mcp-gitlab login [--instance name]`.
+ */
+async function login() {
+  const name = getCliOption("instance") ?? gitlabInstances.defaultInstance;
+  const instance = gitlabInstances.instances.get(name);
+  if (!instance) {
+    console.error(`Unknown GitLab instance: ${name}`);
+    process.exit(1);
+  }
+  if (!(instance.credentials instanceof OAuthCredentials)) {
+    console.error(`GitLab instance ${name} is not configured for OAuth`);
+    process.exit(1);
+  }
+  await instance.credentials.login();
+  console.error(`Logged in to GitLab instance ${name}`);
+}
+
+/**
+ * Whether this module is the script node was started with, directly or
+ * through the npx bin symlink; the test suite imports it instead
+ */
+function isEntryPoint(): boolean {
+  const script = process.argv[1] ? resolve(process.argv[1]) : "";
+  return [script, `${script}.js`].some(
+    (candidate) => fs.existsSync(candidate) && fs.realpathSync(candidate) === __filename
+  );
+}
+
+if (isEntryPoint()) {
+  const main = process.argv[2] === "login" ? login : runServer;
+  main().catch((error) => {
+    console.error("Fatal error in main():", error);
+    process.exit(1);
+  });
+}
+
+export { createServer, createGitLabClients };
@@ -0,0 +1,238 @@
+import fs from "fs";
+import https from "https";
+import tls from "tls";
+import {
+  CommandCredentials,
+  JobTokenCredentials,
+  TokenCredentials,
+  type Credentials,
+} from "./credentials.js";
+import { OAuthCredentials, createTokenStore, type TokenStore } from "./oauth.js";
+import {
+  GitLabInstanceConfigSchema,
+  GitLabInstancesConfigSchema,
+  type GitLabInstanceConfig,
+} from "./schemas.js";
+
+/**
+ * Name of the instance configured by GITLAB_API_URL and
+ * GITLAB_PERSONAL_ACCESS_TOKEN
+ */
+export const DEFAULT_INSTANCE_NAME = "default";
+
+/**
+ * Instance-specific settings read from GITLAB_INSTANCE_<NAME>_<SETTING>
+ */
+const INSTANCE_ENV_PATTERN =
+  /^GITLAB_INSTANCE_(.+?)_(API_URL|TOKEN|JOB_TOKEN|CREDENTIAL_COMMAND|OAUTH_CLIENT_ID|OAUTH_CLIENT_SECRET|OAUTH_FLOW|CA_FILE|TLS_VERIFY)$/;
+
+/**
+ * A GitLab server the MCP server can talk to
+ */
+export interface GitLabInstance {
+  name: string;
+  apiUrl: string;
+  credentials?: Credentials; // Missing if nothing is configured to authenticate with
+  token?: string; // Static access token, if that is how the instance authenticates
+  agent?: https.Agent; // Set when the instance has its own TLS settings
+}
+
+/**
+ * Every configured instance and the one used by default
+ */
+export interface GitLabInstances {
+  instances: Map<string, GitLabInstance>;
+  defaultInstance: string;
+}
+
+/**
+ * Smart URL handling for GitLab API
+ *
+ * @param {string | undefined} url - Input GitLab API URL
+ * @returns {string} Normalized GitLab API URL with /api/v4 path
+ */
+export function normalizeGitLabApiUrl(url?: string): string {
+  if (!url) {
+    return "https://gitlab.com/api/v4";
+  }
+
+  // Remove trailing slash if present
+  let normalizedUrl = url.endsWith('/') ? url.slice(0, -1) : url;
+
+  // Check if URL already has /api/v4
+  if (!normalizedUrl.endsWith('/api/v4') && !normalizedUrl.endsWith('/api/v4/')) {
+    // Append /api/v4 if not already present
+    normalizedUrl = `${normalizedUrl}/api/v4`;
+  }
+
+  return normalizedUrl;
+}
+
+/**
+ * Parse a boolean environment variable
+ *
+ * @param {string} value - Variable value
+ * @returns {boolean} True for "true", "1" or "yes"
+ */
+function isEnabled(value: string): boolean {
+  return ["true", "1", "yes"].includes(value.toLowerCase());
+}
+
+/**
+ * Build an instance from its configuration, loading its CA file
+ *
+ * @param {string} name - Instance name
+ * @param {GitLabInstanceConfig} config - Instance configuration
+ * @param {() => TokenStore} tokenStore - Returns the store for OAuth tokens
+ * @returns {GitLabInstance} The instance
+ */
+function createInstance(
+  name: string,
+  config: GitLabInstanceConfig,
+  tokenStore: () => TokenStore
+): GitLabInstance {
+  const agent =
+    config.ca_file || !config.tls_verify
+      ? new https.Agent({
+          // Setting `ca` replaces Node's bundled CAs, so keep them alongside
+          ca: config.ca_file
+            ? [...tls.rootCertificates, fs.readFileSync(config.ca_file, "utf8")]
+            : undefined,
+          rejectUnauthorized: config.tls_verify,
+          keepAlive: true,
+        })
+      : undefined;
+
+  const apiUrl = normalizeGitLabApiUrl(config.api_url);
+  let credentials: Credentials | undefined;
+  if (config.token) {
+    credentials = new TokenCredentials(config.token);
+  } else if (config.credential_command) {
+    credentials = new CommandCredentials(config.credential_command, apiUrl);
+  } else if (config.oauth) {
+    credentials = new OAuthCredentials(
+      name,
+      apiUrl,
+      {
+        clientId: config.oauth.client_id,
+        clientSecret: config.oauth.client_secret,
+        flow: config.oauth.flow,
+        scopes: config.oauth.scopes,
+        redirectPort: config.oauth.redirect_port,
+      },
+      tokenStore(),
+      agent
+    );
+  } else if (config.job_token) {
+    credentials = new JobTokenCredentials(config.job_token);
+  }
+
+  return { name, apiUrl, credentials, token: config.token, agent };
+}
+
+/**
+ * Load the GitLab instances from GITLAB_INSTANCES_FILE and the environment
+ *
+ * The file holds a GitLabInstancesConfig. GITLAB_INSTANCE_<NAME>_<SETTING>
+ * variables (API_URL, TOKEN, JOB_TOKEN, CREDENTIAL_COMMAND, OAUTH_CLIENT_ID,
+ * OAUTH_CLIENT_SECRET, OAUTH_FLOW, CA_FILE, TLS_VERIFY) add instances or
+ * override settings from the file. GITLAB_API_URL,
+ * GITLAB_PERSONAL_ACCESS_TOKEN, GITLAB_CREDENTIAL_COMMAND, GITLAB_OAUTH_*,
+ * CI_JOB_TOKEN, GITLAB_CA_FILE and GITLAB_TLS_VERIFY configure the instance
+ * named "default", which also exists (pointing at gitlab.com) when nothing
+ * else is configured.
+ * GITLAB_DEFAULT_INSTANCE picks the instance used by calls that do not name one.
+ *
+ * @param {NodeJS.ProcessEnv} [env] - Environment to read from
+ * @returns {GitLabInstances} The configured instances
+ * @throws {Error} If the file cannot be read or an instance is incomplete
+ */
+export function loadInstances(env: NodeJS.ProcessEnv = process.env): GitLabInstances {
+  const file = GitLabInstancesConfigSchema.parse(
+    env.GITLAB_INSTANCES_FILE
+      ? JSON.parse(fs.readFileSync(env.GITLAB_INSTANCES_FILE, "utf8"))
+      : {}
+  );
+  const configs: Record<string, Record<string, unknown>> = { ...file.instances };
+
+  const override = (name: string, settings: Record<string, unknown>) => {
+    const defined = Object.entries(settings).filter(([, value]) => value !== undefined);
+    if (defined.length > 0) {
+      configs[name] = { ...configs[name], ...Object.fromEntries(defined) };
+    }
+  };
+
+  // OAuth settings are nested in the configuration
+  const overrideOAuth = (name: string, settings: Record<string, unknown>) => {
+    const defined = Object.entries(settings).filter(([, value]) => value !== undefined);
+    if (defined.length > 0) {
+      override(name, {
+        oauth: { ...(configs[name]?.oauth as object | undefined), ...Object.fromEntries(defined) },
+      });
+    }
+  };
+
+  for (const [key, value] of Object.entries(env)) {
+    const match = key.match(INSTANCE_ENV_PATTERN);
+    if (match && value) {
+      const name = match[1].toLowerCase();
+      const setting = match[2].toLowerCase();
+      if (setting.startsWith("oauth_")) {
+        overrideOAuth(name, { [setting.slice("oauth_".length)]: value });
+      } else {
+        override(name, { [setting]: setting === "tls_verify" ? isEnabled(value) : value });
+      }
+    }
+  }
+
+  override(DEFAULT_INSTANCE_NAME, {
+    // Inside a pipeline the job token talks to the instance running the job
+    api_url:
+      env.GITLAB_API_URL ||
+      (env.GITLAB_PERSONAL_ACCESS_TOKEN ? undefined : env.CI_API_V4_URL) ||
+      undefined,
+    token: env.GITLAB_PERSONAL_ACCESS_TOKEN || undefined,
+    credential_command: env.GITLAB_CREDENTIAL_COMMAND || undefined,
+    job_token: env.CI_JOB_TOKEN || undefined,
+    ca_file: env.GITLAB_CA_FILE || undefined,
+    tls_verify: env.GITLAB_TLS_VERIFY ? isEnabled(env.GITLAB_TLS_VERIFY) : undefined,
+  });
+  overrideOAuth(DEFAULT_INSTANCE_NAME, {
+    client_id: env.GITLAB_OAUTH_CLIENT_ID || undefined,
+    client_secret: env.GITLAB_OAUTH_CLIENT_SECRET || undefined,
+    flow: env.GITLAB_OAUTH_FLOW || undefined,
+  });
+  if (Object.keys(configs).length === 0) {
+    configs[DEFAULT_INSTANCE_NAME] = {};
+  }
+  // The default instance falls back to gitlab.com, like GITLAB_API_URL always did
+  if (configs[DEFAULT_INSTANCE_NAME] && configs[DEFAULT_INSTANCE_NAME].api_url === undefined) {
+    configs[DEFAULT_INSTANCE_NAME].api_url = normalizeGitLabApiUrl();
+  }
+
+  let store: TokenStore | undefined;
+  const tokenStore = () => (store ??= createTokenStore(env));
+
+  const instances = new Map<string, GitLabInstance>();
+  for (const [name, config] of Object.entries(configs)) {
+    const parsed = GitLabInstanceConfigSchema.safeParse(config);
+    if (!parsed.success) {
+      throw new Error(
+        `Invalid configuration for GitLab instance ${name}: ${parsed.error.errors
+          .map((e) => `${e.path.join(".")}: ${e.message}`)
+          .join(", ")}`
+      );
+    }
+    instances.set(name, createInstance(name, parsed.data, tokenStore));
+  }
+
+  const defaultInstance =
+    env.GITLAB_DEFAULT_INSTANCE ??
+    file.default ??
+    (instances.has(DEFAULT_INSTANCE_NAME) ? DEFAULT_INSTANCE_NAME : [...instances.keys()][0]);
+  if (!instances.has(defaultInstance)) {
+    throw new Error(`Default GitLab instance ${defaultInstance} is not configured`);
+  }
+
+  return { instances, defaultInstance };
+}
@@ -0,0 +1,447 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes, scryptSync } from "node:crypto";
+import fs from "node:fs";
+import http from "node:http";
+import type { Agent } from "node:https";
+import os from "node:os";
+import path from "node:path";
+import fetch from "node-fetch";
+import { CredentialsError } from "./errors.js";
+import type { Credentials } from "./credentials.js";
+
+/**
+ * Refresh access tokens this long before they expire
+ */
+const REFRESH_MARGIN_MS = 60_000;
+
+/**
+ * How long the authorization code flow waits for the browser redirect
+ */
+const LOGIN_TIMEOUT_MS = 5 * 60_000;
+
+/**
+ * OAuth application settings of an instance
+ */
+export interface OAuthOptions {
+  clientId: string;
+  clientSecret?: string; // Only for confidential applications
+  flow: "device" | "authorization_code";
+  scopes: string;
+  redirectPort: number; // Local port the authorization code flow redirects to
+}
+
+/**
+ * Tokens obtained from GitLab
+ */
+interface OAuthToken {
+  access_token: string;
+  refresh_token?: string;
+  expires_at?: number; // Milliseconds since the epoch
+}
+
+/**
+ * Encrypted file holding the OAuth tokens of every instance
+ *
+ * Tokens are encrypted with AES-256-GCM under a key derived from
+ * GITLAB_OAUTH_STORE_KEY or, if that is not set, from a random key file
+ * created next to the store. Both files are only readable by the owner.
+ *
+ * Decrypted tokens and the derived key are kept in memory, since key
+ * derivation is deliberately slow and blocks. `reload` makes the next read
+ * go back to the file, e.g. after another process logged in again.
+ */
+export class TokenStore {
+  private tokens?: Record<string, OAuthToken>;
+  private derivedKey?: { salt: string; key: Buffer };
+
+  constructor(
+    private readonly file: string,
+    private secret?: string
+  ) {}
+
+  /**
+   * Get the stored token of an instance
+   *
+   * @param {string} instance - Instance name
+   * @returns {OAuthToken | undefined} The token, if the instance is logged in
+   */
+  load(instance: string): OAuthToken | undefined {
+    return this.read()[instance];
+  }
+
+  /**
+   * Store the token of an instance
+   *
+   * @param {string} instance - Instance name
+   * @param {OAuthToken} token - Token to store
+   */
+  save(instance: string, token: OAuthToken): void {
+    // Pick up tokens other processes stored in the meantime
+    this.reload();
+    const tokens = { ...this.read(), [instance]: token };
+    const salt = randomBytes(16);
+    const iv = randomBytes(12);
+    const cipher = createCipheriv("aes-256-gcm", this.key(salt), iv);
+    const data = Buffer.concat([cipher.update(JSON.stringify(tokens), "utf8"), cipher.final()]);
+
+    fs.mkdirSync(path.dirname(this.file), { recursive: true, mode: 0o700 });
+    fs.writeFileSync(
+      this.file,
+      JSON.stringify({
+        salt: salt.toString("base64"),
+        iv: iv.toString("base64"),
+        tag: cipher.getAuthTag().toString("base64"),
+        data: data.toString("base64"),
+      }),
+      { mode: 0o600 }
+    );
+    this.tokens = tokens;
+  }
+
+  /**
+   * Read the file again on the next access
+   */
+  reload(): void {
+    this.tokens = undefined;
+  }
+
+  /**
+   * Decrypt every stored token
+   */
+  private read(): Record<string, OAuthToken> {
+    if (this.tokens) {
+      return this.tokens;
+    }
+    if (!fs.existsSync(this.file)) {
+      return {};
+    }
+    try {
+      const stored = JSON.parse(fs.readFileSync(this.file, "utf8"));
+      const decipher = createDecipheriv(
+        "aes-256-gcm",
+        this.key(Buffer.from(stored.salt, "base64")),
+        Buffer.from(stored.iv, "base64")
+      );
+      decipher.setAuthTag(Buffer.from(stored.tag, "base64"));
+      const data = Buffer.concat([
+        decipher.update(Buffer.from(stored.data, "base64")),
+        decipher.final(),
+      ]);
+      this.tokens = JSON.parse(data.toString("utf8")) as Record<string, OAuthToken>;
+      return this.tokens;
+    } catch (error) {
+      throw new CredentialsError(
+        `Cannot read the OAuth token store ${this.file}; check GITLAB_OAUTH_STORE_KEY or log in again`,
+        { cause: error }
+      );
+    }
+  }
+
+  /**
+   * Derive the encryption key
+   */
+  private key(salt: Buffer): Buffer {
+    if (this.derivedKey?.salt === salt.toString("base64")) {
+      return this.derivedKey.key;
+    }
+    if (!this.secret) {
+      const keyFile = `${this.file}.key`;
+      if (!fs.existsSync(keyFile)) {
+        fs.mkdirSync(path.dirname(keyFile), { recursive: true, mode: 0o700 });
+        fs.writeFileSync(keyFile, randomBytes(32).toString("base64"), { mode: 0o600 });
+      }
+      this.secret = fs.readFileSync(keyFile, "utf8");
+    }
+    const key = scryptSync(this.secret, salt, 32);
+    this.derivedKey = { salt: salt.toString("base64"), key };
+    return key;
+  }
+}
+
+/**
+ * Create the token store configured by GITLAB_OAUTH_TOKEN_FILE and
+ * GITLAB_OAUTH_STORE_KEY
+ *
+ * @param {NodeJS.ProcessEnv} [env] - Environment to read from
+ * @returns {TokenStore} The store, by default in ~/.config/gitlab-mcp
+ */
+export function createTokenStore(env: NodeJS.ProcessEnv = process.env): TokenStore {
+  return new TokenStore(
+    env.GITLAB_OAUTH_TOKEN_FILE ??
+      path.join(os.homedir(), ".config", "gitlab-mcp", "oauth-tokens.json"),
+    env.GITLAB_OAUTH_STORE_KEY
+  );
+}
+
+/**
+ * Encode bytes as unpadded base64url
+ */
+function base64Url(bytes: Buffer): string {
+  return bytes.toString("base64url");
+}
+
+/**
+ * Sleep for the given number of milliseconds
+ */
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * OAuth access token of a user who logged in with the `login` command
+ *
+ * The token is read from the token store and refreshed with its refresh
+ * token shortly before it expires or when GitLab rejects it.
+ */
+export class OAuthCredentials implements Credentials {
+  private refreshing?: Promise<OAuthToken>;
+
+  /**
+   * @param {string} instance - Name of the instance, the key in the token store
+   * @param {string} apiUrl - API URL of the instance
+   * @param {OAuthOptions} options - OAuth application settings
+   * @param {TokenStore} store - Where tokens are kept
+   * @param {Agent} [agent] - TLS settings of the instance
+   */
+  constructor(
+    private readonly instance: string,
+    private readonly apiUrl: string,
+    private readonly options: OAuthOptions,
+    private readonly store: TokenStore,
+    private readonly agent?: Agent
+  ) {}
+
+  async headers(): Promise<Record<string, string>> {
+    let token = this.store.load(this.instance);
+    if (!token) {
+      throw new CredentialsError(
+        `Not logged in to GitLab instance ${this.instance}. Run: npx @zereight/mcp-gitlab login --instance ${this.instance}`
+      );
+    }
+    if (
+      token.refresh_token &&
+      token.expires_at !== undefined &&
+      token.expires_at - REFRESH_MARGIN_MS <= Date.now()
+    ) {
+      token = await this.refreshToken(token);
+    }
+    return { Authorization: `Bearer ${token.access_token}` };
+  }
+
+  async refresh(): Promise<boolean> {
+    const rejected = this.store.load(this.instance);
+    // Another process may have logged in or refreshed since the store was read
+    this.store.reload();
+    const token = this.store.load(this.instance);
+    if (token && token.access_token !== rejected?.access_token) {
+      return true;
+    }
+    if (!token?.refresh_token) {
+      return false;
+    }
+    await this.refreshToken(token);
+    return true;
+  }
+
+  /**
+   * Log in interactively and store the resulting token
+   *
+   * Instructions for the user are written to stderr.
+   */
+  async login(): Promise<void> {
+    const token =
+      this.options.flow === "device" ? await this.deviceFlow() : await this.authorizationCodeFlow();
+    this.store.save(this.instance, token);
+  }
+
+  /**
+   * Web URL of the instance, where the OAuth endpoints live
+   */
+  private get baseUrl(): string {
+    return this.apiUrl.replace(/\/api\/v4$/, "");
+  }
+
+  /**
+   * Redirect URI registered for the authorization code flow
+   */
+  private get redirectUri(): string {
+    return `http://127.0.0.1:${this.options.redirectPort}/callback`;
+  }
+
+  /**
+   * Exchange a refresh token for a new access token, once at a time
+   */
+  private refreshToken(token: OAuthToken): Promise<OAuthToken> {
+    if (!this.refreshing) {
+      this.refreshing = this.requestToken({
+        grant_type: "refresh_token",
+        refresh_token: token.refresh_token!,
+        ...(this.options.flow === "authorization_code" ? { redirect_uri: this.redirectUri } : {}),
+      })
+        .then((refreshed) => {
+          this.store.save(this.instance, refreshed);
+          return refreshed;
+        })
+        .catch((error) => {
+          throw new CredentialsError(
+            `Refreshing the OAuth token of GitLab instance ${this.instance} failed, log in again: ${
+              error instanceof Error ? error.message : String(error)
+            }`,
+            { cause: error }
+          );
+        })
+        .finally(() => {
+          this.refreshing = undefined;
+        });
+    }
+    return this.refreshing;
+  }
+
+  /**
+   * Post a form to an OAuth endpoint
+   */
+  private async post(
+    endpoint: string,
+    params: Record<string, string>
+  ): Promise<{ status: number; body: Record<string, any> }> {
+    const response = await fetch(`${this.baseUrl}${endpoint}`, {
+      method: "POST",
+      headers: { "Content-Type": "application/x-www-form-urlencoded", Accept: "application/json" },
+      body: new URLSearchParams({
+        client_id: this.options.clientId,
+        ...(this.options.clientSecret ? { client_secret: this.options.clientSecret } : {}),
+        ...params,
+      }).toString(),
+      agent: (parsedUrl) => (parsedUrl.protocol === "https:" ? this.agent : undefined),
+    });
+    const body = (await response.json().catch(() => ({}))) as Record<string, any>;
+    return { status: response.status, body };
+  }
+
+  /**
+   * Request a token from /oauth/token
+   */
+  private async requestToken(params: Record<string, string>): Promise<OAuthToken> {
+    const { status, body } = await this.post("/oauth/token", params);
+    if (status !== 200 || !body.access_token) {
+      throw new Error(body.error_description ?? body.error ?? `GitLab returned ${status}`);
+    }
+    return this.toToken(body);
+  }
+
+  /**
+   * Convert a token response to the stored form
+   */
+  private toToken(body: Record<string, any>): OAuthToken {
+    const issuedAt = typeof body.created_at === "number" ? body.created_at * 1000 : Date.now();
+    return {
+      access_token: body.access_token,
+      refresh_token: body.refresh_token,
+      expires_at: typeof body.expires_in === "number" ? issuedAt + body.expires_in * 1000 : undefined,
+    };
+  }
+
+  /**
+   * OAuth 2.0 device authorization grant (RFC 8628)
+   */
+  private async deviceFlow(): Promise<OAuthToken> {
+    const { status, body } = await this.post("/oauth/authorize_device", {
+      scope: this.options.scopes,
+    });
+    if (status !== 200) {
+      throw new CredentialsError(
+        `Device authorization failed: ${body.error_description ?? body.error ?? `GitLab returned ${status}`}`
+      );
+    }
+
+    console.error(`To log in to ${this.baseUrl}, open ${body.verification_uri} and enter the code ${body.user_code}`);
+    if (body.verification_uri_complete) {
+      console.error(`or open ${body.verification_uri_complete}`);
+    }
+
+    let interval = (body.interval ?? 5) * 1000;
+    const deadline = Date.now() + (body.expires_in ?? 300) * 1000;
+    while (Date.now() < deadline) {
+      await sleep(interval);
+      const poll = await this.post("/oauth/token", {
+        grant_type: "urn:ietf:params:oauth:grant-type:device_code",
+        device_code: body.device_code,
+      });
+      if (poll.status === 200 && poll.body.access_token) {
+        return this.toToken(poll.body);
+      }
+      if (poll.body.error === "slow_down") {
+        interval += 5000;
+      } else if (poll.body.error !== "authorization_pending") {
+        throw new CredentialsError(
+          `Device authorization failed: ${poll.body.error_description ?? poll.body.error ?? `GitLab returned ${poll.status}`}`
+        );
+      }
+    }
+    throw new CredentialsError("Device authorization expired before it was approved");
+  }
+
+  /**
+   * OAuth 2.0 authorization code grant with PKCE and a loopback redirect
+   */
+  private async authorizationCodeFlow(): Promise<OAuthToken> {
+    const verifier = base64Url(randomBytes(32));
+    const challenge = base64Url(createHash("sha256").update(verifier).digest());
+    const state = base64Url(randomBytes(16));
+
+    const authorizeUrl = new URL(`${this.baseUrl}/oauth/authorize`);
+    authorizeUrl.search = new URLSearchParams({
+      client_id: this.options.clientId,
+      redirect_uri: this.redirectUri,
+      response_type: "code",
+      scope: this.options.scopes,
+      state,
+      code_challenge: challenge,
+      code_challenge_method: "S256",
+    }).toString();
+
+    const code = await new Promise<string>((resolve, reject) => {
+      const server = http.createServer((req, res) => {
+        const url = new URL(req.url ?? "/", this.redirectUri);
+        if (url.pathname !== "/callback") {
+          res.writeHead(404).end();
+          return;
+        }
+        const error = url.searchParams.get("error");
+        const received = url.searchParams.get("code");
+        const ok = !error && received && url.searchParams.get("state") === state;
+        res
+          .writeHead(ok ? 200 : 400, { "Content-Type": "text/plain; charset=utf-8" })
+          .end(ok ? "Logged in. You can close this window." : "Login failed. Check the terminal.");
+        clearTimeout(timer);
+        server.close();
+        if (ok) {
+          resolve(received);
+        } else {
+          reject(
+            new CredentialsError(
+              `Authorization failed: ${url.searchParams.get("error_description") ?? error ?? "state mismatch"}`
+            )
+          );
+        }
+      });
+      const timer = setTimeout(() => {
+        server.close();
+        reject(new CredentialsError("Timed out waiting for the authorization redirect"));
+      }, LOGIN_TIMEOUT_MS);
+      server.on("error", (error) => {
+        clearTimeout(timer);
+        reject(error);
+      });
+      server.listen(this.options.redirectPort, "127.0.0.1", () => {
+        console.error(`To log in to ${this.baseUrl}, open this URL in a browser:\n${authorizeUrl}`);
+      });
+    });
+
+    return this.requestToken({
+      grant_type: "authorization_code",
+      code,
+      redirect_uri: this.redirectUri,
+      code_verifier: verifier,
+    });
+  }
+}
@@ -0,0 +1,169 @@
+import type { GitLabCurrentUser, GitLabProject } from "./schemas.js";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Names of GitLab's project and group roles by access level
+ */
+const ROLE_NAMES: Record<number, string> = {
+  5: "Minimal Access",
+  10: "Guest",
+  15: "Planner",
+  20: "Reporter",
+  30: "Developer",
+  40: "Maintainer",
+  50: "Owner",
+};
+
+/**
+ * Least role a mutating tool needs in the project it changes
+ *
+ * Tools missing here need no particular role (creating a project) or one
+ * that depends on the project's visibility and settings (forking).
+ * Authors can also edit their own issues and resolve threads on their own
+ * merge requests with a lower role.
+ */
+export const TOOL_ACCESS_LEVELS: Record<string, number> = {
+  create_or_update_file: 30,
+  push_files: 30,
+  create_branch: 30,
+  create_issue: 10,
+  update_issue: 20,
+  delete_issue: 50,
+  create_issue_link: 10,
+  delete_issue_link: 10,
+  create_merge_request: 30,
+  update_merge_request: 30,
+  merge_merge_request: 30,
+  rebase_merge_request: 30,
+  approve_merge_request: 30,
+  unapprove_merge_request: 30,
+  create_note: 10,
+  create_merge_request_thread: 10,
+  reply_to_discussion: 10,
+  resolve_discussion: 30,
+  create_label: 20,
+  update_label: 20,
+  delete_label: 20,
+  create_pipeline: 30,
+  retry_pipeline: 30,
+  cancel_pipeline: 30,
+};
+
+/**
+ * What GitLab reports about the token a client authenticates with
+ *
+ * Every field is optional: job tokens cannot read /user, and only personal
+ * (or project and group) access tokens and OAuth tokens can describe
+ * themselves.
+ */
+export interface TokenInfo {
+  user?: GitLabCurrentUser;
+  kind?: "personal_access_token" | "oauth";
+  name?: string;
+  scopes?: string[];
+  expiresAt?: string | null; // Null if the token never expires
+  error?: string; // Why the token could not be inspected
+}
+
+/**
+ * Name of a role
+ *
+ * @param {number} accessLevel - GitLab access level
+ * @returns {string} The role name, e.g. Developer
+ */
+export function roleName(accessLevel: number): string {
+  return ROLE_NAMES[accessLevel] ?? (accessLevel > 0 ? `access level ${accessLevel}` : "no role");
+}
+
+/**
+ * Highest role the current user has in a project, directly or through its group
+ *
+ * @param {GitLabProject} project - Project fetched with the user's token
+ * @returns {number} Access level, 0 if the user is not a member
+ */
+export function projectAccessLevel(project: GitLabProject): number {
+  return Math.max(
+    project.permissions?.project_access?.access_level ?? 0,
+    project.permissions?.group_access?.access_level ?? 0
+  );
+}
+
+/**
+ * Whether the token's scopes allow a tool
+ *
+ * Tools that only read need `read_api` or `api`; all others need `api`.
+ *
+ * @param {TokenInfo} info - What is known about the token
+ * @param {boolean} readOnly - Whether the tool only reads
+ * @returns {boolean} False only if the scopes are known and insufficient
+ */
+export function hasScopeFor(info: TokenInfo, readOnly: boolean): boolean {
+  if (!info.scopes) {
+    return true;
+  }
+  return info.scopes.includes("api") || (readOnly && info.scopes.includes("read_api"));
+}
+
+/**
+ * Days left until the token expires
+ *
+ * @param {TokenInfo} info - What is known about the token
+ * @param {number} [now] - Current time in milliseconds
+ * @returns {number | undefined} Whole days left (negative once expired), undefined if the token does not expire
+ */
+export function daysUntilExpiry(info: TokenInfo, now: number = Date.now()): number | undefined {
+  if (!info.expiresAt) {
+    return undefined;
+  }
+  return Math.floor((Date.parse(info.expiresAt) - now) / DAY_MS);
+}
+
+/**
+ * Problems with a token worth telling the user about
+ *
+ * OAuth tokens are refreshed automatically, so only access tokens get
+ * expiry warnings.
+ *
+ * @param {TokenInfo} info - What is known about the token
+ * @param {number} warningDays - Warn when the token expires within this many days
+ * @returns {string[]} Warnings, empty if all is well
+ */
+export function tokenWarnings(info: TokenInfo, warningDays: number): string[] {
+  const warnings: string[] = [];
+  const days = daysUntilExpiry(info);
+  if (info.kind === "personal_access_token" && days !== undefined && days <= warningDays) {
+    warnings.push(
+      days < 0
+        ? `Token ${info.name} expired on ${info.expiresAt}`
+        : `Token ${info.name} expires on ${info.expiresAt} (in ${days} day${days === 1 ? "" : "s"})`
+    );
+  }
+  if (info.scopes && !hasScopeFor(info, true)) {
+    warnings.push(
+      `Token has neither the api nor the read_api scope (scopes: ${info.scopes.join(", ") || "none"}); no tool can use it`
+    );
+  } else if (info.scopes && !hasScopeFor(info, false)) {
+    warnings.push("Token lacks the api scope; only tools that read are available");
+  }
+  return warnings;
+}
+
+/**
+ * Explain a 403 returned to a tool call
+ *
+ * @param {string} tool - Tool name
+ * @param {boolean} readOnly - Whether the tool only reads
+ * @param {TokenInfo} [info] - What is known about the token
+ * @returns {string} The most likely reason
+ */
+export function forbiddenHint(tool: string, readOnly: boolean, info?: TokenInfo): string {
+  if (info && !hasScopeFor(info, readOnly)) {
+    return `The token's scopes (${info.scopes?.join(", ")}) do not allow ${tool}; it needs ${readOnly ? "read_api or api" : "api"}`;
+  }
+  const accessLevel = TOOL_ACCESS_LEVELS[tool];
+  if (accessLevel !== undefined) {
+    return `${tool} needs at least the ${roleName(accessLevel)} role in the project; call whoami with the project_id to see yours`;
+  }
+  return "The token's user is not allowed to do this; call whoami to see its scopes and role";
+}
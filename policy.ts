@@ -0,0 +1,381 @@
+import fs from "fs";
+import { PolicyViolationError } from "./errors.js";
+import { globToRegExp } from "./glob.js";
+import {
+  PolicyConfigSchema,
+  type PolicyConfig,
+  type PolicyRule,
+} from "./schemas.js";
+
+/**
+ * Split a comma-separated environment variable into its entries
+ *
+ * @param {string | undefined} value - Variable value
+ * @returns {string[]} Trimmed, non-empty entries
+ */
+function splitList(value?: string): string[] {
+  return (value ?? "")
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Parse a boolean environment variable
+ *
+ * @param {string} value - Variable value
+ * @returns {boolean} True for "true", "1" or "yes"
+ */
+function isEnabled(value: string): boolean {
+  return ["true", "1", "yes"].includes(value.toLowerCase());
+}
+
+/**
+ * Load the tool policy from GITLAB_POLICY_FILE and the environment
+ *
+ * The file holds a PolicyConfig. GITLAB_READ_ONLY and
+ * GITLAB_BLOCK_DIRECT_COMMITS override the file's flags, GITLAB_ALLOWED_TOOLS,
+ * GITLAB_DENIED_TOOLS, GITLAB_ALLOWED_PROJECTS and GITLAB_DENIED_PROJECTS
+ * (comma-separated globs) add rules to the ones from the file, and
+ * GITLAB_WRITABLE_PROJECTS and GITLAB_WRITABLE_NAMESPACES extend its
+ * writable scope.
+ *
+ * @param {NodeJS.ProcessEnv} [env] - Environment to read from
+ * @returns {PolicyConfig} The combined policy
+ * @throws {Error} If the policy file cannot be read or is invalid
+ */
+export function loadPolicyConfig(env: NodeJS.ProcessEnv = process.env): PolicyConfig {
+  const config = PolicyConfigSchema.parse(
+    env.GITLAB_POLICY_FILE
+      ? JSON.parse(fs.readFileSync(env.GITLAB_POLICY_FILE, "utf8"))
+      : {}
+  );
+
+  if (env.GITLAB_READ_ONLY) {
+    config.read_only = isEnabled(env.GITLAB_READ_ONLY);
+  }
+  if (env.GITLAB_BLOCK_DIRECT_COMMITS) {
+    config.block_direct_commits = isEnabled(env.GITLAB_BLOCK_DIRECT_COMMITS);
+  }
+
+  const writableProjects = splitList(env.GITLAB_WRITABLE_PROJECTS);
+  if (writableProjects.length > 0) {
+    config.writable_projects = [...(config.writable_projects ?? []), ...writableProjects];
+  }
+  const writableNamespaces = splitList(env.GITLAB_WRITABLE_NAMESPACES);
+  if (writableNamespaces.length > 0) {
+    config.writable_namespaces = [...(config.writable_namespaces ?? []), ...writableNamespaces];
+  }
+
+  const envRules: [string | undefined, PolicyRule["effect"], "tools" | "projects"][] = [
+    [env.GITLAB_ALLOWED_TOOLS, "allow", "tools"],
+    [env.GITLAB_DENIED_TOOLS, "deny", "tools"],
+    [env.GITLAB_ALLOWED_PROJECTS, "allow", "projects"],
+    [env.GITLAB_DENIED_PROJECTS, "deny", "projects"],
+  ];
+  for (const [value, effect, field] of envRules) {
+    const patterns = splitList(value);
+    if (patterns.length > 0) {
+      config.rules.push({ effect, [field]: patterns });
+    }
+  }
+
+  return config;
+}
+
+/**
+ * Branch a commit tool is about to write to
+ */
+export interface TargetBranch {
+  name: string;
+  protected: boolean;
+  default: boolean;
+}
+
+/**
+ * Normalize namespace paths for prefix matching
+ *
+ * @param {string[]} namespaces - Namespace paths, possibly with leading or trailing slashes
+ * @returns {string[]} Lowercased paths without surrounding slashes, since GitLab paths ignore case
+ */
+function normalizeNamespaces(namespaces: string[]): string[] {
+  return namespaces.map((namespace) => namespace.replace(/^\/|\/$/g, "").toLowerCase());
+}
+
+/**
+ * Compile a project glob; GitLab paths ignore case
+ */
+function projectGlob(pattern: string): RegExp {
+  return globToRegExp(pattern, true);
+}
+
+/**
+ * Whether a namespace is, or lies below, one of the given namespaces
+ *
+ * @param {string} namespace - Full namespace path
+ * @param {string[]} namespaces - Normalized namespace paths
+ * @returns {boolean} True if the namespace is or is inside one of them
+ */
+function withinNamespaces(namespace: string, namespaces: string[]): boolean {
+  const path = namespace.toLowerCase();
+  return namespaces.some((prefix) => path === prefix || path.startsWith(`${prefix}/`));
+}
+
+/**
+ * Whether a project lies in (or below) one of the given namespaces
+ *
+ * @param {string} projectPath - Full project path
+ * @param {string[]} namespaces - Normalized namespace paths
+ * @returns {boolean} True if the project's namespace is or is inside one of them
+ */
+function inNamespaces(projectPath: string, namespaces: string[]): boolean {
+  return withinNamespaces(projectPath.split("/").slice(0, -1).join("/"), namespaces);
+}
+
+/**
+ * A policy rule with its globs compiled
+ */
+interface CompiledRule {
+  effect: PolicyRule["effect"];
+  tools?: RegExp[];
+  projects?: RegExp[];
+  namespaces?: string[];
+}
+
+/**
+ * Decides which tools are listed and which calls are allowed
+ *
+ * A rule matches a call when every condition it sets matches: the tool name
+ * matches one of `tools`, the project path matches one of `projects`, and the
+ * project lies in (or below) one of `namespaces`, regardless of case. The
+ * project path must be the canonical `path_with_namespace` GitLab reports,
+ * not the ID or path a caller gave. Rules with project or
+ * namespace conditions only apply to calls that target a project. A call is
+ * denied if a deny rule matches it, or if allow rules apply to it and none
+ * of them matches. In read-only mode every tool that is not known to be
+ * read-only is hidden and rejected.
+ *
+ * Calls that target a group, or every project the user can see, are checked
+ * with `checkGroup`: namespace conditions match the group's full path, and
+ * the projects of the items they return must pass `permitsProject`.
+ *
+ * Independently of the rules, a writable scope limits the projects that
+ * mutating tools may target, and direct commits to default or protected
+ * branches can be blocked so changes go through a feature branch and a
+ * merge request.
+ */
+export class ToolPolicy {
+  private readonly readOnly: boolean;
+  private readonly rules: CompiledRule[];
+  private readonly writableProjects?: RegExp[];
+  private readonly writableNamespaces?: string[];
+  readonly blocksDirectCommits: boolean;
+
+  /**
+   * @param {PolicyConfig} config - Loaded policy
+   * @param {Set<string>} readOnlyTools - Names of tools that never change anything
+   */
+  constructor(config: PolicyConfig, private readonly readOnlyTools: Set<string>) {
+    this.readOnly = config.read_only;
+    this.rules = config.rules.map((rule) => ({
+      effect: rule.effect,
+      tools: rule.tools?.map((pattern) => globToRegExp(pattern)),
+      projects: rule.projects?.map(projectGlob),
+      namespaces: rule.namespaces && normalizeNamespaces(rule.namespaces),
+    }));
+    this.writableProjects = config.writable_projects?.map(projectGlob);
+    this.writableNamespaces =
+      config.writable_namespaces && normalizeNamespaces(config.writable_namespaces);
+    this.blocksDirectCommits = config.block_direct_commits;
+  }
+
+  /**
+   * Whether the policy needs the path of the project or group a call targets
+   */
+  get needsProjectPath(): boolean {
+    return (
+      this.writableProjects !== undefined ||
+      this.writableNamespaces !== undefined ||
+      this.rules.some((rule) => rule.projects || rule.namespaces)
+    );
+  }
+
+  /**
+   * Whether any rule depends on the project a call targets
+   */
+  get hasProjectRules(): boolean {
+    return this.rules.some((rule) => rule.projects || rule.namespaces);
+  }
+
+  /**
+   * Whether a tool should be offered to clients at all
+   *
+   * @param {string} tool - Tool name
+   * @returns {boolean} False if no call to the tool could be allowed
+   */
+  isToolListed(tool: string): boolean {
+    if (this.readOnly && !this.readOnlyTools.has(tool)) {
+      return false;
+    }
+    const matchesTool = (rule: CompiledRule) =>
+      !rule.tools || rule.tools.some((pattern) => pattern.test(tool));
+
+    const deniedEverywhere = this.rules.some(
+      (rule) =>
+        rule.effect === "deny" && !rule.projects && !rule.namespaces && matchesTool(rule)
+    );
+    const allows = this.rules.filter((rule) => rule.effect === "allow");
+    return !deniedEverywhere && (allows.length === 0 || allows.some(matchesTool));
+  }
+
+  /**
+   * Check a call against the policy
+   *
+   * @param {string} tool - Tool name
+   * @param {string} [projectPath] - Full path of the targeted project, if any
+   * @param {TargetBranch} [branch] - Existing branch a commit tool writes to, if any
+   * @throws {PolicyViolationError} If the call is not allowed
+   */
+  check(tool: string, projectPath?: string, branch?: TargetBranch): void {
+    this.checkReadOnly(tool, projectPath);
+
+    const applicable = this.rules.filter(
+      (rule) => projectPath !== undefined || (!rule.projects && !rule.namespaces)
+    );
+    const target = projectPath ? `${tool} on project ${projectPath}` : tool;
+
+    const verdict = this.verdict(applicable, (rule) => this.matches(rule, tool, projectPath));
+    if (verdict) {
+      throw new PolicyViolationError(`${target} is ${verdict} by policy`, tool, projectPath);
+    }
+
+    if (!this.readOnlyTools.has(tool) && (this.writableProjects || this.writableNamespaces)) {
+      if (!projectPath) {
+        throw new PolicyViolationError(
+          `${tool} is not allowed because writes are restricted to specific projects`,
+          tool
+        );
+      }
+      const writable =
+        this.writableProjects?.some((pattern) => pattern.test(projectPath)) ||
+        (this.writableNamespaces && inNamespaces(projectPath, this.writableNamespaces));
+      if (!writable) {
+        throw new PolicyViolationError(
+          `${target} is not allowed: project ${projectPath} is not writable by policy`,
+          tool,
+          projectPath
+        );
+      }
+    }
+
+    if (this.blocksDirectCommits && branch && (branch.default || branch.protected)) {
+      const kind = branch.default ? "default" : "protected";
+      throw new PolicyViolationError(
+        `Direct commits to the ${kind} branch ${branch.name}${projectPath ? ` of ${projectPath}` : ""} are blocked by policy. ` +
+          "Commit to a feature branch and open a merge request instead.",
+        tool,
+        projectPath
+      );
+    }
+  }
+
+  /**
+   * Check a call that targets a group, or every project the user can see
+   *
+   * Rules with project conditions cannot match a group and are left to
+   * `permitsProject`, as are namespace rules when no group is given. Writes
+   * need the group to lie in the writable namespaces.
+   *
+   * @param {string} tool - Tool name
+   * @param {string} [groupPath] - Full path of the targeted group, if any
+   * @throws {PolicyViolationError} If the call is not allowed
+   */
+  checkGroup(tool: string, groupPath?: string): void {
+    this.checkReadOnly(tool);
+
+    const applicable = this.rules.filter(
+      (rule) => !rule.projects && (groupPath !== undefined || !rule.namespaces)
+    );
+    const target = groupPath ? `${tool} on group ${groupPath}` : tool;
+
+    const verdict = this.verdict(
+      applicable,
+      (rule) =>
+        (!rule.tools || rule.tools.some((pattern) => pattern.test(tool))) &&
+        (!rule.namespaces || (groupPath !== undefined && withinNamespaces(groupPath, rule.namespaces)))
+    );
+    if (verdict) {
+      throw new PolicyViolationError(`${target} is ${verdict} by policy`, tool);
+    }
+
+    if (!this.readOnlyTools.has(tool) && (this.writableProjects || this.writableNamespaces)) {
+      if (!(groupPath && this.writableNamespaces && withinNamespaces(groupPath, this.writableNamespaces))) {
+        throw new PolicyViolationError(
+          groupPath
+            ? `${target} is not allowed: group ${groupPath} is not writable by policy`
+            : `${tool} is not allowed because writes are restricted to specific projects`,
+          tool
+        );
+      }
+    }
+  }
+
+  /**
+   * Whether the rules let a tool return data of a project
+   *
+   * @param {string} tool - Tool name
+   * @param {string} projectPath - Canonical full path of the project
+   * @returns {boolean} False if a call to the tool on the project would be refused
+   */
+  permitsProject(tool: string, projectPath: string): boolean {
+    return !this.verdict(this.rules, (rule) => this.matches(rule, tool, projectPath));
+  }
+
+  /**
+   * Reject tools that may change something in read-only mode
+   */
+  private checkReadOnly(tool: string, projectPath?: string): void {
+    if (this.readOnly && !this.readOnlyTools.has(tool)) {
+      throw new PolicyViolationError(
+        `Tool ${tool} is disabled because the server is in read-only mode`,
+        tool,
+        projectPath
+      );
+    }
+  }
+
+  /**
+   * Why the applicable rules refuse a call, if they do
+   *
+   * @returns {string | undefined} "denied" if a deny rule matches, "not allowed" if allow rules apply and none matches
+   */
+  private verdict(
+    applicable: CompiledRule[],
+    matches: (rule: CompiledRule) => boolean
+  ): "denied" | "not allowed" | undefined {
+    if (applicable.some((rule) => rule.effect === "deny" && matches(rule))) {
+      return "denied";
+    }
+    const allows = applicable.filter((rule) => rule.effect === "allow");
+    if (allows.length > 0 && !allows.some(matches)) {
+      return "not allowed";
+    }
+    return undefined;
+  }
+
+  /**
+   * Whether every condition of a rule matches a call
+   */
+  private matches(rule: CompiledRule, tool: string, projectPath?: string): boolean {
+    if (rule.tools && !rule.tools.some((pattern) => pattern.test(tool))) {
+      return false;
+    }
+    if (rule.projects && !(projectPath && rule.projects.some((pattern) => pattern.test(projectPath)))) {
+      return false;
+    }
+    if (rule.namespaces) {
+      return projectPath !== undefined && inNamespaces(projectPath, rule.namespaces);
+    }
+    return true;
+  }
+}
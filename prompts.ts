@@ -0,0 +1,274 @@
+import type { GetPromptResult, Prompt } from "@modelcontextprotocol/sdk/types.js";
+import type {
+  GitLabCommit,
+  GitLabIssue,
+  GitLabJobLog,
+  GitLabMergeRequest,
+  GitLabMergeRequestDiff,
+  GitLabPipeline,
+  GitLabPipelineJob,
+} from "./schemas.js";
+
+/**
+ * Most characters of diffs embedded in a review prompt
+ */
+const MAX_DIFF_CHARS = 100_000;
+
+/**
+ * Most characters of an issue description embedded in a triage prompt
+ */
+const MAX_DESCRIPTION_CHARS = 1000;
+
+const PROJECT_ARGUMENT = {
+  name: "project_id",
+  description: "Project ID or URL-encoded path",
+  required: true,
+};
+
+/**
+ * Prompt templates offered to clients
+ */
+export const PROMPTS: Prompt[] = [
+  {
+    name: "review_merge_request",
+    description: "Review a merge request, with its description and diffs included",
+    arguments: [
+      PROJECT_ARGUMENT,
+      { name: "merge_request_iid", description: "The internal ID of the merge request", required: true },
+      { name: "focus", description: "What the review should pay most attention to, e.g. security" },
+    ],
+  },
+  {
+    name: "triage_issues",
+    description: "Triage the open issues of a project",
+    arguments: [
+      PROJECT_ARGUMENT,
+      { name: "labels", description: "Only include issues with all of these labels (comma-separated)" },
+    ],
+  },
+  {
+    name: "release_notes",
+    description: "Write release notes for the commits between two tags",
+    arguments: [
+      PROJECT_ARGUMENT,
+      { name: "from", description: "Tag (or other ref) of the previous release", required: true },
+      { name: "to", description: "Tag (or other ref) of the new release", required: true },
+    ],
+  },
+  {
+    name: "summarize_pipeline_failure",
+    description: "Explain why a pipeline failed, with the logs of its failed jobs included",
+    arguments: [
+      PROJECT_ARGUMENT,
+      { name: "pipeline_id", description: "The ID of the pipeline", required: true },
+    ],
+  },
+];
+
+/**
+ * Get a prompt argument, checking that required ones are present
+ *
+ * @param {Record<string, string>} args - Prompt arguments
+ * @param {string} name - Argument name
+ * @returns {string} The argument value
+ * @throws {Error} If the argument is missing or empty
+ */
+export function requiredArgument(args: Record<string, string>, name: string): string {
+  const value = args[name]?.trim();
+  if (!value) {
+    throw new Error(`Missing required argument: ${name}`);
+  }
+  return value;
+}
+
+/**
+ * Get a prompt argument that must be a positive integer
+ *
+ * @param {Record<string, string>} args - Prompt arguments
+ * @param {string} name - Argument name
+ * @returns {number} The argument value
+ * @throws {Error} If the argument is missing or not a number
+ */
+export function numericArgument(args: Record<string, string>, name: string): number {
+  const value = requiredArgument(args, name);
+  if (!/^\d+$/.test(value)) {
+    throw new Error(`Argument ${name} must be a number, got ${value}`);
+  }
+  return Number(value);
+}
+
+/**
+ * Shorten a text to a maximum length, saying how much was cut
+ */
+function truncate(text: string, maxLength: number): string {
+  return text.length > maxLength
+    ? `${text.slice(0, maxLength)}\n... (${text.length - maxLength} more characters omitted)`
+    : text;
+}
+
+/**
+ * Wrap the text of a prompt in a single user message
+ */
+function userPrompt(description: string, text: string): GetPromptResult {
+  return {
+    description,
+    messages: [{ role: "user", content: { type: "text", text } }],
+  };
+}
+
+/**
+ * Build the merge request review prompt
+ *
+ * @param {GitLabMergeRequest} mergeRequest - The merge request
+ * @param {GitLabMergeRequestDiff[]} diffs - Its changes
+ * @param {string} [focus] - What the review should concentrate on
+ * @returns {GetPromptResult} The prompt
+ */
+export function reviewMergeRequestPrompt(
+  mergeRequest: GitLabMergeRequest,
+  diffs: GitLabMergeRequestDiff[],
+  focus?: string
+): GetPromptResult {
+  const changes = diffs
+    .map((diff) => {
+      const header = diff.new_file
+        ? `New file ${diff.new_path}`
+        : diff.deleted_file
+          ? `Deleted file ${diff.old_path}`
+          : diff.renamed_file
+            ? `Renamed ${diff.old_path} -> ${diff.new_path}`
+            : `Modified ${diff.new_path}`;
+      return `### ${header}\n\`\`\`diff\n${diff.diff}\n\`\`\``;
+    })
+    .join("\n\n");
+
+  return userPrompt(
+    `Review of merge request !${mergeRequest.iid}`,
+    [
+      `Review merge request !${mergeRequest.iid} "${mergeRequest.title}" (${mergeRequest.source_branch} -> ${mergeRequest.target_branch}) by @${mergeRequest.author.username}: ${mergeRequest.web_url}`,
+      "",
+      "Look for bugs, missing error handling, security problems, missing tests and unclear code. " +
+        "For each finding, name the file and line and suggest a fix. " +
+        "Finish with an overall verdict: approve, approve with suggestions, or request changes.",
+      ...(focus ? ["", `Pay particular attention to: ${focus}`] : []),
+      "",
+      "## Description",
+      mergeRequest.description || "(no description)",
+      "",
+      `## Changes (${diffs.length} files)`,
+      truncate(changes, MAX_DIFF_CHARS),
+    ].join("\n")
+  );
+}
+
+/**
+ * Build the issue triage prompt
+ *
+ * @param {string} projectId - Project the issues belong to
+ * @param {GitLabIssue[]} issues - Open issues
+ * @param {boolean} truncated - Whether more open issues exist than were included
+ * @returns {GetPromptResult} The prompt
+ */
+export function triageIssuesPrompt(
+  projectId: string,
+  issues: GitLabIssue[],
+  truncated: boolean
+): GetPromptResult {
+  const list = issues
+    .map((issue) => {
+      const labels = (issue.labels as (string | { name: string })[]).map((label) =>
+        typeof label === "string" ? label : label.name
+      );
+      const assignees = issue.assignees.map((assignee) => `@${assignee.username}`);
+      return [
+        `### #${issue.iid} ${issue.title}`,
+        `Labels: ${labels.join(", ") || "none"} | Assignees: ${assignees.join(", ") || "none"} | ` +
+          `Milestone: ${issue.milestone?.title ?? "none"} | Opened: ${issue.created_at} | Updated: ${issue.updated_at}`,
+        truncate(issue.description || "(no description)", MAX_DESCRIPTION_CHARS),
+      ].join("\n");
+    })
+    .join("\n\n");
+
+  return userPrompt(
+    `Triage of open issues in ${projectId}`,
+    [
+      `Triage the open issues of ${projectId} listed below.`,
+      "",
+      "Group them by theme, point out likely duplicates, and flag issues that are stale, unclear or missing labels or an assignee. " +
+        "Suggest a priority (high, medium, low) for each issue with a one-line reason, and list the issues to work on first.",
+      "",
+      `## Open issues (${issues.length}${truncated ? ", more not shown" : ""})`,
+      list || "(no open issues)",
+    ].join("\n")
+  );
+}
+
+/**
+ * Build the release notes prompt
+ *
+ * @param {string} projectId - Project being released
+ * @param {string} from - Ref of the previous release
+ * @param {string} to - Ref of the new release
+ * @param {GitLabCommit[]} commits - Commits between the two refs
+ * @returns {GetPromptResult} The prompt
+ */
+export function releaseNotesPrompt(
+  projectId: string,
+  from: string,
+  to: string,
+  commits: GitLabCommit[]
+): GetPromptResult {
+  const list = commits
+    .map((commit) => `- ${commit.short_id} ${commit.title} (${commit.author_name})`)
+    .join("\n");
+
+  return userPrompt(
+    `Release notes for ${projectId} ${from}..${to}`,
+    [
+      `Write release notes for ${to} of ${projectId}, covering the changes since ${from}.`,
+      "",
+      "Group the changes under Features, Fixes and Other, written for users rather than developers. " +
+        "Leave out merge commits and purely internal changes such as refactoring or CI tweaks, and call out breaking changes first.",
+      "",
+      `## Commits (${commits.length})`,
+      list || "(no commits)",
+    ].join("\n")
+  );
+}
+
+/**
+ * Build the pipeline failure prompt
+ *
+ * @param {GitLabPipeline} pipeline - The failed pipeline
+ * @param {{ job: GitLabPipelineJob; log: GitLabJobLog }[]} failedJobs - Failed jobs with the end of their logs
+ * @returns {GetPromptResult} The prompt
+ */
+export function pipelineFailurePrompt(
+  pipeline: GitLabPipeline,
+  failedJobs: { job: GitLabPipelineJob; log: GitLabJobLog }[]
+): GetPromptResult {
+  const jobs = failedJobs
+    .map(({ job, log }) =>
+      [
+        `### ${job.stage} / ${job.name} (job ${job.id}${job.allow_failure ? ", allowed to fail" : ""})`,
+        `Failure reason: ${job.failure_reason ?? "unknown"}`,
+        "```",
+        log.content,
+        "```",
+      ].join("\n")
+    )
+    .join("\n\n");
+
+  return userPrompt(
+    `Failure of pipeline ${pipeline.id}`,
+    [
+      `Pipeline ${pipeline.id} on ${pipeline.ref} (${pipeline.sha.slice(0, 8)}) finished with status ${pipeline.status}: ${pipeline.web_url}`,
+      "",
+      "Summarize why it failed. For each failed job, quote the relevant log lines, name the most likely cause, " +
+        "and say whether it looks like a real failure, a flaky test or an infrastructure problem. End with the steps to fix it.",
+      "",
+      `## Failed jobs (${failedJobs.length})`,
+      jobs || "(no failed jobs)",
+    ].join("\n")
+  );
+}
@@ -0,0 +1,186 @@
+/**
+ * URI templates of the resources this server exposes
+ *
+ * `{project}` and `{ref}` are URL-encoded (`my-group%2Fmy-project`), while
+ * `{+path}` keeps its slashes.
+ */
+export const RESOURCE_TEMPLATES = [
+  {
+    uriTemplate: "gitlab://{project}/file/{ref}/{+path}",
+    name: "Repository file",
+    description: "Contents of a file at a branch, tag or commit",
+  },
+  {
+    uriTemplate: "gitlab://{project}/issues/{iid}",
+    name: "Issue",
+    description: "An issue of a project",
+    mimeType: "application/json",
+  },
+  {
+    uriTemplate: "gitlab://{project}/merge_requests/{iid}",
+    name: "Merge request",
+    description: "A merge request of a project",
+    mimeType: "application/json",
+  },
+];
+
+/**
+ * What a resource URI points to
+ */
+export type ResourceRef =
+  | { type: "file"; project: string; ref: string; path: string }
+  | { type: "issue"; project: string; iid: number }
+  | { type: "merge_request"; project: string; iid: number };
+
+/**
+ * Parse a gitlab:// resource URI
+ *
+ * The project may be given URL-encoded or as a plain path. A ref containing
+ * slashes must be URL-encoded.
+ *
+ * @param {string} uri - Resource URI
+ * @returns {ResourceRef} What the URI points to
+ * @throws {Error} If the URI does not match a resource template
+ */
+export function parseResourceUri(uri: string): ResourceRef {
+  const match = uri.match(/^gitlab:\/\/(.+?)\/(file|issues|merge_requests)\/(.+)$/);
+  if (!match) {
+    throw new Error(`Unknown resource URI: ${uri}`);
+  }
+  const [, project, kind, rest] = match;
+
+  if (kind === "file") {
+    const separator = rest.indexOf("/");
+    if (separator <= 0 || separator === rest.length - 1) {
+      throw new Error(`File resource URI needs a ref and a path: ${uri}`);
+    }
+    return {
+      type: "file",
+      project: decodeURIComponent(project),
+      ref: decodeURIComponent(rest.slice(0, separator)),
+      path: decodeURIComponent(rest.slice(separator + 1)),
+    };
+  }
+
+  if (!/^\d+$/.test(rest)) {
+    throw new Error(`Invalid ${kind === "issues" ? "issue" : "merge request"} IID in ${uri}`);
+  }
+  return {
+    type: kind === "issues" ? "issue" : "merge_request",
+    project: decodeURIComponent(project),
+    iid: Number(rest),
+  };
+}
+
+/**
+ * Build the URI of a resource
+ *
+ * @param {ResourceRef} resource - What the URI should point to
+ * @returns {string} The gitlab:// URI
+ */
+export function resourceUri(resource: ResourceRef): string {
+  const project = encodeURIComponent(resource.project);
+  switch (resource.type) {
+    case "file":
+      return `gitlab://${project}/file/${encodeURIComponent(resource.ref)}/${resource.path
+        .split("/")
+        .map(encodeURIComponent)
+        .join("/")}`;
+    case "issue":
+      return `gitlab://${project}/issues/${resource.iid}`;
+    case "merge_request":
+      return `gitlab://${project}/merge_requests/${resource.iid}`;
+  }
+}
+
+/**
+ * Polls subscribed resources and reports the ones that changed
+ *
+ * A resource counts as changed when the version returned by `getVersion`
+ * (blob ID of a file, `updated_at` of an issue or merge request) differs
+ * from the one seen on the previous poll.
+ */
+export class ResourceSubscriptions {
+  private readonly versions = new Map<string, string | undefined>();
+  private timer?: NodeJS.Timeout;
+  private polling = false;
+
+  /**
+   * @param {Function} getVersion - Returns the current version of a resource
+   * @param {Function} notify - Called with the URI of a resource that changed
+   * @param {number} intervalMs - Delay between polls
+   */
+  constructor(
+    private readonly getVersion: (uri: string) => Promise<string>,
+    private readonly notify: (uri: string) => Promise<void>,
+    private readonly intervalMs: number
+  ) {}
+
+  /**
+   * Start watching a resource
+   *
+   * @param {string} uri - Resource URI
+   */
+  async subscribe(uri: string): Promise<void> {
+    parseResourceUri(uri);
+    this.versions.set(uri, await this.getVersion(uri).catch(() => undefined));
+    if (!this.timer) {
+      this.timer = setInterval(() => void this.poll(), this.intervalMs);
+      this.timer.unref();
+    }
+  }
+
+  /**
+   * Stop watching a resource
+   *
+   * @param {string} uri - Resource URI
+   */
+  unsubscribe(uri: string): void {
+    this.versions.delete(uri);
+    if (this.versions.size === 0) {
+      this.close();
+    }
+  }
+
+  /**
+   * Stop watching all resources
+   */
+  close(): void {
+    clearInterval(this.timer);
+    this.timer = undefined;
+  }
+
+  /**
+   * Check every subscribed resource once
+   */
+  private async poll(): Promise<void> {
+    // Skip a tick rather than overlap a slow poll
+    if (this.polling) {
+      return;
+    }
+    this.polling = true;
+    try {
+      for (const [uri, previous] of this.versions) {
+        let current: string | undefined;
+        try {
+          current = await this.getVersion(uri);
+        } catch (error) {
+          console.error(`Failed to check resource ${uri}:`, error);
+          continue;
+        }
+        if (!this.versions.has(uri)) {
+          continue; // Unsubscribed while polling
+        }
+        this.versions.set(uri, current);
+        // An undefined version means the first check failed; nothing to compare with
+        if (previous !== undefined && current !== previous) {
+          await this.notify(uri).catch((error) =>
+            console.error(`Failed to notify about resource ${uri}:`, error)
+          );
+        }
+      }
+    } finally {
+      this.polling = false;
+    }
+  }
+}
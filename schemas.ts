@@ -118,6 +118,23 @@ export const GitLabFileContentSchema = z.object({
   commit_id: z.string(), // ID of the current file version
   last_commit_id: z.string(), // Added to match GitLab API
   execute_filemode: z.boolean().optional(), // Added to match GitLab API
+  binary: z.boolean().optional(), // Set by this server when the content is not text
+  mime_type: z.string().optional(), // Set by this server when the content type is recognized
+  content_omitted: z.boolean().optional(), // Set by this server when the file exceeds max_bytes
+});
+
+// File metadata as returned in the X-Gitlab-* headers of a HEAD request
+export const GitLabFileMetadataSchema = z.object({
+  file_name: z.string(),
+  file_path: z.string(),
+  size: z.number(),
+  encoding: z.string(),
+  content_sha256: z.string(),
+  ref: z.string(),
+  blob_id: z.string(),
+  commit_id: z.string(),
+  last_commit_id: z.string(),
+  execute_filemode: z.boolean().optional(),
 });
 
 export const GitLabDirectoryContentSchema = z.object({
@@ -135,16 +152,30 @@ export const GitLabContentSchema = z.union([
 ]);
 
 // Operation schemas
+export const FileActionSchema = z.enum([
+  "create",
+  "update",
+  "delete",
+  "move",
+  "chmod",
+  "auto", // Resolved to create or update depending on whether the file exists
+]);
+
 export const FileOperationSchema = z.object({
   path: z.string(),
-  content: z.string(),
+  content: z.string().optional(), // Not needed for delete and chmod
+  action: FileActionSchema.optional(),
+  previous_path: z.string().optional(), // Required for move
+  encoding: z.enum(["text", "base64"]).optional(),
+  execute_filemode: z.boolean().optional(),
+  last_commit_id: z.string().optional(),
 });
 
 // Tree and commit schemas
 export const GitLabTreeEntrySchema = z.object({
   id: z.string(), // Changed from sha to match GitLab API
   name: z.string(),
-  type: z.enum(["blob", "tree"]),
+  type: z.enum(["blob", "tree", "commit"]), // "commit" for submodules
   path: z.string(),
   mode: z.string(),
 });
@@ -168,6 +199,12 @@ export const GitLabCommitSchema = z.object({
   parent_ids: z.array(z.string()), // Changed from parents to match GitLab API
 });
 
+// Result of comparing two refs
+export const GitLabCompareResultSchema = z.object({
+  commits: z.array(GitLabCommitSchema),
+  compare_timeout: z.boolean().optional(),
+});
+
 // Reference schema
 export const GitLabReferenceSchema = z.object({
   name: z.string(), // Changed from ref to match GitLab API
@@ -175,6 +212,8 @@ export const GitLabReferenceSchema = z.object({
     id: z.string(), // Changed from sha to match GitLab API
     web_url: z.string(), // Changed from url to match GitLab API
   }),
+  protected: z.boolean().optional(),
+  default: z.boolean().optional(),
 });
 
 // Input schemas for operations
@@ -220,6 +259,8 @@ export const GitLabSearchResponseSchema = z.object({
   count: z.number().optional(),
   total_pages: z.number().optional(),
   current_page: z.number().optional(),
+  next_page: z.number().nullable().optional(),
+  truncated: z.boolean().optional(),
   items: z.array(GitLabRepositorySchema),
 });
 
@@ -247,6 +288,34 @@ export const GitLabUserSchema = z.object({
   web_url: z.string(), // Changed from html_url to match GitLab API
 });
 
+// Response of /user, the user the token belongs to
+export const GitLabCurrentUserSchema = GitLabUserSchema.extend({
+  avatar_url: z.string().nullable(),
+  state: z.string().optional(),
+  email: z.string().nullable().optional(),
+  is_admin: z.boolean().optional(),
+  bot: z.boolean().optional(),
+});
+
+// Response of /personal_access_tokens/self
+export const GitLabPersonalAccessTokenSchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  scopes: z.array(z.string()),
+  expires_at: z.string().nullable(), // Date only, e.g. 2025-12-31
+  active: z.boolean(),
+  revoked: z.boolean(),
+  user_id: z.number(),
+  created_at: z.string(),
+  last_used_at: z.string().nullable().optional(),
+});
+
+// Response of /oauth/token/info (outside /api/v4)
+export const GitLabOAuthTokenInfoSchema = z.object({
+  scope: z.array(z.string()),
+  expires_in: z.number().nullable(), // Seconds
+});
+
 export const GitLabMilestoneSchema = z.object({
   id: z.number(),
   iid: z.number(), // Added to match GitLab API
@@ -261,7 +330,7 @@ export const GitLabIssueSchema = z.object({
   iid: z.number(), // Added to match GitLab API
   project_id: z.number(), // Added to match GitLab API
   title: z.string(),
-  description: z.string(), // Changed from body to match GitLab API
+  description: z.string().nullable(), // Changed from body to match GitLab API; null when empty
   state: z.string(),
   author: GitLabUserSchema,
   assignees: z.array(GitLabUserSchema),
@@ -352,6 +421,140 @@ export const GitLabMergeRequestSchema = z.object({
   merge_when_pipeline_succeeds: z.boolean().optional(),
   squash: z.boolean().optional(),
   labels: z.array(z.string()).optional(),
+  reviewers: z.array(GitLabUserSchema).optional(),
+  rebase_in_progress: z.boolean().optional(),
+  squash_commit_sha: z.string().nullable().optional(),
+});
+
+// Approval related schemas
+export const GitLabApprovalRuleSchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  rule_type: z.string().optional(), // "regular", "code_owner", "any_approver", ...
+  approvals_required: z.number(),
+  eligible_approvers: z.array(GitLabUserSchema).optional(),
+  approved_by: z.array(GitLabUserSchema).optional(),
+  approved: z.boolean().optional(),
+});
+
+export const GitLabMergeRequestApprovalsSchema = z.object({
+  approved: z.boolean().optional(),
+  approvals_required: z.number().optional(),
+  approvals_left: z.number().optional(),
+  approved_by: z.array(z.object({ user: GitLabUserSchema })).optional(),
+});
+
+// Approval rules; GitLab Premium only
+export const GitLabMergeRequestApprovalStateSchema = z.object({
+  approval_rules_overwritten: z.boolean().optional(),
+  rules: z.array(GitLabApprovalRuleSchema),
+});
+
+// Discussion related schemas
+export const GitLabDiffPositionSchema = z.object({
+  base_sha: z.string(),
+  start_sha: z.string(),
+  head_sha: z.string(),
+  position_type: z.enum(["text", "image", "file"]),
+  old_path: z.string().nullable().optional(),
+  new_path: z.string().nullable().optional(),
+  old_line: z.number().nullable().optional(),
+  new_line: z.number().nullable().optional(),
+});
+
+export const GitLabNoteSchema = z.object({
+  id: z.number(),
+  type: z.string().nullable().optional(), // "DiscussionNote", "DiffNote" or null for plain notes
+  body: z.string(),
+  author: GitLabUserSchema,
+  created_at: z.string(),
+  updated_at: z.string(),
+  system: z.boolean(),
+  noteable_id: z.number(),
+  noteable_type: z.string(),
+  noteable_iid: z.number().nullable().optional(),
+  resolvable: z.boolean().optional(),
+  resolved: z.boolean().optional(),
+  resolved_by: GitLabUserSchema.nullable().optional(),
+  position: GitLabDiffPositionSchema.optional(),
+});
+
+export const GitLabDiscussionSchema = z.object({
+  id: z.string(),
+  individual_note: z.boolean(),
+  notes: z.array(GitLabNoteSchema),
+});
+
+// Pipeline related schemas
+export const GitLabPipelineSchema = z.object({
+  id: z.number(),
+  iid: z.number().optional(),
+  project_id: z.number(),
+  sha: z.string(),
+  ref: z.string(),
+  status: z.string(),
+  source: z.string().optional(),
+  created_at: z.string(),
+  updated_at: z.string(),
+  web_url: z.string(),
+  before_sha: z.string().nullable().optional(),
+  tag: z.boolean().optional(),
+  yaml_errors: z.string().nullable().optional(),
+  user: GitLabUserSchema.nullable().optional(),
+  started_at: z.string().nullable().optional(),
+  finished_at: z.string().nullable().optional(),
+  committed_at: z.string().nullable().optional(),
+  duration: z.number().nullable().optional(),
+  queued_duration: z.number().nullable().optional(),
+  coverage: z.string().nullable().optional(),
+  detailed_status: z.object({
+    icon: z.string().optional(),
+    text: z.string().optional(),
+    label: z.string().optional(),
+    group: z.string().optional(),
+    tooltip: z.string().optional(),
+    details_path: z.string().optional(),
+  }).optional(),
+});
+
+export const GitLabPipelineJobSchema = z.object({
+  id: z.number(),
+  status: z.string(),
+  stage: z.string(),
+  name: z.string(),
+  ref: z.string(),
+  tag: z.boolean().optional(),
+  coverage: z.number().nullable().optional(),
+  allow_failure: z.boolean().optional(),
+  created_at: z.string(),
+  started_at: z.string().nullable().optional(),
+  finished_at: z.string().nullable().optional(),
+  erased_at: z.string().nullable().optional(),
+  duration: z.number().nullable().optional(),
+  queued_duration: z.number().nullable().optional(),
+  failure_reason: z.string().optional(),
+  user: GitLabUserSchema.nullable().optional(),
+  commit: z.object({
+    id: z.string(),
+    short_id: z.string(),
+    title: z.string(),
+  }).optional(),
+  pipeline: z.object({
+    id: z.number(),
+    project_id: z.number(),
+    ref: z.string(),
+    sha: z.string(),
+    status: z.string(),
+  }).optional(),
+  web_url: z.string(),
+});
+
+export const GitLabJobLogSchema = z.object({
+  job_id: z.number(),
+  size: z.number().nullable(), // Total size of the trace in bytes, null when reading stopped before its end
+  offset: z.number(), // Byte offset of the returned content
+  truncated: z.boolean(),
+  content: z.string(),
 });
 
 // API Operation Parameter Schemas
@@ -359,9 +562,21 @@ const ProjectParamsSchema = z.object({
   project_id: z.string().describe("Project ID or URL-encoded path"), // Changed from owner/repo to match GitLab API
 });
 
+// Shared by every list operation
+export const PaginationOptionsSchema = z.object({
+  page: z.number().optional().describe("Page number for pagination (default: 1)"),
+  per_page: z.number().optional().describe("Number of items per page (default: 20, or 100 when fetching all pages)"),
+  all_pages: z.boolean().optional().describe("Follow pagination and return the items of all pages (up to max_items)"),
+  max_items: z.number().optional().describe("Return at most this many items, fetching further pages until then (default: 1000); implies all_pages"),
+});
+
 export const CreateOrUpdateFileSchema = ProjectParamsSchema.extend({
   file_path: z.string().describe("Path where to create/update the file"),
   content: z.string().describe("Content of the file"),
+  encoding: z
+    .enum(["text", "base64"])
+    .optional()
+    .describe("Encoding of the content; use base64 for binary files (default: text)"),
   commit_message: z.string().describe("Commit message"),
   branch: z.string().describe("Branch to create/update the file in"),
   previous_path: z
@@ -380,15 +595,7 @@ export const CreateOrUpdateFileSchema = ProjectParamsSchema.extend({
 
 export const SearchRepositoriesSchema = z.object({
   search: z.string().describe("Search query"), // Changed from query to match GitLab API
-  page: z
-    .number()
-    .optional()
-    .describe("Page number for pagination (default: 1)"),
-  per_page: z
-    .number()
-    .optional()
-    .describe("Number of results per page (default: 20)"),
-});
+}).merge(PaginationOptionsSchema);
 
 export const CreateRepositorySchema = z.object({
   name: z.string().describe("Repository name"),
@@ -406,6 +613,36 @@ export const CreateRepositorySchema = z.object({
 export const GetFileContentsSchema = ProjectParamsSchema.extend({
   file_path: z.string().describe("Path to the file or directory"),
   ref: z.string().optional().describe("Branch/tag/commit to get contents from"),
+  format: z
+    .enum(["auto", "text", "base64"])
+    .optional()
+    .describe("How to return the content: 'auto' decodes text files and returns binary files as base64, 'text' always decodes as UTF-8, 'base64' never decodes (default: auto)"),
+  max_bytes: z
+    .number()
+    .optional()
+    .describe("Only return metadata (blob id, size, sha256) for files larger than this (default: 1048576)"),
+});
+
+export const GetRepositoryTreeSchema = ProjectParamsSchema.extend({
+  path: z.string().optional().describe("Path inside the repository to list (default: repository root)"),
+  ref: z.string().optional().describe("Branch/tag/commit to list (default: default branch)"),
+  recursive: z.boolean().optional().describe("List the whole subtree instead of a single directory"),
+  include: z
+    .array(z.string())
+    .optional()
+    .describe("Only return files matching one of these globs (e.g. 'src/**/*.ts')"),
+  exclude: z
+    .array(z.string())
+    .optional()
+    .describe("Skip files and directories matching one of these globs (e.g. 'node_modules/**')"),
+  max_entries: z
+    .number()
+    .optional()
+    .describe("Stop fetching pages after this many entries (default: 5000)"),
+  format: z
+    .enum(["json", "tree"])
+    .optional()
+    .describe("Return a JSON list of entries or a compact indented tree (default: json)"),
 });
 
 export const PushFilesSchema = ProjectParamsSchema.extend({
@@ -413,12 +650,42 @@ export const PushFilesSchema = ProjectParamsSchema.extend({
   files: z
     .array(
       z.object({
-        file_path: z.string().describe("Path where to create the file"),
-        content: z.string().describe("Content of the file"),
+        file_path: z.string().describe("Path of the file"),
+        content: z
+          .string()
+          .optional()
+          .describe("Content of the file (required for create, update and move with new content)"),
+        action: FileActionSchema.optional().describe(
+          "Action to perform on the file; 'auto' creates or updates depending on whether the file exists (default: auto)"
+        ),
+        previous_path: z
+          .string()
+          .optional()
+          .describe("Original path of the file (required for move)"),
+        encoding: z
+          .enum(["text", "base64"])
+          .optional()
+          .describe("Encoding of the content (default: text)"),
+        execute_filemode: z
+          .boolean()
+          .optional()
+          .describe("Enable or disable the execute flag on the file (used by chmod)"),
+        last_commit_id: z
+          .string()
+          .optional()
+          .describe("Last known file commit ID; the commit fails if the file changed since"),
       })
     )
     .describe("Array of files to push"),
   commit_message: z.string().describe("Commit message"),
+  start_branch: z
+    .string()
+    .optional()
+    .describe("Create the branch from this branch if it does not exist yet"),
+  start_sha: z
+    .string()
+    .optional()
+    .describe("Create the branch from this commit SHA if it does not exist yet"),
 });
 
 export const CreateIssueSchema = ProjectParamsSchema.extend({
@@ -481,6 +748,10 @@ export const UpdateMergeRequestSchema = GetMergeRequestSchema.extend({
     .array(z.number())
     .optional()
     .describe("The ID of the users to assign the MR to"),
+  reviewer_ids: z
+    .array(z.number())
+    .optional()
+    .describe("The ID of the users to request a review from; an empty array removes all reviewers"),
   labels: z.array(z.string()).optional().describe("Labels for the MR"),
   state_event: z
     .enum(["close", "reopen"])
@@ -497,6 +768,33 @@ export const UpdateMergeRequestSchema = GetMergeRequestSchema.extend({
   draft: z.boolean().optional().describe("Work in progress merge request"),
 });
 
+export const MergeMergeRequestSchema = GetMergeRequestSchema.extend({
+  merge_commit_message: z.string().optional().describe("Custom merge commit message"),
+  squash: z.boolean().optional().describe("Squash the commits into a single commit when merging"),
+  squash_commit_message: z.string().optional().describe("Custom squash commit message"),
+  should_remove_source_branch: z.boolean().optional().describe("Remove the source branch after merging"),
+  merge_when_pipeline_succeeds: z.boolean().optional().describe("Merge automatically once the pipeline succeeds"),
+  sha: z.string().optional().describe("Only merge if the source branch HEAD still matches this SHA"),
+});
+
+export const RebaseMergeRequestSchema = GetMergeRequestSchema.extend({
+  skip_ci: z.boolean().optional().describe("Do not create a pipeline for the rebased commits"),
+  timeout_seconds: z.number().optional().describe("How long to wait for the rebase to finish (default: 60)"),
+});
+
+const SudoParamsSchema = z.object({
+  sudo: z.string().optional().describe("Act as this user (ID or username); needs an administrator token"),
+});
+
+export const GetMergeRequestApprovalsSchema = GetMergeRequestSchema;
+
+export const ApproveMergeRequestSchema = GetMergeRequestSchema.extend({
+  sha: z.string().optional().describe("Only approve if the source branch HEAD still matches this SHA"),
+  approval_password: z.string().optional().describe("Password of the approving user, if the project requires it to approve"),
+}).merge(SudoParamsSchema);
+
+export const UnapproveMergeRequestSchema = GetMergeRequestSchema.merge(SudoParamsSchema);
+
 export const GetMergeRequestDiffsSchema = GetMergeRequestSchema.extend({
   view: z.enum(["inline", "parallel"]).optional().describe("Diff view type"),
 });
@@ -510,6 +808,31 @@ export const CreateNoteSchema = z.object({
   body: z.string().describe("Note content"),
 });
 
+// Discussion API operation schemas
+export const ListMergeRequestDiscussionsSchema = GetMergeRequestSchema.merge(PaginationOptionsSchema);
+
+export const MergeRequestThreadPositionSchema = z.object({
+  new_path: z.string().describe("Path of the file after the change"),
+  old_path: z.string().optional().describe("Path of the file before the change (defaults to the old path found in the MR diff)"),
+  new_line: z.number().optional().describe("Line number in the new version of the file (for added or unchanged lines)"),
+  old_line: z.number().optional().describe("Line number in the old version of the file (for removed or unchanged lines)"),
+});
+
+export const CreateMergeRequestThreadSchema = GetMergeRequestSchema.extend({
+  body: z.string().describe("The content of the thread"),
+  position: MergeRequestThreadPositionSchema.optional().describe("Anchor the thread to a line of the diff; omit for a general discussion"),
+});
+
+export const ReplyToDiscussionSchema = GetMergeRequestSchema.extend({
+  discussion_id: z.string().describe("The ID of the discussion"),
+  body: z.string().describe("The content of the reply"),
+});
+
+export const ResolveDiscussionSchema = GetMergeRequestSchema.extend({
+  discussion_id: z.string().describe("The ID of the discussion"),
+  resolved: z.boolean().describe("Resolve (true) or unresolve (false) the discussion"),
+});
+
 // Issues API operation schemas
 export const ListIssuesSchema = z.object({
   project_id: z.string().describe("Project ID or URL-encoded path"),
@@ -523,16 +846,52 @@ export const ListIssuesSchema = z.object({
   due_date: z.string().optional().describe("Return issues that have the due date"),
   label_name: z.array(z.string()).optional().describe("Array of label names"),
   milestone: z.string().optional().describe("Milestone title"),
-  scope: z.enum(['created-by-me', 'assigned-to-me', 'all']).optional().describe("Return issues from a specific scope"),
+  scope: z.enum(['created_by_me', 'assigned_to_me', 'all']).optional().describe("Return issues from a specific scope"),
   search: z.string().optional().describe("Search for specific terms"),
   state: z.enum(['opened', 'closed', 'all']).optional().describe("Return issues with a specific state"),
   updated_after: z.string().optional().describe("Return issues updated after the given time"),
   updated_before: z.string().optional().describe("Return issues updated before the given time"),
   with_labels_details: z.boolean().optional().describe("Return more details for each label"),
-  page: z.number().optional().describe("Page number for pagination"),
-  per_page: z.number().optional().describe("Number of items per page"),
+}).merge(PaginationOptionsSchema);
+
+// Group and instance-wide list operation schemas
+const GroupScopeParamsSchema = z.object({
+  group_id: z.string().optional().describe("Group ID or URL-encoded path; omit to list across all projects you can see, where scope defaults to created_by_me"),
 });
 
+export const ListGroupIssuesSchema = GroupScopeParamsSchema.merge(ListIssuesSchema.omit({ project_id: true }));
+
+const MergeRequestFiltersSchema = z.object({
+  state: z.enum(["opened", "closed", "locked", "merged", "all"]).optional().describe("Return merge requests with a specific state"),
+  scope: z.enum(["created_by_me", "assigned_to_me", "all"]).optional().describe("Return merge requests from a specific scope"),
+  author_id: z.number().optional().describe("Return merge requests created by the given user ID"),
+  author_username: z.string().optional().describe("Return merge requests created by the given username"),
+  assignee_id: z.number().optional().describe("Return merge requests assigned to the given user ID"),
+  assignee_username: z.string().optional().describe("Return merge requests assigned to the given username"),
+  reviewer_id: z.number().optional().describe("Return merge requests the given user ID is a reviewer of"),
+  reviewer_username: z.string().optional().describe("Return merge requests the given username is a reviewer of"),
+  labels: z.array(z.string()).optional().describe("Return merge requests with all of these labels"),
+  milestone: z.string().optional().describe("Milestone title"),
+  source_branch: z.string().optional().describe("Return merge requests with the given source branch"),
+  target_branch: z.string().optional().describe("Return merge requests with the given target branch"),
+  search: z.string().optional().describe("Search titles and descriptions"),
+  approved_by_ids: z.array(z.number()).optional().describe("Return merge requests approved by all of these user IDs"),
+  approved_by_usernames: z.array(z.string()).optional().describe("Return merge requests approved by all of these usernames"),
+  draft: z.boolean().optional().describe("Only return draft (true) or ready (false) merge requests"),
+  created_after: z.string().optional().describe("Return merge requests created after the given time"),
+  created_before: z.string().optional().describe("Return merge requests created before the given time"),
+  updated_after: z.string().optional().describe("Return merge requests updated after the given time"),
+  updated_before: z.string().optional().describe("Return merge requests updated before the given time"),
+  order_by: z.enum(["created_at", "updated_at", "title"]).optional().describe("Order merge requests by field"),
+  sort: z.enum(["asc", "desc"]).optional().describe("Sort merge requests in asc or desc order"),
+});
+
+export const ListGroupMergeRequestsSchema = GroupScopeParamsSchema.merge(MergeRequestFiltersSchema).merge(PaginationOptionsSchema);
+
+export const ListMergeRequestsSchema = z.object({
+  project_id: z.string().optional().describe("Project ID or URL-encoded path; give either this or group_id, or neither"),
+}).merge(ListGroupMergeRequestsSchema);
+
 export const GetIssueSchema = z.object({
   project_id: z.string().describe("Project ID or URL-encoded path"),
   issue_iid: z.number().describe("The internal ID of the project issue"),
@@ -593,10 +952,8 @@ export const DeleteIssueLinkSchema = z.object({
 // Namespace API operation schemas
 export const ListNamespacesSchema = z.object({
   search: z.string().optional().describe("Search term for namespaces"),
-  page: z.number().optional().describe("Page number for pagination"),
-  per_page: z.number().optional().describe("Number of items per page"),
   owned: z.boolean().optional().describe("Filter for namespaces owned by current user"),
-});
+}).merge(PaginationOptionsSchema);
 
 export const GetNamespaceSchema = z.object({
   namespace_id: z.string().describe("Namespace ID or full path"),
@@ -607,14 +964,16 @@ export const VerifyNamespaceSchema = z.object({
 });
 
 // Project API operation schemas
+export const WhoamiSchema = z.object({
+  project_id: z.string().optional().describe("Project ID or URL-encoded path; also reports your role there and the tools it rules out"),
+});
+
 export const GetProjectSchema = z.object({
   project_id: z.string().describe("Project ID or URL-encoded path"),
 });
 
 export const ListProjectsSchema = z.object({
   search: z.string().optional().describe("Search term for projects"),
-  page: z.number().optional().describe("Page number for pagination"),
-  per_page: z.number().optional().describe("Number of items per page"),
   owned: z.boolean().optional().describe("Filter for projects owned by current user"),
   membership: z.boolean().optional().describe("Filter for projects where current user is a member"),
   simple: z.boolean().optional().describe("Return only limited fields"),
@@ -625,7 +984,7 @@ export const ListProjectsSchema = z.object({
   with_issues_enabled: z.boolean().optional().describe("Filter projects with issues feature enabled"),
   with_merge_requests_enabled: z.boolean().optional().describe("Filter projects with merge requests feature enabled"),
   min_access_level: z.number().optional().describe("Filter by minimum access level"),
-});
+}).merge(PaginationOptionsSchema);
 
 // Label operation schemas
 export const ListLabelsSchema = z.object({
@@ -633,7 +992,7 @@ export const ListLabelsSchema = z.object({
   with_counts: z.boolean().optional().describe("Whether or not to include issue and merge request counts"),
   include_ancestor_groups: z.boolean().optional().describe("Include ancestor groups"),
   search: z.string().optional().describe("Keyword to filter labels by"),
-});
+}).merge(PaginationOptionsSchema);
 
 export const GetLabelSchema = z.object({
   project_id: z.string().describe("Project ID or URL-encoded path"),
@@ -663,8 +1022,131 @@ export const DeleteLabelSchema = z.object({
   label_id: z.union([z.number(), z.string()]).describe("The ID or title of a project's label"),
 });
 
+const GroupParamsSchema = z.object({
+  group_id: z.string().describe("Group ID or URL-encoded path"),
+});
+
+const GroupLabelIdSchema = z.object({
+  label_id: z.union([z.number(), z.string()]).describe("The ID or title of a group's label"),
+});
+
+export const ListGroupLabelsSchema = GroupParamsSchema.extend({
+  with_counts: z.boolean().optional().describe("Whether or not to include issue and merge request counts"),
+  include_ancestor_groups: z.boolean().optional().describe("Include ancestor groups"),
+  include_descendant_groups: z.boolean().optional().describe("Include descendant groups"),
+  only_group_labels: z.boolean().optional().describe("Only list group labels, not labels of its projects (default: true)"),
+  search: z.string().optional().describe("Keyword to filter labels by"),
+}).merge(PaginationOptionsSchema);
+
+export const GetGroupLabelSchema = GroupParamsSchema.merge(GroupLabelIdSchema).extend({
+  include_ancestor_groups: z.boolean().optional().describe("Include ancestor groups"),
+  include_descendant_groups: z.boolean().optional().describe("Include descendant groups"),
+});
+
+// Group labels have no priority
+export const CreateGroupLabelSchema = GroupParamsSchema.merge(CreateLabelSchema.omit({ project_id: true, priority: true }));
+
+export const UpdateGroupLabelSchema = GroupParamsSchema.merge(GroupLabelIdSchema).merge(
+  UpdateLabelSchema.omit({ project_id: true, label_id: true, priority: true })
+);
+
+export const DeleteGroupLabelSchema = GroupParamsSchema.merge(GroupLabelIdSchema);
+
+// Pipeline API operation schemas
+export const ListPipelinesSchema = z.object({
+  project_id: z.string().describe("Project ID or URL-encoded path"),
+  merge_request_iid: z.number().optional().describe("Only list pipelines of this merge request"),
+  scope: z.enum(["running", "pending", "finished", "branches", "tags"]).optional().describe("The scope of pipelines"),
+  status: z.enum(["created", "waiting_for_resource", "preparing", "pending", "running", "success", "failed", "canceled", "skipped", "manual", "scheduled"]).optional().describe("The status of pipelines"),
+  ref: z.string().optional().describe("The ref of pipelines"),
+  sha: z.string().optional().describe("The SHA of pipelines"),
+  source: z.string().optional().describe("The source of pipelines (push, web, merge_request_event, schedule, ...)"),
+  username: z.string().optional().describe("The username of the user who triggered pipelines"),
+  updated_after: z.string().optional().describe("Return pipelines updated after the given time"),
+  updated_before: z.string().optional().describe("Return pipelines updated before the given time"),
+  order_by: z.enum(["id", "status", "ref", "updated_at", "user_id"]).optional().describe("Order pipelines by field"),
+  sort: z.enum(["asc", "desc"]).optional().describe("Sort pipelines in asc or desc order"),
+}).merge(PaginationOptionsSchema);
+
+export const GetPipelineSchema = z.object({
+  project_id: z.string().describe("Project ID or URL-encoded path"),
+  pipeline_id: z.number().describe("The ID of the pipeline"),
+});
+
+export const ListPipelineJobsSchema = z.object({
+  project_id: z.string().describe("Project ID or URL-encoded path"),
+  pipeline_id: z.number().describe("The ID of the pipeline"),
+  scope: z.array(z.enum(["created", "pending", "running", "failed", "success", "canceled", "skipped", "waiting_for_resource", "manual"])).optional().describe("Job statuses to show"),
+  include_retried: z.boolean().optional().describe("Include retried jobs in the response"),
+}).merge(PaginationOptionsSchema);
+
+export const GetJobLogSchema = z.object({
+  project_id: z.string().describe("Project ID or URL-encoded path"),
+  job_id: z.number().describe("The ID of the job"),
+  tail_lines: z.number().optional().describe("Only return the last N lines of the log"),
+  offset: z.number().optional().describe("Byte offset to start reading the log from"),
+  limit: z.number().optional().describe("Maximum number of bytes to return (default: 65536)"),
+});
+
+export const RetryPipelineSchema = GetPipelineSchema;
+
+export const CancelPipelineSchema = GetPipelineSchema;
+
+export const CreatePipelineSchema = z.object({
+  project_id: z.string().describe("Project ID or URL-encoded path"),
+  ref: z.string().describe("The branch or tag to run the pipeline on"),
+  variables: z.array(z.object({
+    key: z.string().describe("Variable name"),
+    value: z.string().describe("Variable value"),
+    variable_type: z.enum(["env_var", "file"]).optional().describe("Variable type (default: env_var)"),
+  })).optional().describe("Variables available in the pipeline"),
+});
+
+// Policy configuration schemas
+export const PolicyRuleSchema = z.object({
+  effect: z.enum(["allow", "deny"]),
+  tools: z.array(z.string()).optional(), // Tool name globs, e.g. "delete_*"
+  projects: z.array(z.string()).optional(), // Project path globs, e.g. "team/**"
+  namespaces: z.array(z.string()).optional(), // Namespace paths, including subgroups
+});
+
+export const PolicyConfigSchema = z.object({
+  read_only: z.boolean().default(false),
+  rules: z.array(PolicyRuleSchema).default([]),
+  writable_projects: z.array(z.string()).optional(), // Project path globs mutating tools may target
+  writable_namespaces: z.array(z.string()).optional(), // Namespaces, including subgroups, mutating tools may target
+  block_direct_commits: z.boolean().default(false), // Reject commits to default and protected branches
+});
+
+// GitLab instance configuration
+export const GitLabOAuthConfigSchema = z.object({
+  client_id: z.string(), // Application ID of an OAuth application registered in GitLab
+  client_secret: z.string().optional(), // Only for confidential applications
+  flow: z.enum(["device", "authorization_code"]).default("device"),
+  scopes: z.string().default("api"), // Space-separated
+  redirect_port: z.number().default(7171), // Redirect URI is http://127.0.0.1:<port>/callback
+});
+
+export const GitLabInstanceConfigSchema = z.object({
+  api_url: z.string(), // Normalized to end in /api/v4
+  // Credentials, used in this order of preference
+  token: z.string().optional(), // Personal, project, group or OAuth access token
+  credential_command: z.string().optional(), // Prints a token, or git credential helper output
+  oauth: GitLabOAuthConfigSchema.optional(), // Log in with the `login` command
+  job_token: z.string().optional(), // CI_JOB_TOKEN, sent in the JOB-TOKEN header
+  ca_file: z.string().optional(), // PEM file with extra CA certificates to trust
+  tls_verify: z.boolean().default(true), // Set to false to accept any certificate
+});
+
+export const GitLabInstancesConfigSchema = z.object({
+  default: z.string().optional(), // Instance used by calls without an `instance` argument
+  instances: z.record(GitLabInstanceConfigSchema).default({}),
+});
+
 // Export types
 export type GitLabAuthor = z.infer<typeof GitLabAuthorSchema>;
+export type GitLabCurrentUser = z.infer<typeof GitLabCurrentUserSchema>;
+export type GitLabPersonalAccessToken = z.infer<typeof GitLabPersonalAccessTokenSchema>;
 export type GitLabFork = z.infer<typeof GitLabForkSchema>;
 export type GitLabIssue = z.infer<typeof GitLabIssueSchema>;
 export type GitLabIssueWithLinkDetails = z.infer<typeof GitLabIssueWithLinkDetailsSchema>;
@@ -673,9 +1155,13 @@ export type GitLabRepository = z.infer<typeof GitLabRepositorySchema>;
 export type GitLabFileContent = z.infer<typeof GitLabFileContentSchema>;
 export type GitLabDirectoryContent = z.infer<typeof GitLabDirectoryContentSchema>;
 export type GitLabContent = z.infer<typeof GitLabContentSchema>;
+export type GitLabFileMetadata = z.infer<typeof GitLabFileMetadataSchema>;
+export type FileAction = z.infer<typeof FileActionSchema>;
 export type FileOperation = z.infer<typeof FileOperationSchema>;
+export type GitLabTreeEntry = z.infer<typeof GitLabTreeEntrySchema>;
 export type GitLabTree = z.infer<typeof GitLabTreeSchema>;
 export type GitLabCommit = z.infer<typeof GitLabCommitSchema>;
+export type GitLabCompareResult = z.infer<typeof GitLabCompareResultSchema>;
 export type GitLabReference = z.infer<typeof GitLabReferenceSchema>;
 export type CreateRepositoryOptions = z.infer<typeof CreateRepositoryOptionsSchema>;
 export type CreateIssueOptions = z.infer<typeof CreateIssueOptionsSchema>;
@@ -683,10 +1169,34 @@ export type CreateMergeRequestOptions = z.infer<typeof CreateMergeRequestOptions
 export type CreateBranchOptions = z.infer<typeof CreateBranchOptionsSchema>;
 export type GitLabCreateUpdateFileResponse = z.infer<typeof GitLabCreateUpdateFileResponseSchema>;
 export type GitLabSearchResponse = z.infer<typeof GitLabSearchResponseSchema>;
+export type PaginationOptions = z.infer<typeof PaginationOptionsSchema>;
+
+// Envelope returned by every list operation
+export type PaginatedResponse<T> = {
+  items: T[];
+  total: number | null; // From x-total, not sent by GitLab for more than 10,000 results
+  next_page: number | null; // From x-next-page, not sent with keyset pagination
+  truncated: boolean; // More results exist than were returned
+};
 export type GitLabMergeRequestDiff = z.infer<typeof GitLabMergeRequestDiffSchema>;
+export type GitLabApprovalRule = z.infer<typeof GitLabApprovalRuleSchema>;
+export type GitLabMergeRequestApprovals = z.infer<typeof GitLabMergeRequestApprovalsSchema>;
+export type GitLabMergeRequestApprovalState = z.infer<typeof GitLabMergeRequestApprovalStateSchema>;
 export type CreateNoteOptions = z.infer<typeof CreateNoteSchema>;
 export type GitLabIssueLink = z.infer<typeof GitLabIssueLinkSchema>;
 export type GitLabNamespace = z.infer<typeof GitLabNamespaceSchema>;
 export type GitLabNamespaceExistsResponse = z.infer<typeof GitLabNamespaceExistsResponseSchema>;
 export type GitLabProject = z.infer<typeof GitLabProjectSchema>;
 export type GitLabLabel = z.infer<typeof GitLabLabelSchema>;
+export type GitLabDiffPosition = z.infer<typeof GitLabDiffPositionSchema>;
+export type GitLabNote = z.infer<typeof GitLabNoteSchema>;
+export type GitLabDiscussion = z.infer<typeof GitLabDiscussionSchema>;
+export type MergeRequestThreadPosition = z.infer<typeof MergeRequestThreadPositionSchema>;
+export type GitLabPipeline = z.infer<typeof GitLabPipelineSchema>;
+export type GitLabPipelineJob = z.infer<typeof GitLabPipelineJobSchema>;
+export type GitLabJobLog = z.infer<typeof GitLabJobLogSchema>;
+export type PolicyRule = z.infer<typeof PolicyRuleSchema>;
+export type PolicyConfig = z.infer<typeof PolicyConfigSchema>;
+export type GitLabOAuthConfig = z.infer<typeof GitLabOAuthConfigSchema>;
+export type GitLabInstanceConfig = z.infer<typeof GitLabInstanceConfigSchema>;
+export type GitLabInstancesConfig = z.infer<typeof GitLabInstancesConfigSchema>;
@@ -0,0 +1,185 @@
+import { randomUUID } from "node:crypto";
+import type { ServerResponse } from "node:http";
+import type { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
+import {
+  JSONRPCMessageSchema,
+  type JSONRPCMessage,
+  type RequestId,
+} from "@modelcontextprotocol/sdk/types.js";
+
+/**
+ * Settles the promise a POST request waits on for one response
+ */
+interface PendingResponse {
+  resolve: (message: JSONRPCMessage) => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * Server transport for the MCP streamable HTTP protocol
+ *
+ * The SDK version this server is pinned to only ships the SSE transport, so
+ * this implements the subset of streamable HTTP that a tools server needs:
+ * clients POST JSON-RPC messages and get the responses back as a single JSON
+ * body, and may open a GET event stream to receive server-initiated messages.
+ * Session ids are handed out by the HTTP layer via the Mcp-Session-Id header.
+ */
+export class StreamableHTTPServerTransport implements Transport {
+  readonly sessionId = randomUUID();
+  private pending = new Map<RequestId, PendingResponse>();
+  private eventStream?: ServerResponse;
+  private closed = false;
+
+  onclose?: () => void;
+  onerror?: (error: Error) => void;
+  onmessage?: (message: JSONRPCMessage) => void;
+
+  async start(): Promise<void> {
+    // Nothing to set up; messages arrive through handlePost
+  }
+
+  /**
+   * Handle the parsed body of a POST request
+   *
+   * Responds 202 when the body only holds notifications or responses, and
+   * otherwise waits for the response to every request it contains.
+   *
+   * @param {unknown} body - A JSON-RPC message or batch of messages
+   * @param {ServerResponse} res - The HTTP response to write to
+   */
+  async handlePost(body: unknown, res: ServerResponse): Promise<void> {
+    const batch = Array.isArray(body);
+    let messages: JSONRPCMessage[];
+    try {
+      messages = (batch ? body : [body]).map((message) =>
+        JSONRPCMessageSchema.parse(message)
+      );
+    } catch (error) {
+      this.onerror?.(error as Error);
+      writeJson(res, 400, {
+        jsonrpc: "2.0",
+        id: null,
+        error: { code: -32600, message: "Invalid JSON-RPC message" },
+      });
+      return;
+    }
+
+    const requestIds = messages
+      .filter((message) => "method" in message && "id" in message)
+      .map((message) => (message as { id: RequestId }).id);
+
+    const waiters = requestIds.map((id) => {
+      let pending!: PendingResponse;
+      const response = new Promise<JSONRPCMessage>((resolve, reject) => {
+        pending = { resolve, reject };
+      });
+      this.pending.set(id, pending);
+      return { id, pending, response };
+    });
+    if (waiters.length > 0) {
+      // Settle and drop the waiters if the client goes away before we answer
+      res.on("close", () => {
+        for (const { id, pending } of waiters) {
+          if (this.pending.get(id) === pending) {
+            this.pending.delete(id);
+            pending.reject(new Error("Client disconnected before the response was sent"));
+          }
+        }
+      });
+    }
+    for (const message of messages) {
+      this.onmessage?.(message);
+    }
+
+    if (waiters.length === 0) {
+      res.writeHead(202).end();
+      return;
+    }
+
+    let results: JSONRPCMessage[];
+    try {
+      results = await Promise.all(waiters.map(({ response }) => response));
+    } catch {
+      return;
+    }
+    if (!res.writableEnded) {
+      writeJson(res, 200, batch ? results : results[0], {
+        "Mcp-Session-Id": this.sessionId,
+      });
+    }
+  }
+
+  /**
+   * Open the event stream used for server-initiated requests and
+   * notifications. Only one stream is kept per session; a new one replaces
+   * the previous.
+   *
+   * @param {ServerResponse} res - The HTTP response to stream events to
+   */
+  handleEventStream(res: ServerResponse): void {
+    this.eventStream?.end();
+    res.writeHead(200, {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+      "Mcp-Session-Id": this.sessionId,
+    });
+    this.eventStream = res;
+    res.on("close", () => {
+      if (this.eventStream === res) {
+        this.eventStream = undefined;
+      }
+    });
+  }
+
+  async send(message: JSONRPCMessage): Promise<void> {
+    if ("id" in message && !("method" in message)) {
+      const pending = this.pending.get(message.id);
+      if (pending) {
+        this.pending.delete(message.id);
+        pending.resolve(message);
+      }
+      return;
+    }
+
+    // Server-initiated messages can only be delivered over an open stream
+    this.eventStream?.write(`event: message\ndata: ${JSON.stringify(message)}\n\n`);
+  }
+
+  async close(): Promise<void> {
+    if (this.closed) {
+      return;
+    }
+    this.closed = true;
+    this.eventStream?.end();
+    this.eventStream = undefined;
+    for (const [id, { resolve }] of this.pending) {
+      resolve({
+        jsonrpc: "2.0",
+        id,
+        error: { code: -32000, message: "Session closed" },
+      });
+    }
+    this.pending.clear();
+    this.onclose?.();
+  }
+}
+
+/**
+ * Write a JSON response
+ *
+ * @param {ServerResponse} res - The HTTP response
+ * @param {number} status - HTTP status code
+ * @param {unknown} body - Value to serialize
+ * @param {Record<string, string>} [headers] - Extra response headers
+ */
+export function writeJson(
+  res: ServerResponse,
+  status: number,
+  body: unknown,
+  headers: Record<string, string> = {}
+): void {
+  res
+    .writeHead(status, { "Content-Type": "application/json", ...headers })
+    .end(JSON.stringify(body));
+}
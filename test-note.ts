@@ -5,6 +5,7 @@
  */
 
 import fetch from "node-fetch";
+import { fileURLToPath } from "url";
 
 // GitLab API configuration (replace with actual values when testing)
 const GITLAB_API_URL = process.env.GITLAB_API_URL || "https://gitlab.com";
@@ -49,7 +50,7 @@ async function testCreateIssueNote() {
 }
 
 // Only run the test if executed directly
-if (require.main === module) {
+if (process.argv[1] === fileURLToPath(import.meta.url)) {
   console.log("Testing note creation with plural 'issues' endpoint...");
   testCreateIssueNote().then(success => {
     if (success) {
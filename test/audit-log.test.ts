@@ -0,0 +1,113 @@
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { after, before, beforeEach, describe, it } from "node:test";
+import { AuditLog, type AuditEntry } from "../audit-log.js";
+import { TOKEN } from "./fixtures.js";
+import { TestSession } from "./harness.js";
+
+const LOG = path.join(os.tmpdir(), `gitlab-mcp-audit-${process.pid}.jsonl`);
+
+let session: TestSession;
+
+before(async () => {
+  session = await TestSession.open({ GITLAB_AUDIT_LOG: LOG });
+});
+beforeEach(() => {
+  session.gitlab.reset();
+  fs.rmSync(LOG, { force: true });
+});
+after(async () => {
+  await session.close();
+  fs.rmSync(LOG, { force: true });
+  fs.rmSync(`${LOG}.1`, { force: true });
+});
+
+/**
+ * Entries written to the audit log so far
+ */
+function entries(file = LOG): AuditEntry[] {
+  return fs
+    .readFileSync(file, "utf8")
+    .split("\n")
+    .filter(Boolean)
+    .map((line) => JSON.parse(line));
+}
+
+describe("audit log", () => {
+  it("records a successful call", async () => {
+    await session.call("get_issue", { project_id: "5", issue_iid: 1 });
+
+    const [entry] = entries();
+    assert.equal(entry.tool, "get_issue");
+    assert.deepEqual(entry.client, { name: "test-client", version: "1.0.0" });
+    assert.equal(entry.project, "5");
+    assert.deepEqual(entry.arguments, { project_id: "5", issue_iid: 1 });
+    assert.equal(entry.dry_run, false);
+    assert.equal(entry.outcome, "success");
+    assert.equal(entry.http_status, 200);
+    assert.deepEqual(entry.objects, [{ id: 101, iid: 1, web_url: "https://gitlab.example.com/acme/app/-/issues/1" }]);
+    assert.deepEqual(entry.requests, [{ method: "GET", path: "/projects/5/issues/1", status: 200 }]);
+  });
+
+  it("records a failed call with its error code", async () => {
+    await session.callError("get_issue", { project_id: "5", issue_iid: 99 });
+
+    const [entry] = entries();
+    assert.equal(entry.outcome, "error");
+    assert.equal(entry.error_code, "not_found");
+    assert.equal(entry.http_status, 404);
+    assert.deepEqual(entry.objects, []);
+  });
+
+  it("redacts tokens and shortens long values", async () => {
+    await session.call("create_issue", {
+      project_id: "5",
+      title: "Leaked credentials",
+      description: `The token ${TOKEN} ended up in the logs. ${"x".repeat(600)}`,
+    });
+
+    const text = fs.readFileSync(LOG, "utf8");
+    assert.ok(!text.includes(TOKEN));
+    const description = String((entries()[0].arguments as { description: string }).description);
+    assert.match(description, /^The token \[REDACTED\] ended up in the logs\. x+\.\.\. \(\d+ chars\)$/);
+  });
+
+  it("marks a dry run", async () => {
+    await session.preview("update_issue", { project_id: "5", issue_iid: 1, title: "Renamed" });
+
+    const [entry] = entries();
+    assert.equal(entry.dry_run, true);
+    assert.ok(entry.requests.every((request) => request.method === "GET"));
+  });
+
+  it("rotates the file once it is full", () => {
+    const log = new AuditLog({ file: LOG, maxBytes: 600, maxFiles: 1 });
+    const entry: AuditEntry = {
+      timestamp: new Date(0).toISOString(),
+      tool: "get_issue",
+      arguments: { project_id: "5" },
+      dry_run: false,
+      outcome: "success",
+      duration_ms: 1,
+      objects: [],
+      requests: [],
+    };
+
+    // Three entries fit in 600 bytes
+    for (let index = 0; index < 7; index++) {
+      log.write({ ...entry, duration_ms: index });
+    }
+
+    assert.deepEqual(
+      entries(`${LOG}.1`).map((written) => written.duration_ms),
+      [3, 4, 5]
+    );
+    assert.deepEqual(
+      entries().map((written) => written.duration_ms),
+      [6]
+    );
+    assert.ok(!fs.existsSync(`${LOG}.2`));
+  });
+});
@@ -0,0 +1,116 @@
+import assert from "node:assert/strict";
+import { after, before, beforeEach, describe, it } from "node:test";
+import { ResponseCache } from "../cache.js";
+import { TokenCredentials } from "../credentials.js";
+import { GitLabClient } from "../gitlab-client.js";
+import { FakeGitLab } from "./fake-gitlab.js";
+import { TOKEN } from "./fixtures.js";
+
+let gitlab: FakeGitLab;
+let client: GitLabClient;
+
+before(async () => {
+  gitlab = await FakeGitLab.start();
+});
+beforeEach(() => {
+  gitlab.reset();
+  client = new GitLabClient({
+    apiUrl: gitlab.apiUrl,
+    credentials: new TokenCredentials(TOKEN),
+    cache: new ResponseCache({ ttls: { project: 300_000 } }),
+    maxRetries: 0,
+  });
+});
+after(() => gitlab.close());
+
+/**
+ * GET a path relative to /api/v4 and parse the JSON response
+ */
+async function get(path: string): Promise<any> {
+  const response = await client.fetch(`${gitlab.apiUrl}${path}`);
+  assert.equal(response.status, 200);
+  return response.json();
+}
+
+/**
+ * PUT a JSON body to a path relative to /api/v4
+ */
+async function put(path: string, body: unknown): Promise<void> {
+  const response = await client.fetch(`${gitlab.apiUrl}${path}`, { method: "PUT", body: JSON.stringify(body) });
+  assert.equal(response.status, 200);
+  await response.arrayBuffer();
+}
+
+/**
+ * GET requests the fake GitLab received for a path
+ */
+function gets(path: string) {
+  return gitlab.requests.filter((request) => request.method === "GET" && request.path === path);
+}
+
+describe("response cache", () => {
+  it("serves fresh responses without a request", async () => {
+    const first = await get("/projects/5");
+    const second = await get("/projects/5");
+
+    assert.deepEqual(second, first);
+    assert.equal(gets("/projects/5").length, 1);
+  });
+
+  it("revalidates stale responses with their ETag", async () => {
+    await get("/projects/5/issues/1");
+    const issue = await get("/projects/5/issues/1");
+
+    assert.equal(issue.title, "Crash on startup");
+    const [first, second] = gets("/projects/5/issues/1");
+    assert.equal(first.headers["if-none-match"], undefined);
+    assert.match(String(second.headers["if-none-match"]), /^W\/"[0-9a-f]{40}"$/);
+  });
+
+  it("fetches a changed response again", async () => {
+    await get("/projects/5/issues/1");
+    gitlab.data.issues[0].title = "Crash on first start";
+
+    const issue = await get("/projects/5/issues/1");
+
+    assert.equal(issue.title, "Crash on first start");
+  });
+
+  it("never revalidates responses addressed by commit SHA", async () => {
+    const path = "/projects/5/repository/files/README.md";
+    const sha = gitlab.data.branches.main;
+    await client.fetch(`${gitlab.apiUrl}${path}?ref=${sha}`);
+    const response = await client.fetch(`${gitlab.apiUrl}${path}?ref=${sha}`);
+
+    const file = (await response.json()) as { content: string };
+    assert.equal(Buffer.from(file.content, "base64").toString(), "# App\n");
+    assert.equal(gets(path).length, 1);
+  });
+
+  it("drops the project's responses after a write", async () => {
+    await get("/projects/5");
+    await put("/projects/5/issues/1", { title: "Crash on first start" });
+
+    await get("/projects/5");
+
+    assert.equal(gets("/projects/5").length, 2);
+  });
+
+  it("matches a write by ID to responses fetched by path", async () => {
+    await get("/projects/acme%2Fapp");
+    await put("/projects/5/issues/1", { title: "Crash on first start" });
+
+    await get("/projects/acme%2Fapp");
+
+    assert.equal(gets("/projects/acme%2Fapp").length, 2);
+  });
+
+  it("keeps the responses of other projects", async () => {
+    await get("/projects/6");
+    await put("/projects/5/issues/1", { title: "Crash on first start" });
+
+    await get("/projects/6");
+
+    assert.equal(gets("/projects/6").length, 1);
+  });
+});
@@ -0,0 +1,162 @@
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { after, before, beforeEach, describe, it } from "node:test";
+import { Response } from "node-fetch";
+import { Cassette, type CassetteInteraction } from "../cassette.js";
+import { TokenCredentials } from "../credentials.js";
+import { CassetteMismatchError } from "../errors.js";
+import { GitLabClient } from "../gitlab-client.js";
+import { TOKEN } from "./fixtures.js";
+import { TestSession } from "./harness.js";
+
+const CASSETTE = path.join(os.tmpdir(), `gitlab-mcp-cassette-${process.pid}.jsonl`);
+
+let session: TestSession;
+
+before(async () => {
+  session = await TestSession.open({ GITLAB_CASSETTE: CASSETTE, GITLAB_CASSETTE_MODE: "record" });
+});
+beforeEach(() => {
+  session.gitlab.reset();
+  fs.writeFileSync(CASSETTE, "");
+});
+after(async () => {
+  await session.close();
+  fs.rmSync(CASSETTE, { force: true });
+});
+
+function readCassette(file = CASSETTE): CassetteInteraction[] {
+  return fs
+    .readFileSync(file, "utf8")
+    .split("\n")
+    .filter(Boolean)
+    .map((line) => JSON.parse(line));
+}
+
+/**
+ * Client serving responses from a cassette, with a token other than the recorded one
+ */
+function replayClient(file = CASSETTE): GitLabClient {
+  return new GitLabClient({
+    apiUrl: session.gitlab.apiUrl,
+    credentials: new TokenCredentials("glpat-another-token"),
+    cassette: new Cassette({ file, mode: "replay" }),
+    maxRetries: 0,
+  });
+}
+
+describe("recording", () => {
+  it("records every request with its response", async () => {
+    await session.call("get_file_contents", { project_id: "acme/app", file_path: "README.md", ref: "main" });
+
+    const interactions = readCassette();
+    assert.deepEqual(
+      interactions.map((interaction) => `${interaction.request.method} ${new URL(interaction.request.url).pathname}`),
+      session.gitlab.requests.map((request) => `${request.method} /api/v4${request.path}`)
+    );
+    const file = interactions.find(
+      (interaction) => interaction.request.method === "GET" && interaction.request.url.includes("README.md")
+    );
+    assert.equal(file?.response.status, 200);
+    assert.equal(JSON.parse(file?.response.body ?? "").file_path, "README.md");
+  });
+
+  it("scrubs tokens and email addresses", async () => {
+    await session.call("push_files", {
+      project_id: "5",
+      branch: "main",
+      commit_message: "Add config",
+      files: [{ file_path: "config.json", content: `{"deploy_token": "${TOKEN}", "owner": "bob@example.org"}` }],
+    });
+
+    const text = fs.readFileSync(CASSETTE, "utf8");
+    assert.ok(text.length > 0);
+    assert.ok(!text.includes(TOKEN));
+    assert.ok(!text.includes("alice@example.com"));
+    assert.ok(!text.includes("bob@example.org"));
+    assert.match(text, /redacted@example\.com/);
+  });
+
+  it("stores binary bodies as base64", async () => {
+    const file = `${CASSETTE}.binary`;
+    const url = `${session.gitlab.apiUrl}/projects/5/repository/blobs/abc/raw`;
+    const png = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0x00, 0xff]);
+    try {
+      const recorder = new Cassette({ file, mode: "record" });
+      await recorder.record("GET", url, undefined, new Response(png, { headers: { "content-type": "image/png" } }));
+
+      assert.equal(readCassette(file)[0].response.encoding, "base64");
+      const response = await replayClient(file).fetch(url);
+      assert.deepEqual(Buffer.from(await response.arrayBuffer()), png);
+    } finally {
+      fs.rmSync(file, { force: true });
+    }
+  });
+});
+
+describe("replay", () => {
+  it("serves recorded responses without contacting GitLab", async () => {
+    await session.call("get_project", { project_id: "acme/app" });
+    const [recorded] = readCassette();
+    const requests = session.gitlab.requests.length;
+
+    const response = await replayClient().fetch(recorded.request.url);
+
+    assert.equal(response.status, 200);
+    assert.equal(((await response.json()) as { id: number }).id, 5);
+    assert.equal(session.gitlab.requests.length, requests);
+  });
+
+  it("replays error responses", async () => {
+    await session.callError("get_project", { project_id: "acme/missing" });
+    const [recorded] = readCassette();
+
+    const response = await replayClient().fetch(recorded.request.url);
+
+    assert.equal(response.status, 404);
+  });
+
+  it("fails on a request it has no response to", async () => {
+    await session.call("get_project", { project_id: "acme/app" });
+
+    await assert.rejects(
+      replayClient().fetch(`${session.gitlab.apiUrl}/projects/6`),
+      (error) => error instanceof CassetteMismatchError && /has no recorded response to GET/.test(error.message)
+    );
+  });
+
+  it("matches writes by their body", async () => {
+    await session.call("create_issue", { project_id: "5", title: "Recorded" });
+    const [recorded] = readCassette();
+    const client = replayClient();
+
+    await assert.rejects(
+      client.fetch(recorded.request.url, { method: "POST", body: JSON.stringify({ title: "Other" }) }),
+      CassetteMismatchError
+    );
+    const response = await client.fetch(recorded.request.url, { method: "POST", body: recorded.request.body });
+    assert.equal(response.status, 201);
+    await assert.rejects(
+      client.fetch(recorded.request.url, { method: "POST", body: recorded.request.body }),
+      /has no more recorded responses/
+    );
+  });
+
+  it("serves repeated reads in recorded order, then the last one again", async () => {
+    session.gitlab.data.mergeRequests[0].rebase_polls = 1;
+    await session.call("rebase_merge_request", { project_id: "5", merge_request_iid: 1 });
+    const polls = readCassette().filter((interaction) => interaction.request.url.includes("include_rebase_in_progress"));
+    assert.equal(polls.length, 2);
+    const client = replayClient();
+
+    const states = [];
+    for (let attempt = 0; attempt < 3; attempt++) {
+      const response = await client.fetch(polls[0].request.url);
+      states.push(((await response.json()) as { rebase_in_progress: boolean }).rebase_in_progress);
+    }
+
+    assert.deepEqual(states, [true, false, false]);
+  });
+});
@@ -0,0 +1,71 @@
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, describe, it } from "node:test";
+import { CommandCredentials } from "../credentials.js";
+
+const API_URL = "https://gitlab.example.com/gitlab/api/v4";
+const OUTPUT = path.join(os.tmpdir(), `gitlab-mcp-credentials-${process.pid}.txt`);
+
+afterEach(() => {
+  fs.rmSync(OUTPUT, { force: true });
+});
+
+describe("CommandCredentials", () => {
+  it("uses the token the command prints", async () => {
+    const credentials = new CommandCredentials("echo glpat-from-command", API_URL);
+
+    assert.deepEqual(await credentials.headers(), { Authorization: "Bearer glpat-from-command" });
+  });
+
+  it("speaks the git credential protocol", async () => {
+    const credentials = new CommandCredentials(
+      `cat > ${OUTPUT}; printf 'username=alice\\npassword=glpat-from-helper\\n'`,
+      API_URL
+    );
+
+    assert.deepEqual(await credentials.headers(), { Authorization: "Bearer glpat-from-helper" });
+    assert.equal(
+      fs.readFileSync(OUTPUT, "utf8"),
+      "protocol=https\nhost=gitlab.example.com\npath=gitlab\n\n"
+    );
+  });
+
+  it("runs the command again once GitLab rejects the token", async () => {
+    // Prints token-1, token-2, ... on successive runs
+    const credentials = new CommandCredentials(
+      `echo run >> ${OUTPUT}; echo token-$(wc -l < ${OUTPUT} | tr -d ' ')`,
+      API_URL
+    );
+
+    await credentials.headers();
+    assert.deepEqual(await credentials.headers(), { Authorization: "Bearer token-1" });
+    assert.equal(await credentials.refresh(), true);
+    assert.deepEqual(await credentials.headers(), { Authorization: "Bearer token-2" });
+  });
+
+  it("runs the command again once the token expired", async () => {
+    const credentials = new CommandCredentials(
+      `echo run >> ${OUTPUT}; printf 'password=token-%s\\npassword_expiry_utc=1\\n' $(wc -l < ${OUTPUT} | tr -d ' ')`,
+      API_URL
+    );
+
+    // Every token has long expired by the time it is used, so each call runs the command again
+    assert.deepEqual(await credentials.headers(), { Authorization: "Bearer token-2" });
+    assert.deepEqual(await credentials.headers(), { Authorization: "Bearer token-3" });
+  });
+
+  it("reports a failing command", async () => {
+    await assert.rejects(new CommandCredentials("exit 3", API_URL).headers(), {
+      name: "CredentialsError",
+      message: "Credential command exited with status 3",
+    });
+  });
+
+  it("reports a command that prints no token", async () => {
+    await assert.rejects(new CommandCredentials("printf 'username=alice\\n'", API_URL).headers(), {
+      message: "Credential command did not print a token",
+    });
+  });
+});
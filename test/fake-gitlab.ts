@@ -0,0 +1,1439 @@
+import { createHash } from "node:crypto";
+import http from "node:http";
+import type { AddressInfo } from "node:net";
+import { TOKEN, WEB_URL, createFixtures, type Fixtures } from "./fixtures.js";
+
+/**
+ * A request the fake GitLab received
+ */
+export interface RecordedRequest {
+  method: string;
+  path: string; // Relative to /api/v4, still URL-encoded
+  query: Record<string, string>;
+  headers: http.IncomingHttpHeaders;
+  body?: any;
+}
+
+/**
+ * A request as seen by a route handler
+ */
+interface FakeRequest {
+  method: string;
+  url: URL;
+  params: Record<string, string>; // Decoded path parameters
+  query: URLSearchParams;
+  headers: http.IncomingHttpHeaders;
+  body: any;
+}
+
+/**
+ * What a route handler answers with
+ */
+interface FakeResponse {
+  status?: number; // Default 200
+  body?: unknown; // Sent as JSON, or as-is if a string or Buffer
+  headers?: Record<string, string>;
+}
+
+type Handler = (request: FakeRequest) => FakeResponse;
+
+/**
+ * Error thrown by handlers to answer like GitLab does
+ */
+class HttpError extends Error {
+  constructor(
+    readonly status: number,
+    readonly body: unknown
+  ) {
+    super(`HTTP ${status}`);
+  }
+}
+
+function notFound(what: string): HttpError {
+  return new HttpError(404, { message: `404 ${what} Not Found` });
+}
+
+function badRequest(message: unknown): HttpError {
+  return new HttpError(400, { message });
+}
+
+function sha1(value: string | Buffer): string {
+  return createHash("sha1").update(value).digest("hex");
+}
+
+/**
+ * Whether a path pattern like `/projects/:project/issues/:iid` matches a
+ * URL-encoded path, and the decoded values of its parameters
+ */
+function matchPath(pattern: string, path: string): Record<string, string> | null {
+  const patternSegments = pattern.split("/");
+  const segments = path.split("/");
+  if (patternSegments.length !== segments.length) {
+    return null;
+  }
+  const params: Record<string, string> = {};
+  for (const [index, segment] of patternSegments.entries()) {
+    if (segment.startsWith(":")) {
+      params[segment.slice(1)] = decodeURIComponent(segments[index]);
+    } else if (segment !== segments[index]) {
+      return null;
+    }
+  }
+  return params;
+}
+
+/**
+ * In-process stand-in for the GitLab REST API
+ *
+ * Serves the data from fixtures.ts over HTTP on a random local port and
+ * applies writes to it, answering errors the way GitLab does. Requests are
+ * recorded so tests can check what the server sent, and `fail` makes the
+ * next matching request fail.
+ */
+export class FakeGitLab {
+  readonly requests: RecordedRequest[] = [];
+  data: Fixtures = createFixtures();
+  private readonly routes: { method: string; pattern: string; handler: Handler }[] = [];
+  private failures: { method: string; pattern: string; status: number; body: unknown }[] = [];
+  private commits = 0;
+  /**
+   * Whether job traces honour the Range header; GitLab itself answers 200 with the whole log
+   */
+  honoursRange = true;
+
+  private constructor(private readonly server: http.Server) {
+    this.defineRoutes();
+  }
+
+  /**
+   * Start a fake GitLab on a random local port
+   */
+  static async start(): Promise<FakeGitLab> {
+    const server = http.createServer();
+    const gitlab = new FakeGitLab(server);
+    server.on("request", (request, response) => gitlab.handle(request, response));
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    return gitlab;
+  }
+
+  /**
+   * Base URL of the API, ending in /api/v4
+   */
+  get apiUrl(): string {
+    const { port } = this.server.address() as AddressInfo;
+    return `http://127.0.0.1:${port}/api/v4`;
+  }
+
+  /**
+   * Restore the fixtures and forget recorded requests and pending failures
+   */
+  reset(): void {
+    this.data = createFixtures();
+    this.requests.length = 0;
+    this.failures = [];
+    this.honoursRange = true;
+  }
+
+  /**
+   * Make the next request matching a method and path pattern fail
+   *
+   * @param {string} method - HTTP method
+   * @param {string} pattern - Path relative to /api/v4, with `:name` placeholders
+   * @param {number} status - Status to answer with
+   * @param {unknown} [body] - Body to answer with, by default a GitLab-style message
+   */
+  fail(method: string, pattern: string, status: number, body?: unknown): void {
+    this.failures.push({ method, pattern, status, body: body ?? { message: `${status} Injected failure` } });
+  }
+
+  /**
+   * Recorded requests other than the token lookups every session makes
+   */
+  requestsTo(method?: string): RecordedRequest[] {
+    return this.requests.filter(
+      (request) =>
+        (method === undefined || request.method === method) &&
+        request.path !== "/user" &&
+        request.path !== "/personal_access_tokens/self"
+    );
+  }
+
+  async close(): Promise<void> {
+    this.server.closeAllConnections();
+    await new Promise((resolve) => this.server.close(resolve));
+  }
+
+  private async handle(request: http.IncomingMessage, response: http.ServerResponse): Promise<void> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of request) {
+      chunks.push(chunk as Buffer);
+    }
+    const rawBody = Buffer.concat(chunks).toString("utf8");
+    const url = new URL(request.url ?? "/", `http://${request.headers.host}`);
+    const path = url.pathname.replace(/^\/api\/v4(?=\/)/, "");
+    const method = request.method ?? "GET";
+    let body: any;
+    try {
+      body = rawBody ? JSON.parse(rawBody) : undefined;
+    } catch {
+      body = rawBody;
+    }
+    this.requests.push({
+      method,
+      path,
+      query: Object.fromEntries(url.searchParams),
+      headers: request.headers,
+      body,
+    });
+
+    let result: FakeResponse;
+    try {
+      result = this.route(method, path, url, body, request.headers);
+    } catch (error) {
+      if (!(error instanceof HttpError)) {
+        throw error;
+      }
+      result = { status: error.status, body: error.body };
+    }
+
+    const raw = typeof result.body === "string" || Buffer.isBuffer(result.body);
+    const text = result.body === undefined ? "" : raw ? (result.body as string | Buffer) : JSON.stringify(result.body);
+    // Lets clients revalidate what they cached with If-None-Match
+    const etag = method === "GET" && (result.status ?? 200) === 200 ? `W/"${sha1(text)}"` : undefined;
+    if (etag && request.headers["if-none-match"] === etag) {
+      response.writeHead(304, { etag });
+      response.end();
+      return;
+    }
+    response.writeHead(result.status ?? 200, {
+      "content-type": raw ? "text/plain" : "application/json",
+      ...(etag ? { etag } : {}),
+      ...result.headers,
+    });
+    response.end(method === "HEAD" ? undefined : text);
+  }
+
+  private route(
+    method: string,
+    path: string,
+    url: URL,
+    body: any,
+    headers: http.IncomingHttpHeaders
+  ): FakeResponse {
+    if (headers.authorization !== `Bearer ${TOKEN}`) {
+      throw new HttpError(401, { message: "401 Unauthorized" });
+    }
+
+    const failure = this.failures.findIndex(
+      (failure) => failure.method === method && matchPath(failure.pattern, path)
+    );
+    if (failure !== -1) {
+      const [{ status, body }] = this.failures.splice(failure, 1);
+      throw new HttpError(status, body);
+    }
+
+    for (const route of this.routes) {
+      const params = route.method === method ? matchPath(route.pattern, path) : null;
+      if (params) {
+        return route.handler({ method, url, params, query: url.searchParams, headers, body: body ?? {} });
+      }
+    }
+    throw new HttpError(404, { error: "404 Not Found" });
+  }
+
+  private on(method: string, pattern: string, handler: Handler): void {
+    this.routes.push({ method, pattern, handler });
+  }
+
+  private defineRoutes(): void {
+    this.on("GET", "/user", () => ({ body: this.data.user }));
+    this.on("GET", "/personal_access_tokens/self", () => ({ body: this.data.token }));
+
+    this.defineProjectRoutes();
+    this.defineRepositoryRoutes();
+    this.defineIssueRoutes();
+    this.defineMergeRequestRoutes();
+    this.defineNamespaceRoutes();
+    this.defineLabelRoutes();
+    this.defineGroupRoutes();
+    this.definePipelineRoutes();
+  }
+
+  private defineProjectRoutes(): void {
+    this.on("GET", "/projects", (request) => {
+      const search = request.query.get("search")?.toLowerCase();
+      let projects = this.data.projects.filter(
+        (project) => !search || project.name.includes(search) || project.path_with_namespace.includes(search)
+      );
+      if (request.query.get("sort") === "desc") {
+        projects = [...projects].reverse();
+      }
+      return paginated(request, projects);
+    });
+
+    this.on("POST", "/projects", (request) => {
+      const namespace = this.data.namespaces.find((namespace) => namespace.kind === "user")!;
+      const path = request.body.path ?? request.body.name;
+      if (this.data.projects.some((project) => project.path_with_namespace === `${namespace.full_path}/${path}`)) {
+        throw badRequest({ name: ["has already been taken"], path: ["has already been taken"] });
+      }
+      const project = {
+        ...structuredClone(this.data.projects[0]),
+        id: Math.max(...this.data.projects.map((project) => project.id)) + 1,
+        name: request.body.name,
+        path,
+        path_with_namespace: `${namespace.full_path}/${path}`,
+        description: request.body.description ?? null,
+        visibility: request.body.visibility ?? "private",
+        web_url: `${WEB_URL}/${namespace.full_path}/${path}`,
+        default_branch: request.body.default_branch ?? "main",
+        namespace: { id: namespace.id, name: namespace.name, path: namespace.path, kind: namespace.kind, full_path: namespace.full_path },
+        permissions: { project_access: { access_level: 50 }, group_access: null },
+      };
+      this.data.projects.push(project);
+      return { status: 201, body: project };
+    });
+
+    this.on("GET", "/projects/:project", (request) => ({ body: this.project(request) }));
+
+    this.on("POST", "/projects/:project/fork", (request) => {
+      const source = this.project(request);
+      const namespacePath = request.query.get("namespace") ?? this.data.user.username;
+      const namespace = this.data.namespaces.find((namespace) => namespace.full_path === namespacePath);
+      if (!namespace) {
+        throw notFound("Target Namespace");
+      }
+      const pathWithNamespace = `${namespace.full_path}/${source.path}`;
+      if (this.data.projects.some((project) => project.path_with_namespace === pathWithNamespace)) {
+        throw new HttpError(409, { message: { name: ["has already been taken"], path: ["has already been taken"] } });
+      }
+      const fork = {
+        ...structuredClone(source),
+        id: Math.max(...this.data.projects.map((project) => project.id)) + 1,
+        path_with_namespace: pathWithNamespace,
+        web_url: `${WEB_URL}/${pathWithNamespace}`,
+        namespace: { id: namespace.id, name: namespace.name, path: namespace.path, kind: namespace.kind, full_path: namespace.full_path },
+      };
+      this.data.projects.push(fork);
+      return {
+        status: 201,
+        body: {
+          ...fork,
+          forked_from_project: { name: source.name, path_with_namespace: source.path_with_namespace, web_url: source.web_url },
+        },
+      };
+    });
+  }
+
+  private defineRepositoryRoutes(): void {
+    this.on("GET", "/projects/:project/repository/branches/:branch", (request) => {
+      this.project(request);
+      const sha = this.data.branches[request.params.branch];
+      if (!sha) {
+        throw notFound("Branch");
+      }
+      return { body: this.branch(request.params.branch) };
+    });
+
+    this.on("POST", "/projects/:project/repository/branches", (request) => {
+      this.project(request);
+      const { branch, ref } = request.body;
+      if (this.data.branches[branch]) {
+        throw badRequest("Branch already exists");
+      }
+      const source = this.refToBranch(ref);
+      if (!source) {
+        throw badRequest("Invalid reference name");
+      }
+      this.data.branches[branch] = this.data.branches[source];
+      this.data.files[branch] = { ...this.data.files[source] };
+      return { status: 201, body: this.branch(branch) };
+    });
+
+    this.on("HEAD", "/projects/:project/repository/files/:file", (request) => {
+      const { ref, content } = this.file(request);
+      const executable = request.params.file.startsWith("bin/");
+      return {
+        headers: {
+          "x-gitlab-file-name": request.params.file.split("/").pop()!,
+          "x-gitlab-file-path": request.params.file,
+          "x-gitlab-size": String(content.length),
+          "x-gitlab-encoding": "base64",
+          "x-gitlab-content-sha256": createHash("sha256").update(content).digest("hex"),
+          "x-gitlab-ref": ref,
+          "x-gitlab-blob-id": sha1(content),
+          "x-gitlab-commit-id": this.data.branches[this.refToBranch(ref)!],
+          "x-gitlab-last-commit-id": this.data.branches[this.refToBranch(ref)!],
+          "x-gitlab-execute-filemode": String(executable),
+        },
+      };
+    });
+
+    this.on("GET", "/projects/:project/repository/files/:file", (request) => {
+      const { ref, content } = this.file(request);
+      const commitId = this.data.branches[this.refToBranch(ref)!];
+      return {
+        body: {
+          file_name: request.params.file.split("/").pop(),
+          file_path: request.params.file,
+          size: content.length,
+          encoding: "base64",
+          content: content.toString("base64"),
+          content_sha256: createHash("sha256").update(content).digest("hex"),
+          ref,
+          blob_id: sha1(content),
+          commit_id: commitId,
+          last_commit_id: commitId,
+          execute_filemode: false,
+        },
+      };
+    });
+
+    this.on("GET", "/projects/:project/repository/files/:file/raw", (request) => ({
+      body: this.file(request).content.toString("utf8"),
+    }));
+
+    this.on("POST", "/projects/:project/repository/files/:file", (request) => {
+      const files = this.writableFiles(request.body.branch);
+      if (files[request.params.file]) {
+        throw badRequest("A file with this name already exists");
+      }
+      files[request.params.file] = decode(request.body.content, request.body.encoding);
+      this.commit(request.body.branch, files);
+      return { status: 201, body: { file_path: request.params.file, branch: request.body.branch } };
+    });
+
+    this.on("PUT", "/projects/:project/repository/files/:file", (request) => {
+      const files = this.writableFiles(request.body.branch);
+      if (!files[request.params.file]) {
+        throw badRequest("A file with this name doesn't exist");
+      }
+      if (request.body.last_commit_id && request.body.last_commit_id !== this.data.branches[request.body.branch]) {
+        throw badRequest("You are attempting to update a file that has changed since you started editing it.");
+      }
+      files[request.params.file] = decode(request.body.content, request.body.encoding);
+      this.commit(request.body.branch, files);
+      return { body: { file_path: request.params.file, branch: request.body.branch } };
+    });
+
+    this.on("GET", "/projects/:project/repository/tree", (request) => {
+      this.project(request);
+      const branch = this.refToBranch(request.query.get("ref") ?? "main");
+      const base = request.query.get("path")?.replace(/\/+$/, "") ?? "";
+      if (!branch) {
+        throw notFound("Tree");
+      }
+      const recursive = request.query.get("recursive") === "true";
+      const prefix = base ? `${base}/` : "";
+      const entries = new Map<string, { id: string; name: string; type: "tree" | "blob"; path: string; mode: string }>();
+      for (const path of Object.keys(this.data.files[branch]).sort()) {
+        if (!path.startsWith(prefix)) {
+          continue;
+        }
+        const segments = path.slice(prefix.length).split("/");
+        const depth = recursive ? segments.length : 1;
+        for (let index = 0; index < depth; index++) {
+          const entryPath = prefix + segments.slice(0, index + 1).join("/");
+          const type = index === segments.length - 1 ? "blob" : "tree";
+          entries.set(entryPath, {
+            id: sha1(entryPath),
+            name: segments[index],
+            type,
+            path: entryPath,
+            mode: type === "tree" ? "040000" : "100644",
+          });
+        }
+      }
+      if (entries.size === 0) {
+        throw notFound("Tree");
+      }
+      // Directories first, like GitLab
+      return paginated(
+        request,
+        [...entries.values()].sort((a, b) => (a.type === b.type ? a.path.localeCompare(b.path) : a.type === "tree" ? -1 : 1))
+      );
+    });
+
+    this.on("GET", "/projects/:project/repository/compare", (request) => {
+      this.project(request);
+      const sha = (ref: string | null) => (ref && this.data.branches[ref]) ?? ref;
+      const from = sha(request.query.get("from"));
+      const commits = [];
+      // Walk first parents back from `to` until `from` is reached
+      let commit = this.data.commits.find((commit) => commit.id === sha(request.query.get("to")));
+      while (commit && commit.id !== from) {
+        commits.unshift(commit);
+        commit = this.data.commits.find((parent) => parent.id === commit!.parent_ids[0]);
+      }
+      return { body: { commits, compare_timeout: false } };
+    });
+
+    this.on("POST", "/projects/:project/repository/commits", (request) => {
+      this.project(request);
+      const { branch, start_branch, start_sha, commit_message, actions } = request.body;
+      const startBranch = this.data.branches[branch]
+        ? branch
+        : start_branch ?? (start_sha ? this.refToBranch(start_sha) : undefined);
+      if (!startBranch || !this.data.branches[startBranch]) {
+        throw badRequest("You can only create or edit files when you are on a branch");
+      }
+      const files = { ...this.data.files[startBranch] };
+      for (const action of actions as any[]) {
+        const exists = files[action.file_path] !== undefined;
+        if (action.action === "create" && exists) {
+          throw badRequest(`A file with this name already exists`);
+        }
+        if (["update", "delete", "chmod"].includes(action.action) && !exists) {
+          throw badRequest(`A file with this name doesn't exist`);
+        }
+        if (action.action === "move") {
+          if (!files[action.previous_path]) {
+            throw badRequest(`A file with this name doesn't exist`);
+          }
+          files[action.file_path] =
+            action.content !== undefined ? decode(action.content, action.encoding) : files[action.previous_path];
+          delete files[action.previous_path];
+        } else if (action.action === "delete") {
+          delete files[action.file_path];
+        } else if (action.action !== "chmod") {
+          files[action.file_path] = decode(action.content, action.encoding);
+        }
+      }
+      const parent = this.data.branches[startBranch];
+      const sha = this.commit(branch, files);
+      return {
+        status: 201,
+        body: {
+          id: sha,
+          short_id: sha.slice(0, 8),
+          title: String(commit_message).split("\n")[0],
+          author_name: this.data.user.name,
+          author_email: "alice@example.com",
+          authored_date: "2025-01-03T09:00:00.000Z",
+          committer_name: this.data.user.name,
+          committer_email: "alice@example.com",
+          committed_date: "2025-01-03T09:00:00.000Z",
+          web_url: `${WEB_URL}/acme/app/-/commit/${sha}`,
+          parent_ids: [parent],
+        },
+      };
+    });
+  }
+
+  private defineIssueRoutes(): void {
+    this.on("GET", "/projects/:project/issues", (request) => {
+      this.project(request);
+      const state = request.query.get("state");
+      const search = request.query.get("search")?.toLowerCase();
+      const labels = request.query.get("labels")?.split(",");
+      return paginated(
+        request,
+        this.data.issues.filter(
+          (issue) =>
+            (!state || state === "all" || issue.state === state) &&
+            (!search || issue.title.toLowerCase().includes(search)) &&
+            (!labels || labels.every((label) => issue.labels.includes(label)))
+        )
+      );
+    });
+
+    this.on("POST", "/projects/:project/issues", (request) => {
+      this.project(request);
+      if (!request.body.title) {
+        throw badRequest({ title: ["can't be blank"] });
+      }
+      const iid = Math.max(0, ...this.data.issues.map((issue) => issue.iid)) + 1;
+      const issue = {
+        ...structuredClone(this.data.issues[0]),
+        id: 100 + iid,
+        iid,
+        title: request.body.title,
+        description: request.body.description ?? "",
+        labels: request.body.labels ? String(request.body.labels).split(",") : [],
+        assignees: [],
+        web_url: `${WEB_URL}/acme/app/-/issues/${iid}`,
+      };
+      this.data.issues.push(issue);
+      return { status: 201, body: issue };
+    });
+
+    this.on("GET", "/projects/:project/issues/:iid", (request) => ({ body: this.issue(request) }));
+
+    this.on("PUT", "/projects/:project/issues/:iid", (request) => {
+      const issue = this.issue(request);
+      const { labels, state_event, assignee_ids, milestone_id, ...fields } = request.body;
+      Object.assign(issue, fields);
+      if (labels !== undefined) {
+        issue.labels = labels ? String(labels).split(",") : [];
+      }
+      if (state_event === "close") {
+        issue.state = "closed";
+        issue.closed_at = "2025-01-03T09:00:00.000Z";
+      } else if (state_event === "reopen") {
+        issue.state = "opened";
+        issue.closed_at = null;
+      }
+      return { body: issue };
+    });
+
+    this.on("DELETE", "/projects/:project/issues/:iid", (request) => {
+      const issue = this.issue(request);
+      this.data.issues.splice(this.data.issues.indexOf(issue), 1);
+      return { status: 204 };
+    });
+
+    this.on("GET", "/projects/:project/issues/:iid/links", (request) => {
+      const issue = this.issue(request);
+      return {
+        body: this.data.issueLinks
+          .filter((link) => link.source_iid === issue.iid || link.target_iid === issue.iid)
+          .map((link) => ({
+            ...this.issueByIid(link.source_iid === issue.iid ? link.target_iid : link.source_iid),
+            issue_link_id: link.id,
+            link_type: link.link_type,
+            link_created_at: link.created_at,
+            link_updated_at: link.updated_at,
+          })),
+      };
+    });
+
+    this.on("POST", "/projects/:project/issues/:iid/links", (request) => {
+      const issue = this.issue(request);
+      this.project(request, String(request.body.target_project_id));
+      const target = this.issueByIid(Number(request.body.target_issue_iid));
+      if (
+        this.data.issueLinks.some(
+          (link) =>
+            (link.source_iid === issue.iid && link.target_iid === target.iid) ||
+            (link.source_iid === target.iid && link.target_iid === issue.iid)
+        )
+      ) {
+        throw new HttpError(409, { message: "Issue(s) already assigned" });
+      }
+      const link = {
+        id: Math.max(0, ...this.data.issueLinks.map((link) => link.id)) + 1,
+        source_iid: issue.iid,
+        target_iid: target.iid,
+        link_type: request.body.link_type ?? "relates_to",
+        created_at: "2025-01-03T09:00:00.000Z",
+        updated_at: "2025-01-03T09:00:00.000Z",
+      };
+      this.data.issueLinks.push(link);
+      return { status: 201, body: { source_issue: issue, target_issue: target, link_type: link.link_type } };
+    });
+
+    this.on("GET", "/projects/:project/issues/:iid/links/:link", (request) => {
+      const link = this.issueLink(request);
+      return {
+        body: {
+          source_issue: this.issueByIid(link.source_iid),
+          target_issue: this.issueByIid(link.target_iid),
+          link_type: link.link_type,
+        },
+      };
+    });
+
+    this.on("DELETE", "/projects/:project/issues/:iid/links/:link", (request) => {
+      const link = this.issueLink(request);
+      this.data.issueLinks.splice(this.data.issueLinks.indexOf(link), 1);
+      return {
+        body: {
+          source_issue: this.issueByIid(link.source_iid),
+          target_issue: this.issueByIid(link.target_iid),
+          link_type: link.link_type,
+        },
+      };
+    });
+
+    this.on("POST", "/projects/:project/issues/:iid/notes", (request) => {
+      const issue = this.issue(request);
+      return this.createNote(request, issue.id, issue.iid, "Issue");
+    });
+  }
+
+  private defineMergeRequestRoutes(): void {
+    this.on("POST", "/projects/:project/merge_requests", (request) => {
+      this.project(request);
+      const { title, description, source_branch, target_branch, draft } = request.body;
+      if (!this.data.branches[source_branch]) {
+        throw badRequest([`Source branch "${source_branch}" does not exist`]);
+      }
+      const existing = this.data.mergeRequests.find(
+        (mr) => mr.state === "opened" && mr.source_branch === source_branch && mr.target_branch === target_branch
+      );
+      if (existing) {
+        throw new HttpError(409, {
+          message: [`Another open merge request already exists for this source branch: !${existing.iid}`],
+        });
+      }
+      const iid = Math.max(0, ...this.data.mergeRequests.map((mr) => mr.iid)) + 1;
+      const mergeRequest = {
+        ...structuredClone(this.data.mergeRequests[0]),
+        id: 200 + iid,
+        iid,
+        title: draft ? `Draft: ${title}` : title,
+        description: description ?? null,
+        draft: draft ?? false,
+        source_branch,
+        target_branch,
+        web_url: `${WEB_URL}/acme/app/-/merge_requests/${iid}`,
+        discussions: [],
+      };
+      this.data.mergeRequests.push(mergeRequest);
+      return { status: 201, body: mergeRequestJson(mergeRequest) };
+    });
+
+    this.on("GET", "/projects/:project/merge_requests", (request) =>
+      paginated(request, this.mergeRequestsFor(request, [this.project(request).id]))
+    );
+
+    this.on("GET", "/projects/:project/merge_requests/:iid", (request) => {
+      const mergeRequest = this.mergeRequest(request);
+      if (request.query.get("include_rebase_in_progress") === "true" && mergeRequest.rebase_in_progress) {
+        if (mergeRequest.rebase_polls > 0) {
+          mergeRequest.rebase_polls--;
+        } else {
+          mergeRequest.rebase_in_progress = false;
+          mergeRequest.merge_error = mergeRequest.rebase_error ?? mergeRequest.merge_error;
+        }
+      }
+      return { body: mergeRequestJson(mergeRequest) };
+    });
+
+    this.on("PUT", "/projects/:project/merge_requests/:iid", (request) => {
+      const mergeRequest = this.mergeRequest(request);
+      const { labels, state_event, draft, assignee_ids, reviewer_ids, remove_source_branch, ...fields } =
+        request.body;
+      Object.assign(mergeRequest, fields);
+      if (assignee_ids !== undefined) {
+        mergeRequest.assignees = this.users(assignee_ids);
+      }
+      if (reviewer_ids !== undefined) {
+        mergeRequest.reviewers = this.users(reviewer_ids);
+      }
+      if (labels !== undefined) {
+        mergeRequest.labels = Array.isArray(labels) ? labels : String(labels).split(",").filter(Boolean);
+      }
+      if (draft !== undefined) {
+        mergeRequest.draft = draft;
+        mergeRequest.title = `${draft ? "Draft: " : ""}${mergeRequest.title.replace(/^Draft: /, "")}`;
+      }
+      if (state_event === "close") {
+        mergeRequest.state = "closed";
+        mergeRequest.closed_at = "2025-01-03T09:00:00.000Z";
+      } else if (state_event === "reopen") {
+        mergeRequest.state = "opened";
+        mergeRequest.closed_at = null;
+      }
+      return { body: mergeRequestJson(mergeRequest) };
+    });
+
+    this.on("GET", "/projects/:project/merge_requests/:iid/changes", (request) => {
+      const mergeRequest = this.mergeRequest(request);
+      return { body: { ...mergeRequestJson(mergeRequest), changes: mergeRequest.changes } };
+    });
+
+    this.on("PUT", "/projects/:project/merge_requests/:iid/merge", (request) => {
+      const mergeRequest = this.mergeRequest(request);
+      if (mergeRequest.state !== "opened" || mergeRequest.draft) {
+        throw new HttpError(405, { message: "405 Method Not Allowed" });
+      }
+      if (mergeRequest.has_conflicts) {
+        throw new HttpError(406, { message: "Branch cannot be merged" });
+      }
+      const head = this.data.branches[mergeRequest.source_branch];
+      if (request.body.sha && request.body.sha !== head) {
+        throw new HttpError(409, { message: "SHA does not match HEAD of source branch" });
+      }
+      const sha = this.commit(mergeRequest.target_branch, { ...this.data.files[mergeRequest.source_branch] });
+      Object.assign(mergeRequest, {
+        state: "merged",
+        merged_at: "2025-01-03T09:00:00.000Z",
+        merge_commit_sha: sha,
+        detailed_merge_status: "not_open",
+      });
+      return { body: mergeRequestJson(mergeRequest) };
+    });
+
+    this.on("PUT", "/projects/:project/merge_requests/:iid/rebase", (request) => {
+      const mergeRequest = this.mergeRequest(request);
+      if (mergeRequest.rebase_in_progress) {
+        throw new HttpError(409, { message: "Rebase task already in progress" });
+      }
+      mergeRequest.rebase_in_progress = true;
+      return { status: 202, body: { rebase_in_progress: true } };
+    });
+
+    this.on("GET", "/projects/:project/merge_requests/:iid/approvals", (request) => ({
+      body: approvalsJson(this.mergeRequest(request)),
+    }));
+
+    this.on("GET", "/projects/:project/merge_requests/:iid/approval_state", (request) => {
+      const mergeRequest = this.mergeRequest(request);
+      return {
+        body: {
+          approval_rules_overwritten: false,
+          rules: [
+            {
+              id: 1,
+              name: "All Members",
+              rule_type: "any_approver",
+              approvals_required: mergeRequest.approvals_required,
+              eligible_approvers: [],
+              approved_by: mergeRequest.approvers,
+              approved: mergeRequest.approvers.length >= mergeRequest.approvals_required,
+            },
+          ],
+        },
+      };
+    });
+
+    this.on("POST", "/projects/:project/merge_requests/:iid/approve", (request) => {
+      const mergeRequest = this.mergeRequest(request);
+      const { sha, approval_password } = request.body;
+      if (approval_password !== undefined && approval_password !== "correct horse") {
+        throw new HttpError(401, { message: "401 Unauthorized" });
+      }
+      if (sha && sha !== mergeRequest.diff_refs.head_sha) {
+        throw new HttpError(409, { message: "SHA does not match HEAD of source branch" });
+      }
+      mergeRequest.approvers.push(this.data.user);
+      return { status: 201, body: approvalsJson(mergeRequest) };
+    });
+
+    this.on("POST", "/projects/:project/merge_requests/:iid/unapprove", (request) => {
+      const mergeRequest = this.mergeRequest(request);
+      const index = mergeRequest.approvers.findIndex((user) => user.id === this.data.user.id);
+      if (index === -1) {
+        throw new HttpError(404, { message: "404 Not found" });
+      }
+      mergeRequest.approvers.splice(index, 1);
+      return { status: 201, body: approvalsJson(mergeRequest) };
+    });
+
+    this.on("POST", "/projects/:project/merge_requests/:iid/notes", (request) => {
+      const mergeRequest = this.mergeRequest(request);
+      return this.createNote(request, mergeRequest.id, mergeRequest.iid, "MergeRequest");
+    });
+
+    this.on("GET", "/projects/:project/merge_requests/:iid/discussions", (request) =>
+      paginated(request, this.mergeRequest(request).discussions)
+    );
+
+    this.on("POST", "/projects/:project/merge_requests/:iid/discussions", (request) => {
+      const mergeRequest = this.mergeRequest(request);
+      const { body, position } = request.body;
+      if (
+        position &&
+        !mergeRequest.changes.some((change) => change.new_path === position.new_path && change.old_path === position.old_path)
+      ) {
+        throw badRequest("400 Bad request - Note {:line_code=>[\"can't be blank\", \"must be a valid line code\"]}");
+      }
+      const note = this.note(body, mergeRequest.id, mergeRequest.iid, "MergeRequest");
+      const discussion = {
+        id: sha1(`discussion ${note.id}`),
+        individual_note: false,
+        notes: [position ? { ...note, type: "DiffNote", position } : note],
+      };
+      mergeRequest.discussions.push(discussion);
+      return { status: 201, body: discussion };
+    });
+
+    this.on("POST", "/projects/:project/merge_requests/:iid/discussions/:discussion/notes", (request) => {
+      const mergeRequest = this.mergeRequest(request);
+      const discussion = this.discussion(request);
+      const note = this.note(request.body.body, mergeRequest.id, mergeRequest.iid, "MergeRequest");
+      discussion.notes.push(note);
+      return { status: 201, body: note };
+    });
+
+    this.on("PUT", "/projects/:project/merge_requests/:iid/discussions/:discussion", (request) => {
+      const discussion = this.discussion(request);
+      for (const note of discussion.notes) {
+        note.resolved = request.query.get("resolved") === "true";
+      }
+      return { body: discussion };
+    });
+  }
+
+  private defineNamespaceRoutes(): void {
+    this.on("GET", "/namespaces", (request) => {
+      const search = request.query.get("search")?.toLowerCase();
+      return paginated(
+        request,
+        this.data.namespaces.filter(
+          (namespace) => !search || namespace.full_path.includes(search) || namespace.name.toLowerCase().includes(search)
+        )
+      );
+    });
+
+    this.on("GET", "/namespaces/:namespace", (request) => ({ body: this.namespace(request.params.namespace) }));
+
+    this.on("GET", "/namespaces/:namespace/exists", (request) => {
+      const path = request.params.namespace;
+      const exists = this.data.namespaces.some((namespace) => namespace.path === path);
+      return { body: { exists, suggests: exists ? [`${path}1`] : [] } };
+    });
+  }
+
+  private defineLabelRoutes(): void {
+    this.on("GET", "/projects/:project/labels", (request) => {
+      this.project(request);
+      const search = request.query.get("search")?.toLowerCase();
+      const withCounts = request.query.get("with_counts") === "true";
+      return paginated(
+        request,
+        this.data.labels
+          .filter((label) => !search || label.name.toLowerCase().includes(search))
+          .map((label) =>
+            withCounts
+              ? {
+                  ...label,
+                  open_issues_count: this.data.issues.filter(
+                    (issue) => issue.state === "opened" && issue.labels.includes(label.name)
+                  ).length,
+                  closed_issues_count: 0,
+                  open_merge_requests_count: 0,
+                }
+              : label
+          )
+      );
+    });
+
+    this.on("GET", "/projects/:project/labels/:label", (request) => ({ body: this.label(request) }));
+
+    this.on("POST", "/projects/:project/labels", (request) => {
+      this.project(request);
+      const { name, color, description, priority } = request.body;
+      if (!/^#[0-9a-f]{6}$/i.test(color ?? "")) {
+        throw badRequest({ color: ["must be a valid color code"] });
+      }
+      if (this.data.labels.some((label) => label.name === name)) {
+        throw new HttpError(409, { message: "Label already exists" });
+      }
+      const label = {
+        id: Math.max(0, ...this.data.labels.map((label) => label.id)) + 1,
+        name,
+        color,
+        text_color: "#FFFFFF",
+        description: description ?? null,
+        description_html: description ?? null,
+        priority: priority ?? null,
+        is_project_label: true,
+      };
+      this.data.labels.push(label);
+      return { status: 201, body: label };
+    });
+
+    this.on("PUT", "/projects/:project/labels/:label", (request) => {
+      const label = this.label(request);
+      const { new_name, color, description, priority } = request.body;
+      if ([new_name, color, description, priority].every((value) => value === undefined)) {
+        throw new HttpError(400, {
+          error: "new_name, color, description, priority are missing, at least one parameter must be provided",
+        });
+      }
+      Object.assign(label, {
+        name: new_name ?? label.name,
+        color: color ?? label.color,
+        description: description ?? label.description,
+        description_html: description ?? label.description_html,
+        priority: priority === undefined ? label.priority : priority,
+      });
+      return { body: label };
+    });
+
+    this.on("DELETE", "/projects/:project/labels/:label", (request) => {
+      const label = this.label(request);
+      this.data.labels.splice(this.data.labels.indexOf(label), 1);
+      return { status: 204 };
+    });
+  }
+
+  private defineGroupRoutes(): void {
+    this.on("GET", "/issues", (request) => paginated(request, this.issuesFor(request)));
+
+    this.on("GET", "/groups/:group/issues", (request) =>
+      paginated(request, this.issuesFor(request, this.groupProjectIds(request)))
+    );
+
+    this.on("GET", "/merge_requests", (request) => paginated(request, this.mergeRequestsFor(request)));
+
+    this.on("GET", "/groups/:group/merge_requests", (request) =>
+      paginated(request, this.mergeRequestsFor(request, this.groupProjectIds(request)))
+    );
+
+    this.on("GET", "/groups/:group/labels", (request) => {
+      this.group(request);
+      const search = request.query.get("search")?.toLowerCase();
+      return paginated(
+        request,
+        this.data.groupLabels.filter((label) => !search || label.name.toLowerCase().includes(search))
+      );
+    });
+
+    this.on("GET", "/groups/:group/labels/:label", (request) => ({ body: this.groupLabel(request) }));
+
+    this.on("POST", "/groups/:group/labels", (request) => {
+      this.group(request);
+      const { name, color, description } = request.body;
+      if (!/^#[0-9a-f]{6}$/i.test(color ?? "")) {
+        throw badRequest({ color: ["must be a valid color code"] });
+      }
+      if (this.data.groupLabels.some((label) => label.name === name)) {
+        throw new HttpError(409, { message: "Label already exists" });
+      }
+      const label = {
+        id: Math.max(0, ...this.data.groupLabels.map((label) => label.id)) + 1,
+        name,
+        color,
+        text_color: "#FFFFFF",
+        description: description ?? null,
+        description_html: description ?? null,
+        is_project_label: false,
+      };
+      this.data.groupLabels.push(label);
+      return { status: 201, body: label };
+    });
+
+    this.on("PUT", "/groups/:group/labels/:label", (request) => {
+      const label = this.groupLabel(request);
+      const { new_name, color, description } = request.body;
+      if ([new_name, color, description].every((value) => value === undefined)) {
+        throw new HttpError(400, {
+          error: "new_name, color, description are missing, at least one parameter must be provided",
+        });
+      }
+      Object.assign(label, {
+        name: new_name ?? label.name,
+        color: color ?? label.color,
+        description: description ?? label.description,
+        description_html: description ?? label.description_html,
+      });
+      return { body: label };
+    });
+
+    this.on("DELETE", "/groups/:group/labels/:label", (request) => {
+      const label = this.groupLabel(request);
+      this.data.groupLabels.splice(this.data.groupLabels.indexOf(label), 1);
+      return { status: 204 };
+    });
+  }
+
+  private definePipelineRoutes(): void {
+    this.on("GET", "/projects/:project/pipelines", (request) => {
+      this.project(request);
+      const status = request.query.get("status");
+      const ref = request.query.get("ref");
+      return paginated(
+        request,
+        this.data.pipelines
+          .filter((pipeline) => (!status || pipeline.status === status) && (!ref || pipeline.ref === ref))
+          .map(pipelineJson)
+      );
+    });
+
+    this.on("GET", "/projects/:project/merge_requests/:iid/pipelines", (request) => {
+      const mergeRequest = this.mergeRequest(request);
+      return paginated(
+        request,
+        this.data.pipelines.filter((pipeline) => pipeline.merge_request_iid === mergeRequest.iid).map(pipelineJson)
+      );
+    });
+
+    this.on("GET", "/projects/:project/pipelines/:pipeline", (request) => ({
+      body: pipelineJson(this.pipeline(request)),
+    }));
+
+    this.on("GET", "/projects/:project/pipelines/:pipeline/jobs", (request) => {
+      const pipeline = this.pipeline(request);
+      const scope = request.query.getAll("scope[]");
+      return paginated(
+        request,
+        this.data.jobs
+          .filter((job) => job.pipeline_id === pipeline.id && (scope.length === 0 || scope.includes(job.status)))
+          .map(({ trace, pipeline_id, ...job }) => job)
+      );
+    });
+
+    this.on("GET", "/projects/:project/jobs/:job/trace", (request) => {
+      this.project(request);
+      const job = this.data.jobs.find((job) => job.id === Number(request.params.job));
+      if (!job) {
+        throw notFound("Job");
+      }
+      const range = request.headers.range?.match(/^bytes=(\d*)-(\d*)$/);
+      if (!range || !this.honoursRange) {
+        return { body: job.trace };
+      }
+      const trace = Buffer.from(job.trace);
+      const start = range[1] === "" ? Math.max(0, trace.length - Number(range[2])) : Number(range[1]);
+      const end = range[1] !== "" && range[2] !== "" ? Math.min(Number(range[2]), trace.length - 1) : trace.length - 1;
+      if (start >= trace.length) {
+        return { status: 416, headers: { "content-range": `bytes */${trace.length}` } };
+      }
+      return {
+        status: 206,
+        body: trace.subarray(start, end + 1),
+        headers: { "content-range": `bytes ${start}-${end}/${trace.length}` },
+      };
+    });
+
+    this.on("POST", "/projects/:project/pipelines/:pipeline/retry", (request) => {
+      const pipeline = this.pipeline(request);
+      pipeline.status = "running";
+      for (const job of this.data.jobs) {
+        if (job.pipeline_id === pipeline.id && ["failed", "canceled"].includes(job.status)) {
+          job.status = "pending";
+        }
+      }
+      return { status: 201, body: pipelineJson(pipeline) };
+    });
+
+    this.on("POST", "/projects/:project/pipelines/:pipeline/cancel", (request) => {
+      const pipeline = this.pipeline(request);
+      pipeline.status = "canceled";
+      return { body: pipelineJson(pipeline) };
+    });
+
+    this.on("POST", "/projects/:project/pipeline", (request) => {
+      this.project(request);
+      const ref = request.body.ref;
+      if (!this.data.branches[ref]) {
+        throw badRequest({ base: ["Reference not found"] });
+      }
+      const id = Math.max(...this.data.pipelines.map((pipeline) => pipeline.id)) + 1;
+      const pipeline = {
+        ...structuredClone(this.data.pipelines[1]),
+        id,
+        iid: id - 489,
+        sha: this.data.branches[ref],
+        ref,
+        status: "created",
+        source: "api",
+        web_url: `${WEB_URL}/acme/app/-/pipelines/${id}`,
+        merge_request_iid: null,
+      };
+      this.data.pipelines.push(pipeline);
+      return { status: 201, body: pipelineJson(pipeline) };
+    });
+  }
+
+  /**
+   * The project a request names by ID or path
+   */
+  private project(request: FakeRequest, id: string = request.params.project) {
+    const project = this.data.projects.find(
+      (project) => String(project.id) === id || project.path_with_namespace.toLowerCase() === id.toLowerCase()
+    );
+    if (!project) {
+      throw notFound("Project");
+    }
+    return project;
+  }
+
+  private namespace(id: string) {
+    const namespace = this.data.namespaces.find(
+      (namespace) => String(namespace.id) === id || namespace.full_path.toLowerCase() === id.toLowerCase()
+    );
+    if (!namespace) {
+      throw notFound("Namespace");
+    }
+    return namespace;
+  }
+
+  private group(request: FakeRequest) {
+    const group = this.namespace(request.params.group);
+    if (group.kind !== "group") {
+      throw notFound("Group");
+    }
+    return group;
+  }
+
+  /**
+   * IDs of the projects in the group a request names
+   */
+  private groupProjectIds(request: FakeRequest): number[] {
+    const group = this.group(request);
+    return this.data.projects
+      .filter((project) => project.namespace.id === group.id)
+      .map((project) => project.id);
+  }
+
+  /**
+   * Whether an issue or merge request falls within the `scope` of a request
+   * without a project or group, relative to the authenticated user
+   */
+  private inScope(
+    request: FakeRequest,
+    item: { author: { id: number }; assignees: { id: number }[] },
+    defaultScope: string
+  ): boolean {
+    switch (request.query.get("scope") ?? defaultScope) {
+      case "created_by_me":
+        return item.author.id === this.data.user.id;
+      case "assigned_to_me":
+        return item.assignees.some((assignee) => assignee.id === this.data.user.id);
+      default:
+        return true;
+    }
+  }
+
+  /**
+   * Issues matching the filters of a list request, across the given projects
+   * or, without them, the projects of the authenticated user
+   */
+  private issuesFor(request: FakeRequest, projectIds?: number[]) {
+    const state = request.query.get("state");
+    const labels = request.query.get("labels")?.split(",");
+    const search = request.query.get("search")?.toLowerCase();
+    return this.data.issues.filter(
+      (issue) =>
+        (projectIds ? projectIds.includes(issue.project_id) : this.inScope(request, issue, "created_by_me")) &&
+        (!state || state === "all" || issue.state === state) &&
+        (!search || issue.title.toLowerCase().includes(search)) &&
+        (!labels || labels.every((label) => issue.labels.includes(label)))
+    );
+  }
+
+  /**
+   * Merge requests matching the filters of a list request, like `issuesFor`
+   */
+  private mergeRequestsFor(request: FakeRequest, projectIds?: number[]) {
+    const state = request.query.get("state");
+    const reviewer = request.query.get("reviewer_username");
+    const wip = request.query.get("wip");
+    const sourceBranch = request.query.get("source_branch");
+    const approvedBy = request.query.getAll("approved_by_usernames[]");
+    return this.data.mergeRequests
+      .filter(
+        (mr) =>
+          (projectIds ? projectIds.includes(mr.project_id) : this.inScope(request, mr, "created_by_me")) &&
+          (!state || state === "all" || mr.state === state) &&
+          (!reviewer || mr.reviewers.some((user) => user.username === reviewer)) &&
+          (!wip || mr.draft === (wip === "yes")) &&
+          (!sourceBranch || mr.source_branch === sourceBranch) &&
+          approvedBy.every((username) => mr.approvers.some((user) => user.username === username))
+      )
+      .map(mergeRequestJson);
+  }
+
+  /**
+   * The known users among the given IDs; GitLab ignores the others
+   */
+  private users(ids: number[]) {
+    return ids.filter((id) => id === this.data.user.id).map(() => this.data.user);
+  }
+
+  private branch(name: string) {
+    return {
+      name,
+      commit: { id: this.data.branches[name], web_url: `${WEB_URL}/acme/app/-/commit/${this.data.branches[name]}` },
+      protected: name === "main",
+      default: name === "main",
+    };
+  }
+
+  /**
+   * Branch a ref names directly or by its head commit
+   */
+  private refToBranch(ref: string): string | undefined {
+    if (this.data.branches[ref]) {
+      return ref;
+    }
+    return Object.keys(this.data.branches).find((branch) => this.data.branches[branch] === ref);
+  }
+
+  private file(request: FakeRequest): { ref: string; content: Buffer } {
+    this.project(request);
+    const ref = request.query.get("ref");
+    if (!ref) {
+      throw badRequest("ref is missing");
+    }
+    const branch = this.refToBranch(ref);
+    const content = branch ? this.data.files[branch][request.params.file] : undefined;
+    if (!content) {
+      throw notFound("File");
+    }
+    return { ref, content };
+  }
+
+  /**
+   * A copy of the files of a branch that can be committed to
+   */
+  private writableFiles(branch: string): Record<string, Buffer> {
+    if (!this.data.branches[branch]) {
+      throw badRequest("You can only create or edit files when you are on a branch");
+    }
+    return { ...this.data.files[branch] };
+  }
+
+  /**
+   * Point a branch at a new commit with the given files
+   *
+   * @returns {string} The new commit SHA
+   */
+  private commit(branch: string, files: Record<string, Buffer>): string {
+    const sha = sha1(`commit ${++this.commits}`);
+    this.data.branches[branch] = sha;
+    this.data.files[branch] = files;
+    return sha;
+  }
+
+  private issue(request: FakeRequest) {
+    this.project(request);
+    return this.issueByIid(Number(request.params.iid));
+  }
+
+  private issueByIid(iid: number) {
+    const issue = this.data.issues.find((issue) => issue.iid === iid);
+    if (!issue) {
+      throw notFound("Issue");
+    }
+    return issue;
+  }
+
+  private issueLink(request: FakeRequest) {
+    const issue = this.issue(request);
+    const link = this.data.issueLinks.find(
+      (link) =>
+        link.id === Number(request.params.link) && (link.source_iid === issue.iid || link.target_iid === issue.iid)
+    );
+    if (!link) {
+      throw new HttpError(404, { message: "404 Not found" });
+    }
+    return link;
+  }
+
+  private mergeRequest(request: FakeRequest) {
+    this.project(request);
+    const mergeRequest = this.data.mergeRequests.find((mr) => mr.iid === Number(request.params.iid));
+    if (!mergeRequest) {
+      throw notFound("Merge Request");
+    }
+    return mergeRequest;
+  }
+
+  private discussion(request: FakeRequest) {
+    const discussion = this.mergeRequest(request).discussions.find(
+      (discussion) => discussion.id === request.params.discussion
+    );
+    if (!discussion) {
+      throw notFound("Discussion");
+    }
+    return discussion;
+  }
+
+  private label(request: FakeRequest) {
+    this.project(request);
+    const label = this.data.labels.find(
+      (label) => String(label.id) === request.params.label || label.name === request.params.label
+    );
+    if (!label) {
+      throw notFound("Label");
+    }
+    return label;
+  }
+
+  private groupLabel(request: FakeRequest) {
+    this.group(request);
+    const label = this.data.groupLabels.find(
+      (label) => String(label.id) === request.params.label || label.name === request.params.label
+    );
+    if (!label) {
+      throw notFound("Label");
+    }
+    return label;
+  }
+
+  private pipeline(request: FakeRequest) {
+    this.project(request);
+    const pipeline = this.data.pipelines.find((pipeline) => pipeline.id === Number(request.params.pipeline));
+    if (!pipeline) {
+      throw notFound("Pipeline");
+    }
+    return pipeline;
+  }
+
+  private note(body: unknown, noteableId: number, noteableIid: number, noteableType: string) {
+    const id = 1000 + this.data.notes.length;
+    const note = {
+      id,
+      type: "DiscussionNote",
+      body: String(body),
+      author: this.data.user,
+      created_at: "2025-01-03T09:00:00.000Z",
+      updated_at: "2025-01-03T09:00:00.000Z",
+      system: false,
+      noteable_id: noteableId,
+      noteable_type: noteableType,
+      noteable_iid: noteableIid,
+      resolvable: true,
+      resolved: false,
+      position: undefined as unknown,
+    };
+    this.data.notes.push(note);
+    return note;
+  }
+
+  private createNote(request: FakeRequest, noteableId: number, noteableIid: number, noteableType: string): FakeResponse {
+    if (!request.body.body) {
+      throw badRequest({ note: ["can't be blank"] });
+    }
+    return { status: 201, body: { ...this.note(request.body.body, noteableId, noteableIid, noteableType), type: null } };
+  }
+}
+
+/**
+ * Decode file content sent with an `encoding` of text or base64
+ */
+function decode(content: string, encoding?: string): Buffer {
+  return Buffer.from(content ?? "", encoding === "base64" ? "base64" : "utf8");
+}
+
+/**
+ * A merge request as the API returns it, without the fake's bookkeeping
+ */
+function mergeRequestJson(mergeRequest: Fixtures["mergeRequests"][number]) {
+  const { changes, discussions, has_conflicts, rebase_polls, rebase_error, approvers, approvals_required, ...json } =
+    mergeRequest;
+  return json;
+}
+
+/**
+ * The approvals of a merge request as the API returns them
+ */
+function approvalsJson(mergeRequest: Fixtures["mergeRequests"][number]) {
+  return {
+    approved: mergeRequest.approvers.length >= mergeRequest.approvals_required,
+    approvals_required: mergeRequest.approvals_required,
+    approvals_left: Math.max(0, mergeRequest.approvals_required - mergeRequest.approvers.length),
+    approved_by: mergeRequest.approvers.map((user) => ({ user })),
+  };
+}
+
+function pipelineJson(pipeline: Fixtures["pipelines"][number]) {
+  const { merge_request_iid, ...json } = pipeline;
+  return json;
+}
+
+/**
+ * Answer a list request with one page of items and GitLab's pagination headers
+ */
+function paginated(request: FakeRequest, items: unknown[]): FakeResponse {
+  const perPage = Number(request.query.get("per_page") ?? 20);
+  const page = Number(request.query.get("page") ?? 1);
+  const hasNext = page * perPage < items.length;
+  const headers: Record<string, string> = {
+    "x-total": String(items.length),
+    "x-page": String(page),
+    "x-per-page": String(perPage),
+    "x-next-page": hasNext ? String(page + 1) : "",
+  };
+  if (hasNext) {
+    const next = new URL(request.url);
+    next.searchParams.set("page", String(page + 1));
+    headers.link = `<${next}>; rel="next"`;
+  }
+  return { body: items.slice((page - 1) * perPage, page * perPage), headers };
+}
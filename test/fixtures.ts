@@ -0,0 +1,331 @@
+/**
+ * Data the fake GitLab serves: one group with a project, its repository,
+ * issues, merge requests, labels and a failed pipeline
+ */
+
+export const WEB_URL = "https://gitlab.example.com";
+
+/**
+ * Token the fake GitLab accepts
+ */
+export const TOKEN = "glpat-test-token";
+
+export const MAIN_SHA = "1111111111111111111111111111111111111111";
+export const FEATURE_SHA = "2222222222222222222222222222222222222222";
+const BASE_SHA = "3333333333333333333333333333333333333333";
+
+const CREATED_AT = "2025-01-01T09:00:00.000Z";
+const UPDATED_AT = "2025-01-02T09:00:00.000Z";
+
+export const USER = {
+  id: 1,
+  username: "alice",
+  name: "Alice Example",
+  state: "active",
+  avatar_url: `${WEB_URL}/uploads/alice.png`,
+  web_url: `${WEB_URL}/alice`,
+};
+
+const GROUP_NAMESPACE = {
+  id: 10,
+  name: "Acme",
+  path: "acme",
+  kind: "group",
+  full_path: "acme",
+  parent_id: null,
+  avatar_url: null,
+  web_url: `${WEB_URL}/groups/acme`,
+};
+
+const USER_NAMESPACE = {
+  id: 11,
+  name: "Alice Example",
+  path: "alice",
+  kind: "user",
+  full_path: "alice",
+  parent_id: null,
+  avatar_url: null,
+  web_url: `${WEB_URL}/alice`,
+};
+
+function project(id: number, name: string, namespace: typeof GROUP_NAMESPACE, description: string | null) {
+  return {
+    id,
+    name,
+    path: name,
+    path_with_namespace: `${namespace.full_path}/${name}`,
+    description,
+    visibility: "private",
+    web_url: `${WEB_URL}/${namespace.full_path}/${name}`,
+    default_branch: "main",
+    created_at: CREATED_AT,
+    last_activity_at: UPDATED_AT,
+    namespace: {
+      id: namespace.id,
+      name: namespace.name,
+      path: namespace.path,
+      kind: namespace.kind,
+      full_path: namespace.full_path,
+    },
+    permissions: {
+      project_access: { access_level: 30 },
+      group_access: null,
+    },
+  };
+}
+
+function issue(iid: number, title: string, description: string, labels: string[]) {
+  return {
+    id: 100 + iid,
+    iid,
+    project_id: 5,
+    title,
+    description,
+    state: "opened",
+    author: USER,
+    assignees: [] as (typeof USER)[],
+    labels,
+    milestone: null,
+    created_at: CREATED_AT,
+    updated_at: UPDATED_AT,
+    closed_at: null as string | null,
+    web_url: `${WEB_URL}/acme/app/-/issues/${iid}`,
+  };
+}
+
+function commit(sha: string, title: string, parent?: string) {
+  return {
+    id: sha,
+    short_id: sha.slice(0, 8),
+    title,
+    author_name: USER.name,
+    author_email: "alice@example.com",
+    authored_date: CREATED_AT,
+    committer_name: USER.name,
+    committer_email: "alice@example.com",
+    committed_date: CREATED_AT,
+    web_url: `${WEB_URL}/acme/app/-/commit/${sha}`,
+    parent_ids: parent ? [parent] : [],
+  };
+}
+
+function note(id: number, body: string, noteableId: number, noteableIid: number, noteableType: string) {
+  return {
+    id,
+    type: "DiscussionNote" as string | null,
+    body,
+    author: USER,
+    created_at: CREATED_AT,
+    updated_at: UPDATED_AT,
+    system: false,
+    noteable_id: noteableId,
+    noteable_type: noteableType,
+    noteable_iid: noteableIid,
+    resolvable: true,
+    resolved: false,
+    position: undefined as unknown,
+  };
+}
+
+/**
+ * Binary file: the first bytes of a PNG image
+ */
+const PNG = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0x00, 0x00]);
+
+/**
+ * A fresh copy of all data, so changes made by one test do not leak into the next
+ */
+export function createFixtures() {
+  const app = project(5, "app", GROUP_NAMESPACE, "The Acme application");
+  return {
+    user: USER,
+    token: {
+      id: 42,
+      name: "mcp",
+      scopes: ["api"],
+      expires_at: null as string | null,
+      active: true,
+      revoked: false,
+      user_id: USER.id,
+      created_at: CREATED_AT,
+      last_used_at: UPDATED_AT,
+    },
+    namespaces: [GROUP_NAMESPACE, USER_NAMESPACE],
+    projects: [app, project(6, "docs", GROUP_NAMESPACE, null), project(7, "dotfiles", USER_NAMESPACE, null)],
+    branches: {
+      main: MAIN_SHA,
+      feature: FEATURE_SHA,
+    } as Record<string, string>,
+    // History of the main and feature branches, newest first
+    commits: [
+      commit(FEATURE_SHA, "Answer with 42", MAIN_SHA),
+      commit(MAIN_SHA, "Add the app", BASE_SHA),
+      commit(BASE_SHA, "Initial commit"),
+    ],
+    // Files by branch, then by path
+    files: {
+      main: {
+        "README.md": Buffer.from("# App\n"),
+        "src/index.ts": Buffer.from("export const answer = 41;\n"),
+        "src/util/math.ts": Buffer.from("export const add = (a: number, b: number) => a + b;\n"),
+        "assets/logo.png": PNG,
+        "data/records.dat": Buffer.from("id,name\n1,first\n"),
+        ".gitattributes": Buffer.from("*.dat binary\n"),
+      },
+      feature: {
+        "README.md": Buffer.from("# App\n"),
+        "src/index.ts": Buffer.from("export const answer = 42;\n"),
+        "src/util/math.ts": Buffer.from("export const add = (a: number, b: number) => a + b;\n"),
+        "assets/logo.png": PNG,
+        "data/records.dat": Buffer.from("id,name\n1,first\n"),
+        ".gitattributes": Buffer.from("*.dat binary\n"),
+      },
+    } as Record<string, Record<string, Buffer>>,
+    issues: [
+      issue(1, "Crash on startup", "The app crashes when the config is missing.", ["bug"]),
+      issue(2, "Add dark mode", "", []),
+    ],
+    issueLinks: [
+      {
+        id: 1,
+        source_iid: 1,
+        target_iid: 2,
+        link_type: "relates_to" as "relates_to" | "blocks" | "is_blocked_by",
+        created_at: CREATED_AT,
+        updated_at: UPDATED_AT,
+      },
+    ],
+    notes: [] as ReturnType<typeof note>[],
+    mergeRequests: [
+      {
+        id: 200,
+        iid: 1,
+        project_id: 5,
+        title: "Answer correctly",
+        description: "Fixes #1",
+        state: "opened",
+        draft: false,
+        author: USER,
+        assignees: [] as (typeof USER)[],
+        reviewers: [] as (typeof USER)[],
+        // Users who approved the merge request
+        approvers: [] as (typeof USER)[],
+        approvals_required: 2,
+        labels: [] as string[],
+        source_branch: "feature",
+        target_branch: "main",
+        diff_refs: { base_sha: BASE_SHA, head_sha: FEATURE_SHA, start_sha: MAIN_SHA },
+        web_url: `${WEB_URL}/acme/app/-/merge_requests/1`,
+        created_at: CREATED_AT,
+        updated_at: UPDATED_AT,
+        merged_at: null as string | null,
+        closed_at: null as string | null,
+        merge_commit_sha: null as string | null,
+        detailed_merge_status: "mergeable",
+        has_conflicts: false,
+        merge_error: null as string | null,
+        rebase_in_progress: false,
+        // Polls of the merge request still reporting a rebase in progress
+        rebase_polls: 0,
+        // merge_error the next rebase fails with
+        rebase_error: null as string | null,
+        changes: [
+          {
+            old_path: "src/index.ts",
+            new_path: "src/index.ts",
+            a_mode: "100644",
+            b_mode: "100644",
+            diff: "@@ -1 +1 @@\n-export const answer = 41;\n+export const answer = 42;\n",
+            new_file: false,
+            renamed_file: false,
+            deleted_file: false,
+          },
+        ],
+        discussions: [
+          {
+            id: "6a9c1750b37d513a43987b574953fceb50b03ce7",
+            individual_note: false,
+            notes: [note(300, "Should this be configurable?", 200, 1, "MergeRequest")],
+          },
+        ],
+      },
+    ],
+    labels: [
+      {
+        id: 20,
+        name: "bug",
+        color: "#d9534f",
+        text_color: "#FFFFFF",
+        description: "Something is broken",
+        description_html: "Something is broken",
+        priority: null as number | null,
+        is_project_label: true,
+      },
+    ],
+    groupLabels: [
+      {
+        id: 30,
+        name: "planning",
+        color: "#5843ad",
+        text_color: "#FFFFFF",
+        description: "Needs a decision",
+        description_html: "Needs a decision",
+        is_project_label: false,
+      },
+    ],
+    pipelines: [
+      {
+        id: 501,
+        iid: 12,
+        project_id: 5,
+        sha: FEATURE_SHA,
+        ref: "feature",
+        status: "failed",
+        source: "merge_request_event",
+        created_at: CREATED_AT,
+        updated_at: UPDATED_AT,
+        web_url: `${WEB_URL}/acme/app/-/pipelines/501`,
+        merge_request_iid: 1 as number | null,
+      },
+      {
+        id: 502,
+        iid: 13,
+        project_id: 5,
+        sha: MAIN_SHA,
+        ref: "main",
+        status: "success",
+        source: "push",
+        created_at: CREATED_AT,
+        updated_at: UPDATED_AT,
+        web_url: `${WEB_URL}/acme/app/-/pipelines/502`,
+        merge_request_iid: null as number | null,
+      },
+    ],
+    jobs: [
+      {
+        id: 601,
+        pipeline_id: 501,
+        status: "failed",
+        stage: "test",
+        name: "unit tests",
+        ref: "feature",
+        created_at: CREATED_AT,
+        web_url: `${WEB_URL}/acme/app/-/jobs/601`,
+        trace: "\u001b[32;1mRunning tests\u001b[0;m\nok 1 - adds\nnot ok 2 - answers\nexpected 42, got 41\n",
+      },
+      {
+        id: 602,
+        pipeline_id: 501,
+        status: "success",
+        stage: "build",
+        name: "compile",
+        ref: "feature",
+        created_at: CREATED_AT,
+        web_url: `${WEB_URL}/acme/app/-/jobs/602`,
+        trace: "Compiling\nDone\n",
+      },
+    ],
+  };
+}
+
+export type Fixtures = ReturnType<typeof createFixtures>;
@@ -0,0 +1,188 @@
+import assert from "node:assert/strict";
+import http from "node:http";
+import type { AddressInfo } from "node:net";
+import { afterEach, describe, it } from "node:test";
+import { JobTokenCredentials, TokenCredentials, type Credentials } from "../credentials.js";
+import { GitLabClient, clientOptionsFromEnv, type GitLabClientOptions } from "../gitlab-client.js";
+
+let server: http.Server | undefined;
+
+afterEach(async () => {
+  const running = server;
+  if (running) {
+    running.closeAllConnections();
+    await new Promise((resolve) => running.close(resolve));
+  }
+  server = undefined;
+});
+
+/**
+ * Start a server answering every request with the handler, and a client for it
+ */
+async function start(
+  handler: http.RequestListener,
+  options: Partial<GitLabClientOptions> = {}
+): Promise<GitLabClient> {
+  const listening = http.createServer(handler);
+  server = listening;
+  await new Promise<void>((resolve) => listening.listen(0, "127.0.0.1", resolve));
+  return new GitLabClient({
+    apiUrl: `http://127.0.0.1:${(listening.address() as AddressInfo).port}/api/v4`,
+    credentials: new TokenCredentials("glpat-test-token"),
+    maxRetries: 0,
+    ...options,
+  });
+}
+
+describe("clientOptionsFromEnv", () => {
+  it("reads the timeout and retries", () => {
+    assert.deepEqual(clientOptionsFromEnv({ GITLAB_REQUEST_TIMEOUT_MS: "5000", GITLAB_MAX_RETRIES: "0" }), {
+      timeoutMs: 5000,
+      maxRetries: 0,
+    });
+    assert.deepEqual(clientOptionsFromEnv({}), { timeoutMs: undefined, maxRetries: undefined });
+  });
+
+  it("rejects values that would disable them", () => {
+    assert.throws(() => clientOptionsFromEnv({ GITLAB_REQUEST_TIMEOUT_MS: "30s" }), /GITLAB_REQUEST_TIMEOUT_MS must be/);
+    assert.throws(() => clientOptionsFromEnv({ GITLAB_REQUEST_TIMEOUT_MS: "-1" }), /GITLAB_REQUEST_TIMEOUT_MS must be/);
+    assert.throws(() => clientOptionsFromEnv({ GITLAB_MAX_RETRIES: "three" }), /GITLAB_MAX_RETRIES must be/);
+    assert.throws(() => clientOptionsFromEnv({ GITLAB_MAX_RETRIES: "1.5" }), /GITLAB_MAX_RETRIES must be/);
+  });
+});
+
+describe("timeout", () => {
+  it("covers a body that stalls after the headers", async () => {
+    const client = await start(
+      (_request, response) => {
+        response.writeHead(200, { "content-type": "text/plain" });
+        response.write("partial log");
+      },
+      { timeoutMs: 100 }
+    );
+
+    const response = await client.fetch(`${client.apiUrl}/projects/5/jobs/601/trace`);
+
+    await assert.rejects(response.text(), { name: "AbortError" });
+  });
+});
+
+/**
+ * Handler answering requests with the given statuses and headers in turn,
+ * then 200; the requests it received are collected in `requests`
+ */
+function respondWith(...responses: [number, http.OutgoingHttpHeaders?][]) {
+  const requests: http.IncomingMessage[] = [];
+  const handler: http.RequestListener = (request, response) => {
+    const [status, headers] = responses[requests.length] ?? [200];
+    requests.push(request);
+    response.writeHead(status, { "content-type": "application/json", ...headers });
+    response.end(JSON.stringify(status === 200 ? { id: 5 } : { message: `${status}` }));
+  };
+  return { handler, requests };
+}
+
+describe("retries", () => {
+  it("retries a server error", async () => {
+    const { handler, requests } = respondWith([503], [502]);
+    const client = await start(handler, { maxRetries: 2, retryBaseDelayMs: 1 });
+
+    const response = await client.fetch(`${client.apiUrl}/projects/5`);
+
+    assert.equal(response.status, 200);
+    assert.deepEqual(await response.json(), { id: 5 });
+    assert.equal(requests.length, 3);
+  });
+
+  it("returns the last response once the retries are used up", async () => {
+    const { handler, requests } = respondWith([503], [503], [503]);
+    const client = await start(handler, { maxRetries: 1, retryBaseDelayMs: 1 });
+
+    const response = await client.fetch(`${client.apiUrl}/projects/5`);
+
+    assert.equal(response.status, 503);
+    assert.deepEqual(await response.json(), { message: "503" });
+    assert.equal(requests.length, 2);
+  });
+
+  it("waits as long as Retry-After asks", async () => {
+    const { handler, requests } = respondWith([429, { "retry-after": "1" }]);
+    const client = await start(handler, { maxRetries: 1, retryBaseDelayMs: 1 });
+    const started = Date.now();
+
+    const response = await client.fetch(`${client.apiUrl}/projects/5`);
+
+    assert.equal(response.status, 200);
+    assert.deepEqual(await response.json(), { id: 5 });
+    assert.equal(requests.length, 2);
+    assert.ok(Date.now() - started >= 900, `retried after ${Date.now() - started}ms`);
+  });
+
+  it("accepts an HTTP date in Retry-After", async () => {
+    const { handler, requests } = respondWith([503, { "retry-after": new Date(0).toUTCString() }]);
+    const client = await start(handler, { maxRetries: 1, retryBaseDelayMs: 60_000 });
+
+    const response = await client.fetch(`${client.apiUrl}/projects/5`);
+
+    assert.equal(response.status, 200);
+    assert.deepEqual(await response.json(), { id: 5 });
+    assert.equal(requests.length, 2);
+  });
+
+  it("does not retry a POST that failed", async () => {
+    const { handler, requests } = respondWith([500]);
+    const client = await start(handler, { maxRetries: 2, retryBaseDelayMs: 1 });
+
+    const response = await client.fetch(`${client.apiUrl}/projects/5/issues`, { method: "POST" });
+
+    assert.equal(response.status, 500);
+    assert.deepEqual(await response.json(), { message: "500" });
+    assert.equal(requests.length, 1);
+  });
+
+  it("retries a rate-limited POST", async () => {
+    const { handler, requests } = respondWith([429, { "retry-after": "0" }]);
+    const client = await start(handler, { maxRetries: 2, retryBaseDelayMs: 1 });
+
+    const response = await client.fetch(`${client.apiUrl}/projects/5/issues`, { method: "POST" });
+
+    assert.equal(response.status, 200);
+    assert.deepEqual(await response.json(), { id: 5 });
+    assert.equal(requests.length, 2);
+  });
+});
+
+describe("credentials", () => {
+  it("sends a job token in the JOB-TOKEN header", async () => {
+    const { handler, requests } = respondWith();
+    const client = await start(handler, { credentials: new JobTokenCredentials("job-token-value") });
+
+    await (await client.fetch(`${client.apiUrl}/projects/5`)).arrayBuffer();
+
+    assert.equal(requests[0].headers["job-token"], "job-token-value");
+    assert.equal(requests[0].headers.authorization, undefined);
+  });
+
+  it("retries a rejected request once with refreshed credentials", async () => {
+    const tokens = ["first", "second", "third"];
+    let refreshes = 0;
+    const credentials: Credentials = {
+      headers: async () => ({ Authorization: `Bearer ${tokens[refreshes]}` }),
+      refresh: async () => {
+        refreshes++;
+        return true;
+      },
+    };
+    const { handler, requests } = respondWith([401], [401]);
+    const client = await start(handler, { credentials });
+
+    const response = await client.fetch(`${client.apiUrl}/projects/5`);
+
+    assert.equal(response.status, 401);
+    assert.deepEqual(await response.json(), { message: "401" });
+    assert.deepEqual(
+      requests.map((request) => request.headers.authorization),
+      ["Bearer first", "Bearer second"]
+    );
+  });
+});
@@ -0,0 +1,106 @@
+import assert from "node:assert/strict";
+import { after, before, beforeEach, describe, it } from "node:test";
+import { USER } from "./fixtures.js";
+import { TestSession } from "./harness.js";
+
+let session: TestSession;
+
+before(async () => {
+  session = await TestSession.open();
+});
+beforeEach(() => session.gitlab.reset());
+after(() => session.close());
+
+describe("list_group_issues", () => {
+  it("lists the issues of a group", async () => {
+    const result = await session.call("list_group_issues", { group_id: "acme", search: "crash" });
+
+    assert.deepEqual(result.items.map((issue: { iid: number }) => issue.iid), [1]);
+    assert.equal(session.gitlab.requests[0].path, "/groups/acme/issues");
+    assert.deepEqual(session.gitlab.requests[0].query, { search: "crash" });
+  });
+
+  it("lists the issues assigned to the user across all projects", async () => {
+    session.gitlab.data.issues[1].assignees.push(USER);
+
+    const result = await session.call("list_group_issues", { scope: "assigned_to_me" });
+
+    assert.deepEqual(result.items.map((issue: { iid: number }) => issue.iid), [2]);
+    assert.equal(session.gitlab.requests[0].path, "/issues");
+    assert.deepEqual(session.gitlab.requests[0].query, { scope: "assigned_to_me" });
+  });
+
+  it("reports an unknown group", async () => {
+    const error = await session.callError("list_group_issues", { group_id: "alice" });
+
+    assert.equal(error.code, "not_found");
+    assert.equal(error.gitlab_message, "404 Group Not Found");
+  });
+});
+
+describe("list_group_merge_requests", () => {
+  it("filters drafts with GitLab's wip parameter", async () => {
+    const ready = await session.call("list_group_merge_requests", { group_id: "10", draft: false });
+    const drafts = await session.call("list_group_merge_requests", { group_id: "10", draft: true });
+
+    assert.equal(ready.items.length, 1);
+    assert.equal(drafts.items.length, 0);
+    assert.deepEqual(
+      session.gitlab.requests.map((request) => request.query),
+      [{ wip: "no" }, { wip: "yes" }]
+    );
+  });
+
+  it("lists the merge requests awaiting the user's review across all projects", async () => {
+    session.gitlab.data.mergeRequests[0].reviewers.push(USER);
+
+    const result = await session.call("list_group_merge_requests", {
+      scope: "all",
+      reviewer_username: "alice",
+      state: "opened",
+    });
+
+    assert.deepEqual(result.items.map((mr: { iid: number }) => mr.iid), [1]);
+    assert.equal(session.gitlab.requests[0].path, "/merge_requests");
+    assert.deepEqual(session.gitlab.requests[0].query, { scope: "all", reviewer_username: "alice", state: "opened" });
+  });
+});
+
+describe("group labels", () => {
+  it("lists and gets group labels", async () => {
+    const result = await session.call("list_group_labels", { group_id: "acme" });
+    const label = await session.call("get_group_label", { group_id: "acme", label_id: "planning" });
+
+    assert.deepEqual(result.items.map((label: { name: string }) => label.name), ["planning"]);
+    assert.equal(label.id, 30);
+    assert.equal(label.is_project_label, false);
+  });
+
+  it("creates, renames and deletes a group label", async () => {
+    const created = await session.call("create_group_label", { group_id: "acme", name: "roadmap", color: "#428bca" });
+    const renamed = await session.call("update_group_label", {
+      group_id: "acme",
+      label_id: created.id,
+      new_name: "roadmap-2027",
+    });
+    const deleted = await session.call("delete_group_label", { group_id: "acme", label_id: "roadmap-2027" });
+
+    assert.equal(renamed.name, "roadmap-2027");
+    assert.deepEqual(deleted, { status: "success", message: "Label deleted successfully" });
+    assert.deepEqual(session.gitlab.requests[0].body, { name: "roadmap", color: "#428bca" });
+    assert.deepEqual(session.gitlab.data.groupLabels.map((label) => label.name), ["planning"]);
+  });
+
+  it("reports an existing label", async () => {
+    const error = await session.callError("create_group_label", { group_id: "acme", name: "planning", color: "#ff0000" });
+
+    assert.equal(error.code, "conflict");
+  });
+
+  it("reports a missing label", async () => {
+    const error = await session.callError("get_group_label", { group_id: "acme", label_id: 99 });
+
+    assert.equal(error.code, "not_found");
+    assert.equal(error.gitlab_message, "404 Label Not Found");
+  });
+});
@@ -0,0 +1,139 @@
+import assert from "node:assert/strict";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { FakeGitLab } from "./fake-gitlab.js";
+import { TOKEN } from "./fixtures.js";
+
+/**
+ * Error payload of a failed tool call
+ */
+export interface ToolError {
+  code: string;
+  message: string;
+  status?: number;
+  path?: string;
+  gitlab_message?: string;
+  hint?: string;
+  [key: string]: unknown;
+}
+
+/**
+ * The server under test, talking to a fake GitLab
+ *
+ * The server reads its configuration when its module is first imported, so
+ * every test file gets a single fake GitLab and a single session; call
+ * `reconnect` for fresh GitLab clients, e.g. after changing the token.
+ */
+export class TestSession {
+  private constructor(
+    readonly gitlab: FakeGitLab,
+    private client: Client
+  ) {}
+
+  /**
+   * Start a fake GitLab and connect an MCP client to a server using it
+   */
+  static async open(env: Record<string, string> = {}): Promise<TestSession> {
+    const gitlab = await FakeGitLab.start();
+    Object.assign(process.env, {
+      GITLAB_API_URL: gitlab.apiUrl,
+      GITLAB_PERSONAL_ACCESS_TOKEN: TOKEN,
+      GITLAB_CACHE: "false",
+      GITLAB_MAX_RETRIES: "0",
+      ...env,
+    });
+    return new TestSession(gitlab, await connect());
+  }
+
+  /**
+   * Replace the session by a new one with fresh GitLab clients
+   */
+  async reconnect(): Promise<void> {
+    await this.client.close();
+    this.client = await connect();
+  }
+
+  async close(): Promise<void> {
+    await this.client.close();
+    await this.gitlab.close();
+  }
+
+  async listTools() {
+    return (await this.client.listTools()).tools;
+  }
+
+  /**
+   * Call a tool that is expected to succeed
+   *
+   * @returns {Promise<any>} The parsed JSON result, or the text if it is not JSON
+   */
+  async call(name: string, args: Record<string, unknown> = {}): Promise<any> {
+    const { text, isError } = await this.callTool(name, args);
+    assert.ok(!isError, `${name} failed: ${text}`);
+    try {
+      return JSON.parse(text);
+    } catch {
+      return text;
+    }
+  }
+
+  /**
+   * Call a tool that is expected to fail
+   *
+   * @returns {Promise<ToolError>} The error payload
+   */
+  async callError(name: string, args: Record<string, unknown> = {}): Promise<ToolError> {
+    const { text, isError } = await this.callTool(name, args);
+    assert.ok(isError, `${name} unexpectedly succeeded: ${text}`);
+    return JSON.parse(text).error;
+  }
+
+  /**
+   * Call a mutating tool as a dry run
+   *
+   * @returns The write request the call would send, and the description of its change
+   */
+  async preview(name: string, args: Record<string, unknown>): Promise<{ request: any; description: string }> {
+    const result = await this.client.callTool({ name, arguments: { ...args, dry_run: true } });
+    const [request, description] = (result.content as { type: string; text: string }[]).map((part) => part.text);
+    assert.ok(result.isError !== true, `${name} failed: ${request}`);
+    return { request: JSON.parse(request).request, description };
+  }
+
+  async listPrompts() {
+    return (await this.client.listPrompts()).prompts;
+  }
+
+  /**
+   * Get a prompt
+   *
+   * @returns {Promise<string>} The text of its message
+   */
+  async getPrompt(name: string, args: Record<string, string> = {}): Promise<string> {
+    const { messages } = await this.client.getPrompt({ name, arguments: args });
+    return messages.map((message) => (message.content as { text: string }).text).join("\n");
+  }
+
+  async readResource(uri: string) {
+    return (await this.client.readResource({ uri })).contents;
+  }
+
+  private async callTool(name: string, args: Record<string, unknown>) {
+    const result = await this.client.callTool({ name, arguments: args });
+    const content = result.content as { type: string; text: string }[];
+    return { text: content.map((part) => part.text).join("\n"), isError: result.isError === true };
+  }
+}
+
+/**
+ * Connect an MCP client to a new server over an in-memory transport
+ */
+async function connect(): Promise<Client> {
+  // Imported late: the configuration must point at the fake GitLab first
+  const { createServer, createGitLabClients } = await import("../index.js");
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await createServer(createGitLabClients()).connect(serverTransport);
+  const client = new Client({ name: "test-client", version: "1.0.0" }, { capabilities: {} });
+  await client.connect(clientTransport);
+  return client;
+}
@@ -0,0 +1,168 @@
+import assert from "node:assert/strict";
+import { EventEmitter } from "node:events";
+import type http from "node:http";
+import type { AddressInfo } from "node:net";
+import { afterEach, describe, it } from "node:test";
+import fetch from "node-fetch";
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { startHttpServer, type HttpServerOptions } from "../http-server.js";
+import { StreamableHTTPServerTransport } from "../streamable-http.js";
+
+const INITIALIZE = {
+  jsonrpc: "2.0",
+  id: 1,
+  method: "initialize",
+  params: { protocolVersion: "2024-11-05", capabilities: {}, clientInfo: { name: "test", version: "1.0.0" } },
+};
+
+let httpServer: http.Server | undefined;
+let tokens: string[] = [];
+let instanceTokens: Record<string, string>[] = [];
+
+afterEach(async () => {
+  const server = httpServer;
+  if (server) {
+    server.closeAllConnections();
+    await new Promise((resolve) => server.close(resolve));
+  }
+  httpServer = undefined;
+  tokens = [];
+  instanceTokens = [];
+});
+
+/**
+ * Start the HTTP transport on a free port, with servers that only record their token
+ */
+async function start(options: Partial<HttpServerOptions> = {}): Promise<string> {
+  httpServer = await startHttpServer({
+    host: "127.0.0.1",
+    port: 0,
+    createServer: (token, tokensByInstance) => {
+      tokens.push(token);
+      instanceTokens.push(tokensByInstance);
+      return new Server({ name: "test", version: "1.0.0" }, { capabilities: {} });
+    },
+    readinessUrl: "http://127.0.0.1:1/version",
+    ...options,
+  });
+  return `http://127.0.0.1:${(httpServer.address() as AddressInfo).port}`;
+}
+
+function initialize(url: string, headers: Record<string, string> = {}) {
+  return fetch(`${url}/mcp`, {
+    method: "POST",
+    headers: { "content-type": "application/json", ...headers },
+    body: JSON.stringify(INITIALIZE),
+  });
+}
+
+describe("authentication", () => {
+  it("binds the session to the token the client sends", async () => {
+    const url = await start();
+
+    const response = await initialize(url, { "private-token": "glpat-client" });
+
+    assert.equal(response.status, 200);
+    assert.deepEqual(tokens, ["glpat-client"]);
+  });
+
+  it("reads tokens for other instances", async () => {
+    const url = await start();
+
+    const response = await initialize(url, {
+      "private-token": "glpat-client",
+      "gitlab-instance-token": "corp=glpat-corp, lab=glpat-lab",
+    });
+
+    assert.equal(response.status, 200);
+    assert.deepEqual(instanceTokens, [{ corp: "glpat-corp", lab: "glpat-lab" }]);
+  });
+
+  it("refuses requests whose tokens do not match the session", async () => {
+    const url = await start();
+    const response = await initialize(url, {
+      "private-token": "glpat-client",
+      "gitlab-instance-token": "corp=glpat-corp",
+    });
+    const sessionId = response.headers.get("mcp-session-id") ?? "";
+
+    const other = await fetch(`${url}/mcp`, {
+      method: "POST",
+      headers: {
+        "content-type": "application/json",
+        "mcp-session-id": sessionId,
+        "private-token": "glpat-client",
+        "gitlab-instance-token": "corp=glpat-other",
+      },
+      body: JSON.stringify({ jsonrpc: "2.0", id: 2, method: "ping" }),
+    });
+
+    assert.equal(other.status, 403);
+  });
+
+  it("refuses clients without a token", async () => {
+    const url = await start();
+
+    const response = await initialize(url);
+
+    assert.equal(response.status, 401);
+    assert.deepEqual(tokens, []);
+  });
+
+  it("lends the default token on a loopback address", async () => {
+    const url = await start({ defaultToken: "glpat-server" });
+
+    const response = await initialize(url);
+
+    assert.equal(response.status, 200);
+    assert.deepEqual(tokens, ["glpat-server"]);
+  });
+
+  it("refuses to lend the default token on other addresses", async () => {
+    await assert.rejects(
+      startHttpServer({
+        host: "0.0.0.0",
+        port: 0,
+        createServer: () => new Server({ name: "test", version: "1.0.0" }, { capabilities: {} }),
+        defaultToken: "glpat-server",
+        readinessUrl: "http://127.0.0.1:1/version",
+      }),
+      /Refusing to lend the server's GitLab token/
+    );
+  });
+});
+
+describe("origin check", () => {
+  it("refuses pages from other origins", async () => {
+    const url = await start();
+
+    const response = await initialize(url, { "private-token": "glpat-client", origin: "https://evil.example" });
+
+    assert.equal(response.status, 403);
+    assert.deepEqual(tokens, []);
+  });
+
+  it("accepts loopback and allowed origins", async () => {
+    const url = await start({ allowedOrigins: ["https://app.example.com"] });
+
+    const local = await initialize(url, { "private-token": "glpat-client", origin: "http://localhost:5173" });
+    const allowed = await initialize(url, { "private-token": "glpat-client", origin: "https://app.example.com" });
+
+    assert.equal(local.status, 200);
+    assert.equal(allowed.status, 200);
+  });
+});
+
+describe("streamable HTTP transport", () => {
+  it("forgets pending responses when the client disconnects", async () => {
+    const transport = new StreamableHTTPServerTransport();
+    const res = Object.assign(new EventEmitter(), { writableEnded: false }) as unknown as http.ServerResponse;
+
+    const handled = transport.handlePost({ jsonrpc: "2.0", id: 1, method: "ping" }, res);
+    res.emit("close");
+    await handled;
+    await transport.send({ jsonrpc: "2.0", id: 1, result: {} });
+
+    assert.equal(transport["pending"].size, 0);
+  });
+});
@@ -0,0 +1,31 @@
+import assert from "node:assert/strict";
+import { after, before, describe, it } from "node:test";
+import { TestSession } from "./harness.js";
+
+let session: TestSession;
+
+before(async () => {
+  session = await TestSession.open({
+    GITLAB_INSTANCE_CORP_API_URL: "https://git.corp.example.com",
+    GITLAB_INSTANCE_CORP_TOKEN: "glpat-operator-token",
+  });
+});
+after(() => session.close());
+
+describe("createGitLabClients", () => {
+  it("uses the configured credentials of every instance", async () => {
+    const { createGitLabClients } = await import("../index.js");
+
+    assert.deepEqual([...createGitLabClients().keys()].sort(), ["corp", "default"]);
+  });
+
+  it("only gives HTTP sessions the instances they sent tokens for", async () => {
+    const { createGitLabClients } = await import("../index.js");
+
+    assert.deepEqual([...createGitLabClients({ default: "glpat-client" }).keys()], ["default"]);
+    assert.deepEqual(
+      [...createGitLabClients({ default: "glpat-client", corp: "glpat-corp" }).keys()].sort(),
+      ["corp", "default"]
+    );
+  });
+});
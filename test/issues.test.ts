@@ -0,0 +1,292 @@
+import assert from "node:assert/strict";
+import { after, before, beforeEach, describe, it } from "node:test";
+import { TestSession } from "./harness.js";
+
+let session: TestSession;
+
+before(async () => {
+  session = await TestSession.open();
+});
+beforeEach(() => session.gitlab.reset());
+after(() => session.close());
+
+describe("create_issue", () => {
+  it("creates an issue with labels", async () => {
+    const issue = await session.call("create_issue", {
+      project_id: "acme/app",
+      title: "Slow startup",
+      description: "Takes ten seconds",
+      labels: ["bug", "performance"],
+    });
+
+    assert.equal(issue.iid, 3);
+    assert.deepEqual(issue.labels, ["bug", "performance"]);
+    assert.equal(session.gitlab.requests[0].body.labels, "bug,performance");
+  });
+
+  it("reports validation errors", async () => {
+    const error = await session.callError("create_issue", { project_id: "5", title: "" });
+
+    assert.equal(error.code, "validation_failed");
+    assert.deepEqual(error.field_errors, { title: ["can't be blank"] });
+  });
+});
+
+describe("list_issues", () => {
+  it("passes filters to GitLab", async () => {
+    await session.call("list_issues", {
+      project_id: "5",
+      state: "opened",
+      label_name: ["bug", "ui"],
+      confidential: false,
+    });
+
+    assert.deepEqual(session.gitlab.requests[0].query, {
+      state: "opened",
+      label_name: "bug,ui",
+      confidential: "false",
+    });
+  });
+
+  it("follows pagination with all_pages", async () => {
+    const result = await session.call("list_issues", { project_id: "5", all_pages: true, per_page: 1 });
+
+    assert.deepEqual(
+      result.items.map((issue: any) => issue.iid),
+      [1, 2]
+    );
+    assert.equal(result.truncated, false);
+    assert.equal(session.gitlab.requests.length, 2);
+  });
+
+  it("stops at max_items", async () => {
+    const result = await session.call("list_issues", { project_id: "5", max_items: 1, per_page: 1 });
+
+    assert.equal(result.items.length, 1);
+    assert.equal(result.next_page, 2);
+    assert.equal(result.truncated, true);
+  });
+
+  it("returns no more than max_items", async () => {
+    const { issues } = session.gitlab.data;
+    issues.push({ ...issues[1], id: 103, iid: 3 }, { ...issues[1], id: 104, iid: 4 });
+
+    const small = await session.call("list_issues", { project_id: "5", max_items: 1 });
+    const result = await session.call("list_issues", { project_id: "5", max_items: 3, per_page: 2 });
+
+    assert.deepEqual(small.items.map((issue: any) => issue.iid), [1]);
+    assert.equal(session.gitlab.requests[0].query.per_page, "1");
+    assert.deepEqual(result.items.map((issue: any) => issue.iid), [1, 2, 3]);
+    assert.equal(result.truncated, true);
+  });
+
+  it("reports an unknown project", async () => {
+    const error = await session.callError("list_issues", { project_id: "acme/missing" });
+
+    assert.equal(error.code, "not_found");
+    assert.equal(error.path, "/projects/acme%2Fmissing/issues");
+  });
+});
+
+describe("get_issue", () => {
+  it("returns the issue", async () => {
+    const issue = await session.call("get_issue", { project_id: "5", issue_iid: 1 });
+
+    assert.equal(issue.title, "Crash on startup");
+    assert.deepEqual(issue.labels, ["bug"]);
+  });
+
+  it("reports a missing issue", async () => {
+    const error = await session.callError("get_issue", { project_id: "5", issue_iid: 99 });
+
+    assert.equal(error.code, "not_found");
+    assert.equal(error.gitlab_message, "404 Issue Not Found");
+  });
+
+  it("rejects a non-numeric iid", async () => {
+    const error = await session.callError("get_issue", { project_id: "5", issue_iid: "one" });
+
+    assert.equal(error.code, "invalid_arguments");
+    assert.equal(session.gitlab.requests.length, 0);
+  });
+});
+
+describe("update_issue", () => {
+  it("closes an issue and replaces its labels", async () => {
+    const issue = await session.call("update_issue", {
+      project_id: "5",
+      issue_iid: 1,
+      state_event: "close",
+      labels: ["bug", "fixed"],
+    });
+
+    assert.equal(issue.state, "closed");
+    assert.deepEqual(issue.labels, ["bug", "fixed"]);
+    assert.deepEqual(session.gitlab.requests[0].body, { state_event: "close", labels: "bug,fixed" });
+  });
+
+  it("reports a missing issue", async () => {
+    const error = await session.callError("update_issue", { project_id: "5", issue_iid: 99, title: "New" });
+
+    assert.equal(error.code, "not_found");
+  });
+});
+
+describe("delete_issue", () => {
+  it("deletes the issue", async () => {
+    const result = await session.call("delete_issue", { project_id: "5", issue_iid: 2 });
+
+    assert.deepEqual(result, { status: "success", message: "Issue deleted successfully" });
+    assert.deepEqual(
+      session.gitlab.data.issues.map((issue) => issue.iid),
+      [1]
+    );
+  });
+
+  it("explains a missing role", async () => {
+    session.gitlab.fail("DELETE", "/projects/:project/issues/:iid", 403, { message: "403 Forbidden" });
+
+    const error = await session.callError("delete_issue", { project_id: "5", issue_iid: 2 });
+
+    assert.equal(error.code, "forbidden");
+    assert.match(error.hint ?? "", /delete_issue needs at least the Owner role/);
+  });
+});
+
+describe("list_issue_links", () => {
+  it("returns linked issues with link details", async () => {
+    const links = await session.call("list_issue_links", { project_id: "5", issue_iid: 2 });
+
+    assert.equal(links.length, 1);
+    assert.equal(links[0].iid, 1);
+    assert.equal(links[0].issue_link_id, 1);
+    assert.equal(links[0].link_type, "relates_to");
+  });
+
+  it("reports a missing issue", async () => {
+    const error = await session.callError("list_issue_links", { project_id: "5", issue_iid: 99 });
+
+    assert.equal(error.code, "not_found");
+  });
+});
+
+describe("get_issue_link", () => {
+  it("returns both issues of the link", async () => {
+    const link = await session.call("get_issue_link", { project_id: "5", issue_iid: 1, issue_link_id: 1 });
+
+    assert.equal(link.source_issue.iid, 1);
+    assert.equal(link.target_issue.iid, 2);
+  });
+
+  it("reports a missing link", async () => {
+    const error = await session.callError("get_issue_link", { project_id: "5", issue_iid: 1, issue_link_id: 9 });
+
+    assert.equal(error.code, "not_found");
+  });
+});
+
+describe("create_issue_link", () => {
+  it("links two issues", async () => {
+    session.gitlab.data.issueLinks = [];
+
+    const link = await session.call("create_issue_link", {
+      project_id: "5",
+      issue_iid: 1,
+      target_project_id: "acme/app",
+      target_issue_iid: 2,
+      link_type: "blocks",
+    });
+
+    assert.equal(link.link_type, "blocks");
+    assert.equal(link.target_issue.iid, 2);
+    assert.deepEqual(session.gitlab.requests[0].body, {
+      target_project_id: "acme/app",
+      target_issue_iid: 2,
+      link_type: "blocks",
+    });
+  });
+
+  it("defaults to relates_to", async () => {
+    session.gitlab.data.issueLinks = [];
+
+    await session.call("create_issue_link", { project_id: "5", issue_iid: 1, target_project_id: "5", target_issue_iid: 2 });
+
+    assert.equal(session.gitlab.requests[0].body.link_type, "relates_to");
+  });
+
+  it("reports issues that are already linked", async () => {
+    const error = await session.callError("create_issue_link", {
+      project_id: "5",
+      issue_iid: 1,
+      target_project_id: "5",
+      target_issue_iid: 2,
+    });
+
+    assert.equal(error.code, "conflict");
+    assert.equal(error.gitlab_message, "Issue(s) already assigned");
+  });
+});
+
+describe("delete_issue_link", () => {
+  it("removes the link", async () => {
+    const result = await session.call("delete_issue_link", { project_id: "5", issue_iid: 1, issue_link_id: 1 });
+
+    assert.deepEqual(result, { status: "success", message: "Issue link deleted successfully" });
+    assert.equal(session.gitlab.data.issueLinks.length, 0);
+  });
+
+  it("reports a missing link", async () => {
+    const error = await session.callError("delete_issue_link", { project_id: "5", issue_iid: 1, issue_link_id: 9 });
+
+    assert.equal(error.code, "not_found");
+  });
+});
+
+describe("create_note", () => {
+  it("comments on an issue through the plural issues endpoint", async () => {
+    const note = await session.call("create_note", {
+      project_id: "acme/app",
+      noteable_type: "issue",
+      noteable_iid: 1,
+      body: "Reproduced on main",
+    });
+
+    assert.equal(note.body, "Reproduced on main");
+    assert.equal(note.noteable_type, "Issue");
+    assert.equal(session.gitlab.requests[0].path, "/projects/acme%2Fapp/issues/1/notes");
+  });
+
+  it("comments on a merge request through the plural merge_requests endpoint", async () => {
+    const note = await session.call("create_note", {
+      project_id: "5",
+      noteable_type: "merge_request",
+      noteable_iid: 1,
+      body: "Looks good",
+    });
+
+    assert.equal(note.noteable_type, "MergeRequest");
+    assert.equal(session.gitlab.requests[0].path, "/projects/5/merge_requests/1/notes");
+  });
+
+  it("reports an empty note", async () => {
+    const error = await session.callError("create_note", {
+      project_id: "5",
+      noteable_type: "issue",
+      noteable_iid: 1,
+      body: "",
+    });
+
+    assert.equal(error.code, "validation_failed");
+  });
+
+  it("rejects other noteable types", async () => {
+    const error = await session.callError("create_note", {
+      project_id: "5",
+      noteable_type: "snippet",
+      noteable_iid: 1,
+      body: "Hi",
+    });
+
+    assert.equal(error.code, "invalid_arguments");
+  });
+});
@@ -0,0 +1,108 @@
+import assert from "node:assert/strict";
+import { after, before, beforeEach, describe, it } from "node:test";
+import { TestSession } from "./harness.js";
+
+let session: TestSession;
+
+before(async () => {
+  session = await TestSession.open();
+});
+beforeEach(() => session.gitlab.reset());
+after(() => session.close());
+
+describe("list_labels", () => {
+  it("returns labels with issue counts", async () => {
+    const result = await session.call("list_labels", { project_id: "acme/app", with_counts: true });
+
+    assert.equal(result.items.length, 1);
+    assert.equal(result.items[0].name, "bug");
+    assert.equal(result.items[0].open_issues_count, 1);
+    assert.deepEqual(session.gitlab.requests[0].query, { with_counts: "true" });
+  });
+
+  it("reports an unknown project", async () => {
+    const error = await session.callError("list_labels", { project_id: "acme/missing" });
+
+    assert.equal(error.code, "not_found");
+  });
+});
+
+describe("get_label", () => {
+  it("finds a label by name", async () => {
+    const label = await session.call("get_label", { project_id: "5", label_id: "bug" });
+
+    assert.equal(label.id, 20);
+  });
+
+  it("reports a missing label", async () => {
+    const error = await session.callError("get_label", { project_id: "5", label_id: 99 });
+
+    assert.equal(error.code, "not_found");
+    assert.equal(error.gitlab_message, "404 Label Not Found");
+  });
+});
+
+describe("create_label", () => {
+  it("creates a label", async () => {
+    const label = await session.call("create_label", {
+      project_id: "5",
+      name: "feature",
+      color: "#428bca",
+      description: "New functionality",
+    });
+
+    assert.equal(label.name, "feature");
+    assert.equal(session.gitlab.data.labels.length, 2);
+    const { name, color, description } = session.gitlab.requests[0].body;
+    assert.deepEqual({ name, color, description }, {
+      name: "feature",
+      color: "#428bca",
+      description: "New functionality",
+    });
+  });
+
+  it("reports an invalid color", async () => {
+    const error = await session.callError("create_label", { project_id: "5", name: "feature", color: "blue-ish" });
+
+    assert.equal(error.code, "validation_failed");
+    assert.deepEqual(error.field_errors, { color: ["must be a valid color code"] });
+  });
+
+  it("reports an existing label", async () => {
+    const error = await session.callError("create_label", { project_id: "5", name: "bug", color: "#ff0000" });
+
+    assert.equal(error.code, "conflict");
+    assert.equal(error.gitlab_message, "Label already exists");
+  });
+});
+
+describe("update_label", () => {
+  it("renames a label", async () => {
+    const label = await session.call("update_label", { project_id: "5", label_id: 20, new_name: "defect" });
+
+    assert.equal(label.name, "defect");
+    assert.deepEqual(session.gitlab.requests[0].body, { new_name: "defect" });
+  });
+
+  it("reports an update without changes", async () => {
+    const error = await session.callError("update_label", { project_id: "5", label_id: 20 });
+
+    assert.equal(error.code, "validation_failed");
+    assert.match(error.message, /at least one parameter must be provided/);
+  });
+});
+
+describe("delete_label", () => {
+  it("deletes a label", async () => {
+    const result = await session.call("delete_label", { project_id: "5", label_id: "bug" });
+
+    assert.deepEqual(result, { status: "success", message: "Label deleted successfully" });
+    assert.equal(session.gitlab.data.labels.length, 0);
+  });
+
+  it("reports a missing label", async () => {
+    const error = await session.callError("delete_label", { project_id: "5", label_id: "nope" });
+
+    assert.equal(error.code, "not_found");
+  });
+});
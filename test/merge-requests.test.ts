@@ -0,0 +1,543 @@
+import assert from "node:assert/strict";
+import { after, before, beforeEach, describe, it } from "node:test";
+import { FEATURE_SHA, MAIN_SHA, USER } from "./fixtures.js";
+import { TestSession } from "./harness.js";
+
+let session: TestSession;
+
+before(async () => {
+  session = await TestSession.open();
+});
+beforeEach(() => session.gitlab.reset());
+after(() => session.close());
+
+const DISCUSSION_ID = "6a9c1750b37d513a43987b574953fceb50b03ce7";
+
+describe("create_merge_request", () => {
+  it("opens a draft merge request", async () => {
+    session.gitlab.data.branches.topic = MAIN_SHA;
+
+    const mergeRequest = await session.call("create_merge_request", {
+      project_id: "acme/app",
+      title: "Try something",
+      source_branch: "topic",
+      target_branch: "main",
+      draft: true,
+    });
+
+    assert.equal(mergeRequest.iid, 2);
+    assert.equal(mergeRequest.title, "Draft: Try something");
+    assert.equal(session.gitlab.requests[0].body.draft, true);
+  });
+
+  it("reports an existing merge request for the branch", async () => {
+    const error = await session.callError("create_merge_request", {
+      project_id: "5",
+      title: "Again",
+      source_branch: "feature",
+      target_branch: "main",
+    });
+
+    assert.equal(error.code, "conflict");
+    assert.match(error.gitlab_message ?? "", /Another open merge request already exists/);
+  });
+
+  it("reports a missing source branch", async () => {
+    const error = await session.callError("create_merge_request", {
+      project_id: "5",
+      title: "Nothing",
+      source_branch: "nope",
+      target_branch: "main",
+    });
+
+    assert.equal(error.code, "validation_failed");
+  });
+});
+
+describe("list_merge_requests", () => {
+  it("lists the merge requests of a project", async () => {
+    const result = await session.call("list_merge_requests", {
+      project_id: "acme/app",
+      state: "opened",
+      source_branch: "feature",
+    });
+
+    assert.deepEqual(result.items.map((mr: { iid: number }) => mr.iid), [1]);
+    assert.equal(session.gitlab.requests[0].path, "/projects/acme%2Fapp/merge_requests");
+    assert.deepEqual(session.gitlab.requests[0].query, { state: "opened", source_branch: "feature" });
+  });
+
+  it("filters by approver", async () => {
+    const before = await session.call("list_merge_requests", { project_id: "5", approved_by_usernames: ["alice"] });
+    session.gitlab.data.mergeRequests[0].approvers.push(USER);
+    const after = await session.call("list_merge_requests", { project_id: "5", approved_by_usernames: ["alice"] });
+
+    assert.equal(before.items.length, 0);
+    assert.equal(after.items.length, 1);
+    assert.deepEqual(session.gitlab.requests[0].query, { "approved_by_usernames[]": "alice" });
+  });
+
+  it("lists across a group or all projects", async () => {
+    await session.call("list_merge_requests", { group_id: "acme", draft: false });
+    await session.call("list_merge_requests", { scope: "assigned_to_me" });
+
+    assert.deepEqual(
+      session.gitlab.requests.map((request) => request.path),
+      ["/groups/acme/merge_requests", "/merge_requests"]
+    );
+  });
+
+  it("rejects both a project and a group", async () => {
+    const error = await session.callError("list_merge_requests", { project_id: "5", group_id: "acme" });
+
+    assert.match(error.message, /either project_id or group_id/);
+    assert.equal(session.gitlab.requests.length, 0);
+  });
+});
+
+describe("get_merge_request", () => {
+  it("returns the merge request with its diff refs", async () => {
+    const mergeRequest = await session.call("get_merge_request", { project_id: "5", merge_request_iid: 1 });
+
+    assert.equal(mergeRequest.source_branch, "feature");
+    assert.equal(mergeRequest.diff_refs.head_sha, FEATURE_SHA);
+  });
+
+  it("reports what decides whether it can be merged", async () => {
+    const mergeRequest = await session.call("get_merge_request", { project_id: "5", merge_request_iid: 1 });
+
+    assert.equal(mergeRequest.detailed_merge_status, "mergeable");
+    assert.equal(mergeRequest.approvals_required, 2);
+    assert.equal(mergeRequest.approvals_left, 2);
+  });
+
+  it("leaves out approvals the token cannot read", async () => {
+    session.gitlab.fail("GET", "/projects/:project/merge_requests/:iid/approvals", 403);
+
+    const mergeRequest = await session.call("get_merge_request", { project_id: "5", merge_request_iid: 1 });
+
+    assert.equal(mergeRequest.iid, 1);
+    assert.equal(mergeRequest.approvals_left, undefined);
+  });
+
+  it("reports a missing merge request", async () => {
+    const error = await session.callError("get_merge_request", { project_id: "5", merge_request_iid: 9 });
+
+    assert.equal(error.code, "not_found");
+    assert.equal(error.gitlab_message, "404 Merge Request Not Found");
+  });
+});
+
+describe("get_merge_request_diffs", () => {
+  it("returns the changed files", async () => {
+    const diffs = await session.call("get_merge_request_diffs", {
+      project_id: "5",
+      merge_request_iid: 1,
+      view: "inline",
+    });
+
+    assert.equal(diffs.length, 1);
+    assert.equal(diffs[0].new_path, "src/index.ts");
+    assert.match(diffs[0].diff, /\+export const answer = 42;/);
+    assert.equal(session.gitlab.requests[0].query.view, "inline");
+  });
+
+  it("reports a missing merge request", async () => {
+    const error = await session.callError("get_merge_request_diffs", { project_id: "5", merge_request_iid: 9 });
+
+    assert.equal(error.code, "not_found");
+  });
+});
+
+describe("update_merge_request", () => {
+  it("changes the title and labels", async () => {
+    const mergeRequest = await session.call("update_merge_request", {
+      project_id: "5",
+      merge_request_iid: 1,
+      title: "Answer 42",
+      labels: ["bug", "backend"],
+    });
+
+    assert.equal(mergeRequest.title, "Answer 42");
+    assert.deepEqual(mergeRequest.labels, ["bug", "backend"]);
+    assert.deepEqual(session.gitlab.requests[0].body, { title: "Answer 42", labels: ["bug", "backend"] });
+  });
+
+  it("sets reviewers and assignees", async () => {
+    const mergeRequest = await session.call("update_merge_request", {
+      project_id: "5",
+      merge_request_iid: 1,
+      reviewer_ids: [USER.id],
+      assignee_ids: [USER.id],
+    });
+
+    assert.deepEqual(mergeRequest.reviewers.map((user: { username: string }) => user.username), ["alice"]);
+    assert.deepEqual(mergeRequest.assignees.map((user: { username: string }) => user.username), ["alice"]);
+    assert.deepEqual(session.gitlab.requests[0].body, { reviewer_ids: [1], assignee_ids: [1] });
+  });
+
+  it("closes the merge request", async () => {
+    const mergeRequest = await session.call("update_merge_request", {
+      project_id: "5",
+      merge_request_iid: 1,
+      state_event: "close",
+    });
+
+    assert.equal(mergeRequest.state, "closed");
+  });
+
+  it("reports a missing merge request", async () => {
+    const error = await session.callError("update_merge_request", { project_id: "5", merge_request_iid: 9, title: "x" });
+
+    assert.equal(error.code, "not_found");
+  });
+});
+
+describe("get_merge_request_approvals", () => {
+  it("returns the approvals and rules", async () => {
+    session.gitlab.data.mergeRequests[0].approvers.push(USER);
+
+    const approvals = await session.call("get_merge_request_approvals", { project_id: "5", merge_request_iid: 1 });
+
+    assert.equal(approvals.approvals_left, 1);
+    assert.deepEqual(approvals.approved_by.map((approval: { user: { username: string } }) => approval.user.username), [
+      "alice",
+    ]);
+    assert.equal(approvals.rules[0].name, "All Members");
+    assert.equal(approvals.rules[0].approved, false);
+  });
+
+  it("leaves out the rules without GitLab Premium", async () => {
+    session.gitlab.fail("GET", "/projects/:project/merge_requests/:iid/approval_state", 404);
+
+    const approvals = await session.call("get_merge_request_approvals", { project_id: "5", merge_request_iid: 1 });
+
+    assert.equal(approvals.approvals_required, 2);
+    assert.equal(approvals.rules, undefined);
+  });
+});
+
+describe("approve_merge_request", () => {
+  it("approves at the reviewed SHA", async () => {
+    const approvals = await session.call("approve_merge_request", {
+      project_id: "5",
+      merge_request_iid: 1,
+      sha: FEATURE_SHA,
+    });
+
+    assert.equal(approvals.approvals_left, 1);
+    assert.deepEqual(session.gitlab.requests[0].body, { sha: FEATURE_SHA });
+  });
+
+  it("approves as another user", async () => {
+    await session.call("approve_merge_request", { project_id: "5", merge_request_iid: 1, sudo: "bob" });
+
+    assert.equal(session.gitlab.requests[0].headers.sudo, "bob");
+    assert.deepEqual(session.gitlab.requests[0].body, {});
+  });
+
+  it("reports a source branch that moved", async () => {
+    const error = await session.callError("approve_merge_request", {
+      project_id: "5",
+      merge_request_iid: 1,
+      sha: MAIN_SHA,
+    });
+
+    assert.equal(error.code, "conflict");
+    assert.match(error.message, /has moved since 1111/);
+  });
+
+  it("reports a wrong approval password", async () => {
+    const error = await session.callError("approve_merge_request", {
+      project_id: "5",
+      merge_request_iid: 1,
+      approval_password: "wrong",
+    });
+
+    assert.equal(error.code, "unauthorized");
+    assert.match(error.message, /approval password is not valid/);
+  });
+});
+
+describe("unapprove_merge_request", () => {
+  it("withdraws the approval", async () => {
+    session.gitlab.data.mergeRequests[0].approvers.push(USER);
+
+    const approvals = await session.call("unapprove_merge_request", { project_id: "5", merge_request_iid: 1 });
+
+    assert.equal(approvals.approvals_left, 2);
+    assert.deepEqual(approvals.approved_by, []);
+  });
+
+  it("reports a merge request the user has not approved", async () => {
+    const error = await session.callError("unapprove_merge_request", { project_id: "5", merge_request_iid: 1 });
+
+    assert.equal(error.code, "not_found");
+  });
+});
+
+describe("merge_merge_request", () => {
+  it("merges the source branch", async () => {
+    const mergeRequest = await session.call("merge_merge_request", {
+      project_id: "5",
+      merge_request_iid: 1,
+      sha: FEATURE_SHA,
+      should_remove_source_branch: true,
+    });
+
+    assert.equal(mergeRequest.state, "merged");
+    assert.equal(mergeRequest.merge_commit_sha, session.gitlab.data.branches.main);
+    assert.equal(session.gitlab.data.files.main["src/index.ts"].toString(), "export const answer = 42;\n");
+    assert.deepEqual(session.gitlab.requests[0].body, { sha: FEATURE_SHA, should_remove_source_branch: true });
+  });
+
+  it("explains a merge request that cannot be merged yet", async () => {
+    session.gitlab.data.mergeRequests[0].draft = true;
+
+    const error = await session.callError("merge_merge_request", { project_id: "5", merge_request_iid: 1 });
+
+    assert.equal(error.code, "conflict");
+    assert.equal(error.status, 405);
+    assert.match(error.message, /^Merge request !1 cannot be merged in its current state/);
+  });
+
+  it("explains conflicts", async () => {
+    session.gitlab.data.mergeRequests[0].has_conflicts = true;
+
+    const error = await session.callError("merge_merge_request", { project_id: "5", merge_request_iid: 1 });
+
+    assert.equal(error.status, 406);
+    assert.match(error.message, /^Merge request !1 has conflicts and cannot be merged/);
+  });
+
+  it("explains a source branch that moved", async () => {
+    const error = await session.callError("merge_merge_request", {
+      project_id: "5",
+      merge_request_iid: 1,
+      sha: MAIN_SHA,
+    });
+
+    assert.equal(error.status, 409);
+    assert.match(error.message, new RegExp(`^Source branch of merge request !1 has moved since ${MAIN_SHA}`));
+  });
+});
+
+describe("rebase_merge_request", () => {
+  it("waits for the rebase to finish", async () => {
+    session.gitlab.data.mergeRequests[0].rebase_polls = 1;
+
+    const mergeRequest = await session.call("rebase_merge_request", {
+      project_id: "5",
+      merge_request_iid: 1,
+      skip_ci: true,
+    });
+
+    assert.equal(mergeRequest.rebase_in_progress, false);
+    const [before, rebase, ...polls] = session.gitlab.requests;
+    assert.equal(before.method, "GET");
+    assert.equal(rebase.path, "/projects/5/merge_requests/1/rebase");
+    assert.deepEqual(rebase.query, { skip_ci: "true" });
+    assert.equal(polls.length, 2);
+    assert.deepEqual(polls[0].query, { include_rebase_in_progress: "true" });
+  });
+
+  it("reports a failed rebase", async () => {
+    session.gitlab.data.mergeRequests[0].rebase_error = "Rebase failed: conflicts in src/index.ts";
+
+    const error = await session.callError("rebase_merge_request", { project_id: "5", merge_request_iid: 1 });
+
+    assert.equal(error.code, "rebase_failed");
+    assert.equal(error.merge_error, "Rebase failed: conflicts in src/index.ts");
+    assert.equal(error.message, "Rebase of merge request !1 failed: Rebase failed: conflicts in src/index.ts");
+  });
+
+  it("ignores the error of an earlier rebase", async () => {
+    session.gitlab.data.mergeRequests[0].merge_error = "Rebase failed: conflicts in src/index.ts";
+    session.gitlab.data.mergeRequests[0].rebase_polls = 1;
+
+    const mergeRequest = await session.call("rebase_merge_request", { project_id: "5", merge_request_iid: 1 });
+
+    assert.equal(mergeRequest.rebase_in_progress, false);
+    assert.equal(mergeRequest.merge_error, "Rebase failed: conflicts in src/index.ts");
+  });
+
+  it("gives up after the timeout", async () => {
+    session.gitlab.data.mergeRequests[0].rebase_polls = 10;
+
+    const error = await session.callError("rebase_merge_request", {
+      project_id: "5",
+      merge_request_iid: 1,
+      timeout_seconds: 0,
+    });
+
+    assert.equal(error.code, "rebase_timeout");
+    assert.equal(error.message, "Rebase of merge request !1 is still in progress after 0 seconds");
+  });
+
+  it("reports a rebase already in progress", async () => {
+    session.gitlab.data.mergeRequests[0].rebase_in_progress = true;
+
+    const error = await session.callError("rebase_merge_request", { project_id: "5", merge_request_iid: 1 });
+
+    assert.equal(error.code, "conflict");
+    assert.match(error.message, /^A rebase of merge request !1 is already in progress/);
+  });
+
+  it("explains a source branch the user cannot push to", async () => {
+    session.gitlab.fail("PUT", "/projects/:project/merge_requests/:iid/rebase", 403);
+
+    const error = await session.callError("rebase_merge_request", { project_id: "5", merge_request_iid: 1 });
+
+    assert.equal(error.code, "forbidden");
+    assert.match(error.message, /^Not allowed to push to the source branch of merge request !1/);
+  });
+});
+
+describe("list_merge_request_discussions", () => {
+  it("returns the threads", async () => {
+    const result = await session.call("list_merge_request_discussions", { project_id: "5", merge_request_iid: 1 });
+
+    assert.equal(result.items.length, 1);
+    assert.equal(result.items[0].id, DISCUSSION_ID);
+    assert.equal(result.items[0].notes[0].body, "Should this be configurable?");
+  });
+
+  it("reports a missing merge request", async () => {
+    const error = await session.callError("list_merge_request_discussions", { project_id: "5", merge_request_iid: 9 });
+
+    assert.equal(error.code, "not_found");
+  });
+});
+
+describe("create_merge_request_thread", () => {
+  it("starts a general thread", async () => {
+    const discussion = await session.call("create_merge_request_thread", {
+      project_id: "5",
+      merge_request_iid: 1,
+      body: "Please add tests",
+    });
+
+    assert.equal(discussion.notes[0].body, "Please add tests");
+    assert.deepEqual(session.gitlab.requests[0].body, { body: "Please add tests" });
+  });
+
+  it("anchors a thread to a line of the diff", async () => {
+    const discussion = await session.call("create_merge_request_thread", {
+      project_id: "5",
+      merge_request_iid: 1,
+      body: "Why 42?",
+      position: { new_path: "src/index.ts", new_line: 1 },
+    });
+
+    assert.equal(discussion.notes[0].type, "DiffNote");
+    const post = session.gitlab.requestsTo("POST")[0];
+    assert.deepEqual(post.body.position, {
+      ...session.gitlab.data.mergeRequests[0].diff_refs,
+      position_type: "text",
+      new_path: "src/index.ts",
+      old_path: "src/index.ts",
+      new_line: 1,
+    });
+  });
+
+  it("rejects a file the merge request does not change", async () => {
+    const error = await session.callError("create_merge_request_thread", {
+      project_id: "5",
+      merge_request_iid: 1,
+      body: "Typo",
+      position: { new_path: "README.md", new_line: 1 },
+    });
+
+    assert.equal(error.message, "File README.md is not changed in merge request !1");
+    assert.equal(session.gitlab.requestsTo("POST").length, 0);
+  });
+
+  it("rejects a position without a line", async () => {
+    const error = await session.callError("create_merge_request_thread", {
+      project_id: "5",
+      merge_request_iid: 1,
+      body: "Hmm",
+      position: { new_path: "src/index.ts" },
+    });
+
+    assert.equal(error.message, "Either new_line or old_line is required to anchor a thread");
+    assert.equal(session.gitlab.requests.length, 0);
+  });
+
+  it("explains a diff that is not ready", async () => {
+    session.gitlab.data.mergeRequests[0].diff_refs = null as any;
+
+    const error = await session.callError("create_merge_request_thread", {
+      project_id: "5",
+      merge_request_iid: 1,
+      body: "Hmm",
+      position: { new_path: "src/index.ts", new_line: 1 },
+    });
+
+    assert.match(error.message, /^Merge request !1 has no diff refs yet/);
+  });
+});
+
+describe("reply_to_discussion", () => {
+  it("adds a note to the thread", async () => {
+    const note = await session.call("reply_to_discussion", {
+      project_id: "5",
+      merge_request_iid: 1,
+      discussion_id: DISCUSSION_ID,
+      body: "Not for now",
+    });
+
+    assert.equal(note.body, "Not for now");
+    assert.equal(session.gitlab.data.mergeRequests[0].discussions[0].notes.length, 2);
+  });
+
+  it("reports a missing thread", async () => {
+    const error = await session.callError("reply_to_discussion", {
+      project_id: "5",
+      merge_request_iid: 1,
+      discussion_id: "missing",
+      body: "Hello?",
+    });
+
+    assert.equal(error.code, "not_found");
+  });
+});
+
+describe("resolve_discussion", () => {
+  it("resolves the thread", async () => {
+    const discussion = await session.call("resolve_discussion", {
+      project_id: "5",
+      merge_request_iid: 1,
+      discussion_id: DISCUSSION_ID,
+      resolved: true,
+    });
+
+    assert.equal(discussion.notes[0].resolved, true);
+    assert.deepEqual(session.gitlab.requests[0].query, { resolved: "true" });
+  });
+
+  it("reports a missing thread", async () => {
+    const error = await session.callError("resolve_discussion", {
+      project_id: "5",
+      merge_request_iid: 1,
+      discussion_id: "missing",
+      resolved: false,
+    });
+
+    assert.equal(error.code, "not_found");
+  });
+
+  it("explains a missing role", async () => {
+    session.gitlab.fail("PUT", "/projects/:project/merge_requests/:iid/discussions/:discussion", 403);
+
+    const error = await session.callError("resolve_discussion", {
+      project_id: "5",
+      merge_request_iid: 1,
+      discussion_id: DISCUSSION_ID,
+      resolved: true,
+    });
+
+    assert.equal(error.code, "forbidden");
+    assert.match(error.hint ?? "", /resolve_discussion needs at least the Developer role/);
+  });
+});
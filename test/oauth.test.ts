@@ -0,0 +1,160 @@
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import http from "node:http";
+import type { AddressInfo } from "node:net";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, describe, it } from "node:test";
+import { GitLabClient } from "../gitlab-client.js";
+import { OAuthCredentials, TokenStore } from "../oauth.js";
+
+const STORE = path.join(os.tmpdir(), `gitlab-mcp-oauth-${process.pid}.json`);
+
+let server: http.Server | undefined;
+
+afterEach(async () => {
+  fs.rmSync(STORE, { force: true });
+  fs.rmSync(`${STORE}.key`, { force: true });
+  const running = server;
+  if (running) {
+    running.closeAllConnections();
+    await new Promise((resolve) => running.close(resolve));
+  }
+  server = undefined;
+});
+
+/**
+ * Start a GitLab accepting one access token and issuing `gloas-new` for
+ * the refresh token `refresh-1`
+ *
+ * @returns The credentials of instance "default", and the requests received
+ */
+async function startGitLab(store: TokenStore) {
+  const requests: { path: string; authorization?: string; form?: URLSearchParams }[] = [];
+  let accepted = "gloas-current";
+  const listening = http.createServer(async (request, response) => {
+    let body = "";
+    for await (const chunk of request) {
+      body += chunk;
+    }
+    const path = request.url ?? "/";
+    requests.push({ path, authorization: request.headers.authorization, form: body ? new URLSearchParams(body) : undefined });
+    response.setHeader("content-type", "application/json");
+    if (path === "/oauth/token") {
+      const valid = new URLSearchParams(body).get("refresh_token") === "refresh-1";
+      accepted = valid ? "gloas-new" : accepted;
+      response.statusCode = valid ? 200 : 400;
+      response.end(JSON.stringify(
+        valid
+          ? { access_token: "gloas-new", refresh_token: "refresh-2", expires_in: 7200, created_at: Math.floor(Date.now() / 1000) }
+          : { error: "invalid_grant", error_description: "The refresh token is invalid" }
+      ));
+      return;
+    }
+    response.statusCode = request.headers.authorization === `Bearer ${accepted}` ? 200 : 401;
+    response.end(JSON.stringify(response.statusCode === 200 ? { id: 5 } : { message: "401 Unauthorized" }));
+  });
+  server = listening;
+  await new Promise<void>((resolve) => listening.listen(0, "127.0.0.1", resolve));
+  const apiUrl = `http://127.0.0.1:${(listening.address() as AddressInfo).port}/api/v4`;
+  const credentials = new OAuthCredentials(
+    "default",
+    apiUrl,
+    { clientId: "app-id", flow: "device", scopes: "api", redirectPort: 7171 },
+    store
+  );
+  return { apiUrl, credentials, requests };
+}
+
+describe("TokenStore", () => {
+  it("stores tokens encrypted", () => {
+    new TokenStore(STORE, "store-key").save("default", { access_token: "gloas-secret" });
+
+    assert.doesNotMatch(fs.readFileSync(STORE, "utf8"), /gloas-secret/);
+    assert.deepEqual(new TokenStore(STORE, "store-key").load("default"), { access_token: "gloas-secret" });
+  });
+
+  it("keeps the decrypted tokens in memory until reloaded", () => {
+    const store = new TokenStore(STORE, "store-key");
+    store.save("default", { access_token: "gloas-first" });
+    new TokenStore(STORE, "store-key").save("default", { access_token: "gloas-second" });
+
+    assert.equal(store.load("default")?.access_token, "gloas-first");
+    store.reload();
+    assert.equal(store.load("default")?.access_token, "gloas-second");
+  });
+
+  it("creates a key file when no key is configured", () => {
+    new TokenStore(STORE).save("default", { access_token: "gloas-secret" });
+
+    assert.ok(fs.existsSync(`${STORE}.key`));
+    assert.equal(new TokenStore(STORE).load("default")?.access_token, "gloas-secret");
+  });
+
+  it("reports a store it cannot decrypt", () => {
+    new TokenStore(STORE, "store-key").save("default", { access_token: "gloas-secret" });
+
+    assert.throws(() => new TokenStore(STORE, "other-key").load("default"), /Cannot read the OAuth token store/);
+  });
+});
+
+describe("OAuthCredentials", () => {
+  it("refreshes a token about to expire before using it", async () => {
+    const store = new TokenStore(STORE, "store-key");
+    store.save("default", { access_token: "gloas-current", refresh_token: "refresh-1", expires_at: Date.now() + 1000 });
+    const { credentials, requests } = await startGitLab(store);
+
+    assert.deepEqual(await credentials.headers(), { Authorization: "Bearer gloas-new" });
+    assert.equal(requests[0].path, "/oauth/token");
+    assert.deepEqual(Object.fromEntries(requests[0].form ?? []), {
+      client_id: "app-id",
+      grant_type: "refresh_token",
+      refresh_token: "refresh-1",
+    });
+    assert.equal(new TokenStore(STORE, "store-key").load("default")?.refresh_token, "refresh-2");
+  });
+
+  it("refreshes a token GitLab rejects and sends the request again", async () => {
+    const store = new TokenStore(STORE, "store-key");
+    store.save("default", { access_token: "gloas-revoked", refresh_token: "refresh-1" });
+    const { apiUrl, credentials, requests } = await startGitLab(store);
+    const client = new GitLabClient({ apiUrl, credentials, maxRetries: 0 });
+
+    const response = await client.fetch(`${apiUrl}/projects/5`);
+
+    assert.equal(response.status, 200);
+    assert.deepEqual(await response.json(), { id: 5 });
+    assert.deepEqual(
+      requests.map((request) => `${request.path} ${request.authorization ?? ""}`.trim()),
+      ["/api/v4/projects/5 Bearer gloas-revoked", "/oauth/token", "/api/v4/projects/5 Bearer gloas-new"]
+    );
+  });
+
+  it("uses a token another process stored instead of refreshing", async () => {
+    const store = new TokenStore(STORE, "store-key");
+    store.save("default", { access_token: "gloas-revoked", refresh_token: "refresh-0" });
+    const { credentials, requests } = await startGitLab(store);
+    new TokenStore(STORE, "store-key").save("default", { access_token: "gloas-current", refresh_token: "refresh-1" });
+
+    assert.equal(await credentials.refresh(), true);
+    assert.deepEqual(await credentials.headers(), { Authorization: "Bearer gloas-current" });
+    assert.equal(requests.length, 0);
+  });
+
+  it("asks to log in again when the refresh token is rejected", async () => {
+    const store = new TokenStore(STORE, "store-key");
+    store.save("default", { access_token: "gloas-revoked", refresh_token: "refresh-0", expires_at: 0 });
+    const { credentials } = await startGitLab(store);
+
+    await assert.rejects(credentials.headers(), {
+      name: "CredentialsError",
+      message: /^Refreshing the OAuth token of GitLab instance default failed, log in again: The refresh token is invalid/,
+    });
+  });
+
+  it("asks to log in without a stored token", async () => {
+    const { credentials } = await startGitLab(new TokenStore(STORE, "store-key"));
+
+    await assert.rejects(credentials.headers(), /Not logged in to GitLab instance default\. Run: npx @zereight\/mcp-gitlab login --instance default/);
+  });
+});
@@ -0,0 +1,209 @@
+import assert from "node:assert/strict";
+import { after, before, beforeEach, describe, it } from "node:test";
+import { MAIN_SHA } from "./fixtures.js";
+import { TestSession } from "./harness.js";
+
+let session: TestSession;
+
+before(async () => {
+  session = await TestSession.open();
+});
+beforeEach(() => session.gitlab.reset());
+after(() => session.close());
+
+describe("list_pipelines", () => {
+  it("filters pipelines by status", async () => {
+    const result = await session.call("list_pipelines", { project_id: "acme/app", status: "failed" });
+
+    assert.deepEqual(
+      result.items.map((pipeline: any) => pipeline.id),
+      [501]
+    );
+    assert.deepEqual(session.gitlab.requests[0].query, { status: "failed" });
+  });
+
+  it("lists the pipelines of a merge request", async () => {
+    const result = await session.call("list_pipelines", { project_id: "5", merge_request_iid: 1 });
+
+    assert.deepEqual(
+      result.items.map((pipeline: any) => pipeline.id),
+      [501]
+    );
+    assert.equal(session.gitlab.requests[0].path, "/projects/5/merge_requests/1/pipelines");
+  });
+});
+
+describe("get_pipeline", () => {
+  it("returns the pipeline", async () => {
+    const pipeline = await session.call("get_pipeline", { project_id: "5", pipeline_id: 502 });
+
+    assert.equal(pipeline.status, "success");
+    assert.equal(pipeline.ref, "main");
+  });
+
+  it("reports a missing pipeline", async () => {
+    const error = await session.callError("get_pipeline", { project_id: "5", pipeline_id: 999 });
+
+    assert.equal(error.code, "not_found");
+  });
+});
+
+describe("list_pipeline_jobs", () => {
+  it("sends every scope", async () => {
+    const result = await session.call("list_pipeline_jobs", {
+      project_id: "5",
+      pipeline_id: 501,
+      scope: ["failed", "success"],
+    });
+
+    assert.deepEqual(
+      result.items.map((job: any) => job.name),
+      ["unit tests", "compile"]
+    );
+  });
+
+  it("filters jobs by scope", async () => {
+    const result = await session.call("list_pipeline_jobs", { project_id: "5", pipeline_id: 501, scope: ["failed"] });
+
+    assert.deepEqual(
+      result.items.map((job: any) => job.id),
+      [601]
+    );
+    assert.deepEqual(session.gitlab.requests[0].query, { "scope[]": "failed" });
+  });
+
+  it("reports a missing pipeline", async () => {
+    const error = await session.callError("list_pipeline_jobs", { project_id: "5", pipeline_id: 999 });
+
+    assert.equal(error.code, "not_found");
+  });
+});
+
+describe("get_job_log", () => {
+  it("returns the log without ANSI escape sequences", async () => {
+    const log = await session.call("get_job_log", { project_id: "5", job_id: 601 });
+
+    assert.equal(log.content, "Running tests\nok 1 - adds\nnot ok 2 - answers\nexpected 42, got 41\n");
+    assert.equal(log.truncated, false);
+  });
+
+  it("returns the last lines", async () => {
+    const log = await session.call("get_job_log", { project_id: "5", job_id: 601, tail_lines: 2 });
+
+    assert.equal(log.content, "not ok 2 - answers\nexpected 42, got 41\n");
+    assert.equal(log.truncated, true);
+  });
+
+  it("returns a slice from an offset", async () => {
+    const log = await session.call("get_job_log", { project_id: "5", job_id: 602, offset: 10, limit: 4 });
+
+    assert.deepEqual(log, { job_id: 602, size: 15, offset: 10, truncated: true, content: "Done" });
+    assert.equal(session.gitlab.requests[0].headers.range, "bytes=10-13");
+  });
+
+  it("only downloads the end of the log", async () => {
+    await session.call("get_job_log", { project_id: "5", job_id: 601, limit: 100 });
+
+    assert.equal(session.gitlab.requests[0].headers.range, "bytes=-100");
+  });
+
+  it("reads a slice when GitLab ignores the Range header", async () => {
+    session.gitlab.honoursRange = false;
+
+    const slice = await session.call("get_job_log", { project_id: "5", job_id: 602, offset: 10, limit: 4 });
+    const tail = await session.call("get_job_log", { project_id: "5", job_id: 601, tail_lines: 1, limit: 30 });
+
+    assert.equal(session.gitlab.requests[0].headers.range, "bytes=10-13");
+    assert.deepEqual(slice, { job_id: 602, size: null, offset: 10, truncated: true, content: "Done" });
+    assert.equal(tail.content, "expected 42, got 41\n");
+    assert.equal(tail.truncated, true);
+  });
+
+  it("cuts at character boundaries", async () => {
+    session.gitlab.data.jobs[1].trace = "ab\u2713cd";
+
+    const middle = await session.call("get_job_log", { project_id: "5", job_id: 602, offset: 3, limit: 3 });
+    const start = await session.call("get_job_log", { project_id: "5", job_id: 602, offset: 0, limit: 3 });
+
+    assert.deepEqual(middle, { job_id: 602, size: 7, offset: 5, truncated: true, content: "c" });
+    assert.equal(start.content, "ab");
+  });
+
+  it("strips section markers", async () => {
+    session.gitlab.data.jobs[1].trace =
+      "section_start:1700000000:step_script[collapsed=true]\r\u001b[0K\u001b[32;1mBuilding\u001b[0;m\n" +
+      "section_end:1700000001:step_script\r\u001b[0K";
+
+    const log = await session.call("get_job_log", { project_id: "5", job_id: 602 });
+
+    assert.equal(log.content, "Building\n");
+  });
+
+  it("returns nothing past the end of the log", async () => {
+    const log = await session.call("get_job_log", { project_id: "5", job_id: 602, offset: 100 });
+
+    assert.deepEqual(log, { job_id: 602, size: 15, offset: 15, truncated: false, content: "" });
+  });
+
+  it("reports a missing job", async () => {
+    const error = await session.callError("get_job_log", { project_id: "5", job_id: 999 });
+
+    assert.equal(error.code, "not_found");
+  });
+});
+
+describe("retry_pipeline", () => {
+  it("retries the failed jobs", async () => {
+    const pipeline = await session.call("retry_pipeline", { project_id: "5", pipeline_id: 501 });
+
+    assert.equal(pipeline.status, "running");
+    assert.equal(session.gitlab.data.jobs.find((job) => job.id === 601)?.status, "pending");
+  });
+
+  it("explains a missing role", async () => {
+    session.gitlab.fail("POST", "/projects/:project/pipelines/:pipeline/retry", 403);
+
+    const error = await session.callError("retry_pipeline", { project_id: "5", pipeline_id: 501 });
+
+    assert.equal(error.code, "forbidden");
+    assert.match(error.hint ?? "", /retry_pipeline needs at least the Developer role/);
+  });
+});
+
+describe("cancel_pipeline", () => {
+  it("cancels the pipeline", async () => {
+    const pipeline = await session.call("cancel_pipeline", { project_id: "5", pipeline_id: 502 });
+
+    assert.equal(pipeline.status, "canceled");
+  });
+
+  it("reports a missing pipeline", async () => {
+    const error = await session.callError("cancel_pipeline", { project_id: "5", pipeline_id: 999 });
+
+    assert.equal(error.code, "not_found");
+  });
+});
+
+describe("create_pipeline", () => {
+  it("runs a pipeline with variables", async () => {
+    const pipeline = await session.call("create_pipeline", {
+      project_id: "5",
+      ref: "main",
+      variables: [{ key: "DEPLOY", value: "false" }],
+    });
+
+    assert.equal(pipeline.status, "created");
+    assert.equal(pipeline.sha, MAIN_SHA);
+    assert.deepEqual(session.gitlab.requests[0].body, {
+      ref: "main",
+      variables: [{ key: "DEPLOY", value: "false" }],
+    });
+  });
+
+  it("reports an unknown ref", async () => {
+    const error = await session.callError("create_pipeline", { project_id: "5", ref: "nope" });
+
+    assert.equal(error.code, "validation_failed");
+    assert.deepEqual(error.field_errors, { base: ["Reference not found"] });
+  });
+});
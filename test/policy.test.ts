@@ -0,0 +1,147 @@
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { after, before, beforeEach, describe, it } from "node:test";
+import { TestSession } from "./harness.js";
+
+const POLICY_FILE = path.join(os.tmpdir(), `gitlab-mcp-policy-${process.pid}.json`);
+
+let session: TestSession;
+
+before(async () => {
+  fs.writeFileSync(
+    POLICY_FILE,
+    JSON.stringify({ rules: [{ effect: "deny", tools: ["list_group_labels", "get_namespace"], namespaces: ["Acme"] }] })
+  );
+  session = await TestSession.open({
+    GITLAB_POLICY_FILE: POLICY_FILE,
+    GITLAB_DENIED_PROJECTS: "Acme/App",
+    GITLAB_WRITABLE_NAMESPACES: "ACME",
+  });
+});
+beforeEach(() => session.gitlab.reset());
+after(async () => {
+  await session.close();
+  fs.rmSync(POLICY_FILE, { force: true });
+});
+
+describe("project rules", () => {
+  it("deny a project however the call names it", async () => {
+    for (const project_id of ["acme/app", "ACME/app", "5"]) {
+      const error = await session.callError("get_project", { project_id });
+
+      assert.equal(error.code, "policy_violation", project_id);
+      assert.equal(error.project, "acme/app");
+    }
+  });
+
+  it("allow other projects", async () => {
+    const project = await session.call("get_project", { project_id: "Acme/Docs" });
+
+    assert.equal(project.id, 6);
+  });
+});
+
+describe("lists of projects and linked issues", () => {
+  it("leave out denied projects", async () => {
+    const projects = await session.call("list_projects", {});
+    const found = await session.call("search_repositories", { search: "a" });
+
+    assert.deepEqual(projects.items.map((project: { id: number }) => project.id).sort(), [6, 7]);
+    assert.ok(found.items.every((project: { id: number }) => project.id !== 5));
+    assert.equal(found.count, undefined);
+  });
+
+  it("leave out issues of denied projects linked from allowed ones", async () => {
+    const links = await session.call("list_issue_links", { project_id: "acme/docs", issue_iid: 1 });
+    const error = await session.callError("get_issue_link", { project_id: "acme/docs", issue_iid: 1, issue_link_id: 1 });
+
+    assert.deepEqual(links, []);
+    assert.equal(error.code, "policy_violation");
+  });
+});
+
+describe("writable namespaces", () => {
+  it("allow writes to projects in the namespace regardless of case", async () => {
+    const issue = await session.call("create_issue", { project_id: "acme/docs", title: "Typo" });
+
+    assert.equal(issue.title, "Typo");
+  });
+
+  it("reject writes to projects outside the namespace", async () => {
+    const error = await session.callError("create_issue", { project_id: "alice/dotfiles", title: "Typo" });
+
+    assert.equal(error.code, "policy_violation");
+    assert.match(error.message, /not writable by policy/);
+  });
+
+  it("reject links to issues of projects outside the namespace", async () => {
+    const error = await session.callError("create_issue_link", {
+      project_id: "acme/docs",
+      issue_iid: 1,
+      target_project_id: "7",
+      target_issue_iid: 1,
+    });
+
+    assert.equal(error.code, "policy_violation");
+    assert.equal(error.project, "alice/dotfiles");
+  });
+
+  it("reject forks into namespaces outside the writable ones", async () => {
+    const into = await session.callError("fork_repository", { project_id: "acme/docs", namespace: "alice" });
+    const own = await session.callError("fork_repository", { project_id: "acme/docs" });
+
+    assert.equal(into.project, "alice/docs");
+    assert.equal(own.project, "alice/docs");
+    assert.equal(session.gitlab.requests.filter((request) => request.method === "POST").length, 0);
+  });
+});
+
+describe("group tools", () => {
+  it("leave out issues and merge requests of denied projects", async () => {
+    const { issues } = session.gitlab.data;
+    issues.push(
+      { ...issues[1], id: 103, iid: 3, project_id: 6, title: "Fix typo" },
+      { ...issues[1], id: 104, iid: 4, project_id: 6, title: "Fix link" }
+    );
+
+    const groupIssues = await session.call("list_group_issues", { group_id: "acme" });
+    const groupMergeRequests = await session.call("list_merge_requests", { group_id: "acme" });
+    const allMergeRequests = await session.call("list_group_merge_requests", { scope: "all" });
+
+    assert.deepEqual(groupIssues.items.map((issue: { title: string }) => issue.title), ["Fix typo", "Fix link"]);
+    assert.equal(session.gitlab.requests.filter((request) => request.path === "/projects/6").length, 1);
+    assert.equal(groupIssues.total, null);
+    assert.deepEqual(groupMergeRequests.items, []);
+    assert.deepEqual(allMergeRequests.items, []);
+  });
+
+  it("check namespaces against namespace rules", async () => {
+    const error = await session.callError("get_namespace", { namespace_id: "ACME" });
+
+    assert.equal(error.code, "policy_violation");
+  });
+
+  it("match namespace rules against the group's full path", async () => {
+    for (const group_id of ["acme", "ACME", "10"]) {
+      const error = await session.callError("list_group_labels", { group_id });
+
+      assert.equal(error.code, "policy_violation", group_id);
+      assert.match(error.message, /on group acme is denied/);
+    }
+  });
+
+  it("allow group writes in writable namespaces", async () => {
+    const label = await session.call("create_group_label", { group_id: "Acme", name: "roadmap", color: "#428bca" });
+
+    assert.equal(label.name, "roadmap");
+  });
+
+  it("reject group writes outside writable namespaces", async () => {
+    const error = await session.callError("create_group_label", { group_id: "alice", name: "roadmap", color: "#428bca" });
+
+    assert.equal(error.code, "policy_violation");
+    assert.match(error.message, /group alice is not writable by policy/);
+  });
+});
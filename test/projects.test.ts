@@ -0,0 +1,117 @@
+import assert from "node:assert/strict";
+import { after, before, beforeEach, describe, it } from "node:test";
+import { USER } from "./fixtures.js";
+import { TestSession } from "./harness.js";
+
+let session: TestSession;
+
+before(async () => {
+  session = await TestSession.open();
+});
+beforeEach(() => session.gitlab.reset());
+after(() => session.close());
+
+describe("list_namespaces", () => {
+  it("searches namespaces", async () => {
+    const result = await session.call("list_namespaces", { search: "acme" });
+
+    assert.deepEqual(
+      result.items.map((namespace: any) => namespace.full_path),
+      ["acme"]
+    );
+    assert.deepEqual(session.gitlab.requests[0].query, { search: "acme" });
+  });
+});
+
+describe("get_namespace", () => {
+  it("returns a namespace by path", async () => {
+    const namespace = await session.call("get_namespace", { namespace_id: "acme" });
+
+    assert.equal(namespace.id, 10);
+    assert.equal(namespace.kind, "group");
+  });
+
+  it("reports a missing namespace", async () => {
+    const error = await session.callError("get_namespace", { namespace_id: "nobody" });
+
+    assert.equal(error.code, "not_found");
+    assert.equal(error.path, "/namespaces/nobody");
+  });
+});
+
+describe("verify_namespace", () => {
+  it("reports an existing namespace", async () => {
+    const result = await session.call("verify_namespace", { path: "acme" });
+
+    assert.deepEqual(result, { exists: true, suggests: ["acme1"] });
+  });
+
+  it("reports a free path", async () => {
+    const result = await session.call("verify_namespace", { path: "newco" });
+
+    assert.equal(result.exists, false);
+  });
+});
+
+describe("get_project", () => {
+  it("returns a project by path", async () => {
+    const project = await session.call("get_project", { project_id: "acme/app" });
+
+    assert.equal(project.id, 5);
+    assert.equal(project.description, "The Acme application");
+    assert.equal(session.gitlab.requests[0].path, "/projects/acme%2Fapp");
+  });
+
+  it("reports a missing project", async () => {
+    const error = await session.callError("get_project", { project_id: "acme/missing" });
+
+    assert.equal(error.code, "not_found");
+    assert.equal(error.gitlab_message, "404 Project Not Found");
+  });
+});
+
+describe("list_projects", () => {
+  it("passes filters to GitLab", async () => {
+    const result = await session.call("list_projects", { search: "app", owned: true, order_by: "name" });
+
+    assert.deepEqual(
+      result.items.map((project: any) => project.path_with_namespace),
+      ["acme/app"]
+    );
+    assert.deepEqual(session.gitlab.requests[0].query, { search: "app", owned: "true", order_by: "name" });
+  });
+
+  it("follows pagination with all_pages", async () => {
+    const result = await session.call("list_projects", { all_pages: true, per_page: 2 });
+
+    assert.equal(result.items.length, 3);
+    assert.equal(session.gitlab.requests.length, 2);
+  });
+});
+
+describe("whoami", () => {
+  it("describes the user and token", async () => {
+    const result = await session.call("whoami", {});
+
+    assert.equal(result.user.username, USER.username);
+    assert.equal(result.token.kind, "personal_access_token");
+    assert.deepEqual(result.token.scopes, ["api"]);
+    assert.equal(result.project, undefined);
+  });
+
+  it("lists the tools the role in a project rules out", async () => {
+    const result = await session.call("whoami", { project_id: "acme/app" });
+
+    assert.equal(result.project.role, "Developer");
+    assert.deepEqual(result.project.tools_needing_higher_role, { delete_issue: "Owner" });
+  });
+
+  it("warns about a token that expires soon", async () => {
+    session.gitlab.data.token.expires_at = new Date(Date.now() + 2 * 86_400_000).toISOString().slice(0, 10);
+
+    const result = await session.call("whoami", {});
+
+    assert.ok(result.token.expires_in_days <= 2);
+    assert.equal(result.warnings.length, 1);
+  });
+});
@@ -0,0 +1,95 @@
+import assert from "node:assert/strict";
+import { after, before, beforeEach, describe, it } from "node:test";
+import { TestSession } from "./harness.js";
+
+let session: TestSession;
+
+before(async () => {
+  session = await TestSession.open();
+});
+beforeEach(() => session.gitlab.reset());
+after(() => session.close());
+
+describe("review_merge_request", () => {
+  it("includes the description and diffs", async () => {
+    const text = await session.getPrompt("review_merge_request", {
+      project_id: "5",
+      merge_request_iid: "1",
+      focus: "error handling",
+    });
+
+    assert.match(text, /^Review merge request !1 "Answer correctly" \(feature -> main\) by @alice:/);
+    assert.match(text, /Pay particular attention to: error handling/);
+    assert.match(text, /## Description\nFixes #1/);
+    assert.match(text, /## Changes \(1 files\)\n### Modified src\/index.ts\n```diff\n@@ -1 \+1 @@/);
+  });
+
+  it("rejects an IID that is not a number", async () => {
+    await assert.rejects(
+      session.getPrompt("review_merge_request", { project_id: "5", merge_request_iid: "one" }),
+      /Argument merge_request_iid must be a number, got one/
+    );
+    assert.equal(session.gitlab.requests.length, 0);
+  });
+});
+
+describe("triage_issues", () => {
+  it("lists the open issues", async () => {
+    const text = await session.getPrompt("triage_issues", { project_id: "5" });
+
+    assert.match(text, /## Open issues \(2\)/);
+    assert.match(text, /### #1 Crash on startup\nLabels: bug \| Assignees: none/);
+    assert.match(text, /### #2 Add dark mode\nLabels: none/);
+    assert.deepEqual(session.gitlab.requests[0].query, { state: "opened", per_page: "100" });
+  });
+
+  it("filters by labels", async () => {
+    const text = await session.getPrompt("triage_issues", { project_id: "5", labels: "bug, ui" });
+
+    assert.match(text, /## Open issues \(0\)\n\(no open issues\)/);
+    assert.equal(session.gitlab.requests[0].query.labels, "bug,ui");
+  });
+});
+
+describe("release_notes", () => {
+  it("lists the commits between the refs", async () => {
+    const text = await session.getPrompt("release_notes", { project_id: "5", from: "main", to: "feature" });
+
+    assert.match(text, /^Write release notes for feature of 5, covering the changes since main\./);
+    assert.match(text, /## Commits \(1\)\n- 22222222 Answer with 42 \(Alice Example\)$/);
+    assert.deepEqual(session.gitlab.requests[0].query, { from: "main", to: "feature" });
+  });
+
+  it("requires both refs", async () => {
+    await assert.rejects(
+      session.getPrompt("release_notes", { project_id: "5", from: "main" }),
+      /Missing required argument: to/
+    );
+  });
+});
+
+describe("summarize_pipeline_failure", () => {
+  it("includes the end of the failed jobs' logs", async () => {
+    const text = await session.getPrompt("summarize_pipeline_failure", { project_id: "5", pipeline_id: "501" });
+
+    assert.match(text, /^Pipeline 501 on feature \(22222222\) finished with status failed:/);
+    assert.match(text, /## Failed jobs \(1\)\n### test \/ unit tests \(job 601\)/);
+    assert.match(text, /```\nRunning tests\nok 1 - adds\nnot ok 2 - answers\nexpected 42, got 41\n\n```/);
+    assert.ok(!session.gitlab.requests.some((request) => request.path === "/projects/5/jobs/602/trace"));
+  });
+});
+
+describe("prompt list", () => {
+  it("lists every prompt", async () => {
+    const prompts = await session.listPrompts();
+
+    assert.deepEqual(
+      prompts.map((prompt) => prompt.name),
+      ["review_merge_request", "triage_issues", "release_notes", "summarize_pipeline_failure"]
+    );
+  });
+
+  it("rejects an unknown prompt", async () => {
+    await assert.rejects(session.getPrompt("write_poem", { project_id: "5" }), /Unknown prompt: write_poem/);
+  });
+});
@@ -0,0 +1,437 @@
+import assert from "node:assert/strict";
+import { after, before, beforeEach, describe, it } from "node:test";
+import { FEATURE_SHA, MAIN_SHA } from "./fixtures.js";
+import { TestSession } from "./harness.js";
+
+let session: TestSession;
+
+before(async () => {
+  session = await TestSession.open();
+});
+beforeEach(() => session.gitlab.reset());
+after(() => session.close());
+
+describe("fork_repository", () => {
+  it("forks into the user's namespace by default", async () => {
+    const fork = await session.call("fork_repository", { project_id: "acme/app" });
+
+    assert.equal(fork.path_with_namespace, "alice/app");
+    assert.equal(fork.forked_from_project.path_with_namespace, "acme/app");
+    const [request] = session.gitlab.requestsTo("POST");
+    assert.equal(request.path, "/projects/acme%2Fapp/fork");
+    assert.deepEqual(request.query, {});
+  });
+
+  it("reports a project that already exists in the target namespace", async () => {
+    const error = await session.callError("fork_repository", { project_id: "5", namespace: "acme" });
+
+    assert.equal(error.code, "conflict");
+    assert.equal(error.status, 409);
+    assert.match(error.message, /^Project already exists in the target namespace: name has already been taken/);
+  });
+
+  it("reports an unknown project", async () => {
+    const error = await session.callError("fork_repository", { project_id: "acme/missing" });
+
+    assert.equal(error.code, "not_found");
+    assert.equal(error.gitlab_message, "404 Project Not Found");
+  });
+});
+
+describe("create_branch", () => {
+  it("branches from the default branch when no ref is given", async () => {
+    const branch = await session.call("create_branch", { project_id: "acme/app", branch: "fix" });
+
+    assert.equal(branch.name, "fix");
+    assert.equal(branch.commit.id, MAIN_SHA);
+    const post = session.gitlab.requestsTo("POST")[0];
+    assert.deepEqual(post.body, { branch: "fix", ref: "main" });
+  });
+
+  it("branches from the given ref", async () => {
+    const branch = await session.call("create_branch", { project_id: "5", branch: "fix", ref: "feature" });
+
+    assert.equal(branch.commit.id, FEATURE_SHA);
+    assert.equal(session.gitlab.requestsTo("GET").length, 0);
+  });
+
+  it("reports a branch that already exists", async () => {
+    const error = await session.callError("create_branch", { project_id: "5", branch: "feature", ref: "main" });
+
+    assert.equal(error.code, "validation_failed");
+    assert.equal(error.gitlab_message, "Branch already exists");
+  });
+});
+
+describe("search_repositories", () => {
+  it("returns matching projects, newest first", async () => {
+    const result = await session.call("search_repositories", { search: "d" });
+
+    assert.deepEqual(
+      result.items.map((project: any) => project.path_with_namespace),
+      ["alice/dotfiles", "acme/docs"]
+    );
+    assert.equal(result.count, 2);
+    assert.equal(result.total_pages, 1);
+    assert.equal(result.truncated, false);
+    assert.deepEqual(session.gitlab.requests[0].query, {
+      search: "d",
+      order_by: "id",
+      sort: "desc",
+      page: "1",
+      per_page: "20",
+    });
+  });
+
+  it("reports further pages", async () => {
+    const result = await session.call("search_repositories", { search: "d", per_page: 1 });
+
+    assert.equal(result.items.length, 1);
+    assert.equal(result.total_pages, 2);
+    assert.equal(result.next_page, 2);
+    assert.equal(result.truncated, true);
+  });
+
+  it("rejects a missing search term", async () => {
+    const error = await session.callError("search_repositories", {});
+
+    assert.equal(error.code, "invalid_arguments");
+    assert.match(error.message, /search: Required/);
+    assert.equal(session.gitlab.requests.length, 0);
+  });
+});
+
+describe("create_repository", () => {
+  it("creates a project with a path derived from its name", async () => {
+    const project = await session.call("create_repository", {
+      name: "My Tool",
+      description: "Does things",
+      visibility: "internal",
+    });
+
+    assert.equal(project.path_with_namespace, "alice/my-tool");
+    assert.equal(project.visibility, "internal");
+    assert.deepEqual(session.gitlab.requests[0].body, {
+      name: "My Tool",
+      description: "Does things",
+      visibility: "internal",
+      default_branch: "main",
+      path: "my-tool",
+    });
+  });
+
+  it("reports a name that is taken", async () => {
+    const error = await session.callError("create_repository", { name: "dotfiles" });
+
+    assert.equal(error.code, "validation_failed");
+    assert.equal(error.gitlab_message, "name has already been taken; path has already been taken");
+  });
+});
+
+describe("get_file_contents", () => {
+  it("decodes text files from the default branch", async () => {
+    const file = await session.call("get_file_contents", { project_id: "acme/app", file_path: "src/index.ts" });
+
+    assert.equal(file.content, "export const answer = 41;\n");
+    assert.equal(file.encoding, "utf8");
+    assert.equal(file.binary, false);
+    assert.equal(file.ref, "main");
+    assert.deepEqual(
+      session.gitlab.requests.map((request) => `${request.method} ${request.path}`),
+      [
+        "GET /projects/acme%2Fapp",
+        "HEAD /projects/acme%2Fapp/repository/files/src%2Findex.ts",
+        "GET /projects/acme%2Fapp/repository/files/src%2Findex.ts",
+        "GET /projects/acme%2Fapp/repository/files/.gitattributes/raw",
+      ]
+    );
+  });
+
+  it("reads .gitattributes once per project and ref", async () => {
+    await session.call("get_file_contents", { project_id: "acme/docs", file_path: "README.md", ref: "main" });
+    await session.call("get_file_contents", { project_id: "acme/docs", file_path: "README.md", ref: "main" });
+
+    assert.equal(
+      session.gitlab.requests.filter((request) => request.path.endsWith("/.gitattributes/raw")).length,
+      1
+    );
+  });
+
+  it("returns binary files as base64", async () => {
+    const file = await session.call("get_file_contents", {
+      project_id: "5",
+      file_path: "assets/logo.png",
+      ref: "feature",
+    });
+
+    assert.equal(file.binary, true);
+    assert.equal(file.mime_type, "image/png");
+    assert.equal(file.encoding, "base64");
+    assert.equal(Buffer.from(file.content, "base64")[1], 0x50);
+  });
+
+  it("treats files marked binary in .gitattributes as binary", async () => {
+    const file = await session.call("get_file_contents", { project_id: "5", file_path: "data/records.dat", ref: "main" });
+
+    assert.equal(file.binary, true);
+    assert.equal(Buffer.from(file.content, "base64").toString(), "id,name\n1,first\n");
+  });
+
+  it("decodes any file in text format", async () => {
+    const file = await session.call("get_file_contents", {
+      project_id: "5",
+      file_path: "data/records.dat",
+      ref: "main",
+      format: "text",
+    });
+
+    assert.equal(file.content, "id,name\n1,first\n");
+    assert.equal(file.encoding, "utf8");
+  });
+
+  it("omits the content of files larger than max_bytes", async () => {
+    const file = await session.call("get_file_contents", {
+      project_id: "5",
+      file_path: "README.md",
+      ref: "main",
+      max_bytes: 3,
+    });
+
+    assert.equal(file.content, "");
+    assert.equal(file.content_omitted, true);
+    assert.equal(file.size, 6);
+    assert.deepEqual(
+      session.gitlab.requests.map((request) => request.method),
+      ["HEAD"]
+    );
+  });
+
+  it("reports a missing file", async () => {
+    const error = await session.callError("get_file_contents", { project_id: "5", file_path: "nope.txt", ref: "main" });
+
+    assert.equal(error.code, "not_found");
+    assert.match(error.message, /^File not found: nope\.txt \(use get_repository_tree to list directories\)/);
+  });
+});
+
+describe("get_repository_tree", () => {
+  it("lists the top level of the default branch", async () => {
+    const tree = await session.call("get_repository_tree", { project_id: "acme/app" });
+
+    assert.deepEqual(
+      tree.entries.map((entry: any) => `${entry.type} ${entry.path}`).sort(),
+      ["blob .gitattributes", "blob README.md", "tree assets", "tree data", "tree src"]
+    );
+    assert.equal(tree.truncated, false);
+    assert.equal(session.gitlab.requests[0].query.pagination, "keyset");
+  });
+
+  it("renders matching files of the whole tree", async () => {
+    const tree = await session.call("get_repository_tree", {
+      project_id: "5",
+      recursive: true,
+      include: ["src/**/*.ts"],
+      format: "tree",
+    });
+
+    assert.equal(tree, "src/\n  index.ts\n  util/\n    math.ts");
+  });
+
+  it("skips excluded directories", async () => {
+    const tree = await session.call("get_repository_tree", {
+      project_id: "5",
+      recursive: true,
+      exclude: ["src", "assets", "data"],
+    });
+
+    assert.deepEqual(
+      tree.entries.map((entry: any) => entry.path),
+      [".gitattributes", "README.md"]
+    );
+  });
+
+  it("stops at max_entries", async () => {
+    const tree = await session.call("get_repository_tree", { project_id: "5", recursive: true, max_entries: 2 });
+
+    assert.equal(tree.entries.length, 2);
+    assert.equal(tree.truncated, true);
+  });
+
+  it("reports a missing directory", async () => {
+    const error = await session.callError("get_repository_tree", { project_id: "5", path: "docs", ref: "main" });
+
+    assert.equal(error.code, "not_found");
+    assert.match(error.message, /^Tree not found: docs at main/);
+  });
+});
+
+describe("create_or_update_file", () => {
+  it("creates a file that does not exist yet", async () => {
+    const result = await session.call("create_or_update_file", {
+      project_id: "5",
+      file_path: "docs/guide.md",
+      content: "# Guide\n",
+      commit_message: "Add a guide",
+      branch: "feature",
+    });
+
+    assert.deepEqual(result, { file_path: "docs/guide.md", branch: "feature" });
+    const [head, post] = session.gitlab.requests;
+    assert.equal(head.method, "HEAD");
+    assert.equal(post.method, "POST");
+    assert.equal(post.body.commit_id, undefined);
+    assert.equal(session.gitlab.data.files.feature["docs/guide.md"].toString(), "# Guide\n");
+  });
+
+  it("updates an existing file based on its current commit", async () => {
+    await session.call("create_or_update_file", {
+      project_id: "5",
+      file_path: "src/index.ts",
+      content: "export const answer = 43;\n",
+      commit_message: "Change the answer",
+      branch: "feature",
+    });
+
+    const put = session.gitlab.requestsTo("PUT")[0];
+    assert.equal(put.path, "/projects/5/repository/files/src%2Findex.ts");
+    assert.equal(put.body.commit_id, FEATURE_SHA);
+    assert.equal(put.body.last_commit_id, FEATURE_SHA);
+    assert.equal(session.gitlab.data.files.feature["src/index.ts"].toString(), "export const answer = 43;\n");
+  });
+
+  it("writes base64 content as-is", async () => {
+    await session.call("create_or_update_file", {
+      project_id: "5",
+      file_path: "assets/icon.png",
+      content: Buffer.from([0x89, 0x50, 0x4e, 0x47]).toString("base64"),
+      encoding: "base64",
+      commit_message: "Add an icon",
+      branch: "main",
+    });
+
+    assert.deepEqual([...session.gitlab.data.files.main["assets/icon.png"]], [0x89, 0x50, 0x4e, 0x47]);
+  });
+
+  it("reports a file that changed since the given commit", async () => {
+    const error = await session.callError("create_or_update_file", {
+      project_id: "5",
+      file_path: "src/index.ts",
+      content: "",
+      commit_message: "Empty the file",
+      branch: "main",
+      last_commit_id: FEATURE_SHA,
+    });
+
+    assert.equal(error.code, "validation_failed");
+    assert.match(error.message, /has changed since you started editing it/);
+  });
+
+  it("reports a missing branch", async () => {
+    const error = await session.callError("create_or_update_file", {
+      project_id: "5",
+      file_path: "README.md",
+      content: "# App\n",
+      commit_message: "Touch",
+      branch: "nope",
+    });
+
+    assert.equal(error.code, "validation_failed");
+    assert.equal(error.gitlab_message, "You can only create or edit files when you are on a branch");
+  });
+});
+
+describe("push_files", () => {
+  it("creates or updates files in one commit", async () => {
+    const commit = await session.call("push_files", {
+      project_id: "5",
+      branch: "feature",
+      commit_message: "Update the docs\n\nLonger explanation",
+      files: [
+        { file_path: "README.md", content: "# App\n\nNow documented.\n" },
+        { file_path: "docs/guide.md", content: "# Guide\n" },
+      ],
+    });
+
+    assert.equal(commit.title, "Update the docs");
+    assert.deepEqual(commit.parent_ids, [FEATURE_SHA]);
+    const post = session.gitlab.requestsTo("POST")[0];
+    assert.deepEqual(
+      post.body.actions.map((action: any) => `${action.action} ${action.file_path}`),
+      ["update README.md", "create docs/guide.md"]
+    );
+    assert.equal(session.gitlab.data.branches.feature, commit.id);
+  });
+
+  it("creates the branch from start_branch", async () => {
+    await session.call("push_files", {
+      project_id: "5",
+      branch: "topic",
+      start_branch: "main",
+      commit_message: "Start a topic",
+      files: [{ file_path: "src/index.ts", content: "export const answer = 0;\n" }],
+    });
+
+    const head = session.gitlab.requestsTo("HEAD")[0];
+    assert.equal(head.query.ref, "main");
+    assert.equal(session.gitlab.data.files.topic["src/index.ts"].toString(), "export const answer = 0;\n");
+    assert.equal(session.gitlab.data.files.topic["README.md"].toString(), "# App\n");
+  });
+
+  it("deletes, moves and chmods files", async () => {
+    await session.call("push_files", {
+      project_id: "5",
+      branch: "main",
+      commit_message: "Reorganize",
+      files: [
+        { file_path: "data/records.dat", action: "delete" },
+        { file_path: "src/math.ts", action: "move", previous_path: "src/util/math.ts" },
+        { file_path: "README.md", action: "chmod", execute_filemode: true },
+      ],
+    });
+
+    const actions = session.gitlab.requestsTo("POST")[0].body.actions;
+    assert.deepEqual(actions, [
+      { action: "delete", file_path: "data/records.dat" },
+      { action: "move", file_path: "src/math.ts", previous_path: "src/util/math.ts" },
+      { action: "chmod", file_path: "README.md", execute_filemode: true },
+    ]);
+    assert.deepEqual(Object.keys(session.gitlab.data.files.main).sort(), [
+      ".gitattributes",
+      "README.md",
+      "assets/logo.png",
+      "src/index.ts",
+      "src/math.ts",
+    ]);
+  });
+
+  it("rejects incomplete actions without sending a commit", async () => {
+    const missingContent = await session.callError("push_files", {
+      project_id: "5",
+      branch: "main",
+      commit_message: "Add",
+      files: [{ file_path: "new.txt", action: "create" }],
+    });
+    const missingPreviousPath = await session.callError("push_files", {
+      project_id: "5",
+      branch: "main",
+      commit_message: "Move",
+      files: [{ file_path: "new.txt", action: "move" }],
+    });
+
+    assert.equal(missingContent.message, "Content is required to create new.txt");
+    assert.equal(missingPreviousPath.message, "previous_path is required to move new.txt");
+    assert.equal(session.gitlab.requestsTo("POST").length, 0);
+  });
+
+  it("reports creating a file that exists", async () => {
+    const error = await session.callError("push_files", {
+      project_id: "5",
+      branch: "main",
+      commit_message: "Add",
+      files: [{ file_path: "README.md", action: "create", content: "# Again\n" }],
+    });
+
+    assert.equal(error.code, "validation_failed");
+    assert.equal(error.gitlab_message, "A file with this name already exists");
+  });
+});
@@ -0,0 +1,56 @@
+import assert from "node:assert/strict";
+import { after, before, beforeEach, describe, it } from "node:test";
+import { TestSession } from "./harness.js";
+
+let session: TestSession;
+
+before(async () => {
+  session = await TestSession.open();
+});
+beforeEach(() => session.gitlab.reset());
+after(() => session.close());
+
+describe("file resource", () => {
+  it("reads a text file", async () => {
+    const contents = await session.readResource("gitlab://acme%2Fapp/file/main/src/util/math.ts");
+
+    assert.deepEqual(contents, [
+      {
+        uri: "gitlab://acme%2Fapp/file/main/src/util/math.ts",
+        mimeType: "text/plain",
+        text: "export const add = (a: number, b: number) => a + b;\n",
+      },
+    ]);
+  });
+
+  it("reads a binary file as a blob", async () => {
+    const [content] = await session.readResource("gitlab://acme%2Fapp/file/main/assets/logo.png");
+
+    assert.equal(content.mimeType, "image/png");
+    assert.deepEqual(Buffer.from(content.blob as string, "base64"), session.gitlab.data.files.main["assets/logo.png"]);
+  });
+
+  it("reads the file at a ref", async () => {
+    const [content] = await session.readResource("gitlab://5/file/feature/src/index.ts");
+
+    assert.equal(content.text, "export const answer = 42;\n");
+  });
+
+  it("reports a missing file", async () => {
+    await assert.rejects(session.readResource("gitlab://5/file/main/missing.md"), /File not found: missing.md/);
+  });
+
+  it("rejects a URI without a path", async () => {
+    await assert.rejects(session.readResource("gitlab://5/file/main"), /File resource URI needs a ref and a path/);
+    assert.equal(session.gitlab.requests.length, 0);
+  });
+});
+
+describe("issue resource", () => {
+  it("reads an issue as JSON", async () => {
+    const [content] = await session.readResource("gitlab://acme%2Fapp/issues/1");
+
+    assert.equal(content.mimeType, "application/json");
+    assert.equal(JSON.parse(content.text as string).title, "Crash on startup");
+  });
+});
@@ -0,0 +1,144 @@
+import assert from "node:assert/strict";
+import { after, before, beforeEach, describe, it } from "node:test";
+import { TestSession } from "./harness.js";
+
+let session: TestSession;
+
+before(async () => {
+  session = await TestSession.open();
+});
+beforeEach(() => session.gitlab.reset());
+after(() => session.close());
+
+describe("tool calls", () => {
+  it("rejects an unknown tool", async () => {
+    const error = await session.callError("make_coffee", { project_id: "5" });
+
+    assert.equal(error.code, "error");
+    assert.equal(error.message, "Unknown tool: make_coffee");
+  });
+
+  it("reports missing arguments as invalid", async () => {
+    const error = await session.callError("get_project", {});
+
+    assert.equal(error.code, "invalid_arguments");
+    assert.match(error.message, /project_id/);
+    assert.equal(session.gitlab.requests.length, 0);
+  });
+
+  it("reports a token GitLab rejects", async () => {
+    session.gitlab.fail("GET", "/projects/:project", 401, { message: "401 Unauthorized" });
+
+    const error = await session.callError("get_project", { project_id: "5" });
+
+    assert.equal(error.code, "unauthorized");
+    assert.equal(error.status, 401);
+  });
+
+  it("reports rate limiting", async () => {
+    session.gitlab.fail("GET", "/projects/:project", 429, { message: "Retry later" });
+
+    const error = await session.callError("get_project", { project_id: "5" });
+
+    assert.equal(error.code, "rate_limited");
+  });
+});
+
+describe("tool list", () => {
+  it("lists every tool for a token with the api scope", async () => {
+    const tools = await session.listTools();
+    const names = tools.map((tool) => tool.name);
+
+    assert.ok(names.includes("get_project"));
+    assert.ok(names.includes("merge_merge_request"));
+  });
+
+  it("states the role a tool needs", async () => {
+    const tools = await session.listTools();
+    const deleteIssue = tools.find((tool) => tool.name === "delete_issue");
+
+    assert.match(deleteIssue?.description ?? "", /Requires the Owner role or higher in the project\.$/);
+  });
+
+  it("offers dry runs for mutating tools only", async () => {
+    const tools = await session.listTools();
+    const properties = (name: string) =>
+      (tools.find((tool) => tool.name === name)?.inputSchema.properties ?? {}) as Record<string, unknown>;
+
+    assert.ok("dry_run" in properties("create_issue"));
+    assert.ok(!("dry_run" in properties("get_issue")));
+  });
+
+  it("hides mutating tools from a read_api token", async () => {
+    session.gitlab.data.token.scopes = ["read_api"];
+    await session.reconnect();
+    try {
+      const names = (await session.listTools()).map((tool) => tool.name);
+
+      assert.ok(names.includes("get_project"));
+      assert.ok(!names.includes("create_issue"));
+    } finally {
+      session.gitlab.reset();
+      await session.reconnect();
+    }
+  });
+});
+
+describe("dry runs", () => {
+  /**
+   * Write requests the fake GitLab received
+   */
+  const writes = () => session.gitlab.requests.filter((request) => !["GET", "HEAD"].includes(request.method));
+
+  it("shows an update field by field without sending it", async () => {
+    const { request, description } = await session.preview("update_issue", {
+      project_id: "5",
+      issue_iid: 1,
+      title: "Renamed",
+      labels: ["bug", "ui"],
+    });
+
+    assert.equal(request.method, "PUT");
+    assert.match(request.url, /\/api\/v4\/projects\/5\/issues\/1$/);
+    assert.deepEqual(request.body, { title: "Renamed", labels: "bug,ui" });
+    assert.equal(
+      description,
+      'PUT /projects/5/issues/1\n~ title: "Crash on startup" -> "Renamed"\n~ labels: ["bug"] -> ["bug","ui"]'
+    );
+    assert.deepEqual(writes(), []);
+    assert.equal(session.gitlab.data.issues[0].title, "Crash on startup");
+  });
+
+  it("shows a file write as a diff", async () => {
+    const { description } = await session.preview("create_or_update_file", {
+      project_id: "5",
+      file_path: "src/index.ts",
+      branch: "main",
+      content: "export const answer = 42;\n",
+      commit_message: "Fix answer",
+    });
+
+    assert.equal(
+      description,
+      "Commit to main: Fix answer\n\n--- a/src/index.ts\n+++ b/src/index.ts\n@@ -1,1 +1,1 @@\n" +
+        "-export const answer = 41;\n+export const answer = 42;"
+    );
+    assert.deepEqual(writes(), []);
+    assert.equal(session.gitlab.data.files.main["src/index.ts"].toString(), "export const answer = 41;\n");
+  });
+
+  it("names what a deletion would delete", async () => {
+    const { description } = await session.preview("delete_issue", { project_id: "5", issue_iid: 2 });
+
+    assert.equal(description, 'DELETE /projects/5/issues/2\nWould delete "Add dark mode"');
+    assert.deepEqual(writes(), []);
+    assert.equal(session.gitlab.data.issues.length, 2);
+  });
+
+  it("still validates the arguments", async () => {
+    const error = await session.callError("update_issue", { project_id: "5", issue_iid: "one", dry_run: true });
+
+    assert.equal(error.code, "invalid_arguments");
+    assert.equal(session.gitlab.requests.length, 0);
+  });
+});